@@ -10,6 +10,7 @@ import _AcpModule, { AcpContractClientV2, baseAcpConfigV2, baseSepoliaAcpConfigV
 const AcpClient = (_AcpModule as any).default ?? _AcpModule;
 
 import { loadConfig } from './src/config.js';
+import { initStateStore } from './src/lib/state-store.js';
 import { initDedup, hasProcessed, hasJobMinted } from './src/lib/dedup.js';
 import { TWITTER_URL_REGEX } from './src/constants.js';
 
@@ -17,7 +18,8 @@ const dryRun = process.argv.includes('--dry-run');
 
 async function main() {
   const config = loadConfig();
-  initDedup(config.DATA_DIR);
+  initStateStore(config);
+  await initDedup();
 
   console.log(`Connecting to ACP (testnet=${config.ACP_TESTNET})...`);
 
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fetchAllActiveJobs, createFairRotation } from '../lib/active-jobs.js';
+
+// Mock logger
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function createPagedClient(total: number) {
+  const jobs = Array.from({ length: total }, (_, i) => ({ id: i + 1 }));
+  return {
+    getActiveJobs: vi.fn(async (page = 1, pageSize = 10) => jobs.slice((page - 1) * pageSize, page * pageSize)),
+  };
+}
+
+describe('fetchAllActiveJobs', () => {
+  it('walks pages until a short page', async () => {
+    const client = createPagedClient(25);
+    const jobs = await fetchAllActiveJobs(client, 10);
+
+    expect(jobs).toHaveLength(25);
+    expect(client.getActiveJobs).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops on an empty page when the total is a multiple of the page size', async () => {
+    const client = createPagedClient(20);
+    const jobs = await fetchAllActiveJobs(client, 10);
+
+    expect(jobs).toHaveLength(20);
+    expect(client.getActiveJobs).toHaveBeenCalledTimes(3);
+  });
+
+  it('respects the page limit', async () => {
+    const client = createPagedClient(100);
+    const jobs = await fetchAllActiveJobs(client, 10, 2);
+
+    expect(jobs).toHaveLength(20);
+    expect(client.getActiveJobs).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('createFairRotation', () => {
+  const items = Array.from({ length: 5 }, (_, i) => ({ id: i + 1 }));
+  const ids = (list: { id: number }[]) => list.map((j) => j.id);
+
+  it('returns everything when under the cap', () => {
+    const rotation = createFairRotation();
+    expect(ids(rotation.take(items, 10))).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('rotates through the backlog across calls', () => {
+    const rotation = createFairRotation();
+
+    expect(ids(rotation.take(items, 2))).toEqual([1, 2]);
+    expect(ids(rotation.take(items, 2))).toEqual([3, 4]);
+    expect(ids(rotation.take(items, 2))).toEqual([5, 1]);
+  });
+
+  it('resumes after the last taken id when the backlog changes', () => {
+    const rotation = createFairRotation();
+    rotation.take(items, 2);
+
+    // Job 3 finished, job 6 arrived
+    const next = [{ id: 1 }, { id: 2 }, { id: 4 }, { id: 5 }, { id: 6 }];
+    expect(ids(rotation.take(next, 2))).toEqual([4, 5]);
+  });
+});
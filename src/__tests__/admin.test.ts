@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import type http from 'http';
+import { handleAdminRequest, type AdminContext } from '../handlers/admin.js';
+import { createServer } from '../server.js';
+import { getNetworkProfile } from '../lib/network.js';
+import type { EmissionRun, PendingJob } from '../types.js';
+
+const pending = new Map<string, PendingJob>();
+const emissionRuns: EmissionRun[] = [];
+
+vi.mock('../lib/pending-jobs.js', () => ({
+  getAllPendingJobs: vi.fn(() => [...pending.values()]),
+  getPendingJobs: vi.fn(() => [...pending.values()].filter((j) => j.status !== 'completed' && j.status !== 'dead_letter')),
+  getDeadLetterJobs: vi.fn(() => [...pending.values()].filter((j) => j.status === 'dead_letter')),
+  getPendingJob: vi.fn((id: string) => pending.get(id)),
+  updatePendingJobStatus: vi.fn(async (id: string, status: PendingJob['status']) => {
+    const job = pending.get(id);
+    if (job) job.status = status;
+  }),
+  removePendingJob: vi.fn(async (id: string) => {
+    pending.delete(id);
+  }),
+  recordPendingJobError: vi.fn(),
+}));
+
+vi.mock('../handlers/publish.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../handlers/publish.js')>()),
+  retryPendingJob: vi.fn(),
+  rejectJobById: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('../emissions/ledger.js', () => ({
+  listRuns: vi.fn(async () => emissionRuns),
+  getRun: vi.fn(async (id: string) => emissionRuns.find((r) => r.runId === id) ?? null),
+}));
+
+vi.mock('../lib/dedup.js', () => ({
+  acquireProcessingLock: vi.fn().mockResolvedValue(() => {}),
+  getProcessedCount: vi.fn(() => 0),
+}));
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+import { retryPendingJob, rejectJobById } from '../handlers/publish.js';
+import { acquireProcessingLock } from '../lib/dedup.js';
+import { recordPendingJobError, updatePendingJobStatus } from '../lib/pending-jobs.js';
+
+function pendingJob(jobId: string, overrides?: Partial<PendingJob>): PendingJob {
+  return {
+    jobId,
+    tweetId: '123',
+    postUrl: 'https://x.com/user/status/123',
+    subnets: ['crypto', 'ai'],
+    buyerId: null,
+    status: 'accepted',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    retryCount: 0,
+    ...overrides,
+  };
+}
+
+function createContext() {
+  const job = { id: 7, deliver: vi.fn() };
+  const getJobById = vi.fn().mockResolvedValue(job);
+  const ctx = { clients: {}, session: {}, config: { NETWORK: getNetworkProfile('base') }, acp: { client: { getJobById } } } as unknown as AdminContext;
+  return { ctx, job, getJobById };
+}
+
+describe('handleAdminRequest', () => {
+  beforeEach(() => {
+    pending.clear();
+    vi.clearAllMocks();
+  });
+
+  it('lists and gets pending jobs', async () => {
+    pending.set('7', pendingJob('7'));
+
+    const list = await handleAdminRequest('GET', '/pending-jobs', {}, null);
+    expect(list.status).toBe(200);
+    expect((list.body.pendingJobs as PendingJob[]).map((j) => j.jobId)).toEqual(['7']);
+
+    const one = await handleAdminRequest('GET', '/pending-jobs/7', {}, null);
+    expect(one.body.pendingJob).toMatchObject({ jobId: '7' });
+
+    const missing = await handleAdminRequest('GET', '/pending-jobs/8', {}, null);
+    expect(missing.status).toBe(404);
+  });
+
+  it('returns 503 for ACP actions before the agent is ready', async () => {
+    pending.set('7', pendingJob('7'));
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/retry', {}, null);
+    expect(res.status).toBe(503);
+  });
+
+  it('force-retries under the processing lock', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7'));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/retry', {}, ctx);
+
+    expect(res.status).toBe(200);
+    expect(acquireProcessingLock).toHaveBeenCalledWith('123');
+    expect(retryPendingJob).toHaveBeenCalledWith(pending.get('7'), ctx.clients, ctx.session, ctx.config, ctx.acp);
+  });
+
+  it('records the error when a forced retry fails', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7'));
+    vi.mocked(retryPendingJob).mockRejectedValueOnce(new Error('RPC down'));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/retry', {}, ctx);
+
+    expect(res.status).toBe(502);
+    expect(recordPendingJobError).toHaveBeenCalledWith('7', 'RPC down');
+  });
+
+  it('refuses to retry while the tweet is being processed', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7'));
+    vi.mocked(acquireProcessingLock).mockResolvedValueOnce(null);
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/retry', {}, ctx);
+
+    expect(res.status).toBe(409);
+    expect(retryPendingJob).not.toHaveBeenCalled();
+  });
+
+  it('force-rejects via ACP and drops the job', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7'));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/reject', { reason: 'Stuck for 3 days' }, ctx);
+
+    expect(res.status).toBe(200);
+    expect(rejectJobById).toHaveBeenCalledWith(ctx.acp.client, '7', { code: 'ADMIN_REJECTED', message: 'Stuck for 3 days', retryable: false });
+    expect(pending.has('7')).toBe(false);
+  });
+
+  it('keeps the job when the ACP reject fails', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7'));
+    vi.mocked(rejectJobById).mockResolvedValueOnce(false);
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/reject', {}, ctx);
+
+    expect(res.status).toBe(502);
+    expect(pending.has('7')).toBe(true);
+  });
+
+  it('force-delivers from the recorded mint', async () => {
+    const { ctx, job } = createContext();
+    pending.set('7', pendingJob('7', {
+      status: 'minted',
+      mintTxHash: '0xabc',
+      podId: 350,
+      completedSubnets: ['crypto'],
+    }));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/deliver', {}, ctx);
+
+    expect(res.status).toBe(200);
+    expect(job.deliver).toHaveBeenCalledWith({
+      postUrl: 'https://x.com/user/status/123',
+      subnets: ['crypto'],
+      txHash: '0xabc',
+      podId: '350',
+      basescanUrl: 'https://basescan.org/tx/0xabc',
+      failedSubnets: ['ai'],
+    });
+    expect(updatePendingJobStatus).toHaveBeenCalledWith('7', 'delivered', { completedSubnets: ['crypto'] });
+    expect(pending.get('7')?.status).toBe('delivered');
+  });
+
+  it('clears fully delivered jobs from the WAL', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7', { status: 'minted', mintTxHash: '0xabc', podId: 350, completedSubnets: ['crypto', 'ai'] }));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/deliver', {}, ctx);
+
+    expect(res.status).toBe(200);
+    expect(acquireProcessingLock).toHaveBeenCalledWith('123');
+    expect(pending.has('7')).toBe(false);
+  });
+
+  it('reports subnets with no recorded submission as failed', async () => {
+    const { ctx, job } = createContext();
+    pending.set('7', pendingJob('7', { status: 'minted', mintTxHash: '0xabc', podId: 350 }));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/deliver', {}, ctx);
+
+    expect(res.status).toBe(200);
+    expect(job.deliver).toHaveBeenCalledWith(expect.objectContaining({ subnets: [], failedSubnets: ['crypto', 'ai'] }));
+    expect(pending.get('7')?.status).toBe('delivered');
+  });
+
+  it('refuses to deliver while the tweet is being processed', async () => {
+    const { ctx, job } = createContext();
+    pending.set('7', pendingJob('7', { status: 'minted', mintTxHash: '0xabc', podId: 350 }));
+    vi.mocked(acquireProcessingLock).mockResolvedValueOnce(null);
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/deliver', {}, ctx);
+
+    expect(res.status).toBe(409);
+    expect(job.deliver).not.toHaveBeenCalled();
+  });
+
+  it('refuses to deliver without a recorded mint', async () => {
+    const { ctx, job } = createContext();
+    pending.set('7', pendingJob('7'));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/deliver', {}, ctx);
+
+    expect(res.status).toBe(409);
+    expect(job.deliver).not.toHaveBeenCalled();
+  });
+
+  it('marks a job completed', async () => {
+    pending.set('7', pendingJob('7'));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/complete', {}, null);
+
+    expect(res.status).toBe(200);
+    expect(pending.get('7')?.status).toBe('completed');
+  });
+
+  it('refuses to retry dead-lettered jobs', async () => {
+    const { ctx } = createContext();
+    pending.set('7', pendingJob('7', { status: 'dead_letter', retryCount: 5 }));
+
+    const res = await handleAdminRequest('POST', '/pending-jobs/7/retry', {}, ctx);
+
+    expect(res.status).toBe(409);
+    expect(retryPendingJob).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown routes and methods', async () => {
+    expect((await handleAdminRequest('GET', '/other', {}, null)).status).toBe(404);
+    expect((await handleAdminRequest('DELETE', '/pending-jobs/7', {}, null)).status).toBe(405);
+  });
+
+  it('lists emission runs without their pod entries', async () => {
+    emissionRuns.length = 0;
+    emissionRuns.push({
+      runId: 'r1',
+      trigger: 'scheduled',
+      status: 'completed',
+      startedAt: '2025-01-01T00:00:00Z',
+      pods: [{ podId: 1, buyerWallet: '0xbuyer', claims: [], lastClaimedEpoch: 3, received: '5', status: 'transferred', legs: [] }],
+    });
+
+    const list = await handleAdminRequest('GET', '/emissions/runs', {}, null);
+    expect(list.status).toBe(200);
+    expect(list.body.runs).toEqual([expect.objectContaining({ runId: 'r1', podCount: 1 })]);
+    expect((list.body.runs as Record<string, unknown>[])[0].pods).toBeUndefined();
+
+    const one = await handleAdminRequest('GET', '/emissions/runs/r1', {}, null);
+    expect((one.body.run as EmissionRun).pods).toHaveLength(1);
+    expect((await handleAdminRequest('GET', '/emissions/runs/r2', {}, null)).status).toBe(404);
+  });
+
+  it('starts an emissions run unless one is in flight or the scheduler is off', async () => {
+    const { ctx } = createContext();
+    expect((await handleAdminRequest('POST', '/emissions/runs', {}, ctx)).status).toBe(409);
+
+    const trigger = vi.fn().mockReturnValueOnce(true).mockReturnValueOnce(false);
+    ctx.emissions = { trigger, running: vi.fn(), stop: vi.fn() };
+
+    const started = await handleAdminRequest('POST', '/emissions/runs', {}, ctx);
+    expect(started).toEqual({ status: 202, body: { started: true } });
+    expect(trigger).toHaveBeenCalledWith('admin');
+    expect((await handleAdminRequest('POST', '/emissions/runs', {}, ctx)).status).toBe(409);
+  });
+});
+
+describe('createServer admin routes', () => {
+  let server: http.Server;
+
+  const request = async (path: string, init?: RequestInit) => {
+    const { port } = server.address() as AddressInfo;
+    return fetch(`http://127.0.0.1:${port}${path}`, init);
+  };
+
+  const listen = (adminToken?: string) => new Promise<void>((resolve) => {
+    server = createServer({ port: 0, adminToken, getAdminContext: () => null });
+    server.once('listening', () => resolve());
+  });
+
+  beforeEach(() => {
+    pending.clear();
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('hides admin routes when no token is configured', async () => {
+    await listen();
+    const res = await request('/admin/pending-jobs', { headers: { Authorization: 'Bearer anything' } });
+    expect(res.status).toBe(404);
+  });
+
+  it('requires the bearer token', async () => {
+    await listen('s3cret');
+
+    expect((await request('/admin/pending-jobs')).status).toBe(401);
+    expect((await request('/admin/pending-jobs', { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+
+    const res = await request('/admin/pending-jobs', { headers: { Authorization: 'Bearer s3cret' } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ pendingJobs: [] });
+  });
+
+  it('lists dead-lettered jobs in health output', async () => {
+    await listen();
+    pending.set('7', pendingJob('7'));
+    pending.set('8', pendingJob('8', { status: 'dead_letter', retryCount: 5, lastError: 'boom' }));
+
+    const body = await (await request('/health')).json();
+    expect(body.pendingJobs).toBe(1);
+    expect(body.deadLetterJobs).toEqual([expect.objectContaining({ jobId: '8', retryCount: 5, lastError: 'boom' })]);
+  });
+
+  it('rejects malformed JSON bodies', async () => {
+    await listen('s3cret');
+    pending.set('7', pendingJob('7'));
+
+    const res = await request('/admin/pending-jobs/7/reject', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer s3cret' },
+      body: '{not json',
+    });
+    expect(res.status).toBe(400);
+  });
+});
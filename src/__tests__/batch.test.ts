@@ -0,0 +1,357 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handlePublishJob, retryPendingJob } from '../handlers/publish.js';
+import { getNetworkProfile } from '../lib/network.js';
+import { BUYER_ONLY_SPLIT } from '../emissions/payout.js';
+import type { PendingBatchItem, PendingJob } from '../types.js';
+
+const pending = new Map<string, PendingJob>();
+
+vi.mock('../lib/dedup.js', () => {
+  const processed = new Set<string>();
+  const minted = new Set<string>();
+  const locks = new Set<string>();
+  const contentPods = new Map<string, any>();
+  return {
+    hasProcessed: (id: string) => processed.has(id),
+    isProcessed: async (id: string) => processed.has(id),
+    markProcessed: vi.fn(async (id: string) => { processed.add(id); }),
+    acquireProcessingLock: vi.fn(async (id: string) => {
+      if (locks.has(id)) return null;
+      locks.add(id);
+      return () => { locks.delete(id); };
+    }),
+    hasJobMinted: async (id: string | number) => minted.has(String(id)),
+    markJobMinted: vi.fn(async (id: string | number) => { minted.add(String(id)); }),
+    claimMint: vi.fn(async (contentId: string, jobId?: string | number) => {
+      if ((jobId !== undefined && minted.has(String(jobId))) || processed.has(contentId)) return false;
+      if (jobId !== undefined) minted.add(String(jobId));
+      processed.add(contentId);
+      return true;
+    }),
+    releaseMintClaim: vi.fn(async (contentId: string, jobId?: string | number) => {
+      if (jobId !== undefined) minted.delete(String(jobId));
+      processed.delete(contentId);
+    }),
+    getContentPod: vi.fn(async (id: string) => contentPods.get(id) ?? null),
+    recordContentPod: vi.fn(async (pod: any) => {
+      const prev = contentPods.get(pod.contentId);
+      contentPods.set(pod.contentId, { ...prev, ...pod, subnets: [...new Set([...(prev?.subnets ?? []), ...pod.subnets])] });
+    }),
+    _reset: () => { processed.clear(); minted.clear(); locks.clear(); contentPods.clear(); },
+  };
+});
+
+vi.mock('../lib/pending-jobs.js', () => ({
+  savePendingJob: vi.fn(async (job: PendingJob) => { pending.set(job.jobId, job); }),
+  getPendingJob: vi.fn((id: string) => pending.get(id)),
+  getPendingJobs: vi.fn(() => [...pending.values()]),
+  updatePendingJobStatus: vi.fn(async (id: string, status: PendingJob['status'], extra?: Partial<PendingJob>) => {
+    const job = pending.get(id);
+    if (job) Object.assign(job, { status, ...extra });
+  }),
+  updateBatchItem: vi.fn(async (id: string, index: number, fields: Partial<PendingBatchItem>) => {
+    const item = pending.get(id)?.items?.[index];
+    if (item) Object.assign(item, fields);
+  }),
+  markBatchItemSubnetCompleted: vi.fn(async (id: string, index: number, subnetId: string) => {
+    const item = pending.get(id)?.items?.[index];
+    if (item) item.completedSubnets = [...(item.completedSubnets ?? []), subnetId];
+  }),
+  markSubnetCompleted: vi.fn(),
+  removePendingJob: vi.fn(async (id: string) => { pending.delete(id); }),
+  recordPendingJobError: vi.fn(),
+  isRetryDue: vi.fn().mockReturnValue(true),
+}));
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../sources/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../sources/index.js')>()),
+  fetchContent: vi.fn(),
+}));
+
+vi.mock('../chain.js', async (importOriginal) => {
+  const { MintSubmittedError } = await importOriginal<typeof import('../chain.js')>();
+  let n = 0;
+  return {
+    MintSubmittedError,
+    resolveMint: vi.fn(),
+    mintPod: vi.fn(async () => {
+      n += 1;
+      return { txHash: `0xtx${n}`, receipt: { status: 'success' }, podId: BigInt(100 + n) };
+    }),
+  };
+});
+
+vi.mock('../reppo.js', () => ({
+  submitPodMetadata: vi.fn().mockResolvedValue({ data: { id: 'pod-1' } }),
+  getOrCreateBuyerAgent: vi.fn().mockResolvedValue(null),
+  getSubnets: vi.fn().mockResolvedValue({ data: { privateSubnets: [] } }),
+  isDuplicateSubmissionError: () => false,
+  findPodsByMintTx: vi.fn().mockResolvedValue([]),
+  getPod: vi.fn(async (_config: unknown, id: string) => ({ data: { id } })),
+  reppoPodUrl: (_config: unknown, id: string) => `https://reppo.ai/pods/${id}`,
+}));
+
+vi.mock('../lib/pods.js', () => ({
+  savePod: vi.fn().mockResolvedValue(undefined),
+  getJobMint: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../pricing.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../pricing.js')>()),
+  checkJobPrice: vi.fn().mockResolvedValue({}),
+}));
+
+import { fetchContent } from '../sources/index.js';
+import { submitPodMetadata } from '../reppo.js';
+import { claimMint, markProcessed } from '../lib/dedup.js';
+import { checkJobPrice } from '../pricing.js';
+
+function createMockJob(content: Record<string, unknown>, overrides?: Record<string, unknown>) {
+  return {
+    id: 'job-1',
+    phase: 2 as number | undefined,
+    memos: [{ content: JSON.stringify(content) }],
+    accept: vi.fn().mockResolvedValue(undefined),
+    reject: vi.fn().mockResolvedValue(undefined),
+    deliver: vi.fn().mockResolvedValue(undefined),
+    evaluate: vi.fn().mockResolvedValue(undefined),
+    createRequirement: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+const mockClients = { account: { address: '0x1234567890abcdef1234567890abcdef12345678' }, network: getNetworkProfile('base') } as any;
+const mockSession = { agentId: 'agent-1', accessToken: 'token-1' };
+const mockConfig = {
+  REPPO_API_URL: 'https://reppo.ai/api/v1',
+  NETWORK: getNetworkProfile('base'),
+  PAYOUT_POLICY: { default: BUYER_ONLY_SPLIT, offerings: {} },
+} as any;
+
+describe('batch jobs', () => {
+  beforeEach(async () => {
+    const dedup = await import('../lib/dedup.js');
+    (dedup as any)._reset();
+    pending.clear();
+    vi.clearAllMocks();
+    vi.mocked(fetchContent).mockImplementation(async (url: string) => ({
+      platform: 'x',
+      category: 'social',
+      url,
+      text: `Post at ${url}`,
+      media: [],
+    }));
+  });
+
+  it('refuses invalid items and accepts the rest, listing the refused ones as failed', async () => {
+    await markProcessed('500');
+
+    const job = createMockJob({
+      subnet: 'crypto',
+      postUrls: [
+        'https://x.com/a/status/100',
+        'ftp://example.com/file',
+        'https://twitter.com/b/status/100',
+        'https://x.com/a/status/500',
+      ],
+    }, { phase: 0 });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(job.reject).not.toHaveBeenCalled();
+    const accepted = JSON.parse(job.accept.mock.calls[0][0]);
+    expect(accepted.message).toMatch(/^Processing 1 posts for pod minting\. 3 refused: /);
+    expect(accepted.message).toContain('#2 (ftp://example.com/file): unsupported post URL');
+    expect(accepted.message).toContain('#3 (https://twitter.com/b/status/100): same post as an earlier item');
+    expect(accepted.message).toContain('#4 (https://x.com/a/status/500): Tweet 500 already processed');
+    expect(accepted.items).toEqual([{ postUrl: 'https://x.com/a/status/100', contentId: '100', subnets: ['crypto'] }]);
+    expect(accepted.invalidItems).toEqual([
+      { index: 2, postUrl: 'ftp://example.com/file', code: 'UNSUPPORTED_URL', message: 'unsupported post URL' },
+      { index: 3, postUrl: 'https://twitter.com/b/status/100', code: 'DUPLICATE_POST', message: 'same post as an earlier item' },
+      { index: 4, postUrl: 'https://x.com/a/status/500', code: 'DUPLICATE_POST', message: 'Tweet 500 already processed' },
+    ]);
+    expect(checkJobPrice).toHaveBeenCalledWith(job, mockClients, mockConfig, { posts: 1, subnetSubmissions: 1 }, undefined);
+    expect(pending.get('job-1')!.items!.map((item) => item.status)).toEqual(['pending', 'invalid', 'invalid', 'invalid']);
+
+    // After payment only the valid post is minted; the refused ones are delivered as failed
+    job.phase = 2;
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(claimMint).toHaveBeenCalledTimes(1);
+    const deliverable = job.deliver.mock.calls[0][0];
+    expect(deliverable).toMatchObject({ minted: 1, failed: 3 });
+    expect(deliverable.items[1]).toEqual({ status: 'failed', postUrl: 'ftp://example.com/file', error: 'unsupported post URL' });
+  });
+
+  it('rejects the batch when no item is valid', async () => {
+    await markProcessed('500');
+
+    const job = createMockJob({
+      subnet: 'crypto',
+      postUrls: ['ftp://example.com/file', 'https://x.com/a/status/500'],
+    }, { phase: 0 });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(job.accept).not.toHaveBeenCalled();
+    const { error } = JSON.parse(job.reject.mock.calls[0][0]);
+    expect(error.code).toBe('INVALID_BATCH');
+    expect(error.message).toBe('Invalid batch: #1 (ftp://example.com/file): unsupported post URL; #2 (https://x.com/a/status/500): Tweet 500 already processed');
+    expect(error.details.items).toEqual([
+      { index: 1, postUrl: 'ftp://example.com/file', code: 'UNSUPPORTED_URL', message: 'unsupported post URL' },
+      { index: 2, postUrl: 'https://x.com/a/status/500', code: 'DUPLICATE_POST', message: 'Tweet 500 already processed' },
+    ]);
+  });
+
+  it('rejects batches over the size limit', async () => {
+    const job = createMockJob({
+      subnet: 'crypto',
+      postUrls: Array.from({ length: 21 }, (_, i) => `https://x.com/a/status/${i + 1}`),
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(JSON.parse(job.reject.mock.calls[0][0]).error).toEqual({
+      code: 'TOO_MANY_POSTS',
+      message: 'Too many posts (21). Maximum is 20.',
+      retryable: false,
+      details: { count: 21, max: 20 },
+    });
+  });
+
+  it('accepts and records every item in the WAL', async () => {
+    const job = createMockJob({
+      subnet: 'crypto',
+      postUrls: ['https://x.com/a/status/1', { postUrl: 'https://youtu.be/dQw4w9WgXcQ', subnets: ['video'], podName: 'Rick' }],
+    }, { phase: 0 });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(JSON.parse(job.accept.mock.calls[0][0]).message).toBe('Processing 2 posts for pod minting.');
+    expect(checkJobPrice).toHaveBeenCalledWith(job, mockClients, mockConfig, { posts: 2, subnetSubmissions: 2 }, undefined);
+    expect(JSON.parse(job.createRequirement.mock.calls[0][0]).message).toMatch(/^Batch pod minting for 2 posts\./);
+    const pj = pending.get('job-1')!;
+    expect(pj.tweetId).toBe('batch:job-1');
+    expect(pj.subnets).toEqual(['crypto', 'video']);
+    expect(pj.items).toEqual([
+      expect.objectContaining({ contentId: '1', subnets: ['crypto'], status: 'pending' }),
+      expect.objectContaining({ contentId: 'youtube:dQw4w9WgXcQ', subnets: ['video'], podName: 'Rick', status: 'pending' }),
+    ]);
+  });
+
+  it('mints each post and delivers per-item results with partial success', async () => {
+    vi.mocked(fetchContent).mockImplementation(async (url: string) => {
+      if (url.includes('/2')) throw new Error('Tweet 2 not found or not accessible');
+      return { platform: 'x', category: 'social', url, text: `Post at ${url}`, media: [] };
+    });
+    const job = createMockJob({
+      subnet: 'crypto',
+      postUrls: [
+        'https://x.com/a/status/1',
+        'https://x.com/a/status/2',
+        { postUrl: 'https://x.com/a/status/3', subnet: 'ai', podName: 'Third' },
+      ],
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(job.deliver).toHaveBeenCalledOnce();
+    const deliverable = job.deliver.mock.calls[0][0];
+    expect(deliverable.minted).toBe(2);
+    expect(deliverable.failed).toBe(1);
+    expect(deliverable.items).toEqual([
+      expect.objectContaining({ status: 'minted', postUrl: 'https://x.com/a/status/1', subnets: ['crypto'], txHash: expect.any(String) }),
+      { status: 'failed', postUrl: 'https://x.com/a/status/2', error: 'Tweet 2 not found or not accessible' },
+      expect.objectContaining({ status: 'minted', postUrl: 'https://x.com/a/status/3', subnets: ['ai'] }),
+    ]);
+    expect(deliverable.items[0].txHash).not.toBe(deliverable.items[2].txHash);
+    expect(deliverable.items[2]).toMatchObject({
+      reppoUrl: 'https://reppo.ai/pods/pod-1',
+      reppoUrls: { ai: 'https://reppo.ai/pods/pod-1' },
+    });
+
+    // Posts are claimed before their mint; the one that failed to fetch never is
+    expect(claimMint).toHaveBeenCalledWith('1');
+    expect(claimMint).toHaveBeenCalledWith('3');
+    expect(claimMint).not.toHaveBeenCalledWith('2');
+    expect(submitPodMetadata).toHaveBeenCalledWith(mockSession, mockConfig, expect.objectContaining({ title: 'Third', subnetId: 'ai' }));
+    // Every minted item landed on its subnets, so nothing is left in the WAL
+    expect(pending.has('job-1')).toBe(false);
+
+  });
+
+  it('does not deliver when nothing was minted', async () => {
+    vi.mocked(fetchContent).mockRejectedValue(new Error('fetch failed'));
+    const job = createMockJob({ subnet: 'crypto', postUrls: ['https://x.com/a/status/7'] });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(job.deliver).not.toHaveBeenCalled();
+    expect(pending.get('job-1')?.items?.[0]).toMatchObject({ status: 'failed', error: 'fetch failed' });
+
+  });
+
+  it('holds an item whose mint was sent but not confirmed and resolves it from the tx next run', async () => {
+    const { mintPod, resolveMint, MintSubmittedError } = await import('../chain.js');
+    const { releaseMintClaim } = await import('../lib/dedup.js');
+    vi.mocked(mintPod).mockImplementationOnce(async (_clients, options) => {
+      await options?.onSubmitted?.('0xsent');
+      throw new MintSubmittedError('Mint tx 0xsent receipt not available: timed out', '0xsent');
+    });
+    const job = createMockJob({ subnet: 'crypto', postUrls: ['https://x.com/a/status/1'] });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(job.deliver).not.toHaveBeenCalled();
+    expect(releaseMintClaim).not.toHaveBeenCalled();
+    expect(pending.get('job-1')?.items?.[0]).toMatchObject({ status: 'pending', mintTxHash: '0xsent' });
+
+    vi.mocked(resolveMint).mockResolvedValueOnce({ txHash: '0xsent', receipt: { status: 'success' } as any, podId: 7n });
+    const acp = { client: { getJobById: vi.fn().mockResolvedValue(job) } } as any;
+    await retryPendingJob(pending.get('job-1')!, mockClients, mockSession as any, mockConfig, acp);
+
+    expect(resolveMint).toHaveBeenCalledWith(mockClients, '0xsent');
+    expect(mintPod).toHaveBeenCalledOnce();
+    expect(job.deliver.mock.calls[0][0].items).toEqual([
+      expect.objectContaining({ status: 'minted', txHash: '0xsent', podId: '7' }),
+    ]);
+  });
+
+  it('follows up on subnets still missing after delivery', async () => {
+    const createNotification = vi.fn().mockResolvedValue(undefined);
+    const acp = { client: { getJobById: vi.fn().mockResolvedValue({ id: 9, createNotification }) } } as any;
+    pending.set('9', {
+      jobId: '9',
+      tweetId: 'batch:9',
+      postUrl: 'https://x.com/a/status/1',
+      subnets: ['crypto', 'ai'],
+      buyerId: null,
+      status: 'delivered',
+      createdAt: '2025-01-01T00:00:00Z',
+      updatedAt: '2025-01-01T00:00:00Z',
+      retryCount: 1,
+      items: [
+        { postUrl: 'https://x.com/a/status/1', contentId: '1', subnets: ['crypto', 'ai'], status: 'minted', mintTxHash: '0xa', podId: 1, completedSubnets: ['crypto'] },
+        { postUrl: 'https://x.com/a/status/2', contentId: '2', subnets: ['crypto'], status: 'failed', error: 'gone' },
+      ],
+    });
+
+    await retryPendingJob(pending.get('9')!, mockClients, mockSession as any, mockConfig, acp);
+
+    expect(submitPodMetadata).toHaveBeenCalledOnce();
+    expect(submitPodMetadata).toHaveBeenCalledWith(mockSession, mockConfig, expect.objectContaining({ subnetId: 'ai' }));
+    const memo = JSON.parse(createNotification.mock.calls[0][0]);
+    expect(memo.lateSubnets).toEqual([{ postUrl: 'https://x.com/a/status/1', subnets: ['ai'] }]);
+    expect(pending.has('9')).toBe(false);
+
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createChainPublicClient, parseRpcUrls } from '../lib/chain-client.js';
+import { getNetworkProfile } from '../lib/network.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+/** Endpoint that never answers (until the request is aborted) */
+const HANG = Symbol('hang');
+
+/** Fake JSON-RPC endpoints: host → eth_getBalance result (an Error makes the endpoint fail) */
+function stubRpc(balances: Record<string, string | Error | typeof HANG>) {
+  const fetchMock = vi.fn(async (url: string, init: { body: string; signal?: AbortSignal }) => {
+    const { id } = JSON.parse(init.body);
+    const result = balances[new URL(url).host];
+    if (result === HANG) {
+      return new Promise<Response>((_, reject) => init.signal?.addEventListener('abort', () => reject(new Error('aborted'))));
+    }
+    if (result instanceof Error) return new Response('bad gateway', { status: 502 });
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id, result }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+describe('chain-client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('parses comma-separated RPC URLs', () => {
+    expect(parseRpcUrls(' https://a.example , https://b.example,')).toEqual(['https://a.example', 'https://b.example']);
+    expect(parseRpcUrls(undefined)).toEqual([]);
+  });
+
+  it('uses the network profile chain, Base by default', () => {
+    const sepolia = getNetworkProfile('base-sepolia', { POD_CONTRACT: ADDRESS, REPPO_TOKEN: ADDRESS });
+
+    expect(createChainPublicClient().chain.id).toBe(8453);
+    expect(createChainPublicClient({ network: sepolia }).chain.id).toBe(84532);
+  });
+
+  it('falls back to the next endpoint when one fails', async () => {
+    const fetchMock = stubRpc({ 'a.example': new Error('down'), 'b.example': '0x2a' });
+    const client = createChainPublicClient({ rpcUrls: ['https://a.example', 'https://b.example'] });
+
+    expect(await client.getBalance({ address: ADDRESS })).toBe(42n);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toContain('https://b.example/');
+  });
+
+  it('returns a read once enough endpoints agree', async () => {
+    stubRpc({ 'a.example': '0x2a', 'b.example': '0x1', 'c.example': '0x2a' });
+    const client = createChainPublicClient({
+      rpcUrls: ['https://a.example', 'https://b.example', 'https://c.example'],
+      quorum: 2,
+    });
+
+    expect(await client.getBalance({ address: ADDRESS })).toBe(42n);
+  });
+
+  it('answers as soon as the quorum agrees, without waiting for slow endpoints', async () => {
+    stubRpc({ 'a.example': '0x2a', 'b.example': HANG, 'c.example': '0x2a' });
+    const client = createChainPublicClient({
+      rpcUrls: ['https://a.example', 'https://b.example', 'https://c.example'],
+      quorum: 2,
+    });
+
+    const started = Date.now();
+    expect(await client.getBalance({ address: ADDRESS })).toBe(42n);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('throws when endpoints disagree', async () => {
+    stubRpc({ 'a.example': '0x2a', 'b.example': '0x1' });
+    const client = createChainPublicClient({ rpcUrls: ['https://a.example', 'https://b.example'], quorum: 2 });
+
+    await expect(client.getBalance({ address: ADDRESS })).rejects.toThrow('RPC quorum not reached for eth_getBalance');
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { keccak256, toHex, pad, type TransactionReceipt } from 'viem';
-import { extractPodId, createClients } from '../chain.js';
+import { decodeFunctionData, keccak256, toHex, pad, type TransactionReceipt } from 'viem';
+import { ERC20_ABI, POD_ABI } from '../constants.js';
+import type { Clients } from '../types.js';
+import { extractPodId, createClients, mintPod, MintSubmittedError } from '../chain.js';
+import { getNetworkProfile } from '../lib/network.js';
 
 // Mock logger
 vi.mock('../lib/logger.js', () => ({
@@ -103,10 +106,90 @@ describe('createClients', () => {
 
   it('accepts custom RPC URL', () => {
     const pk = '0x' + 'a'.repeat(64);
-    const clients = createClients(pk, 'https://rpc.example.com');
+    const clients = createClients(pk, { rpcUrls: ['https://rpc.example.com'] });
 
     expect(clients.publicClient).toBeDefined();
     expect(clients.walletClient).toBeDefined();
   });
+
+  it('uses the testnet network profile', () => {
+    const pk = '0x' + 'a'.repeat(64);
+
+    const network = getNetworkProfile('base-sepolia', {
+      POD_CONTRACT: '0x1111111111111111111111111111111111111111',
+      REPPO_TOKEN: '0x2222222222222222222222222222222222222222',
+    });
+
+    expect(createClients(pk).publicClient.chain.id).toBe(8453);
+    const testnet = createClients(pk, { network });
+    expect(testnet.walletClient.chain?.id).toBe(84532);
+    expect(testnet.network.podContract).toBe('0x1111111111111111111111111111111111111111');
+  });
 });
 
+
+describe('mintPod', () => {
+  it('serializes AA mints so approve and mint from the same wallet never interleave', async () => {
+    const network = getNetworkProfile('base');
+    const aaWallet = '0x00000000000000000000000000000000000000aa';
+    const sent: string[] = [];
+    let nextPodId = 1n;
+
+    const sendTransaction = vi.fn(async ({ to, data }: { to: string; data: `0x${string}` }) => {
+      const abi = to === network.podContract ? POD_ABI : ERC20_ABI;
+      sent.push(decodeFunctionData({ abi, data }).functionName);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return `0x${sent.length}`;
+    });
+    const clients = {
+      network,
+      aaWalletAddress: aaWallet,
+      contractClient: { sessionKeyClient: { sendTransaction } },
+      publicClient: {
+        readContract: vi.fn(async ({ functionName }: { functionName: string }) => {
+          if (functionName === 'publishingFee') return 10n;
+          if (functionName === 'balanceOf') return 100n;
+          return 0n; // allowance: each mint approves its exact fee
+        }),
+        waitForTransactionReceipt: vi.fn(async () => ({
+          status: 'success',
+          blockNumber: 1n,
+          logs: [buildTransferLog('0x' + '0'.repeat(40), aaWallet, nextPodId++)],
+        })),
+      },
+    } as unknown as Clients;
+
+    await Promise.all([mintPod(clients), mintPod(clients)]);
+
+    expect(sent).toEqual(['approve', 'mintPod', 'approve', 'mintPod']);
+  });
+
+  function eoaClients(waitForTransactionReceipt: () => Promise<unknown>): Clients {
+    return {
+      network: getNetworkProfile('base'),
+      account: { address: '0x00000000000000000000000000000000000000ee' },
+      walletClient: { writeContract: vi.fn(async () => '0xmint') },
+      publicClient: { readContract: vi.fn(async () => 0n), waitForTransactionReceipt: vi.fn(waitForTransactionReceipt) },
+    } as unknown as Clients;
+  }
+
+  it('records the sent mint tx and keeps it in doubt when its receipt times out', async () => {
+    const onSubmitted = vi.fn(async () => {});
+    const clients = eoaClients(async () => { throw new Error('Timed out while waiting for transaction'); });
+
+    const err = await mintPod(clients, { onSubmitted }).catch((e) => e);
+
+    expect(onSubmitted).toHaveBeenCalledWith('0xmint');
+    expect(err).toBeInstanceOf(MintSubmittedError);
+    expect(err.txHash).toBe('0xmint');
+  });
+
+  it('reports a reverted mint as a plain error, since nothing was minted', async () => {
+    const clients = eoaClients(async () => ({ status: 'reverted', logs: [] }));
+
+    const err = await mintPod(clients).catch((e) => e);
+
+    expect(err).not.toBeInstanceOf(MintSubmittedError);
+    expect(err.message).toBe('Mint transaction reverted: 0xmint');
+  });
+});
@@ -24,6 +24,8 @@ describe('loadConfig', () => {
     delete process.env['POLL_INTERVAL_MS'];
     delete process.env['HEALTH_PORT'];
     delete process.env['ACP_TESTNET'];
+    delete process.env['POD_CONTRACT'];
+    delete process.env['REPPO_TOKEN'];
   });
 
   afterEach(() => {
@@ -60,6 +62,8 @@ describe('loadConfig', () => {
     process.env['RPC_URL'] = 'https://rpc.example.com';
     process.env['HEALTH_PORT'] = '8080';
     process.env['ACP_TESTNET'] = 'true';
+    process.env['POD_CONTRACT'] = '0x1111111111111111111111111111111111111111';
+    process.env['REPPO_TOKEN'] = '0x2222222222222222222222222222222222222222';
     const { loadConfig } = await import('../config.js');
     const config = loadConfig();
 
@@ -67,6 +71,8 @@ describe('loadConfig', () => {
     expect(config.RPC_URL).toBe('https://rpc.example.com');
     expect(config.HEALTH_PORT).toBe(8080);
     expect(config.ACP_TESTNET).toBe(true);
+    expect(config.NETWORK.name).toBe('base-sepolia');
+    expect(config.NETWORK.podContract).toBe('0x1111111111111111111111111111111111111111');
   });
 
   it('throws on invalid private key format', async () => {
@@ -0,0 +1,513 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { decodeFunctionData, encodeAbiParameters, encodeEventTopics, getAddress, type Address } from 'viem';
+import { runEmissionsClaim, type EmissionsClients } from '../emissions/claim.js';
+import { lastScheduledRun, msUntilNextRun } from '../emissions/scheduler.js';
+import { listRuns } from '../emissions/ledger.js';
+import { getStateStore, initStateStore } from '../lib/state-store.js';
+import { getNetworkProfile } from '../lib/network.js';
+import { parsePayoutSplit } from '../emissions/payout.js';
+import { getPendingPayouts } from '../emissions/pending.js';
+import { EPOCH_DURATION, ERC20_ABI, POD_ABI } from '../constants.js';
+import type { PendingPayout, PodEpochClaim, PodRecord } from '../lib/pods.js';
+
+const pods = new Map<number, PodRecord>();
+
+vi.mock('../lib/pods.js', () => ({
+  getAllPods: vi.fn(async () => [...pods.values()]),
+  getPod: vi.fn(async (podId: number) => pods.get(podId) ?? null),
+  getPodsByWallet: vi.fn(async (wallet: string) => [...pods.values()].filter((p) => p.buyerWallet === wallet)),
+  recordPodEpochClaims: vi.fn(async (podId: number, claims: PodEpochClaim[]) => {
+    const pod = pods.get(podId)!;
+    pod.epochClaims = [...(pod.epochClaims ?? []), ...claims];
+  }),
+  holdPodPayout: vi.fn(async (podId: number, payout: PendingPayout) => {
+    const pod = pods.get(podId)!;
+    pod.pendingPayouts = [...(pod.pendingPayouts ?? []), payout];
+  }),
+  releasePodPayouts: vi.fn(async (podId: number) => {
+    pods.get(podId)!.pendingPayouts = [];
+  }),
+  updatePodEmissions: vi.fn(async (podId: number, epoch: number, amount: number) => {
+    const pod = pods.get(podId)!;
+    pod.lastClaimedEpoch = epoch;
+    pod.totalEmissions = (pod.totalEmissions ?? 0) + amount;
+  }),
+}));
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const network = getNetworkProfile('base');
+const AA_WALLET = '0x00000000000000000000000000000000000000aa' as Address;
+const BUYER = getAddress('0x00000000000000000000000000000000000000b1');
+const ONE = 10n ** 18n;
+const EMISSIONS_VAULT = '0x00000000000000000000000000000000000000e1' as Address;
+const TREASURY = getAddress('0x00000000000000000000000000000000000000f1');
+
+// Epoch 5 is current, so epochs up to 3 are claimable
+const initTimestamp = BigInt(Math.floor(Date.now() / 1000) - 5 * EPOCH_DURATION - 60);
+
+function reppoTransferLog(to: Address, value: bigint) {
+  return {
+    address: network.reppoToken,
+    topics: encodeEventTopics({ abi: ERC20_ABI, eventName: 'Transfer', args: { from: EMISSIONS_VAULT, to } }),
+    data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  };
+}
+
+type Call = { to: string; data: `0x${string}` };
+
+/** Chain double: pod 1 earns 1 REPPO in epoch 2 and 2 REPPO in epoch 3 */
+function createChain(options: { claimLogs?: boolean; onClaim?: () => void } = {}) {
+  const { claimLogs = true } = options;
+  const claimed = new Set<string>();
+  const emissions = new Map<string, bigint>([['1:2', ONE], ['1:3', 2n * ONE]]);
+  const revertingClaims = new Set<string>();
+  const transfers: { to: string; amount: bigint }[] = [];
+  const logs = new Map<string, ReturnType<typeof reppoTransferLog>[]>();
+  const userOps = new Map<string, { txHash: string; success: boolean; logs: ReturnType<typeof reppoTransferLog>[] }>();
+  let balance = 0n;
+  let failTransfers = 0;
+  let failTransfersTo: string | null = null;
+  let txCount = 0;
+  // Transfer batches whose result is lost on our side (they still execute), and sends that fail before reaching the bundler
+  let loseTransferResults = false;
+  let loseClaimResults = false;
+  let failTransferSends = false;
+  const lost = new Set<string>();
+
+  const publicClient = {
+    readContract: vi.fn(async ({ functionName, args }: { functionName: string; args?: bigint[] }) => {
+      switch (functionName) {
+        case 'initialisedTimestamp': return initTimestamp;
+        case 'hasPodOwnerClaimedEmissions': return claimed.has(`${args![1]}:${args![0]}`);
+        case 'getPodEmissionsOfEpoch': return emissions.get(`${args![1]}:${args![0]}`) ?? 0n;
+        case 'balanceOf': return balance;
+        default: throw new Error(`unexpected read ${functionName}`);
+      }
+    }),
+    waitForTransactionReceipt: vi.fn(async ({ hash }: { hash: string }) => ({ status: 'success', logs: logs.get(hash) ?? [] })),
+  };
+
+  /** Throws where the call would revert, without changing state */
+  function check({ to, data }: Call): void {
+    if (to === network.podContract) {
+      const [podId, epoch] = decodeFunctionData({ abi: POD_ABI, data }).args as [bigint, bigint];
+      if (revertingClaims.has(`${podId}:${epoch}`) || claimed.has(`${podId}:${epoch}`)) throw new Error('execution reverted');
+      return;
+    }
+    const [recipient] = decodeFunctionData({ abi: ERC20_ABI, data }).args as [string, bigint];
+    if (failTransfers > 0 || recipient === failTransfersTo) throw new Error('paymaster rejected user operation');
+  }
+
+  function execute({ to, data }: Call) {
+    if (to === network.podContract) {
+      const [podId, epoch] = decodeFunctionData({ abi: POD_ABI, data }).args as [bigint, bigint];
+      const amount = emissions.get(`${podId}:${epoch}`) ?? 0n;
+      claimed.add(`${podId}:${epoch}`);
+      balance += amount;
+      options.onClaim?.();
+      // A bundle receipt also carries logs for other wallets
+      return claimLogs ? [reppoTransferLog(AA_WALLET, amount), reppoTransferLog(BUYER, 7n)] : [];
+    }
+    const [recipient, amount] = decodeFunctionData({ abi: ERC20_ABI, data }).args as [string, bigint];
+    balance -= amount;
+    transfers.push({ to: recipient, amount });
+    return [];
+  }
+
+  const aaClient = {
+    sendTransaction: vi.fn(async (call: Call) => {
+      try {
+        check(call);
+      } catch (err) {
+        failTransfers = Math.max(0, failTransfers - 1);
+        throw err;
+      }
+      const hash = `0x7a${++txCount}`;
+      logs.set(hash, execute(call));
+      if (loseClaimResults && call.to === network.podContract) throw new Error('Request timed out');
+      return hash;
+    }),
+    // Batches are atomic: one reverting call reverts them all
+    sendUserOperation: vi.fn(async ({ uo }: { uo: { target: string; data: `0x${string}` }[] }) => {
+      const calls = uo.map((op) => ({ to: op.target, data: op.data }));
+      const transfers = calls.every((call) => call.to === network.reppoToken);
+      if (transfers && failTransferSends) throw new Error('fetch failed');
+      const hash = `0x0b${userOps.size + 1}`;
+      if (transfers && loseTransferResults) lost.add(hash);
+      const txHash = `0x7a${++txCount}`;
+      try {
+        calls.forEach(check);
+        userOps.set(hash, { txHash, success: true, logs: calls.flatMap(execute) });
+      } catch {
+        if (transfers) failTransfers = Math.max(0, failTransfers - 1);
+        userOps.set(hash, { txHash, success: false, logs: [] });
+      }
+      return { hash };
+    }),
+    waitForUserOperationTransaction: vi.fn(async ({ hash }: { hash: string }) => {
+      if (lost.has(hash)) throw new Error('Timed out waiting for user operation');
+      return userOps.get(hash)!.txHash;
+    }),
+    getUserOperationReceipt: vi.fn(async (hash: string) => {
+      const op = userOps.get(hash);
+      return op && !lost.has(hash) ? { ...op, receipt: { transactionHash: op.txHash } } : null;
+    }),
+  };
+
+  const clients: EmissionsClients = { publicClient, aaClient, aaWalletAddress: AA_WALLET, network };
+  return {
+    clients,
+    aaClient,
+    transfers,
+    failNextTransfers: (n: number) => { failTransfers = n; },
+    failTransfersTo: (wallet: string | null) => { failTransfersTo = wallet; },
+    revertClaim: (podId: number, epoch: number) => { revertingClaims.add(`${podId}:${epoch}`); },
+    loseTransferResults: (lose: boolean) => { loseTransferResults = lose; if (!lose) lost.clear(); },
+    failTransferSends: (fail: boolean) => { failTransferSends = fail; },
+    loseClaimResults: (lose: boolean) => { loseClaimResults = lose; },
+    emissions,
+    spend: (amount: bigint) => { balance -= amount; },
+  };
+}
+
+describe('runEmissionsClaim', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reppo-emissions-'));
+    initStateStore({ STATE_BACKEND: 'file', DATA_DIR: dir, STATE_TABLE_NAME: 'unused', AWS_REGION: 'us-east-1' });
+    pods.clear();
+    pods.set(1, { podId: 1, buyerWallet: BUYER, mintTxHash: '0xmint', createdAt: new Date(Number(initTimestamp) * 1000).toISOString() });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('claims, forwards to the buyer and records the run', async () => {
+    const chain = createChain();
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'cli' });
+
+    expect(run).toMatchObject({ status: 'completed', trigger: 'cli', currentEpoch: 5, maxClaimableEpoch: 3 });
+    expect(run!.pods).toEqual([expect.objectContaining({
+      podId: 1,
+      status: 'transferred',
+      lastClaimedEpoch: 3,
+      received: (3n * ONE).toString(),
+      claims: [
+        expect.objectContaining({ epoch: 2, received: ONE.toString(), source: 'transfer-log' }),
+        expect.objectContaining({ epoch: 3, received: (2n * ONE).toString(), source: 'transfer-log' }),
+      ],
+    })]);
+    expect(run!.reconciliation).toMatchObject({ expectedDelta: '0', actualDelta: '0', matched: true });
+    expect(run!.totals).toMatchObject({ claimed: (3n * ONE).toString(), transferred: (3n * ONE).toString(), outstanding: '0' });
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+    expect(pods.get(1)).toMatchObject({ lastClaimedEpoch: 3, totalEmissions: 3 });
+    expect(pods.get(1)!.epochClaims).toEqual([
+      expect.objectContaining({ epoch: 2, amount: ONE.toString(), txHash: '0x7a1' }),
+      expect.objectContaining({ epoch: 3, amount: (2n * ONE).toString(), txHash: '0x7a1' }),
+    ]);
+
+    const [stored] = await listRuns();
+    expect(stored).toMatchObject({ runId: run!.runId, status: 'completed' });
+  });
+
+  it('retries a failed transfer in the next run and marks it carried over', async () => {
+    const chain = createChain();
+    chain.failNextTransfers(1);
+
+    const first = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+    expect(first).toMatchObject({ status: 'partial', totals: { outstanding: (3n * ONE).toString(), failedTransfers: 1 } });
+    expect(chain.transfers).toEqual([]);
+    // Epochs are claimed even though the REPPO is still in the AA wallet
+    expect(pods.get(1)).toMatchObject({ lastClaimedEpoch: 3, totalEmissions: 0 });
+
+    const second = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+    expect(second).toMatchObject({ status: 'completed', totals: { claimed: '0', transferred: (3n * ONE).toString() } });
+    expect(second!.pods).toEqual([expect.objectContaining({ podId: 1, status: 'transferred', resumedFrom: first!.runId })]);
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+    expect(pods.get(1)).toMatchObject({ totalEmissions: 3 });
+
+    const earlier = (await listRuns()).find((r) => r.runId === first!.runId)!;
+    expect(earlier.pods[0]).toMatchObject({ status: 'carried_over', carriedTo: second!.runId });
+    expect(earlier.totals?.outstanding).toBe('0');
+  });
+
+  it('splits payouts per the pod\'s recorded split and summarizes them per run', async () => {
+    pods.get(1)!.payoutSplit = parsePayoutSplit('buyer:80,treasury:20', TREASURY);
+    const chain = createChain();
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toEqual([
+      { to: BUYER, amount: (24n * ONE) / 10n },
+      { to: TREASURY, amount: (6n * ONE) / 10n },
+    ]);
+    expect(run!.totals).toMatchObject({
+      transferred: (3n * ONE).toString(),
+      payouts: { buyer: ((24n * ONE) / 10n).toString(), treasury: ((6n * ONE) / 10n).toString(), referrer: '0' },
+    });
+    // Only the buyer's share counts toward the pod's emissions total
+    expect(pods.get(1)).toMatchObject({ totalEmissions: 2.4 });
+  });
+
+  it('resumes only the payout legs that failed', async () => {
+    pods.get(1)!.payoutSplit = parsePayoutSplit('buyer:80,treasury:20', TREASURY);
+    const chain = createChain();
+    chain.failTransfersTo(TREASURY);
+
+    const first = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+    expect(first!.pods[0].legs.map((l) => l.status)).toEqual(['transferred', 'failed']);
+    expect(first!.totals).toMatchObject({ outstanding: ((6n * ONE) / 10n).toString(), failedTransfers: 1 });
+
+    chain.failTransfersTo(null);
+    const second = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(second!.pods).toEqual([expect.objectContaining({
+      status: 'transferred',
+      received: ((6n * ONE) / 10n).toString(),
+      legs: [expect.objectContaining({ recipient: 'treasury', status: 'transferred' })],
+    })]);
+    expect(chain.transfers.map((t) => t.to)).toEqual([BUYER, TREASURY]);
+    expect(pods.get(1)).toMatchObject({ totalEmissions: 2.4 });
+  });
+
+  it('batches claims and per-wallet transfers into user operations', async () => {
+    const otherBuyer = getAddress('0x00000000000000000000000000000000000000b2');
+    pods.set(2, { ...pods.get(1)!, podId: 2, buyerWallet: otherBuyer });
+    pods.set(3, { ...pods.get(1)!, podId: 3 });
+    const chain = createChain();
+    chain.emissions.set('2:2', ONE).set('3:3', ONE);
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', batch: { claims: 2, transfers: 20 } });
+
+    expect(run).toMatchObject({ status: 'completed', totals: { claimed: (5n * ONE).toString(), outstanding: '0' } });
+    // Four claims in two operations, then one transfer per wallet in a third
+    expect(chain.aaClient.sendUserOperation).toHaveBeenCalledTimes(3);
+    expect(chain.aaClient.sendTransaction).not.toHaveBeenCalled();
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 4n * ONE }, { to: otherBuyer, amount: ONE }]);
+    expect(run!.pods.map((p) => p.received)).toEqual([(3n * ONE).toString(), ONE.toString(), ONE.toString()]);
+    expect(pods.get(3)).toMatchObject({ lastClaimedEpoch: 3, totalEmissions: 1 });
+  });
+
+  it('falls back to single calls when a batch reverts', async () => {
+    const chain = createChain();
+    chain.revertClaim(1, 3);
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(run!.pods[0].claims).toEqual([
+      expect.objectContaining({ epoch: 2, received: ONE.toString(), txHash: '0x7a2' }),
+      expect.objectContaining({ epoch: 3, error: 'execution reverted' }),
+    ]);
+    // The single claims go out as transactions, the transfer as a single-call user operation
+    expect(chain.aaClient.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(chain.aaClient.sendUserOperation).toHaveBeenCalledTimes(2);
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: ONE }]);
+    expect(pods.get(1)).toMatchObject({ lastClaimedEpoch: 2, totalEmissions: 1 });
+  });
+
+  it('leaves a batched transfer with an unknown outcome pending and settles it from its receipt', async () => {
+    pods.get(1)!.payoutSplit = parsePayoutSplit('buyer:80,treasury:20', TREASURY);
+    const chain = createChain();
+    chain.loseTransferResults(true);
+
+    const first = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    // The batch landed, but nothing is paid again on our side while its outcome is unknown
+    expect(chain.aaClient.sendTransaction).not.toHaveBeenCalled();
+    expect(chain.transfers).toHaveLength(2);
+    expect(first!.pods[0].legs).toEqual([
+      expect.objectContaining({ recipient: 'buyer', status: 'pending', userOpHash: '0x0b2' }),
+      expect.objectContaining({ recipient: 'treasury', status: 'pending', userOpHash: '0x0b2' }),
+    ]);
+    expect(first!.totals).toMatchObject({ outstanding: (3n * ONE).toString(), failedTransfers: 0 });
+
+    chain.loseTransferResults(false);
+    const second = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toHaveLength(2);
+    expect(chain.aaClient.sendUserOperation).toHaveBeenCalledTimes(2);
+    expect(second!.pods).toEqual([expect.objectContaining({ status: 'transferred', resumedFrom: first!.runId })]);
+    expect(second!.pods[0].legs.every((l) => l.status === 'transferred' && l.txHash === '0x7a2' && !l.userOpHash)).toBe(true);
+    expect(pods.get(1)).toMatchObject({ totalEmissions: 2.4 });
+  });
+
+  it('leaves a single transfer with an unknown outcome pending instead of failed', async () => {
+    const chain = createChain();
+    chain.loseTransferResults(true);
+
+    const first = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+    expect(first!.pods[0].legs).toEqual([expect.objectContaining({ status: 'pending', userOpHash: '0x0b2' })]);
+    expect(first!.totals).toMatchObject({ failedTransfers: 0 });
+
+    chain.loseTransferResults(false);
+    const second = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toHaveLength(1);
+    expect(second!.pods[0]).toMatchObject({ status: 'transferred', legs: [expect.objectContaining({ status: 'transferred' })] });
+  });
+
+  it('does not resend a single claim that failed on our side, and counts it once it shows as claimed', async () => {
+    const chain = createChain();
+    chain.loseClaimResults(true);
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', batch: { claims: 1, transfers: 20 } });
+
+    expect(chain.aaClient.sendTransaction).toHaveBeenCalledTimes(2);
+    expect(run!.pods[0].claims).toEqual([
+      expect.objectContaining({ epoch: 2, received: ONE.toString(), source: 'contract' }),
+      expect.objectContaining({ epoch: 3, received: (2n * ONE).toString(), source: 'contract' }),
+    ]);
+    expect(run!.pods[0].claims.some((c) => c.error)).toBe(false);
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+  });
+
+  it('does not resend or fall back when a batched transfer send fails on the network', async () => {
+    pods.get(1)!.payoutSplit = parsePayoutSplit('buyer:80,treasury:20', TREASURY);
+    const chain = createChain();
+    chain.failTransferSends(true);
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toEqual([]);
+    expect(chain.aaClient.sendTransaction).not.toHaveBeenCalled();
+    expect(run!.pods[0].legs.map((l) => l.status)).toEqual(['pending', 'pending']);
+    expect(run!.pods[0].legs[0].error).toContain('may still land');
+  });
+
+  it('holds buyer payouts below the minimum and pays them once the buyer\'s pods reach it', async () => {
+    const chain = createChain();
+    const minPayout = 4n * ONE;
+
+    const first = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', minPayout });
+
+    expect(first).toMatchObject({ status: 'completed', totals: { claimed: (3n * ONE).toString(), transferred: '0', outstanding: '0', held: (3n * ONE).toString() } });
+    expect(first!.pods[0]).toMatchObject({ status: 'held', legs: [{ recipient: 'buyer', status: 'held' }] });
+    expect(chain.transfers).toEqual([]);
+    expect(pods.get(1)).toMatchObject({ lastClaimedEpoch: 3, totalEmissions: 0 });
+    expect(pods.get(1)!.pendingPayouts).toEqual([expect.objectContaining({ runId: first!.runId, amount: (3n * ONE).toString(), epoch: 3 })]);
+    // Buyers can look their balance up by wallet, in any casing
+    expect(await getPendingPayouts(BUYER.toLowerCase(), minPayout)).toMatchObject({
+      pending: (3n * ONE).toString(),
+      minPayout: minPayout.toString(),
+      pods: [{ podId: 1, pending: (3n * ONE).toString() }],
+    });
+
+    // A second pod of the same buyer earns 2 REPPO: 5 in total, paid as one transfer
+    pods.set(2, { ...pods.get(1)!, podId: 2, lastClaimedEpoch: 2, totalEmissions: 0, pendingPayouts: undefined });
+    chain.emissions.set('2:3', 2n * ONE);
+    const second = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', minPayout });
+
+    expect(second).toMatchObject({ status: 'completed', totals: { claimed: (2n * ONE).toString(), transferred: (5n * ONE).toString(), held: '0' } });
+    expect(second!.pods).toEqual([
+      expect.objectContaining({ podId: 2, status: 'transferred' }),
+      expect.objectContaining({ podId: 1, status: 'transferred', releasesPending: true, received: (3n * ONE).toString() }),
+    ]);
+    expect(second!.reconciliation).toMatchObject({ matched: true });
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 5n * ONE }]);
+    expect(pods.get(1)).toMatchObject({ pendingPayouts: [], totalEmissions: 3 });
+    expect(pods.get(2)).toMatchObject({ lastClaimedEpoch: 3, totalEmissions: 2 });
+    expect(await getPendingPayouts(BUYER, minPayout)).toMatchObject({ pending: '0', pods: [] });
+  });
+
+  it('saves each released balance to the run before releasing the next pod', async () => {
+    const chain = createChain();
+    const minPayout = 4n * ONE;
+    await runEmissionsClaim(chain.clients, { trigger: 'scheduled', minPayout });
+
+    pods.set(2, { ...pods.get(1)!, podId: 2, lastClaimedEpoch: 2, totalEmissions: 0, pendingPayouts: [{ runId: 'earlier', amount: ONE.toString(), epoch: 1, heldAt: '' }] });
+    chain.emissions.set('2:3', 2n * ONE);
+    const { releasePodPayouts } = await import('../lib/pods.js');
+    let saved: number[] = [];
+    vi.mocked(releasePodPayouts)
+      .mockImplementationOnce(async (podId) => { pods.get(podId)!.pendingPayouts = []; })
+      .mockImplementationOnce(async (podId) => {
+        saved = (await listRuns()).flatMap((r) => r.pods.filter((p) => p.releasesPending).map((p) => p.podId));
+        pods.get(podId)!.pendingPayouts = [];
+      });
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', minPayout });
+
+    expect(saved).toEqual([1]);
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 6n * ONE }]);
+    expect(run!.pods.filter((p) => p.releasesPending).map((p) => p.podId)).toEqual([1, 2]);
+  });
+
+  it('pays the treasury share while the buyer\'s share is held', async () => {
+    pods.get(1)!.payoutSplit = parsePayoutSplit('buyer:80,treasury:20', TREASURY);
+    const chain = createChain();
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled', minPayout: 4n * ONE });
+
+    expect(chain.transfers).toEqual([{ to: TREASURY, amount: (6n * ONE) / 10n }]);
+    expect(run!.pods[0].legs.map((l) => l.status)).toEqual(['held', 'transferred']);
+    expect(run!.totals).toMatchObject({ held: ((24n * ONE) / 10n).toString(), outstanding: '0' });
+  });
+
+  it('attributes claims from receipts when the wallet balance moves concurrently, and flags the mismatch', async () => {
+    // A mint fee paid from the AA wallet between claims
+    const chain = createChain({ onClaim: () => chain.spend(ONE / 2n) });
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+    expect(run!.reconciliation).toMatchObject({ expectedDelta: '0', actualDelta: (-ONE).toString(), matched: false });
+  });
+
+  it('falls back to getPodEmissionsOfEpoch when the receipt has no REPPO Transfer', async () => {
+    const chain = createChain({ claimLogs: false });
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'scheduled' });
+
+    expect(run!.pods[0].claims.map((c) => c.source)).toEqual(['contract', 'contract']);
+    expect(chain.transfers).toEqual([{ to: BUYER, amount: 3n * ONE }]);
+  });
+
+  it('does not send or record anything on a dry run', async () => {
+    const chain = createChain();
+
+    const run = await runEmissionsClaim(chain.clients, { trigger: 'cli', dryRun: true });
+
+    expect(run?.pods).toEqual([]);
+    expect(chain.clients.aaClient.sendTransaction).not.toHaveBeenCalled();
+    expect(await listRuns()).toEqual([]);
+  });
+
+  it('skips when another run holds the claim lock', async () => {
+    const chain = createChain();
+    await getStateStore().acquireLock('emissions-claim', 60_000);
+
+    expect(await runEmissionsClaim(chain.clients, { trigger: 'admin' })).toBeNull();
+    expect(chain.clients.aaClient.sendTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('emissions schedule', () => {
+  const init = 1_700_000_000n;
+  const epochMs = EPOCH_DURATION * 1000;
+  const delay = 10 * 60 * 1000;
+
+  it('aligns runs to the epoch boundary plus the delay', () => {
+    const boundary = Number(init) * 1000 + 3 * epochMs;
+
+    expect(lastScheduledRun(init, boundary + delay + 1, delay)).toBe(boundary + delay);
+    expect(lastScheduledRun(init, boundary + delay - 1, delay)).toBe(boundary - epochMs + delay);
+    expect(msUntilNextRun(init, boundary, delay)).toBe(delay);
+    expect(msUntilNextRun(init, boundary + delay, delay)).toBe(epochMs);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { evaluateDelivery, findDeliverable, VerificationUnavailableError } from '../evaluate.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../lib/verify.js', () => ({
+  verifyPodMint: vi.fn(),
+}));
+
+vi.mock('../lib/pods.js', () => ({
+  getPod: vi.fn(),
+}));
+
+const getContentPod = vi.fn();
+vi.mock('../lib/state-store.js', () => ({
+  getStateStore: () => ({ getContentPod }),
+}));
+
+vi.mock('../reppo.js', () => ({
+  getPod: vi.fn(),
+  findPodsByMintTx: vi.fn(),
+}));
+
+import { verifyPodMint } from '../lib/verify.js';
+import { getPod as getPodRecord } from '../lib/pods.js';
+import { getPod as getReppoPod, findPodsByMintTx } from '../reppo.js';
+
+const clients = {
+  account: { address: '0x1111111111111111111111111111111111111111' },
+  publicClient: {},
+  network: { podContract: '0xcfF0511089D0Fbe92E1788E4aFFF3E7930b3D47c' },
+  aaWalletAddress: '0xaa00000000000000000000000000000000000000',
+} as any;
+const config = { ACP_TESTNET: false } as any;
+
+const deliverable = {
+  postUrl: 'https://x.com/user/status/123',
+  subnets: ['1', '2'],
+  txHash: '0xabc',
+  podId: '42',
+  basescanUrl: 'https://basescan.org/tx/0xabc',
+};
+
+function createJob(memos: unknown[], id = 7) {
+  return {
+    id,
+    memos: memos.map((m) => ({ content: typeof m === 'string' ? m : JSON.stringify(m) })),
+    evaluate: vi.fn(),
+  } as any;
+}
+
+describe('findDeliverable', () => {
+  it('skips accept memos and prefers the latest deliverable', () => {
+    const job = createJob([
+      { message: 'Processing', contentId: '123', resolvedSubnets: ['1'] },
+      { ...deliverable, subnets: ['1'], failedSubnets: ['2'] },
+      { ...deliverable, lateSubnets: ['2'] },
+    ]);
+    expect(findDeliverable(job)).toMatchObject({ subnets: ['1', '2'], lateSubnets: ['2'] });
+    expect(findDeliverable(createJob(['not json', { message: 'hi' }]))).toBeNull();
+  });
+});
+
+describe('evaluateDelivery', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(verifyPodMint).mockResolvedValue({ ok: true, podId: 42n, owner: clients.aaWalletAddress });
+    vi.mocked(getPodRecord).mockResolvedValue({ podId: 42, buyerWallet: '0xb', mintTxHash: '0xABC', jobId: 7, createdAt: '' });
+    getContentPod.mockResolvedValue({
+      contentId: '123',
+      postUrl: deliverable.postUrl,
+      podId: 42,
+      mintTxHash: '0xabc',
+      subnets: ['1', '2'],
+      reppoPods: { 1: 'r1', 2: 'r2' },
+      jobId: '7',
+      createdAt: '',
+      updatedAt: '',
+    });
+    vi.mocked(getReppoPod).mockImplementation(async (_c, id) => ({ data: { id, podMintTx: '0xabc' } }));
+  });
+
+  it('approves a pod minted to our wallet, bound to the job and registered on Reppo', async () => {
+    const result = await evaluateDelivery(createJob([deliverable]), clients, config);
+
+    expect(result).toEqual({ approved: true, reason: 'Pod mint verified on-chain: 0xabc' });
+    expect(verifyPodMint).toHaveBeenCalledWith(clients.publicClient, clients.network.podContract, '0xabc', {
+      podId: 42n,
+      owners: [clients.aaWalletAddress, clients.account.address],
+    });
+    expect(getReppoPod).toHaveBeenCalledWith(config, 'r1');
+    expect(getReppoPod).toHaveBeenCalledWith(config, 'r2');
+  });
+
+  it('rejects deliverables without a tx hash or pod ID', async () => {
+    expect(await evaluateDelivery(createJob([{ message: 'Processing' }]), clients, config)).toEqual({
+      approved: false,
+      reason: 'No transaction hash found in deliverable',
+    });
+    const { podId: _podId, ...noPod } = deliverable;
+    expect((await evaluateDelivery(createJob([noPod]), clients, config)).approved).toBe(false);
+    expect(verifyPodMint).not.toHaveBeenCalled();
+  });
+
+  it('passes on-chain failures through', async () => {
+    vi.mocked(verifyPodMint).mockResolvedValue({ ok: false, reason: 'Tx 0xabc did not mint pod 42' });
+
+    expect(await evaluateDelivery(createJob([deliverable]), clients, config)).toEqual({
+      approved: false,
+      reason: 'Tx 0xabc did not mint pod 42',
+    });
+  });
+
+  it('rejects a tx hash reused from another job', async () => {
+    vi.mocked(getPodRecord).mockResolvedValue({ podId: 42, buyerWallet: '0xb', mintTxHash: '0xabc', jobId: 3, createdAt: '' });
+
+    const result = await evaluateDelivery(createJob([deliverable]), clients, config);
+    expect(result).toEqual({ approved: false, reason: 'Pod 42 was minted for job 3, not 7' });
+
+    // Existing-pod deliveries hand over another job's pod on purpose
+    expect((await evaluateDelivery(createJob([{ ...deliverable, existingPod: true }]), clients, config)).approved).toBe(true);
+  });
+
+  it('rejects an existing pod that is not the one indexed for the post', async () => {
+    vi.mocked(getPodRecord).mockResolvedValue({ podId: 42, buyerWallet: '0xb', mintTxHash: '0xabc', jobId: 3, createdAt: '' });
+    getContentPod.mockResolvedValue({
+      contentId: '123',
+      postUrl: deliverable.postUrl,
+      podId: 9,
+      mintTxHash: '0xdef',
+      subnets: ['1'],
+      jobId: '3',
+      createdAt: '',
+      updatedAt: '',
+    });
+
+    const result = await evaluateDelivery(createJob([{ ...deliverable, existingPod: true }]), clients, config);
+    expect(result).toEqual({ approved: false, reason: 'Pod 42 is not the recorded pod for https://x.com/user/status/123' });
+
+    getContentPod.mockResolvedValue(null);
+    expect((await evaluateDelivery(createJob([{ ...deliverable, existingPod: true }]), clients, config)).approved).toBe(false);
+  });
+
+  it('rejects when a claimed subnet has no metadata on Reppo', async () => {
+    vi.mocked(getReppoPod).mockImplementation(async (_c, id) => (id === 'r2' ? null : { data: { id } }));
+
+    const result = await evaluateDelivery(createJob([deliverable]), clients, config);
+    expect(result).toEqual({ approved: false, reason: 'Metadata for pod 42 not found on Reppo for subnet 2' });
+  });
+
+  it('looks up subnets with no recorded Reppo pod ID by mint tx', async () => {
+    getContentPod.mockResolvedValue({
+      contentId: '123',
+      postUrl: deliverable.postUrl,
+      podId: 42,
+      mintTxHash: '0xabc',
+      subnets: ['1', '2'],
+      reppoPods: { 1: 'r1' },
+      jobId: '7',
+      createdAt: '',
+      updatedAt: '',
+    });
+    vi.mocked(findPodsByMintTx).mockResolvedValueOnce([{ id: 'r2', podMintTx: '0xabc', subnetId: '2' }]);
+
+    expect((await evaluateDelivery(createJob([deliverable]), clients, config)).approved).toBe(true);
+    expect(findPodsByMintTx).toHaveBeenCalledWith(config, '0xabc', '2');
+
+    vi.mocked(findPodsByMintTx).mockResolvedValueOnce([]);
+    expect(await evaluateDelivery(createJob([deliverable]), clients, config)).toEqual({
+      approved: false,
+      reason: 'Metadata for pod 42 not found on Reppo for subnet 2',
+    });
+  });
+
+  it('throws instead of rejecting when a read fails', async () => {
+    vi.mocked(getPodRecord).mockRejectedValueOnce(new Error('ProvisionedThroughputExceededException'));
+    await expect(evaluateDelivery(createJob([deliverable]), clients, config)).rejects.toThrow(VerificationUnavailableError);
+
+    vi.mocked(getReppoPod).mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'));
+    await expect(evaluateDelivery(createJob([deliverable]), clients, config)).rejects.toThrow('Could not read Reppo pod r1: HTTP 503');
+
+    vi.mocked(verifyPodMint).mockRejectedValueOnce(new Error('fetch failed'));
+    await expect(evaluateDelivery(createJob([deliverable]), clients, config)).rejects.toThrow(VerificationUnavailableError);
+  });
+
+  it('verifies every minted item of a batch', async () => {
+    const batch = {
+      items: [
+        { status: 'minted', ...deliverable, subnets: ['1'] },
+        { status: 'failed', postUrl: 'https://x.com/user/status/456', error: 'Not found' },
+      ],
+      minted: 1,
+      failed: 1,
+    };
+
+    expect(await evaluateDelivery(createJob([batch]), clients, config)).toEqual({
+      approved: true,
+      reason: '1 pod mint(s) verified on-chain and on Reppo',
+    });
+
+    vi.mocked(getPodRecord).mockResolvedValue(null);
+    expect(await evaluateDelivery(createJob([batch]), clients, config)).toEqual({
+      approved: false,
+      reason: 'https://x.com/user/status/123: Pod 42 has no mint record',
+    });
+  });
+});
@@ -54,4 +54,13 @@ describe('withRetry', () => {
     
     expect(fn).toHaveBeenCalledTimes(1); // Only one attempt
   });
+
+  it('calls onRetry before each retry', async () => {
+    const fn = vi.fn().mockRejectedValue(new Error('fail'));
+    const onRetry = vi.fn();
+
+    await expect(withRetry(fn, 'test', { maxRetries: 3, baseDelay: 1, onRetry })).rejects.toThrow('fail');
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenNthCalledWith(1, expect.any(Error), 1);
+  });
 });
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startIntervalTask } from '../lib/interval-task.js';
+import { retryDelayMs, isRetryDue } from '../lib/pending-jobs.js';
+import type { PendingJob } from '../types.js';
+
+// Mock logger
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('startIntervalTask', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the task every interval and keeps going after failures', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+    const handle = startIntervalTask('test', 1000, task);
+
+    expect(task).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await handle.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('never overlaps runs and stop() waits for the in-flight one', async () => {
+    let finish!: () => void;
+    const task = vi.fn(() => new Promise<void>((resolve) => { finish = resolve; }));
+    const handle = startIntervalTask('slow', 100, task);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    let stopped = false;
+    const stopping = handle.stop().then(() => { stopped = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stopped).toBe(false);
+
+    finish();
+    await stopping;
+    expect(stopped).toBe(true);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pending job backoff', () => {
+  const job = (retryCount: number, updatedAt: string) => ({ retryCount, updatedAt }) as PendingJob;
+
+  it('doubles the delay per failure up to the cap', () => {
+    expect(retryDelayMs(0, 1000)).toBe(0);
+    expect(retryDelayMs(1, 1000)).toBe(1000);
+    expect(retryDelayMs(2, 1000)).toBe(2000);
+    expect(retryDelayMs(4, 1000)).toBe(8000);
+    expect(retryDelayMs(20, 1000, 60_000)).toBe(60_000);
+  });
+
+  it('is due once the delay since the last update has elapsed', () => {
+    const updatedAt = '2025-01-01T00:00:00.000Z';
+    const t0 = new Date(updatedAt).getTime();
+
+    expect(isRetryDue(job(0, updatedAt), 1000, t0)).toBe(true);
+    expect(isRetryDue(job(2, updatedAt), 1000, t0 + 1999)).toBe(false);
+    expect(isRetryDue(job(2, updatedAt), 1000, t0 + 2000)).toBe(true);
+  });
+});
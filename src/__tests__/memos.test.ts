@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { jobError, rejectJob, formatJobError, formatMemo, JOB_ERRORS } from '../memos.js';
+import { renderMetrics } from '../lib/metrics.js';
+
+function rejectedCount(reason: string): number {
+  const line = renderMetrics().split('\n').find((l) => l.startsWith(`reppo_jobs_rejected_total{reason="${reason}"}`));
+  return line ? Number(line.split(' ')[1]) : 0;
+}
+
+describe('jobError', () => {
+  it('takes the retryable flag from the catalogue', () => {
+    expect(jobError('INSUFFICIENT_REPPO', 'Out of REPPO')).toEqual({ code: 'INSUFFICIENT_REPPO', message: 'Out of REPPO', retryable: true });
+    expect(jobError('DUPLICATE_POST', 'Tweet 1 already processed', { contentId: '1' })).toEqual({
+      code: 'DUPLICATE_POST',
+      message: 'Tweet 1 already processed',
+      retryable: false,
+      details: { contentId: '1' },
+    });
+  });
+
+  it('maps every code to a metric reason', () => {
+    for (const entry of Object.values(JOB_ERRORS)) {
+      expect(entry.metric).toMatch(/^[a-z_]+$/);
+    }
+  });
+});
+
+describe('rejectJob', () => {
+  it('sends the error as JSON and counts it under its metric reason', async () => {
+    const job = { reject: vi.fn().mockResolvedValue(undefined) };
+    const error = jobError('TOO_MANY_POSTS', 'Too many posts (21). Maximum is 20.', { count: 21, max: 20 });
+    const before = rejectedCount('too_many_posts');
+
+    await rejectJob(job, error);
+
+    expect(job.reject).toHaveBeenCalledWith(formatJobError(error));
+    expect(JSON.parse(job.reject.mock.calls[0][0])).toEqual({ error });
+    expect(rejectedCount('too_many_posts')).toBe(before + 1);
+  });
+
+  it('does not count rejections that failed to send', async () => {
+    const job = { reject: vi.fn().mockRejectedValue(new Error('RPC down')) };
+    const before = rejectedCount('job_failed');
+
+    await expect(rejectJob(job, jobError('JOB_FAILED', 'Job failed: boom'))).rejects.toThrow('RPC down');
+    expect(rejectedCount('job_failed')).toBe(before);
+  });
+});
+
+describe('formatMemo', () => {
+  it('puts the message next to the structured fields', () => {
+    expect(JSON.parse(formatMemo('Pay to proceed.', { posts: 2 }))).toEqual({ message: 'Pay to proceed.', posts: 2 });
+    expect(JSON.parse(formatMemo('Processing post.'))).toEqual({ message: 'Processing post.' });
+  });
+});
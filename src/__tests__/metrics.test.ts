@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { createCounter, createGauge, createHistogram, renderMetrics } from '../lib/metrics.js';
+
+function seriesLines(name: string): string[] {
+  return renderMetrics().split('\n').filter((l) => l.startsWith(name));
+}
+
+describe('metrics', () => {
+  it('renders counters with HELP/TYPE headers and labels', () => {
+    const counter = createCounter('test_requests_total', 'Test requests', ['reason']);
+    counter.inc({ reason: 'invalid_url' });
+    counter.inc({ reason: 'invalid_url' });
+    counter.inc({ reason: 'duplicate' }, 3);
+
+    const text = renderMetrics();
+    expect(text).toContain('# HELP test_requests_total Test requests');
+    expect(text).toContain('# TYPE test_requests_total counter');
+    expect(seriesLines('test_requests_total')).toEqual([
+      'test_requests_total{reason="invalid_url"} 2',
+      'test_requests_total{reason="duplicate"} 3',
+    ]);
+  });
+
+  it('escapes label values', () => {
+    const counter = createCounter('test_escape_total', 'Escaping', ['subnet']);
+    counter.inc({ subnet: 'a"b\\c' });
+
+    expect(seriesLines('test_escape_total')).toEqual(['test_escape_total{subnet="a\\"b\\\\c"} 1']);
+  });
+
+  it('renders gauges, including collect hooks', () => {
+    const gauge = createGauge('test_balance', 'Balance');
+    gauge.set(12.5);
+    createGauge('test_lag_seconds', 'Lag', [], (g) => g.set(7));
+
+    expect(seriesLines('test_balance')).toEqual(['test_balance 12.5']);
+    expect(seriesLines('test_lag_seconds')).toEqual(['test_lag_seconds 7']);
+  });
+
+  it('renders cumulative histogram buckets', () => {
+    const histogram = createHistogram('test_duration_seconds', 'Duration', ['status'], [1, 5]);
+    histogram.observe(0.5, { status: 'success' });
+    histogram.observe(3, { status: 'success' });
+    histogram.observe(10, { status: 'success' });
+
+    expect(seriesLines('test_duration_seconds')).toEqual([
+      'test_duration_seconds_bucket{status="success",le="1"} 1',
+      'test_duration_seconds_bucket{status="success",le="5"} 2',
+      'test_duration_seconds_bucket{status="success",le="+Inf"} 3',
+      'test_duration_seconds_sum{status="success"} 13.5',
+      'test_duration_seconds_count{status="success"} 3',
+    ]);
+  });
+});
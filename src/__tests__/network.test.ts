@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { explorerTxUrl, getNetworkProfile } from '../lib/network.js';
+import { POD_CONTRACT } from '../constants.js';
+
+const POD = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x2222222222222222222222222222222222222222';
+
+describe('getNetworkProfile', () => {
+  it('defaults to the mainnet deployment', () => {
+    const network = getNetworkProfile('base');
+
+    expect(network.chain.id).toBe(8453);
+    expect(network.podContract).toBe(POD_CONTRACT);
+    expect(network.reppoApiUrl).toBe('https://reppo.ai/api/v1');
+    expect(explorerTxUrl(network, '0xabc')).toBe('https://basescan.org/tx/0xabc');
+  });
+
+  it('requires the Reppo contracts on Base Sepolia', () => {
+    expect(() => getNetworkProfile('base-sepolia')).toThrow('POD_CONTRACT is required on base-sepolia');
+
+    const network = getNetworkProfile('base-sepolia', { POD_CONTRACT: POD, REPPO_TOKEN: TOKEN });
+    expect(network.chain.id).toBe(84532);
+    expect(network).toMatchObject({ podContract: POD, reppoToken: TOKEN, usdcToken: '0x036CbD53842c5426634e7929541eC2318f3dCF7e' });
+    expect(network.reppoApiUrl).toBeUndefined();
+    expect(explorerTxUrl(network, '0xabc')).toBe('https://sepolia.basescan.org/tx/0xabc');
+  });
+
+  it('validates address overrides', () => {
+    expect(getNetworkProfile('base', { USDC_TOKEN: TOKEN }).usdcToken).toBe(TOKEN);
+    expect(() => getNetworkProfile('base', { POD_CONTRACT: '0x123' })).toThrow('POD_CONTRACT must be a valid Ethereum address');
+  });
+});
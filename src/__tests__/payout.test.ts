@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { BUYER_ONLY_SPLIT, parsePayoutPolicy, parsePayoutSplit, payoutLegs, podPayoutDetails } from '../emissions/payout.js';
+
+const TREASURY = '0x00000000000000000000000000000000000000f1';
+const REFERRER = '0x00000000000000000000000000000000000000f2';
+const BUYER = '0x00000000000000000000000000000000000000b1';
+
+describe('parsePayoutSplit', () => {
+  it('parses percentages into basis points with wallets', () => {
+    expect(parsePayoutSplit(`buyer:80, treasury:12.5, referrer:7.5@${REFERRER}`, TREASURY)).toEqual({
+      buyerBps: 8000,
+      treasuryBps: 1250,
+      referrerBps: 750,
+      treasuryWallet: TREASURY,
+      referrerWallet: REFERRER,
+    });
+  });
+
+  it('rejects splits that are incomplete or missing a wallet', () => {
+    expect(() => parsePayoutSplit('buyer:80,treasury:10', TREASURY)).toThrow('must add up to 100%');
+    expect(() => parsePayoutSplit('buyer:90,treasury:10', undefined)).toThrow('PAYOUT_TREASURY_WALLET');
+    expect(() => parsePayoutSplit('buyer:90,referrer:10', TREASURY)).toThrow('no referrer wallet');
+    expect(() => parsePayoutSplit('buyer:100,voter:0', TREASURY)).toThrow('Invalid payout split entry');
+    expect(() => parsePayoutSplit('buyer:100.125', TREASURY)).toThrow('Invalid payout percentage');
+  });
+});
+
+describe('parsePayoutPolicy', () => {
+  it('defaults to paying the buyer everything', () => {
+    expect(parsePayoutPolicy({})).toEqual({ default: BUYER_ONLY_SPLIT, offerings: {} });
+  });
+
+  it('resolves per-offering splits, falling back to the default', () => {
+    const policy = parsePayoutPolicy({
+      PAYOUT_SPLIT: 'buyer:90,treasury:10',
+      PAYOUT_OFFERING_SPLITS: JSON.stringify({ partner_publish: `buyer:80,treasury:10,referrer:10@${REFERRER}` }),
+      PAYOUT_TREASURY_WALLET: TREASURY,
+    });
+
+    expect(podPayoutDetails(policy, 'partner_publish')).toMatchObject({
+      offering: 'partner_publish',
+      emissionShare: 50,
+      payoutSplit: { buyerBps: 8000, referrerWallet: REFERRER },
+    });
+    expect(podPayoutDetails(policy, 'publish').payoutSplit).toMatchObject({ buyerBps: 9000, treasuryBps: 1000 });
+    expect(podPayoutDetails(policy, undefined).payoutSplit).toBe(policy.default);
+  });
+
+  it('rejects malformed offering splits', () => {
+    expect(() => parsePayoutPolicy({ PAYOUT_OFFERING_SPLITS: '{nope' })).toThrow('JSON object');
+    expect(() => parsePayoutPolicy({ PAYOUT_OFFERING_SPLITS: '{"a": 5}' })).toThrow('split rule string');
+  });
+});
+
+describe('payoutLegs', () => {
+  it('rounds treasury and referrer down and gives the buyer the rest', () => {
+    const split = parsePayoutSplit(`buyer:80,treasury:15,referrer:5@${REFERRER}`, TREASURY);
+
+    expect(payoutLegs(1001n, BUYER, split).map(({ recipient, amount }) => [recipient, amount])).toEqual([
+      ['buyer', '801'],
+      ['treasury', '150'],
+      ['referrer', '50'],
+    ]);
+  });
+
+  it('pays pods without a recorded split entirely to the buyer', () => {
+    expect(payoutLegs(10n, BUYER)).toEqual([{ recipient: 'buyer', wallet: BUYER, amount: '10', status: 'pending' }]);
+  });
+});
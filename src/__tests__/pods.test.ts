@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { initPods, savePod, getPod, recordPodEpochClaims, holdPodPayout } from '../lib/pods.js';
+import { createMemoryDocClient } from '../sim/dynamo.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+describe('savePod', () => {
+  beforeEach(() => {
+    initPods({ AWS_REGION: 'us-east-1' } as any, createMemoryDocClient());
+  });
+
+  it('records the mint and the payout terms', async () => {
+    await savePod(42, '0xbuyer', '0xabc', undefined, 7, { offering: 'publish', emissionShare: 50 });
+
+    expect(await getPod(42)).toMatchObject({
+      podId: 42,
+      buyerWallet: '0xbuyer',
+      mintTxHash: '0xabc',
+      jobId: 7,
+      claimed: false,
+      offering: 'publish',
+      emissionShare: 50,
+    });
+    expect(await getPod(42)).not.toHaveProperty('buyerAgentId');
+  });
+
+  it('keeps emissions and held payouts when the pod is saved again', async () => {
+    await savePod(42, '0xbuyer', '0xabc', undefined, 7);
+    const createdAt = (await getPod(42))!.createdAt;
+    await recordPodEpochClaims(42, [{ epoch: 3, amount: '100', txHash: '0xclaim', source: 'transfer-log', claimedAt: '' }]);
+    await holdPodPayout(42, { runId: 'run-1', amount: '90', epoch: 3, heldAt: '' });
+
+    await savePod(42, '0xbuyer', '0xabc', undefined, 7);
+
+    const pod = await getPod(42);
+    expect(pod?.createdAt).toBe(createdAt);
+    expect(pod?.epochClaims).toHaveLength(1);
+    expect(pod?.pendingPayouts).toEqual([{ runId: 'run-1', amount: '90', epoch: 3, heldAt: '' }]);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { quoteJobPrice, checkJobPrice, isQuoteExpired } from '../pricing.js';
+import type { PriceQuote } from '../types.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+vi.mock('../lib/http.js', () => ({
+  withRetry: vi.fn(async (fn: () => Promise<unknown>) => fn()),
+  isRetryableError: () => false,
+}));
+
+vi.mock('../chain.js', () => ({
+  getPublishingFee: vi.fn(),
+}));
+
+vi.mock('../swap.js', () => ({
+  quoteUsdcForReppo: vi.fn(),
+  quoteUsdcForEth: vi.fn(),
+}));
+
+import { getPublishingFee } from '../chain.js';
+import { quoteUsdcForReppo, quoteUsdcForEth } from '../swap.js';
+
+const config = { PRICE_PER_SUBNET_USDC: 0.01, PRICE_MARGIN_BPS: 2000, QUOTE_TTL_MS: 15 * 60_000 } as any;
+
+function createClients(aa = false) {
+  return {
+    account: { address: '0x1234567890abcdef1234567890abcdef12345678' },
+    publicClient: { getGasPrice: vi.fn().mockResolvedValue(1_000_000_000n) },
+    ...(aa ? { contractClient: {}, aaWalletAddress: '0xaa00000000000000000000000000000000000000' } : {}),
+  } as any;
+}
+
+function createJob(payment: { price?: number; netPayableAmount?: number }) {
+  return { id: 7, ...payment } as any;
+}
+
+describe('quoteJobPrice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPublishingFee).mockResolvedValue(10n * 10n ** 18n);
+    vi.mocked(quoteUsdcForReppo).mockResolvedValue({ fee: 3000, amountIn: 2_000_000n, amountOut: 10n * 10n ** 18n });
+    vi.mocked(quoteUsdcForEth).mockResolvedValue({ fee: 500, amountIn: 1_000n, amountOut: 0n });
+  });
+
+  it('adds publishing fee, gas, per-subnet cost and margin', async () => {
+    const clients = createClients();
+    const quote = await quoteJobPrice(clients, config, { posts: 2, subnetSubmissions: 3 });
+
+    // Gas: 1 gwei × MINT_GAS_UNITS priced through the WETH pool
+    expect(quoteUsdcForEth).toHaveBeenCalledWith(clients, 350_000n * 1_000_000_000n);
+    expect(quote.breakdown).toEqual({ publishingFee: 4, gas: 0.002, subnets: 0.03, margin: 0.808 });
+    expect(quote.cost).toBe(4.032);
+    // 4.032 + 20%, rounded up to the cent
+    expect(quote.amount).toBe(4.84);
+    expect(quote.publishingFeeReppo).toBe('10');
+    expect(new Date(quote.expiresAt).getTime() - new Date(quote.quotedAt).getTime()).toBe(15 * 60_000);
+  });
+
+  it('leaves gas out for sponsored AA mints', async () => {
+    const clients = createClients(true);
+    const quote = await quoteJobPrice(clients, config, { posts: 1, subnetSubmissions: 1 });
+
+    expect(clients.publicClient.getGasPrice).not.toHaveBeenCalled();
+    expect(quote.breakdown.gas).toBe(0);
+    expect(quote.cost).toBe(2.01);
+  });
+
+  it('skips the swap quote when there is no publishing fee', async () => {
+    vi.mocked(getPublishingFee).mockResolvedValue(0n);
+    const quote = await quoteJobPrice(createClients(true), config, { posts: 1, subnetSubmissions: 2 });
+
+    expect(quoteUsdcForReppo).not.toHaveBeenCalled();
+    expect(quote.cost).toBe(0.02);
+  });
+});
+
+describe('checkJobPrice', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getPublishingFee).mockResolvedValue(10n * 10n ** 18n);
+    vi.mocked(quoteUsdcForReppo).mockResolvedValue({ fee: 3000, amountIn: 2_000_000n, amountOut: 10n * 10n ** 18n });
+  });
+
+  const units = { posts: 1, subnetSubmissions: 1 };
+
+  it('rejects jobs paying less than cost, preferring the net payable amount', async () => {
+    const result = await checkJobPrice(createJob({ price: 5, netPayableAmount: 1.5 }), createClients(true), config, units);
+
+    expect(result.quote?.cost).toBe(2.01);
+    expect(result.rejection).toMatchObject({ code: 'BELOW_COST', retryable: false, details: { paid: 1.5, quote: result.quote } });
+    expect(result.rejection?.message).toMatch(/^Job price 1\.5 USDC is below the current cost of 2\.01 USDC/);
+  });
+
+  it('accepts jobs at or above cost, and jobs without a known price', async () => {
+    expect((await checkJobPrice(createJob({ price: 2.01 }), createClients(true), config, units)).rejection).toBeUndefined();
+    expect((await checkJobPrice(createJob({}), createClients(true), config, units)).rejection).toBeUndefined();
+  });
+
+  it('reuses a valid quote and re-quotes an expired one', async () => {
+    const existing: PriceQuote = {
+      amount: 1.2,
+      cost: 1,
+      currency: 'USDC',
+      posts: 1,
+      subnetSubmissions: 1,
+      breakdown: { publishingFee: 1, gas: 0, subnets: 0, margin: 0.2 },
+      publishingFeeReppo: '5',
+      quotedAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    };
+
+    const valid = await checkJobPrice(createJob({ price: 1.5 }), createClients(true), config, units, existing);
+    expect(valid).toEqual({ quote: existing });
+    expect(getPublishingFee).not.toHaveBeenCalled();
+
+    const expired = { ...existing, expiresAt: new Date(Date.now() - 1).toISOString() };
+    expect(isQuoteExpired(expired)).toBe(true);
+    const requoted = await checkJobPrice(createJob({ price: 1.5 }), createClients(true), config, units, expired);
+    expect(getPublishingFee).toHaveBeenCalledOnce();
+    expect(requoted.rejection?.message).toContain('below the current cost of 2.01 USDC');
+  });
+
+  it('does not block the job when quoting fails', async () => {
+    vi.mocked(getPublishingFee).mockRejectedValue(new Error('RPC down'));
+    const result = await checkJobPrice(createJob({ price: 0.01 }), createClients(true), config, units);
+
+    expect(result).toEqual({});
+  });
+});
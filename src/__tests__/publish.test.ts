@@ -1,25 +1,44 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { handlePublishJob } from '../handlers/publish.js';
+import { handlePublishJob, retryPendingJobs } from '../handlers/publish.js';
+import { getNetworkProfile } from '../lib/network.js';
+import { BUYER_ONLY_SPLIT, parsePayoutSplit } from '../emissions/payout.js';
 
 // Mock dedup module
 vi.mock('../lib/dedup.js', () => {
   const processed = new Set<string>();
   const minted = new Set<string>();
   const locks = new Set<string>();
+  const contentPods = new Map<string, any>();
   return {
     initDedup: vi.fn(),
     hasProcessed: (id: string) => processed.has(id),
+    isProcessed: async (id: string) => processed.has(id),
     markProcessed: vi.fn(async (id: string) => { processed.add(id); }),
     acquireProcessingLock: vi.fn(async (id: string) => {
       if (locks.has(id)) return null;
       locks.add(id);
       return () => { locks.delete(id); };
     }),
-    hasJobMinted: (id: string | number) => minted.has(String(id)),
+    hasJobMinted: async (id: string | number) => minted.has(String(id)),
     markJobMinted: vi.fn(async (id: string | number) => { minted.add(String(id)); }),
+    claimMint: vi.fn(async (contentId: string, jobId?: string | number) => {
+      if ((jobId !== undefined && minted.has(String(jobId))) || processed.has(contentId)) return false;
+      if (jobId !== undefined) minted.add(String(jobId));
+      processed.add(contentId);
+      return true;
+    }),
+    releaseMintClaim: vi.fn(async (contentId: string, jobId?: string | number) => {
+      if (jobId !== undefined) minted.delete(String(jobId));
+      processed.delete(contentId);
+    }),
+    getContentPod: vi.fn(async (id: string) => contentPods.get(id) ?? null),
+    recordContentPod: vi.fn(async (pod: any) => {
+      const prev = contentPods.get(pod.contentId);
+      contentPods.set(pod.contentId, { ...prev, ...pod, subnets: [...new Set([...(prev?.subnets ?? []), ...pod.subnets])] });
+    }),
     getProcessedCount: () => processed.size,
     // For test reset
-    _reset: () => { processed.clear(); minted.clear(); locks.clear(); },
+    _reset: () => { processed.clear(); minted.clear(); locks.clear(); contentPods.clear(); },
   };
 });
 
@@ -32,6 +51,8 @@ vi.mock('../lib/pending-jobs.js', () => ({
   getPendingJobs: vi.fn().mockReturnValue([]),
   getPendingJob: vi.fn().mockReturnValue(undefined),
   recordPendingJobError: vi.fn().mockResolvedValue(undefined),
+  isRetryDue: vi.fn().mockReturnValue(true),
+  markSubnetCompleted: vi.fn().mockResolvedValue(undefined),
 }));
 
 // Mock logger
@@ -61,12 +82,14 @@ vi.mock('../twitter.js', () => ({
 }));
 
 // Mock chain module
-vi.mock('../chain.js', () => ({
+vi.mock('../chain.js', async (importOriginal) => ({
+  MintSubmittedError: (await importOriginal<typeof import('../chain.js')>()).MintSubmittedError,
   mintPod: vi.fn().mockResolvedValue({
     txHash: '0xabc123' as `0x${string}`,
     receipt: { status: 'success', blockNumber: 100n },
     podId: 42n,
   }),
+  resolveMint: vi.fn(),
 }));
 
 // Mock reppo module
@@ -74,6 +97,10 @@ vi.mock('../reppo.js', () => ({
   submitPodMetadata: vi.fn().mockResolvedValue({ data: { id: 'pod-1' } }),
   getOrCreateBuyerAgent: vi.fn().mockResolvedValue(null),
   getSubnets: vi.fn().mockResolvedValue({ data: { privateSubnets: [] } }),
+  isDuplicateSubmissionError: (err: Error) => err.message.startsWith('HTTP 409'),
+  findPodsByMintTx: vi.fn().mockResolvedValue([]),
+  getPod: vi.fn().mockResolvedValue(null),
+  reppoPodUrl: (_config: unknown, id: string) => `https://reppo.ai/pods/${id}`,
 }));
 
 // Mock pods module
@@ -82,6 +109,12 @@ vi.mock('../lib/pods.js', () => ({
   getJobMint: vi.fn().mockResolvedValue(null),
 }));
 
+// Mock pricing (quote logic is covered in pricing.test.ts)
+vi.mock('../pricing.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../pricing.js')>()),
+  checkJobPrice: vi.fn().mockResolvedValue({}),
+}));
+
 function createMockJob(overrides?: Record<string, unknown>) {
   return {
     id: 'job-1',
@@ -96,15 +129,25 @@ function createMockJob(overrides?: Record<string, unknown>) {
   };
 }
 
+/** The catalogued error from the job's reject memo */
+function rejection(job: ReturnType<typeof createMockJob>) {
+  return JSON.parse(job.reject.mock.calls[0][0]).error;
+}
+
 function withMemo(job: ReturnType<typeof createMockJob>, content: Record<string, unknown>) {
   job.memos = [{ content: JSON.stringify(content) }];
   return job;
 }
 
-const mockClients = { account: { address: '0x1234567890abcdef1234567890abcdef12345678' } } as any;
+const mockClients = { account: { address: '0x1234567890abcdef1234567890abcdef12345678' }, network: getNetworkProfile('base') } as any;
 const mockSession = { agentId: 'agent-1', accessToken: 'token-1' };
 const mockConfig = {
   REPPO_API_URL: 'https://reppo.ai/api/v1',
+  NETWORK: getNetworkProfile('base'),
+  PAYOUT_POLICY: {
+    default: BUYER_ONLY_SPLIT,
+    offerings: { partner_publish: parsePayoutSplit('buyer:80,treasury:20', '0x00000000000000000000000000000000000000f1') },
+  },
 } as any;
 
 describe('handlePublishJob', () => {
@@ -134,12 +177,49 @@ describe('handlePublishJob', () => {
     expect(deliverable.failedSubnets).toBeUndefined();
   });
 
+  it('records the offering\'s payout split on the minted pod', async () => {
+    const { savePod } = await import('../lib/pods.js');
+    const job = withMemo(createMockJob({ phase: 2, name: 'partner_publish', clientAddress: '0x00000000000000000000000000000000000000b1' }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(savePod).toHaveBeenCalledWith(42, '0x00000000000000000000000000000000000000b1', '0xabc123', undefined, expect.anything(), {
+      offering: 'partner_publish',
+      emissionShare: 50,
+      payoutSplit: { buyerBps: 8000, treasuryBps: 2000, referrerBps: 0, treasuryWallet: '0x00000000000000000000000000000000000000f1' },
+    });
+  });
+
+  it('links the Reppo pod of each subnet that reads back', async () => {
+    const { submitPodMetadata, getPod } = await import('../reppo.js');
+    vi.mocked(submitPodMetadata).mockImplementation(async (_s: any, _c: any, params: any) => ({ data: { id: `pod-${params.subnetId}` } }));
+    vi.mocked(getPod).mockImplementation(async (_c: any, id: string) => (id === 'pod-crypto' ? { data: { id, podMintTx: '0xABC123' } } : null));
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnets: ['crypto', 'ai'],
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    const deliverable = job.deliver.mock.calls[0][0];
+    expect(deliverable.subnets).toEqual(['crypto', 'ai']);
+    // The AI pod didn't read back, so it gets no link
+    expect(deliverable.reppoUrl).toBe('https://reppo.ai/pods/pod-crypto');
+    expect(deliverable.reppoUrls).toEqual({ crypto: 'https://reppo.ai/pods/pod-crypto' });
+    vi.mocked(submitPodMetadata).mockReset();
+    vi.mocked(submitPodMetadata).mockResolvedValue({ data: { id: 'pod-1' } });
+    vi.mocked(getPod).mockResolvedValue(null);
+  });
+
   it('rejects job with missing postUrl', async () => {
     const job = withMemo(createMockJob(), { subnet: 'crypto' });
 
     await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
 
-    expect(job.reject).toHaveBeenCalledWith('Missing postUrl in job payload');
+    expect(rejection(job)).toEqual({ code: 'MISSING_POST_URL', message: 'Missing postUrl in job payload', retryable: false });
     expect(job.accept).not.toHaveBeenCalled();
   });
 
@@ -150,22 +230,57 @@ describe('handlePublishJob', () => {
 
     await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
 
-    expect(job.reject).toHaveBeenCalledWith('Missing subnet in job payload');
+    expect(rejection(job)).toEqual({ code: 'MISSING_SUBNET', message: 'Missing subnet in job payload', retryable: false });
     expect(job.accept).not.toHaveBeenCalled();
   });
 
-  it('rejects job with invalid URL', async () => {
+  it('rejects job with unsupported URL', async () => {
     const job = withMemo(createMockJob(), {
-      postUrl: 'https://example.com/not-a-tweet',
+      postUrl: 'ftp://example.com/not-a-post',
       subnet: 'crypto',
     });
 
     await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
 
-    expect(job.reject).toHaveBeenCalledWith('Invalid X/Twitter URL: https://example.com/not-a-tweet');
+    const error = rejection(job);
+    expect(error.code).toBe('UNSUPPORTED_URL');
+    expect(error.message).toMatch(/^Unsupported post URL: ftp:\/\/example\.com\/not-a-post\. Supported: /);
+    expect(error.details).toEqual({ postUrl: 'ftp://example.com/not-a-post', supportedPlatforms: expect.arrayContaining(['x', 'youtube', 'web']) });
     expect(job.accept).not.toHaveBeenCalled();
   });
 
+  it('mints non-X content with its platform and category', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    const { claimMint } = await import('../lib/dedup.js');
+    const { youtubeSource } = await import('../sources/youtube.js');
+    const fetchVideo = vi.spyOn(youtubeSource, 'fetch').mockResolvedValueOnce({
+      platform: 'youtube',
+      category: 'video',
+      url: 'https://youtu.be/dQw4w9WgXcQ',
+      title: 'Never Gonna Give You Up',
+      text: 'The official video',
+      imageUrl: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+      media: [],
+    });
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://youtu.be/dQw4w9WgXcQ',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(fetchVideo).toHaveBeenCalledWith('https://youtu.be/dQw4w9WgXcQ');
+    expect(submitPodMetadata).toHaveBeenCalledWith(mockSession, mockConfig, expect.objectContaining({
+      title: 'Never Gonna Give You Up',
+      description: 'The official video',
+      imageUrl: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+      platform: 'youtube',
+      category: 'video',
+    }));
+    expect(claimMint).toHaveBeenCalledWith('youtube:dQw4w9WgXcQ', 'job-1');
+    expect(job.deliver).toHaveBeenCalledOnce();
+  });
+
   it('deduplicates same tweet ID', async () => {
     const job1 = withMemo(createMockJob({ id: 'job-1', phase: 2 }), {
       postUrl: 'https://x.com/testuser/status/1234567890',
@@ -180,7 +295,119 @@ describe('handlePublishJob', () => {
     expect(job1.deliver).toHaveBeenCalledOnce();
 
     await handlePublishJob(job2 as any, mockClients, mockSession, mockConfig);
-    expect(job2.reject).toHaveBeenCalledWith('Tweet 1234567890 already processed');
+    expect(rejection(job2)).toEqual({
+      code: 'DUPLICATE_POST',
+      message: 'Tweet 1234567890 already processed',
+      retryable: false,
+      details: {
+        contentId: '1234567890',
+        existingPod: {
+          podId: '42',
+          txHash: '0xabc123',
+          subnets: ['crypto'],
+          basescanUrl: 'https://basescan.org/tx/0xabc123',
+        },
+      },
+    });
+  });
+
+  it('does not mint when another replica already claimed the post', async () => {
+    const { mintPod } = await import('../chain.js');
+    const { claimMint } = await import('../lib/dedup.js');
+    (claimMint as any).mockResolvedValueOnce(false);
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(mintPod).not.toHaveBeenCalled();
+    expect(job.deliver).not.toHaveBeenCalled();
+  });
+
+  it('gives the mint claim back when the mint fails', async () => {
+    const { mintPod } = await import('../chain.js');
+    const { releaseMintClaim } = await import('../lib/dedup.js');
+    (mintPod as any).mockRejectedValueOnce(new Error('Insufficient REPPO balance'));
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(releaseMintClaim).toHaveBeenCalledWith('1234567890', 'job-1');
+    expect(rejection(job).code).toBe('INSUFFICIENT_REPPO');
+  });
+
+  it('keeps the mint claim and records the tx when the mint was sent but not confirmed', async () => {
+    const { mintPod, MintSubmittedError } = await import('../chain.js');
+    const { releaseMintClaim } = await import('../lib/dedup.js');
+    const { updatePendingJobStatus } = await import('../lib/pending-jobs.js');
+    (mintPod as any).mockImplementationOnce(async (_clients: unknown, options: any) => {
+      await options.onSubmitted('0xsent');
+      throw new MintSubmittedError('Mint tx 0xsent receipt not available: timed out', '0xsent');
+    });
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(updatePendingJobStatus).toHaveBeenCalledWith('job-1', 'accepted', { mintTxHash: '0xsent' });
+    expect(releaseMintClaim).not.toHaveBeenCalled();
+    expect(job.reject).not.toHaveBeenCalled();
+    expect(job.deliver).not.toHaveBeenCalled();
+  });
+
+  it('adds an existing pod to new subnets without minting again', async () => {
+    const { mintPod } = await import('../chain.js');
+    const { submitPodMetadata } = await import('../reppo.js');
+    const { markJobMinted } = await import('../lib/dedup.js');
+    const job1 = withMemo(createMockJob({ id: 'job-1', phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+    await handlePublishJob(job1 as any, mockClients, mockSession, mockConfig);
+    vi.clearAllMocks();
+
+    const job2 = withMemo(createMockJob({ id: 'job-2', phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnets: ['crypto', 'defi'],
+      addToExistingPod: true,
+    });
+    await handlePublishJob(job2 as any, mockClients, mockSession, mockConfig);
+
+    expect(mintPod).not.toHaveBeenCalled();
+    expect(submitPodMetadata).toHaveBeenCalledOnce();
+    expect(submitPodMetadata).toHaveBeenCalledWith(mockSession, mockConfig, expect.objectContaining({ subnetId: 'defi' }));
+    const deliverable = job2.deliver.mock.calls[0][0];
+    expect(deliverable).toMatchObject({ existingPod: true, podId: '42', txHash: '0xabc123', subnets: ['defi'] });
+    expect(markJobMinted).toHaveBeenCalledWith('job-2');
+  });
+
+  it('rejects adding an existing pod to subnets it is already on', async () => {
+    const job1 = withMemo(createMockJob({ id: 'job-1', phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnets: ['crypto', 'defi'],
+    });
+    await handlePublishJob(job1 as any, mockClients, mockSession, mockConfig);
+
+    const job2 = withMemo(createMockJob({ id: 'job-2', phase: 0 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'defi',
+      addToExistingPod: true,
+    });
+    await handlePublishJob(job2 as any, mockClients, mockSession, mockConfig);
+
+    expect(rejection(job2)).toMatchObject({
+      code: 'DUPLICATE_POST',
+      message: 'Tweet 1234567890 is already on all requested subnets',
+      details: { contentId: '1234567890', existingPod: { podId: '42', subnets: ['crypto', 'defi'] } },
+    });
+    expect(job2.accept).not.toHaveBeenCalled();
   });
 
   // === Multi-subnet tests ===
@@ -230,8 +457,13 @@ describe('handlePublishJob', () => {
 
     await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
 
-    expect(job.reject).toHaveBeenCalled();
-    expect(job.reject.mock.calls[0][0]).toContain('Invalid subnet "nonexistent"');
+    const error = rejection(job);
+    expect(error.code).toBe('INVALID_SUBNET');
+    expect(error.message).toContain('Invalid subnet "nonexistent"');
+    expect(error.details).toEqual({
+      subnet: 'nonexistent',
+      availableSubnets: [{ id: '1', name: 'crypto' }, { id: '2', name: 'defi' }],
+    });
     expect(job.deliver).not.toHaveBeenCalled();
   });
 
@@ -286,6 +518,53 @@ describe('handlePublishJob', () => {
     const deliverable = job.deliver.mock.calls[0][0];
     expect(deliverable.subnets).toEqual(['good-subnet']);
     expect(deliverable.failedSubnets).toEqual(['fail-subnet']);
+
+    // Progress is checkpointed per subnet, and the entry stays for the retry scheduler
+    const pendingJobs = await import('../lib/pending-jobs.js');
+    expect(pendingJobs.markSubnetCompleted).toHaveBeenCalledWith('job-1', 'good-subnet', 'pod-1');
+    expect(pendingJobs.markSubnetCompleted).not.toHaveBeenCalledWith('job-1', 'fail-subnet');
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('job-1', 'delivered', { completedSubnets: ['good-subnet'] });
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('treats a duplicate submission response as completed once Reppo has the pod', async () => {
+    const { submitPodMetadata, findPodsByMintTx } = await import('../reppo.js');
+    const { markSubnetCompleted } = await import('../lib/pending-jobs.js');
+    (submitPodMetadata as any).mockImplementation(async () => {
+      throw new Error('HTTP 409: {"error":"Pod already registered in subnet"}');
+    });
+    (findPodsByMintTx as any).mockResolvedValueOnce([{ id: 'pod-9', podMintTx: '0xabc123', subnetId: 'dup-subnet' }]);
+
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/5555555556',
+      subnets: ['dup-subnet'],
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(findPodsByMintTx).toHaveBeenCalledWith(mockConfig, '0xabc123', 'dup-subnet');
+    expect(markSubnetCompleted).toHaveBeenCalledWith('job-1', 'dup-subnet', 'pod-9');
+    const deliverable = job.deliver.mock.calls[0][0];
+    expect(deliverable.subnets).toEqual(['dup-subnet']);
+    expect(deliverable.failedSubnets).toBeUndefined();
+    (submitPodMetadata as any).mockReset();
+    (submitPodMetadata as any).mockResolvedValue({ data: { id: 'pod-1' } });
+  });
+
+  it('counts a duplicate submission response as failed when Reppo has no pod for the mint', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    const { markSubnetCompleted } = await import('../lib/pending-jobs.js');
+    (submitPodMetadata as any).mockRejectedValueOnce(new Error('HTTP 409: {"error":"Pod already registered in subnet"}'));
+
+    const job = withMemo(createMockJob({ phase: 2 }), {
+      postUrl: 'https://x.com/testuser/status/5555555557',
+      subnets: ['dup-subnet'],
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(markSubnetCompleted).not.toHaveBeenCalled();
+    expect(job.deliver.mock.calls[0][0].failedSubnets).toEqual(['dup-subnet']);
   });
 
   it('rejects job with too many subnets', async () => {
@@ -296,11 +575,71 @@ describe('handlePublishJob', () => {
 
     await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
 
-    expect(job.reject).toHaveBeenCalled();
-    expect(job.reject.mock.calls[0][0]).toContain('Too many subnets');
+    expect(rejection(job)).toMatchObject({ code: 'TOO_MANY_SUBNETS', details: { count: 11, max: 10 } });
+    expect(rejection(job).message).toContain('Too many subnets');
     expect(job.deliver).not.toHaveBeenCalled();
   });
 
+  it('embeds the price quote in the requirement memo', async () => {
+    const { checkJobPrice } = await import('../pricing.js');
+    const { savePendingJob } = await import('../lib/pending-jobs.js');
+    const quote = { amount: 2.5, cost: 2, currency: 'USDC', expiresAt: '2030-01-01T00:00:00.000Z' };
+    vi.mocked(checkJobPrice).mockResolvedValueOnce({ quote: quote as any });
+    const job = withMemo(createMockJob({ phase: 0 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(checkJobPrice).toHaveBeenCalledWith(job, mockClients, mockConfig, { posts: 1, subnetSubmissions: 1 }, undefined);
+    expect(job.accept).toHaveBeenCalledOnce();
+    const memo = JSON.parse(job.createRequirement.mock.calls[0][0]);
+    expect(memo.message).toMatch(/^Pod minting for a post\. Pay to proceed\./);
+    expect(memo.quote).toEqual(quote);
+    expect(savePendingJob).toHaveBeenCalledWith(expect.objectContaining({ quote }));
+  });
+
+  it('rejects jobs priced below cost before posting the requirement', async () => {
+    const { checkJobPrice } = await import('../pricing.js');
+    const { mintPod } = await import('../chain.js');
+    const { jobError } = await import('../memos.js');
+    const error = jobError('BELOW_COST', 'Job price 1 USDC is below the current cost of 2 USDC', { paid: 1 });
+    vi.mocked(checkJobPrice).mockResolvedValueOnce({ rejection: error });
+    const job = withMemo(createMockJob({ phase: 1, price: 1 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+
+    expect(rejection(job)).toEqual(error);
+    expect(job.createRequirement).not.toHaveBeenCalled();
+    expect(mintPod).not.toHaveBeenCalled();
+  });
+
+  it('honours the stored quote once the buyer has paid', async () => {
+    const { checkJobPrice } = await import('../pricing.js');
+    const { getPendingJob, savePendingJob } = await import('../lib/pending-jobs.js');
+    const quote = { amount: 2.5, cost: 2, currency: 'USDC', expiresAt: '2020-01-01T00:00:00.000Z' };
+    vi.mocked(getPendingJob).mockReturnValue({ jobId: 'job-1', quote } as any);
+    const job = withMemo(createMockJob({ phase: 2, price: 2.5 }), {
+      postUrl: 'https://x.com/testuser/status/1234567890',
+      subnet: 'crypto',
+    });
+
+    try {
+      await handlePublishJob(job as any, mockClients, mockSession, mockConfig);
+    } finally {
+      vi.mocked(getPendingJob).mockReturnValue(undefined);
+    }
+
+    expect(checkJobPrice).not.toHaveBeenCalled();
+    expect(job.reject).not.toHaveBeenCalled();
+    expect(job.deliver).toHaveBeenCalledOnce();
+    expect(savePendingJob).not.toHaveBeenCalled();
+  });
+
   it('submits metadata to all subnets with same txHash/podId', async () => {
     const { submitPodMetadata } = await import('../reppo.js');
     (submitPodMetadata as any).mockResolvedValue({ data: { id: 'pod-1' } });
@@ -323,3 +662,265 @@ describe('handlePublishJob', () => {
     expect(call2.subnetId).toBe('subnet-b');
   });
 });
+
+describe('retryPendingJobs', () => {
+  const retryConfig = { ...mockConfig, PENDING_MAX_RETRIES: 3, PENDING_RETRY_BASE_DELAY_MS: 1000 };
+
+  function pendingJob(overrides?: Record<string, unknown>) {
+    return {
+      jobId: '900',
+      tweetId: '9000000000',
+      postUrl: 'https://x.com/testuser/status/9000000000',
+      subnets: ['crypto'],
+      buyerId: null,
+      status: 'minted',
+      mintTxHash: '0xabc123',
+      podId: 42,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      retryCount: 1,
+      ...overrides,
+    };
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const dedup = await import('../lib/dedup.js');
+    (dedup as any)._reset();
+    const pendingJobs = await import('../lib/pending-jobs.js');
+    (pendingJobs.isRetryDue as any).mockReturnValue(true);
+  });
+
+  async function withPending(jobs: ReturnType<typeof pendingJob>[]) {
+    const pendingJobs = await import('../lib/pending-jobs.js');
+    (pendingJobs.getPendingJobs as any).mockReturnValue(jobs);
+    (pendingJobs.getPendingJob as any).mockImplementation((id: string) => jobs.find((j) => j.jobId === id));
+    return pendingJobs;
+  }
+
+  it('rejects and dead-letters jobs at the retry ceiling', async () => {
+    const pendingJobs = await withPending([pendingJob({ retryCount: 3, lastError: 'RPC down' })]);
+    const acpJob = createMockJob({ id: 900 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(rejection(acpJob)).toEqual({
+      code: 'MAX_RETRIES',
+      message: 'Job failed after 3 attempts: RPC down',
+      retryable: true,
+      details: { attempts: 3, lastError: 'RPC down' },
+    });
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('900', 'dead_letter', expect.objectContaining({
+      deadLetteredAt: expect.any(String),
+    }));
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('skips jobs whose backoff has not elapsed on scheduled runs', async () => {
+    const pendingJobs = await withPending([pendingJob()]);
+    (pendingJobs.isRetryDue as any).mockReturnValue(false);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('leaves accepted jobs that never failed to the poll loop on scheduled runs', async () => {
+    const { mintPod } = await import('../chain.js');
+    await withPending([pendingJob({ status: 'accepted', retryCount: 0, mintTxHash: undefined, podId: undefined })]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(mintPod).not.toHaveBeenCalled();
+  });
+
+  it('delivers recovered minted jobs before clearing the WAL', async () => {
+    const pendingJobs = await withPending([pendingJob({ subnets: ['crypto', 'ai'], completedSubnets: ['crypto'] })]);
+    const acpJob = createMockJob({ id: 900, phase: 2 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(acpContext.client.getJobById).toHaveBeenCalledWith(900);
+    expect(acpJob.deliver).toHaveBeenCalledWith({
+      postUrl: 'https://x.com/testuser/status/9000000000',
+      subnets: ['crypto', 'ai'],
+      txHash: '0xabc123',
+      podId: '42',
+      basescanUrl: 'https://basescan.org/tx/0xabc123',
+    });
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('900', 'delivered', { completedSubnets: ['crypto', 'ai'] });
+    expect(pendingJobs.removePendingJob).toHaveBeenCalledWith('900');
+  });
+
+  it('mints, submits and delivers recovered accepted jobs with failed subnets', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    (submitPodMetadata as any)
+      .mockResolvedValueOnce({ data: { id: 'pod-1' } })
+      .mockRejectedValueOnce(new Error('Subnet closed'));
+    const pendingJobs = await withPending([pendingJob({
+      status: 'accepted',
+      subnets: ['crypto', 'ai'],
+      mintTxHash: undefined,
+      podId: undefined,
+    })]);
+    const acpJob = createMockJob({ id: 900, phase: 2 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(acpJob.deliver).toHaveBeenCalledWith(expect.objectContaining({
+      subnets: ['crypto'],
+      failedSubnets: ['ai'],
+      txHash: '0xabc123',
+      podId: '42',
+    }));
+    // Failed subnet stays outstanding for a later follow-up
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('900', 'delivered', { completedSubnets: ['crypto'] });
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('resolves an accepted job from its recorded mint tx instead of minting again', async () => {
+    const { mintPod, resolveMint } = await import('../chain.js');
+    const { claimMint } = await import('../lib/dedup.js');
+    (resolveMint as any).mockResolvedValueOnce({ txHash: '0xsent', receipt: { status: 'success' }, podId: 43n });
+    const pendingJobs = await withPending([pendingJob({ status: 'accepted', mintTxHash: '0xsent', podId: undefined })]);
+    const acpJob = createMockJob({ id: 900, phase: 2 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(resolveMint).toHaveBeenCalledWith(mockClients, '0xsent');
+    expect(claimMint).not.toHaveBeenCalled();
+    expect(mintPod).not.toHaveBeenCalled();
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('900', 'minted', { mintTxHash: '0xsent', podId: 43 });
+    expect(acpJob.deliver).toHaveBeenCalledWith(expect.objectContaining({ txHash: '0xsent', podId: '43' }));
+  });
+
+  it('mints again when the recorded mint tx reverted', async () => {
+    const { mintPod, resolveMint } = await import('../chain.js');
+    const { releaseMintClaim, claimMint } = await import('../lib/dedup.js');
+    await (claimMint as any)('9000000000', '900');
+    (resolveMint as any).mockRejectedValueOnce(new Error('Mint transaction reverted: 0xsent'));
+    await withPending([pendingJob({ status: 'accepted', mintTxHash: '0xsent', podId: undefined })]);
+    const acpJob = createMockJob({ id: 900, phase: 2 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(releaseMintClaim).toHaveBeenCalledWith('9000000000', '900');
+    expect(mintPod).toHaveBeenCalledOnce();
+    expect(acpJob.deliver).toHaveBeenCalledWith(expect.objectContaining({ txHash: '0xabc123' }));
+  });
+
+  it('waits on a recorded mint tx whose receipt is not available yet', async () => {
+    const { mintPod, resolveMint, MintSubmittedError } = await import('../chain.js');
+    const { releaseMintClaim } = await import('../lib/dedup.js');
+    (resolveMint as any).mockRejectedValueOnce(new MintSubmittedError('Mint tx 0xsent receipt not available: timed out', '0xsent'));
+    const pendingJobs = await withPending([pendingJob({ status: 'accepted', mintTxHash: '0xsent', podId: undefined })]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(releaseMintClaim).not.toHaveBeenCalled();
+    expect(mintPod).not.toHaveBeenCalled();
+    expect(pendingJobs.recordPendingJobError).toHaveBeenCalledWith('900', 'Mint tx 0xsent receipt not available: timed out');
+  });
+
+  it('skips delivery for jobs already past the transaction phase', async () => {
+    const pendingJobs = await withPending([pendingJob()]);
+    const acpJob = createMockJob({ id: 900, phase: 4 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(acpJob.deliver).not.toHaveBeenCalled();
+    expect(pendingJobs.removePendingJob).toHaveBeenCalledWith('900');
+  });
+
+  it('keeps the WAL entry when the job cannot be delivered', async () => {
+    const pendingJobs = await withPending([pendingJob()]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(pendingJobs.recordPendingJobError).toHaveBeenCalledWith('900', 'No ACP context to deliver job');
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('clears delivered jobs left in the WAL', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    const pendingJobs = await withPending([pendingJob({ status: 'delivered', completedSubnets: ['crypto'] })]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(submitPodMetadata).not.toHaveBeenCalled();
+    expect(pendingJobs.removePendingJob).toHaveBeenCalledWith('900');
+  });
+
+  it('submits late subnets for delivered jobs and posts a follow-up memo', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    (submitPodMetadata as any).mockResolvedValue({ data: { id: 'pod-1' } });
+    const pendingJobs = await withPending([pendingJob({
+      status: 'delivered',
+      subnets: ['crypto', 'ai'],
+      completedSubnets: ['crypto'],
+    })]);
+    const createNotification = vi.fn().mockResolvedValue(undefined);
+    const acpJob = createMockJob({ id: 900, phase: 3, createNotification });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(submitPodMetadata).toHaveBeenCalledOnce();
+    expect((submitPodMetadata as any).mock.calls[0][2].subnetId).toBe('ai');
+    expect(pendingJobs.markSubnetCompleted).toHaveBeenCalledWith('900', 'ai', 'pod-1');
+    const memo = JSON.parse(createNotification.mock.calls[0][0]);
+    expect(memo).toMatchObject({ subnets: ['crypto', 'ai'], lateSubnets: ['ai'], txHash: '0xabc123' });
+    expect(acpJob.deliver).not.toHaveBeenCalled();
+    expect(pendingJobs.removePendingJob).toHaveBeenCalledWith('900');
+  });
+
+  it('backs off delivered jobs whose late subnets keep failing, without rejecting them', async () => {
+    const { submitPodMetadata } = await import('../reppo.js');
+    (submitPodMetadata as any).mockRejectedValueOnce(new Error('Subnet closed'));
+    const delivered = pendingJob({ status: 'delivered', subnets: ['crypto', 'ai'], completedSubnets: ['crypto'] });
+    let pendingJobs = await withPending([delivered]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(pendingJobs.recordPendingJobError).toHaveBeenCalledWith('900', 'Metadata still failing for subnets: ai');
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+
+    // At the ceiling it is dead-lettered, but the delivered job isn't rejected
+    pendingJobs = await withPending([{ ...delivered, retryCount: 3 }]);
+    const acpJob = createMockJob({ id: 900, phase: 3 });
+    const acpContext = { client: { getJobById: vi.fn().mockResolvedValue(acpJob) } } as any;
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, acpContext, { scheduled: true });
+
+    expect(acpJob.reject).not.toHaveBeenCalled();
+    expect(pendingJobs.updatePendingJobStatus).toHaveBeenCalledWith('900', 'dead_letter', expect.any(Object));
+  });
+
+  it('records the error when a retry fails', async () => {
+    const { fetchTweet } = await import('../twitter.js');
+    (fetchTweet as any).mockRejectedValueOnce(new Error('X API down'));
+    const pendingJobs = await withPending([pendingJob()]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(pendingJobs.recordPendingJobError).toHaveBeenCalledWith('900', 'X API down');
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+  });
+
+  it('skips jobs whose tweet is locked by the poll loop', async () => {
+    const dedup = await import('../lib/dedup.js');
+    const release = await dedup.acquireProcessingLock('9000000000');
+    const pendingJobs = await withPending([pendingJob()]);
+
+    await retryPendingJobs(mockClients, mockSession, retryConfig, undefined, { scheduled: true });
+
+    expect(pendingJobs.removePendingJob).not.toHaveBeenCalled();
+    release?.();
+  });
+});
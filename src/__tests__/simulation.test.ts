@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { createSimulation, fixtureTweetUrl, jobMemos, PHASE, type Simulation } from '../sim/index.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const POST_URL = fixtureTweetUrl('1900000000000000001');
+
+// One simulation for the file: dedup and the pending-job WAL are process-wide
+describe('simulation', () => {
+  let sim: Simulation;
+
+  beforeAll(async () => {
+    sim = await createSimulation();
+  });
+
+  afterAll(async () => {
+    await sim.close();
+  });
+
+  it('publishes a post through request, payment, delivery and evaluation', async () => {
+    const job = await sim.acp.runJob({ postUrl: POST_URL, subnet: 'crypto, ai' });
+
+    expect(job.phase).toBe(PHASE.COMPLETED);
+    expect(job.price).toBeGreaterThan(0);
+    const deliverable = jobMemos(job).find((m) => m.txHash);
+    expect(deliverable).toMatchObject({ postUrl: POST_URL, subnets: ['1', '2'], podId: '1' });
+    expect(Object.keys(deliverable!.reppoUrls as object)).toEqual(['1', '2']);
+
+    expect([...sim.chain.pods.values()]).toEqual([sim.chain.clients.account.address]);
+    expect(sim.reppo.pods.map((p) => [p.subnetId, p.podMintTx])).toEqual([
+      ['1', deliverable!.txHash],
+      ['2', deliverable!.txHash],
+    ]);
+    expect(sim.pods.items.get(1)).toMatchObject({ jobId: job.id, buyerWallet: job.clientAddress });
+  });
+
+  it('rejects a second request for the same post with its existing pod', async () => {
+    const job = await sim.acp.runJob({ postUrl: POST_URL, subnet: 'crypto' });
+
+    expect(job.phase).toBe(PHASE.REJECTED);
+    expect(jobMemos(job).at(-1)).toMatchObject({
+      error: { code: 'DUPLICATE_POST', details: { existingPod: { podId: '1', subnets: ['1', '2'] } } },
+    });
+  });
+
+  it('adds the existing pod to more subnets without minting', async () => {
+    const job = await sim.acp.runJob({ postUrl: POST_URL, subnet: 'culture', addToExistingPod: true });
+
+    expect(job.phase).toBe(PHASE.COMPLETED);
+    expect(jobMemos(job).find((m) => m.txHash)).toMatchObject({ subnets: ['3'], podId: '1', existingPod: true });
+    expect(sim.chain.pods.size).toBe(1);
+  });
+
+  it('delivers batch posts that minted and lists the rest as failed', async () => {
+    const job = await sim.acp.runJob({
+      postUrls: [fixtureTweetUrl('1900000000000000002'), fixtureTweetUrl('1900000000000000999')],
+      subnet: 'ai',
+    });
+
+    expect(job.phase).toBe(PHASE.COMPLETED);
+    expect(jobMemos(job).find((m) => m.minted !== undefined)).toMatchObject({ minted: 1, failed: 1 });
+    expect(sim.chain.pods.size).toBe(2);
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { resolveContentSource } from '../sources/index.js';
+import { parseOpenGraph, assertPublicUrl, normalizeUrl, fetchOpenGraphContent } from '../sources/opengraph.js';
+import { parseNeynarCast, farcasterSource, initFarcasterSource } from '../sources/farcaster.js';
+import { parseGithubRepo } from '../sources/github.js';
+import { youtubeSource } from '../sources/youtube.js';
+
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn().mockResolvedValue([{ address: '93.184.216.34', family: 4 }]),
+}));
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function htmlResponse(html: string, init: ResponseInit = {}) {
+  return new Response(html, { status: 200, headers: { 'content-type': 'text/html; charset=utf-8' }, ...init });
+}
+
+describe('resolveContentSource', () => {
+  it.each([
+    ['https://x.com/alice/status/1234567890', 'x', '1234567890'],
+    ['https://twitter.com/alice/status/1234567890?s=20', 'x', '1234567890'],
+    ['https://farcaster.xyz/alice/0x1A2b3c4d', 'farcaster', 'farcaster:0x1a2b3c4d'],
+    ['https://warpcast.com/alice/0x1a2b3c4d', 'farcaster', 'farcaster:0x1a2b3c4d'],
+    ['https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42', 'youtube', 'youtube:dQw4w9WgXcQ'],
+    ['https://youtu.be/dQw4w9WgXcQ', 'youtube', 'youtube:dQw4w9WgXcQ'],
+    ['https://youtube.com/shorts/dQw4w9WgXcQ', 'youtube', 'youtube:dQw4w9WgXcQ'],
+    ['https://github.com/Owner/Repo', 'github', 'github:owner/repo'],
+    ['https://github.com/owner/repo/releases/tag/v1.2.0', 'github', 'github:owner/repo@v1.2.0'],
+    ['https://mirror.xyz/alice.eth/AbCdEfGhIjKlMnOpQrStUvWxYz0123456789_-abcd', 'mirror', 'mirror:AbCdEfGhIjKlMnOpQrStUvWxYz0123456789_-abcd'],
+    ['https://paragraph.com/@alice/my-first-post', 'paragraph', 'paragraph:alice/my-first-post'],
+    ['https://Example.com/blog/post/?utm_source=x#top', 'web', 'web:https://example.com/blog/post'],
+  ])('%s → %s', (url, platform, contentId) => {
+    const resolved = resolveContentSource(url);
+    expect(resolved?.source.platform).toBe(platform);
+    expect(resolved?.contentId).toBe(contentId);
+  });
+
+  it('returns null for non-http URLs', () => {
+    expect(resolveContentSource('ftp://example.com/file')).toBeNull();
+    expect(resolveContentSource('not a url')).toBeNull();
+  });
+});
+
+describe('parseOpenGraph', () => {
+  it('prefers og tags and decodes entities', () => {
+    const og = parseOpenGraph(`
+      <html><head>
+        <title>Fallback title</title>
+        <meta name="description" content="Plain description">
+        <meta property="og:title" content="Ben &amp; Jerry&#39;s" />
+        <meta content="OG description" property="og:description">
+        <meta property="og:image" content="/cover.png">
+        <meta name="author" content="Alice">
+      </head></html>`);
+
+    expect(og).toMatchObject({
+      title: "Ben & Jerry's",
+      description: 'OG description',
+      image: '/cover.png',
+      author: 'Alice',
+    });
+  });
+
+  it('falls back to <title> and meta description', () => {
+    const og = parseOpenGraph('<title> Just a page </title><meta name="description" content="About it">');
+    expect(og.title).toBe('Just a page');
+    expect(og.description).toBe('About it');
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://localhost:3000/admin',
+    'http://127.0.0.1/',
+    'http://169.254.169.254/latest/meta-data',
+    'http://10.0.0.5/',
+    'http://192.168.1.1/',
+    'http://[::1]/',
+    'file:///etc/passwd',
+  ])('refuses %s', (url) => {
+    expect(() => assertPublicUrl(url)).toThrow();
+  });
+
+  it('allows public hosts', () => {
+    expect(assertPublicUrl('https://example.com/post').hostname).toBe('example.com');
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('keeps meaningful query params', () => {
+    expect(normalizeUrl('https://example.com/a?id=1&utm_medium=social')).toBe('https://example.com/a?id=1');
+  });
+});
+
+describe('fetchOpenGraphContent', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('builds content from meta tags, resolving relative images', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(htmlResponse(
+      '<meta property="og:title" content="Post"><meta property="og:description" content="Body"><meta property="og:image" content="/img.png">',
+    )));
+
+    const content = await fetchOpenGraphContent('https://blog.example.com/p/1', { platform: 'web', category: 'article' });
+
+    expect(content).toMatchObject({
+      platform: 'web',
+      category: 'article',
+      url: 'https://blog.example.com/p/1',
+      title: 'Post',
+      text: 'Body',
+      imageUrl: 'https://blog.example.com/img.png',
+    });
+  });
+
+  it('refuses redirects to private hosts', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest' } }),
+    ));
+
+    await expect(fetchOpenGraphContent('https://example.com/r', { platform: 'web', category: 'article' }))
+      .rejects.toThrow('non-public host');
+  });
+
+  it('refuses public names that resolve to private addresses', async () => {
+    const { lookup } = await import('dns/promises');
+    (lookup as any).mockResolvedValueOnce([{ address: '10.0.0.8', family: 4 }]);
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchOpenGraphContent('https://internal.example.com/p', { platform: 'web', category: 'article' }))
+      .rejects.toThrow('resolves to 10.0.0.8');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('resolves every redirect hop', async () => {
+    const { lookup } = await import('dns/promises');
+    (lookup as any)
+      .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }])
+      .mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }]);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(null, { status: 302, headers: { location: 'https://rebind.example.net/' } }),
+    ));
+
+    await expect(fetchOpenGraphContent('https://example.com/r', { platform: 'web', category: 'article' }))
+      .rejects.toThrow('resolves to 127.0.0.1');
+  });
+
+  it('fails on pages without any metadata', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(htmlResponse('<html><body>hi</body></html>')));
+
+    await expect(fetchOpenGraphContent('https://example.com/empty', { platform: 'web', category: 'article' }))
+      .rejects.toThrow('No title or description');
+  });
+});
+
+describe('farcaster source', () => {
+  afterEach(() => {
+    initFarcasterSource(undefined);
+    vi.unstubAllGlobals();
+  });
+
+  it('maps a Neynar cast', () => {
+    const content = parseNeynarCast({
+      hash: '0x1a2b3c4d',
+      text: 'gm',
+      timestamp: '2025-01-01T00:00:00Z',
+      author: { fid: 3, username: 'dwr', display_name: 'Dan', pfp_url: 'https://i.imgur.com/a.png', follower_count: 100 },
+      embeds: [
+        { url: 'https://imagedelivery.net/x.png', metadata: { content_type: 'image/png', image: { width_px: 800, height_px: 600 } } },
+        { url: 'https://example.com', metadata: { content_type: 'text/html' } },
+      ],
+      reactions: { likes_count: 5, recasts_count: 2 },
+      replies: { count: 1 },
+    }, 'https://farcaster.xyz/dwr/0x1a2b3c4d');
+
+    expect(content).toMatchObject({
+      platform: 'farcaster',
+      category: 'social',
+      text: 'gm',
+      imageUrl: 'https://imagedelivery.net/x.png',
+      author: { id: '3', username: 'dwr', name: 'Dan', followers: 100 },
+      metrics: { likes: 5, reposts: 2, replies: 1 },
+    });
+    expect(content.media).toHaveLength(1);
+  });
+
+  it('looks the cast up by URL with the Neynar key', async () => {
+    initFarcasterSource('neynar-key');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      cast: { hash: '0x1a2b3c4d', text: 'gm', author: { fid: 3, username: 'dwr' } },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const content = await farcasterSource.fetch('https://farcaster.xyz/dwr/0x1a2b3c4d');
+
+    expect(content.text).toBe('gm');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toContain('identifier=https%3A%2F%2Ffarcaster.xyz%2Fdwr%2F0x1a2b3c4d&type=url');
+    expect(init.headers['x-api-key']).toBe('neynar-key');
+  });
+
+  it('falls back to OpenGraph without a key', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(htmlResponse('<meta property="og:title" content="Dan on Farcaster"><meta property="og:description" content="gm">')));
+
+    const content = await farcasterSource.fetch('https://farcaster.xyz/dwr/0x1a2b3c4d');
+
+    expect(content).toMatchObject({ platform: 'farcaster', text: 'gm', title: 'Dan on Farcaster' });
+  });
+});
+
+describe('youtube source', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('combines oEmbed with the page description', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (url: string | URL) => String(url).includes('/oembed')
+      ? new Response(JSON.stringify({
+        title: 'Never Gonna Give You Up',
+        author_name: 'Rick Astley',
+        author_url: 'https://www.youtube.com/@RickAstleyYT',
+        thumbnail_url: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+        thumbnail_width: 480,
+        thumbnail_height: 360,
+      }))
+      : htmlResponse('<meta property="og:description" content="The official video">')));
+
+    const content = await youtubeSource.fetch('https://youtu.be/dQw4w9WgXcQ');
+
+    expect(content).toMatchObject({
+      platform: 'youtube',
+      category: 'video',
+      title: 'Never Gonna Give You Up',
+      text: 'The official video',
+      imageUrl: 'https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg',
+      author: { username: 'RickAstleyYT', name: 'Rick Astley' },
+    });
+  });
+});
+
+describe('parseGithubRepo', () => {
+  const repo = {
+    full_name: 'owner/repo',
+    description: 'A tool',
+    html_url: 'https://github.com/owner/repo',
+    stargazers_count: 120,
+    forks_count: 7,
+    owner: { id: 1, login: 'owner', avatar_url: 'https://avatars.githubusercontent.com/u/1' },
+  };
+
+  it('maps a repository', () => {
+    expect(parseGithubRepo(repo, 'https://github.com/owner/repo')).toMatchObject({
+      platform: 'github',
+      category: 'code',
+      title: 'owner/repo',
+      text: 'A tool',
+      imageUrl: 'https://opengraph.githubassets.com/1/owner/repo',
+      author: { id: '1', username: 'owner' },
+      metrics: { stars: 120, forks: 7 },
+    });
+  });
+
+  it('uses release notes for releases', () => {
+    const content = parseGithubRepo(repo, 'https://github.com/owner/repo/releases/tag/v1.0.0', {
+      name: 'v1.0.0 — first stable',
+      tag_name: 'v1.0.0',
+      body: 'Changelog',
+      html_url: 'https://github.com/owner/repo/releases/tag/v1.0.0',
+      published_at: '2025-02-01T00:00:00Z',
+    });
+    expect(content.title).toBe('owner/repo v1.0.0 — first stable');
+    expect(content.text).toBe('Changelog');
+    expect(content.createdAt).toBe('2025-02-01T00:00:00Z');
+  });
+});
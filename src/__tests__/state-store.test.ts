@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFileStateStore } from '../lib/file-state-store.js';
+import { createDynamoStateStore } from '../lib/dynamo-state-store.js';
+import type { ContentPod, PendingJob } from '../types.js';
+
+// Mock logger
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const contentPod: ContentPod = {
+  contentId: '123',
+  postUrl: 'https://x.com/user/status/123',
+  podId: 42,
+  mintTxHash: '0xabc',
+  subnets: ['crypto'],
+  jobId: '1',
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-01T00:00:00Z',
+};
+
+function pendingJob(jobId: string, overrides?: Partial<PendingJob>): PendingJob {
+  return {
+    jobId,
+    tweetId: '123',
+    postUrl: 'https://x.com/user/status/123',
+    subnets: ['crypto'],
+    buyerId: null,
+    status: 'accepted',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+    retryCount: 0,
+    ...overrides,
+  };
+}
+
+describe('createFileStateStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'reppo-state-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('marks tweets and jobs first-writer-wins', async () => {
+    const store = createFileStateStore(dir);
+
+    expect(await store.markProcessed('t1')).toBe(true);
+    expect(await store.markProcessed('t1')).toBe(false);
+    expect(await store.isProcessed('t1')).toBe(true);
+    expect(await store.listProcessedTweets()).toEqual(['t1']);
+
+    expect(await store.markJobMinted('j1')).toBe(true);
+    expect(await store.markJobMinted('j1')).toBe(false);
+    expect(await store.listMintedJobs()).toEqual(['j1']);
+  });
+
+  it('gives a mint claim back', async () => {
+    const store = createFileStateStore(dir);
+    await store.markProcessed('t1');
+    await store.markJobMinted('j1');
+
+    await store.unmarkProcessed('t1');
+    await store.unmarkJobMinted('j1');
+
+    expect(await store.isProcessed('t1')).toBe(false);
+    expect(await store.isJobMinted('j1')).toBe(false);
+    expect(await store.markJobMinted('j1')).toBe(true);
+    expect(await store.isJobMinted('j1')).toBe(true);
+  });
+
+  it('reads the legacy dedup file format', async () => {
+    writeFileSync(join(dir, '.reppo-dedup.json'), JSON.stringify({
+      processedTweets: ['old-tweet'],
+      mintedJobs: ['old-job'],
+      lastUpdated: '2025-01-01T00:00:00Z',
+    }));
+    const store = createFileStateStore(dir);
+
+    expect(await store.isProcessed('old-tweet')).toBe(true);
+    expect(await store.listMintedJobs()).toEqual(['old-job']);
+  });
+
+  it('upserts and deletes pending jobs', async () => {
+    const store = createFileStateStore(dir);
+
+    await store.putPendingJob(pendingJob('1'));
+    await store.putPendingJob(pendingJob('2'));
+    await store.putPendingJob(pendingJob('1', { status: 'minted' }));
+
+    let jobs = await store.listPendingJobs();
+    expect(jobs.map((j) => [j.jobId, j.status])).toEqual([['1', 'minted'], ['2', 'accepted']]);
+
+    await store.deletePendingJob('1');
+    jobs = await store.listPendingJobs();
+    expect(jobs.map((j) => j.jobId)).toEqual(['2']);
+  });
+
+  it('indexes pods by content ID', async () => {
+    const store = createFileStateStore(dir);
+
+    expect(await store.getContentPod('123')).toBeNull();
+    await store.putContentPod(contentPod);
+    await store.putContentPod({ ...contentPod, subnets: ['crypto', 'ai'] });
+
+    expect(await createFileStateStore(dir).getContentPod('123')).toEqual({ ...contentPod, subnets: ['crypto', 'ai'] });
+  });
+
+  it('stores agent and buyer sessions separately', async () => {
+    const store = createFileStateStore(dir);
+
+    expect(await store.getAgentSession()).toBeNull();
+    await store.putAgentSession({ agentId: 'a', accessToken: 't' });
+    await store.putBuyerSession('0xbuyer', { agentId: 'b', accessToken: 'u' });
+
+    expect(await store.getAgentSession()).toEqual({ agentId: 'a', accessToken: 't' });
+    expect(await store.getBuyerSession('0xbuyer')).toEqual({ agentId: 'b', accessToken: 'u' });
+    expect(await store.getBuyerSession('0xother')).toBeNull();
+  });
+
+  it('holds locks until released or expired', async () => {
+    const store = createFileStateStore(dir);
+
+    expect(await store.acquireLock('k', 60_000)).toBe(true);
+    expect(await store.acquireLock('k', 60_000)).toBe(false);
+    await store.releaseLock('k');
+    expect(await store.acquireLock('k', -1)).toBe(true);
+    // Expired immediately
+    expect(await store.acquireLock('k', 60_000)).toBe(true);
+  });
+
+  it('shares locks between processes on the same data dir', async () => {
+    const a = createFileStateStore(dir);
+    const b = createFileStateStore(dir);
+
+    expect(await a.acquireLock('emissions-claim', 60_000)).toBe(true);
+    expect(await b.acquireLock('emissions-claim', 60_000)).toBe(false);
+    // B cannot release A's lock
+    await b.releaseLock('emissions-claim');
+    expect(await b.acquireLock('emissions-claim', 60_000)).toBe(false);
+    await a.releaseLock('emissions-claim');
+    expect(await b.acquireLock('emissions-claim', 60_000)).toBe(true);
+  });
+});
+
+/**
+ * Tiny in-memory stand-in for the DynamoDB document client that honours the
+ * condition expressions the store uses.
+ */
+function createFakeDocClient() {
+  const items = new Map<string, Record<string, any>>();
+  const conditionFailed = () => Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+
+  const send = vi.fn(async (command: any) => {
+    const input = command.input;
+    switch (command.constructor.name) {
+      case 'PutCommand': {
+        const existing = items.get(input.Item.pk);
+        const cond: string | undefined = input.ConditionExpression;
+        if (cond && existing) {
+          const expired = cond.includes('expiresAt < :now') && existing.expiresAt < input.ExpressionAttributeValues[':now'];
+          if (!expired) throw conditionFailed();
+        }
+        items.set(input.Item.pk, input.Item);
+        return {};
+      }
+      case 'GetCommand':
+        return { Item: items.get(input.Key.pk) };
+      case 'DeleteCommand': {
+        const existing = items.get(input.Key.pk);
+        if (input.ConditionExpression && existing?.owner !== input.ExpressionAttributeValues[':owner']) {
+          throw conditionFailed();
+        }
+        items.delete(input.Key.pk);
+        return {};
+      }
+      case 'ScanCommand':
+        return { Items: [...items.values()].filter((i) => i.type === input.ExpressionAttributeValues[':type']) };
+      default:
+        throw new Error(`Unexpected command ${command.constructor.name}`);
+    }
+  });
+
+  return { send, items } as any;
+}
+
+describe('createDynamoStateStore', () => {
+  it('uses conditional writes for dedup markers', async () => {
+    const store = createDynamoStateStore(createFakeDocClient(), 'state');
+
+    expect(await store.markProcessed('t1')).toBe(true);
+    expect(await store.markProcessed('t1')).toBe(false);
+    expect(await store.isProcessed('t1')).toBe(true);
+    expect(await store.isProcessed('t2')).toBe(false);
+
+    expect(await store.markJobMinted('j1')).toBe(true);
+    expect(await store.markJobMinted('j1')).toBe(false);
+    expect(await store.listMintedJobs()).toEqual(['j1']);
+    expect(await store.listProcessedTweets()).toEqual(['t1']);
+  });
+
+  it('reads minted jobs from the table and gives mint claims back', async () => {
+    const docClient = createFakeDocClient();
+    const replicaA = createDynamoStateStore(docClient, 'state');
+    const replicaB = createDynamoStateStore(docClient, 'state');
+
+    expect(await replicaA.markJobMinted('j1')).toBe(true);
+    expect(await replicaB.isJobMinted('j1')).toBe(true);
+
+    await replicaA.unmarkJobMinted('j1');
+    await replicaA.markProcessed('t1');
+    await replicaA.unmarkProcessed('t1');
+    expect(await replicaB.isJobMinted('j1')).toBe(false);
+    expect(await replicaB.markProcessed('t1')).toBe(true);
+  });
+
+  it('shares locks between replicas on the same table', async () => {
+    const docClient = createFakeDocClient();
+    const replicaA = createDynamoStateStore(docClient, 'state');
+    const replicaB = createDynamoStateStore(docClient, 'state');
+
+    expect(await replicaA.acquireLock('tweet:1', 60_000)).toBe(true);
+    expect(await replicaB.acquireLock('tweet:1', 60_000)).toBe(false);
+
+    // B cannot release A's lock
+    await replicaB.releaseLock('tweet:1');
+    expect(await replicaB.acquireLock('tweet:1', 60_000)).toBe(false);
+
+    await replicaA.releaseLock('tweet:1');
+    expect(await replicaB.acquireLock('tweet:1', 60_000)).toBe(true);
+  });
+
+  it('takes over an expired lock', async () => {
+    const docClient = createFakeDocClient();
+    const replicaA = createDynamoStateStore(docClient, 'state');
+    const replicaB = createDynamoStateStore(docClient, 'state');
+
+    expect(await replicaA.acquireLock('tweet:1', -1)).toBe(true);
+    expect(await replicaB.acquireLock('tweet:1', 60_000)).toBe(true);
+  });
+
+  it('round-trips pending jobs and sessions', async () => {
+    const store = createDynamoStateStore(createFakeDocClient(), 'state');
+
+    await store.putPendingJob(pendingJob('1'));
+    expect((await store.listPendingJobs()).map((j) => j.jobId)).toEqual(['1']);
+    await store.deletePendingJob('1');
+    expect(await store.listPendingJobs()).toEqual([]);
+
+    await store.putAgentSession({ agentId: 'a', accessToken: 't' });
+    await store.putBuyerSession('0xbuyer', { agentId: 'b', accessToken: 'u' });
+    expect(await store.getAgentSession()).toEqual({ agentId: 'a', accessToken: 't' });
+    expect(await store.getBuyerSession('0xbuyer')).toEqual({ agentId: 'b', accessToken: 'u' });
+
+    expect(await store.getContentPod('123')).toBeNull();
+    await store.putContentPod(contentPod);
+    expect(await store.getContentPod('123')).toEqual(contentPod);
+  });
+});
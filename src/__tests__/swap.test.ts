@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { quoteUsdcForReppo, swapUsdcForReppo } from '../swap.js';
+import { getNetworkProfile } from '../lib/network.js';
+
+// Mock logger
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+// Mock http module (withRetry, isRetryableError)
+vi.mock('../lib/http.js', () => ({
+  withRetry: vi.fn(async (fn: () => Promise<unknown>) => fn()),
+  isRetryableError: () => false,
+}));
+
+const EOA = '0x1234567890abcdef1234567890abcdef12345678';
+
+/** Quoter returns the given USDC amount per fee tier; missing tiers revert (no pool) */
+function createMockClients(quotes: Record<number, bigint>, opts: { balance?: bigint; allowance?: bigint } = {}) {
+  const publicClient = {
+    simulateContract: vi.fn(async ({ args }: any) => {
+      const amountIn = quotes[args[0].fee];
+      if (amountIn === undefined) throw new Error('execution reverted');
+      return { result: [amountIn, 0n, 0, 0n] };
+    }),
+    readContract: vi.fn(async ({ functionName }: any) => {
+      if (functionName === 'balanceOf') return opts.balance ?? 1_000_000_000n;
+      if (functionName === 'allowance') return opts.allowance ?? 0n;
+      throw new Error(`unexpected read ${functionName}`);
+    }),
+    waitForTransactionReceipt: vi.fn().mockResolvedValue({ status: 'success', blockNumber: 1n }),
+  };
+  const walletClient = {
+    writeContract: vi.fn().mockResolvedValue('0xswap'),
+  };
+  return { account: { address: EOA }, publicClient, walletClient, network: getNetworkProfile('base') } as any;
+}
+
+describe('quoteUsdcForReppo', () => {
+  it('picks the cheapest fee tier', async () => {
+    const clients = createMockClients({ 3000: 5_000_000n, 10000: 4_000_000n, 500: 6_000_000n });
+    const quote = await quoteUsdcForReppo(clients, 10n ** 18n);
+
+    expect(quote.fee).toBe(10000);
+    expect(quote.amountIn).toBe(4_000_000n);
+  });
+
+  it('skips fee tiers without a pool', async () => {
+    const clients = createMockClients({ 500: 7_000_000n });
+    const quote = await quoteUsdcForReppo(clients, 10n ** 18n);
+
+    expect(quote.fee).toBe(500);
+    expect(clients.publicClient.simulateContract).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws when no tier can be quoted', async () => {
+    const clients = createMockClients({});
+    await expect(quoteUsdcForReppo(clients, 10n ** 18n)).rejects.toThrow('No USDC → REPPO pool quote');
+  });
+});
+
+describe('swapUsdcForReppo', () => {
+  it('approves and executes a deadline-bound multicall from the EOA', async () => {
+    const clients = createMockClients({ 3000: 1_000_000n });
+    const result = await swapUsdcForReppo(clients, 10n ** 18n);
+
+    const calls = clients.walletClient.writeContract.mock.calls.map((c: any) => c[0].functionName);
+    expect(calls).toEqual(['approve', 'multicall']);
+
+    // 1% slippage on top of the quote
+    expect(result.amountInMaximum).toBe(1_010_000n);
+    expect(result.fee).toBe(3000);
+
+    const [deadline, data] = clients.walletClient.writeContract.mock.calls[1][0].args;
+    expect(deadline).toBeGreaterThan(BigInt(Math.floor(Date.now() / 1000)));
+    expect(data).toHaveLength(1);
+  });
+
+  it('skips approval when allowance is sufficient', async () => {
+    const clients = createMockClients({ 3000: 1_000_000n }, { allowance: 10n ** 12n });
+    await swapUsdcForReppo(clients, 10n ** 18n);
+
+    const calls = clients.walletClient.writeContract.mock.calls.map((c: any) => c[0].functionName);
+    expect(calls).toEqual(['multicall']);
+  });
+
+  it('sends through the AA session key client when wired', async () => {
+    const clients = createMockClients({ 3000: 1_000_000n }, { allowance: 10n ** 12n });
+    const sendTransaction = vi.fn().mockResolvedValue('0xaa');
+    clients.contractClient = { sessionKeyClient: { sendTransaction } };
+    clients.aaWalletAddress = '0x00000000000000000000000000000000000000aa';
+
+    const result = await swapUsdcForReppo(clients, 10n ** 18n);
+
+    expect(sendTransaction).toHaveBeenCalledOnce();
+    expect(clients.walletClient.writeContract).not.toHaveBeenCalled();
+    expect(result.txHash).toBe('0xaa');
+  });
+
+  it('throws when USDC balance does not cover the quote', async () => {
+    const clients = createMockClients({ 3000: 1_000_000n }, { balance: 500_000n });
+    await expect(swapUsdcForReppo(clients, 10n ** 18n)).rejects.toThrow('Insufficient USDC for swap');
+    expect(clients.walletClient.writeContract).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractTweetId } from '../twitter.js';
+import { extractTweetId, parseTweetResponse } from '../twitter.js';
 
 describe('extractTweetId', () => {
   it('extracts ID from x.com URL', () => {
@@ -22,3 +22,95 @@ describe('extractTweetId', () => {
     expect(() => extractTweetId('')).toThrow('Invalid X/Twitter URL');
   });
 });
+
+describe('parseTweetResponse', () => {
+  const author = {
+    id: '1',
+    username: 'alice',
+    name: 'Alice',
+    profile_image_url: 'https://pbs.twimg.com/profile_images/1/a_normal.jpg',
+    public_metrics: { followers_count: 1200 },
+    verified: true,
+  };
+
+  it('maps media, author, metrics and long text', () => {
+    const result = parseTweetResponse({
+      data: {
+        id: '100',
+        text: 'Truncated…',
+        note_tweet: { text: 'The full long-form text of the post' },
+        author_id: '1',
+        created_at: '2025-01-01T00:00:00.000Z',
+        conversation_id: '100',
+        attachments: { media_keys: ['m1', 'm2'] },
+        public_metrics: { like_count: 10, retweet_count: 2, reply_count: 3, quote_count: 1, impression_count: 500, bookmark_count: 4 },
+        edit_history_tweet_ids: ['100'],
+      },
+      includes: {
+        users: [author],
+        media: [
+          { media_key: 'm1', type: 'photo', url: 'https://pbs.twimg.com/media/p.jpg', width: 1200, height: 800, alt_text: 'A chart' },
+          {
+            media_key: 'm2',
+            type: 'video',
+            preview_image_url: 'https://pbs.twimg.com/media/v.jpg',
+            duration_ms: 15000,
+            variants: [
+              { content_type: 'application/x-mpegURL', url: 'https://video.twimg.com/v.m3u8' },
+              { content_type: 'video/mp4', bit_rate: 256000, url: 'https://video.twimg.com/v-256.mp4' },
+              { content_type: 'video/mp4', bit_rate: 2176000, url: 'https://video.twimg.com/v-2176.mp4' },
+            ],
+          },
+        ],
+      },
+    } as any);
+
+    expect(result.text).toBe('The full long-form text of the post');
+    expect(result.authorUsername).toBe('alice');
+    expect(result.author).toEqual({
+      id: '1',
+      username: 'alice',
+      name: 'Alice',
+      avatarUrl: 'https://pbs.twimg.com/profile_images/1/a_400x400.jpg',
+      followers: 1200,
+      verified: true,
+    });
+    expect(result.metrics).toEqual({ likes: 10, reposts: 2, replies: 3, quotes: 1, bookmarks: 4, impressions: 500 });
+    expect(result.mediaUrls).toEqual(['https://pbs.twimg.com/media/p.jpg', 'https://pbs.twimg.com/media/v.jpg']);
+    expect(result.media[0]).toMatchObject({ type: 'photo', width: 1200, altText: 'A chart' });
+    expect(result.media[1].variants?.map((v) => v.bitRate)).toEqual([2176000, 256000, undefined]);
+    expect(result.quotedTweet).toBeUndefined();
+    expect(result.conversationRoot).toBeUndefined();
+  });
+
+  it('resolves the quoted tweet and an expanded thread root', () => {
+    const result = parseTweetResponse({
+      data: {
+        id: '300',
+        text: 'Reply quoting something',
+        author_id: '1',
+        conversation_id: '200',
+        referenced_tweets: [{ type: 'replied_to', id: '200' }, { type: 'quoted', id: '250' }],
+        edit_history_tweet_ids: ['300'],
+      },
+      includes: {
+        users: [author, { id: '2', username: 'bob', name: 'Bob' }],
+        tweets: [
+          { id: '200', text: 'Thread start', author_id: '2', edit_history_tweet_ids: ['200'] },
+          { id: '250', text: 'Quoted post', author_id: '2', attachments: { media_keys: ['q1'] }, edit_history_tweet_ids: ['250'] },
+        ],
+        media: [{ media_key: 'q1', type: 'photo', url: 'https://pbs.twimg.com/media/q.jpg' }],
+      },
+    } as any);
+
+    expect(result.mediaUrls).toEqual([]);
+    expect(result.quotedTweet).toMatchObject({
+      id: '250',
+      url: 'https://x.com/bob/status/250',
+      text: 'Quoted post',
+      author: { username: 'bob' },
+      media: [{ url: 'https://pbs.twimg.com/media/q.jpg' }],
+    });
+    expect(result.conversationRoot).toMatchObject({ id: '200', text: 'Thread start', url: 'https://x.com/bob/status/200' });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { keccak256, toHex, pad, zeroAddress, getAddress, TransactionReceiptNotFoundError } from 'viem';
+import { findPodMints, verifyPodMint } from '../lib/verify.js';
+
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+const getTransactionReceipt = vi.fn();
+const publicClient = { getTransactionReceipt } as any;
+
+const POD = '0xcfF0511089D0Fbe92E1788E4aFFF3E7930b3D47c';
+const WALLET = '0x1234567890abcdef1234567890abcdef12345678';
+
+function transferLog(from: string, to: string, tokenId: bigint, address = POD) {
+  return {
+    data: '0x',
+    topics: [
+      keccak256(toHex('Transfer(address,address,uint256)')),
+      pad(from as `0x${string}`, { size: 32 }),
+      pad(to as `0x${string}`, { size: 32 }),
+      pad(toHex(tokenId), { size: 32 }),
+    ],
+    address,
+  } as any;
+}
+
+describe('findPodMints', () => {
+  it('only counts mints from the pod contract', () => {
+    const logs = [
+      transferLog(zeroAddress, WALLET, 42n),
+      // Transfer of an existing pod, and a mint on another contract
+      transferLog(WALLET, '0x2222222222222222222222222222222222222222', 41n),
+      transferLog(zeroAddress, WALLET, 7n, '0x3333333333333333333333333333333333333333'),
+    ];
+
+    expect(findPodMints({ logs }, POD)).toEqual([{ podId: 42n, owner: getAddress(WALLET) }]);
+  });
+});
+
+describe('verifyPodMint', () => {
+  beforeEach(() => {
+    getTransactionReceipt.mockReset();
+  });
+
+  it('accepts the claimed pod minted to one of our wallets', async () => {
+    getTransactionReceipt.mockResolvedValue({ status: 'success', blockNumber: 100n, logs: [transferLog(zeroAddress, WALLET, 42n)] });
+
+    // Owners match case-insensitively against the checksummed event address
+    expect(await verifyPodMint(publicClient, POD, '0xabc', { podId: 42n, owners: [WALLET] })).toEqual({
+      ok: true,
+      podId: 42n,
+      owner: getAddress(WALLET),
+    });
+  });
+
+  it('rejects reverted txs, other pods and other owners', async () => {
+    getTransactionReceipt.mockResolvedValueOnce({ status: 'reverted', blockNumber: 100n, logs: [] });
+    expect(await verifyPodMint(publicClient, POD, '0xabc', { podId: 42n, owners: [WALLET] })).toEqual({ ok: false, reason: 'Mint tx failed on-chain: 0xabc' });
+
+    getTransactionReceipt.mockResolvedValue({ status: 'success', blockNumber: 100n, logs: [transferLog(zeroAddress, WALLET, 42n)] });
+    expect(await verifyPodMint(publicClient, POD, '0xabc', { podId: 43n, owners: [WALLET] })).toEqual({ ok: false, reason: 'Tx 0xabc did not mint pod 43' });
+
+    const other = await verifyPodMint(publicClient, POD, '0xabc', { podId: 42n, owners: ['0x9999999999999999999999999999999999999999'] });
+    expect(other).toEqual({ ok: false, reason: `Pod 42 was minted to ${getAddress(WALLET)}, not our wallet` });
+  });
+
+  it('rejects tx hashes that are not on chain', async () => {
+    getTransactionReceipt.mockRejectedValue(new TransactionReceiptNotFoundError({ hash: '0xdead' }));
+
+    expect(await verifyPodMint(publicClient, POD, '0xdead', { podId: 42n, owners: [WALLET] })).toEqual({ ok: false, reason: 'Mint tx not found: 0xdead' });
+  });
+
+  it('throws when the receipt cannot be read', async () => {
+    getTransactionReceipt.mockRejectedValue(new Error('HTTP request failed: 503'));
+
+    await expect(verifyPodMint(publicClient, POD, '0xabc', { podId: 42n, owners: [WALLET] })).rejects.toThrow('503');
+  });
+});
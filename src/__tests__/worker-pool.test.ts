@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createWorkerPool } from '../lib/worker-pool.js';
+import { createMutex } from '../lib/mutex.js';
+
+// Mock logger
+vi.mock('../lib/logger.js', () => ({
+  createLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('createWorkerPool', () => {
+  it('runs at most `concurrency` tasks at once', async () => {
+    const pool = createWorkerPool(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    gates.forEach((gate, i) => {
+      pool.submit(`job-${i}`, async () => {
+        started.push(i);
+        await gate.promise;
+      });
+    });
+
+    expect(started).toEqual([0, 1]);
+    expect(pool.active()).toBe(2);
+    expect(pool.queued()).toBe(1);
+
+    gates[0].resolve();
+    await vi.waitFor(() => expect(started).toEqual([0, 1, 2]));
+
+    gates[1].resolve();
+    gates[2].resolve();
+    await pool.drain();
+    expect(pool.active()).toBe(0);
+  });
+
+  it('refuses a key that is already queued or running', async () => {
+    const pool = createWorkerPool(1);
+    const gate = deferred();
+    const task = vi.fn(() => gate.promise);
+
+    expect(pool.submit('job-1', task)).toBe(true);
+    expect(pool.submit('job-1', task)).toBe(false);
+    expect(pool.has('job-1')).toBe(true);
+
+    gate.resolve();
+    await pool.drain();
+
+    expect(task).toHaveBeenCalledOnce();
+    expect(pool.has('job-1')).toBe(false);
+    expect(pool.submit('job-1', async () => {})).toBe(true);
+    await pool.drain();
+  });
+
+  it('keeps going after a task throws', async () => {
+    const pool = createWorkerPool(1);
+    const after = vi.fn(async () => {});
+
+    pool.submit('bad', async () => { throw new Error('boom'); });
+    pool.submit('good', after);
+    await pool.drain();
+
+    expect(after).toHaveBeenCalledOnce();
+  });
+});
+
+describe('createMutex', () => {
+  it('serializes holders in submission order', async () => {
+    const mutex = createMutex();
+    const events: string[] = [];
+    const gate = deferred();
+
+    const first = mutex.runExclusive(async () => {
+      events.push('first:start');
+      await gate.promise;
+      events.push('first:end');
+    });
+    const second = mutex.runExclusive(async () => {
+      events.push('second');
+    });
+
+    await Promise.resolve();
+    expect(events).toEqual(['first:start']);
+
+    gate.resolve();
+    await Promise.all([first, second]);
+    expect(events).toEqual(['first:start', 'first:end', 'second']);
+  });
+
+  it('releases the lock when a holder rejects', async () => {
+    const mutex = createMutex();
+
+    await expect(mutex.runExclusive(async () => { throw new Error('fail'); })).rejects.toThrow('fail');
+    await expect(mutex.runExclusive(async () => 'ok')).resolves.toBe('ok');
+  });
+});
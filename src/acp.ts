@@ -3,7 +3,10 @@ import _AcpModule, { AcpContractClientV2, baseAcpConfigV2, baseSepoliaAcpConfigV
 const AcpClient = (_AcpModule as any).default ?? _AcpModule;
 import type { Config } from './config.js';
 import { handlePublishJob } from './handlers/publish.js';
-import { verifyMintTx } from './lib/verify.js';
+import { evaluateDelivery, VerificationUnavailableError } from './evaluate.js';
+import { jobError, rejectJob } from './memos.js';
+import { EVALUATION_MAX_ATTEMPTS, EVALUATION_RETRY_BASE_DELAY } from './constants.js';
+import { withRetry } from './lib/http.js';
 import { createLogger } from './lib/logger.js';
 import type { Clients, AgentSession, AcpJob } from './types.js';
 
@@ -25,32 +28,17 @@ export interface AcpContext {
   contractClient: InstanceType<typeof AcpContractClientV2>;
 }
 
-export async function initAcp(
-  config: Config,
-  clients: Clients,
-  session: AgentSession,
-): Promise<AcpContext> {
-  // PRIVATE_KEY is already 0x-normalized by loadConfig()
-  const pk = config.PRIVATE_KEY as `0x${string}`;
-
-  const acpConfig = config.ACP_TESTNET ? baseSepoliaAcpConfigV2 : baseAcpConfigV2;
-
-  log.info({ 
-    entityId: config.ACP_ENTITY_ID,
-    signerEntityId: config.ACP_SIGNER_ENTITY_ID,
-    testnet: config.ACP_TESTNET,
-  }, 'Building ACP contract client...');
-
-  // Use signer entity ID for the SDK (validation module uses different IDs than ACP registry)
-  const contractClient = await AcpContractClientV2.build(
-    pk,
-    config.ACP_SIGNER_ENTITY_ID,
-    config.ACP_WALLET_ADDRESS as `0x${string}`,
-    acpConfig,
-  );
+export interface AcpJobHandlers {
+  onNewTask: (job: unknown) => Promise<void>;
+  onEvaluate: (job: unknown) => Promise<void>;
+}
 
-  const acpClient = new AcpClient({
-    acpContractClient: contractClient,
+/**
+ * ACP event handlers: new/updated tasks go to the publish flow, evaluation
+ * requests are decided from the delivered pod
+ */
+export function createJobHandlers(config: Config, clients: Clients, session: AgentSession): AcpJobHandlers {
+  return {
     onNewTask: async (job: unknown) => {
       const typedJob = validateAcpJob(job);
       const jobId = typedJob.id ?? 'unknown';
@@ -63,7 +51,7 @@ export async function initAcp(
         log.error({ jobId, error: message }, 'Job failed');
         
         try {
-          await typedJob.reject(`Job failed: ${message}`);
+          await rejectJob(typedJob, jobError('JOB_FAILED', `Job failed: ${message}`));
         } catch (rejectErr) {
           log.error({ jobId, error: (rejectErr as Error).message }, 'Failed to reject job');
         }
@@ -75,36 +63,63 @@ export async function initAcp(
       log.info({ jobId }, 'Evaluate request received');
       
       try {
-        // Extract deliverable from memos to verify the mint tx
-        const deliverableMemo = (typedJob.memos || [])
-          .map((m: any) => {
-            try { return typeof m.content === 'string' ? JSON.parse(m.content) : m.content; } 
-            catch { return null; }
-          })
-          .find((d: any) => d?.txHash);
-
-        if (!deliverableMemo?.txHash) {
-          log.warn({ jobId }, 'No txHash in deliverable, rejecting evaluation');
-          await typedJob.evaluate(false, 'No transaction hash found in deliverable');
-          return;
-        }
-
-        // Verify the mint tx on-chain
-        const verified = await verifyMintTx(deliverableMemo.txHash, config.ACP_TESTNET);
-        if (verified) {
-          await typedJob.evaluate(true, `Pod mint verified on-chain: ${deliverableMemo.txHash}`);
-          log.info({ jobId, txHash: deliverableMemo.txHash }, 'Evaluation approved — mint tx verified');
+        // A delivery that couldn't be checked (RPC, DynamoDB or Reppo down) is checked again, never rejected
+        const { approved, reason } = await withRetry(
+          () => evaluateDelivery(typedJob, clients, config),
+          'evaluateDelivery',
+          {
+            maxRetries: EVALUATION_MAX_ATTEMPTS,
+            baseDelay: EVALUATION_RETRY_BASE_DELAY,
+            shouldRetry: (err) => err instanceof VerificationUnavailableError,
+          },
+        );
+        await typedJob.evaluate(approved, reason);
+        if (approved) {
+          log.info({ jobId, reason }, 'Evaluation approved');
         } else {
-          await typedJob.evaluate(false, `Mint tx failed or not found: ${deliverableMemo.txHash}`);
-          log.warn({ jobId, txHash: deliverableMemo.txHash }, 'Evaluation rejected — mint tx not verified');
+          log.warn({ jobId, reason }, 'Evaluation rejected');
         }
       } catch (err) {
+        if (err instanceof VerificationUnavailableError) {
+          log.error({ jobId, error: err.message }, 'Could not verify delivery, leaving the evaluation open');
+          return;
+        }
         log.error({ jobId, error: (err as Error).message }, 'Evaluation failed');
         try {
           await typedJob.evaluate(false, `Evaluation error: ${(err as Error).message}`);
         } catch {}
       }
     },
+  };
+}
+
+export async function initAcp(
+  config: Config,
+  clients: Clients,
+  session: AgentSession,
+): Promise<AcpContext> {
+  // PRIVATE_KEY is already 0x-normalized by loadConfig()
+  const pk = config.PRIVATE_KEY as `0x${string}`;
+
+  const acpConfig = config.ACP_TESTNET ? baseSepoliaAcpConfigV2 : baseAcpConfigV2;
+
+  log.info({ 
+    entityId: config.ACP_ENTITY_ID,
+    signerEntityId: config.ACP_SIGNER_ENTITY_ID,
+    testnet: config.ACP_TESTNET,
+  }, 'Building ACP contract client...');
+
+  // Use signer entity ID for the SDK (validation module uses different IDs than ACP registry)
+  const contractClient = await AcpContractClientV2.build(
+    pk,
+    config.ACP_SIGNER_ENTITY_ID,
+    config.ACP_WALLET_ADDRESS as `0x${string}`,
+    acpConfig,
+  );
+
+  const acpClient = new AcpClient({
+    acpContractClient: contractClient,
+    ...createJobHandlers(config, clients, session),
   });
 
   await acpClient.init();
@@ -1,7 +1,5 @@
 import {
-  createPublicClient,
   createWalletClient,
-  http,
   formatUnits,
   decodeEventLog,
   encodeFunctionData,
@@ -9,28 +7,34 @@ import {
   type Address,
   type TransactionReceipt,
 } from 'viem';
-import { base } from 'viem/chains';
 import { privateKeyToAccount } from 'viem/accounts';
 import {
-  POD_CONTRACT,
-  REPPO_TOKEN,
   POD_ABI,
   ERC20_ABI,
   EMISSION_SHARE,
   TX_RECEIPT_TIMEOUT,
 } from './constants.js';
+import { swapUsdcForReppo } from './swap.js';
 import { withRetry, isRetryableError } from './lib/http.js';
+import { createMutex } from './lib/mutex.js';
+import { createChainPublicClient, createRpcTransport, type ChainClientOptions } from './lib/chain-client.js';
+import { getNetworkProfile } from './lib/network.js';
+import { mintDuration, publishingFee, reppoBalance as reppoBalanceGauge } from './lib/metrics.js';
 import { createLogger } from './lib/logger.js';
 import type { Clients, MintResult } from './types.js';
 
 const log = createLogger('chain');
 
-export function createClients(privateKey: string, rpcUrl?: string): Clients {
+export function createClients(privateKey: string, options: ChainClientOptions = {}): Clients {
   const account = privateKeyToAccount(privateKey as `0x${string}`);
-  const transport = rpcUrl ? http(rpcUrl) : http();
-  const publicClient = createPublicClient({ chain: base, transport });
-  const walletClient = createWalletClient({ account, chain: base, transport });
-  return { account, publicClient, walletClient } as Clients;
+  const network = options.network ?? getNetworkProfile('base');
+  const publicClient = createChainPublicClient({ ...options, network });
+  const walletClient = createWalletClient({
+    account,
+    chain: network.chain,
+    transport: createRpcTransport(options.rpcUrls, options.quorum),
+  });
+  return { account, publicClient, walletClient, network } as Clients;
 }
 
 export function setAaClient(clients: Clients, contractClient: Clients['contractClient'], aaWalletAddress: `0x${string}`): void {
@@ -42,7 +46,7 @@ export async function getPublishingFee(clients: Clients): Promise<bigint> {
   return withRetry(
     async () =>
       (await clients.publicClient.readContract({
-        address: POD_CONTRACT,
+        address: clients.network.podContract,
         abi: POD_ABI,
         functionName: 'publishingFee',
       })) as bigint,
@@ -55,7 +59,7 @@ export async function getReppoBalance(clients: Clients, address: Address): Promi
   return withRetry(
     async () =>
       (await clients.publicClient.readContract({
-        address: REPPO_TOKEN,
+        address: clients.network.reppoToken,
         abi: ERC20_ABI,
         functionName: 'balanceOf',
         args: [address],
@@ -69,10 +73,10 @@ export async function getAllowance(clients: Clients, owner: Address): Promise<bi
   return withRetry(
     async () =>
       (await clients.publicClient.readContract({
-        address: REPPO_TOKEN,
+        address: clients.network.reppoToken,
         abi: ERC20_ABI,
         functionName: 'allowance',
-        args: [owner, POD_CONTRACT],
+        args: [owner, clients.network.podContract],
       })) as bigint,
     'getAllowance',
     { shouldRetry: isRetryableError },
@@ -97,22 +101,79 @@ export function extractPodId(receipt: TransactionReceipt): bigint | undefined {
   return undefined;
 }
 
-export async function mintPod(clients: Clients): Promise<MintResult> {
-  const { account, publicClient, walletClient, contractClient, aaWalletAddress } = clients;
+// EOA transactions share one nonce sequence — concurrent jobs must not interleave them
+const eoaTxLock = createMutex();
+// Same for the AA wallet, which also holds one REPPO balance and one exact-fee allowance:
+// concurrent mints would swap the same shortfall twice and overwrite each other's approve
+const aaTxLock = createMutex();
+
+/**
+ * The mint may have been sent (`txHash` when known) but didn't confirm as a pod here.
+ * It can still land, so the caller must keep its claim and resolve it from the tx later.
+ */
+export class MintSubmittedError extends Error {
+  constructor(message: string, readonly txHash?: Hash) {
+    super(message);
+    this.name = 'MintSubmittedError';
+  }
+}
+
+export interface MintOptions {
+  /** Called with the mint tx hash before waiting for its receipt, to record it for recovery */
+  onSubmitted?: (txHash: Hash) => Promise<void>;
+}
+
+/**
+ * Any other error from here happened before the mint was sent (balance, swap, approve,
+ * simulation revert) and the caller can release its claim.
+ */
+export async function mintPod(clients: Clients, options: MintOptions = {}): Promise<MintResult> {
+  const useAA = clients.contractClient && clients.aaWalletAddress;
+  const endTimer = mintDuration.startTimer();
+  try {
+    const lock = useAA ? aaTxLock : eoaTxLock;
+    const result = await lock.runExclusive(() => executeMint(clients, options));
+    endTimer({ status: 'success' });
+    return result;
+  } catch (err) {
+    endTimer({ status: 'failure' });
+    throw err;
+  }
+}
+
+async function executeMint(clients: Clients, options: MintOptions): Promise<MintResult> {
+  const { account, publicClient, walletClient, contractClient, aaWalletAddress, network } = clients;
   const useAA = contractClient && aaWalletAddress;
 
   const fee = await getPublishingFee(clients);
+  publishingFee.set(Number(formatUnits(fee, 18)));
   log.info({ fee: formatUnits(fee, 18), useAA }, 'Publishing fee');
 
   if (fee > 0n) {
     // Check REPPO balance on the address that will pay (AA or EOA)
     const payerAddress = aaWalletAddress ?? account.address;
-    const reppoBalance = await getReppoBalance(clients, payerAddress);
+    let reppoBalance = await getReppoBalance(clients, payerAddress);
+    reppoBalanceGauge.set(Number(formatUnits(reppoBalance, 18)));
     if (reppoBalance < fee) {
-      throw new Error(
-        `Insufficient REPPO. Need ${formatUnits(fee, 18)}, have ${formatUnits(reppoBalance, 18)}. ` +
-        `Please fund ${payerAddress} with REPPO tokens.`
-      );
+      // Top up from USDC escrow earnings before giving up on the job
+      const shortfall = fee - reppoBalance;
+      log.info({ shortfall: formatUnits(shortfall, 18), payer: payerAddress }, 'REPPO balance low, swapping USDC → REPPO');
+      let swapError: string | undefined;
+      try {
+        await swapUsdcForReppo(clients, shortfall);
+        reppoBalance = await getReppoBalance(clients, payerAddress);
+        reppoBalanceGauge.set(Number(formatUnits(reppoBalance, 18)));
+      } catch (err) {
+        swapError = (err as Error).message;
+        log.warn({ error: swapError }, 'USDC → REPPO swap failed');
+      }
+      if (reppoBalance < fee) {
+        throw new Error(
+          `Insufficient REPPO. Need ${formatUnits(fee, 18)}, have ${formatUnits(reppoBalance, 18)}. ` +
+          (swapError ? `USDC swap failed: ${swapError}. ` : '') +
+          `Please fund ${payerAddress} with REPPO or USDC.`
+        );
+      }
     }
     log.info({ balance: formatUnits(reppoBalance, 18), payer: payerAddress }, 'REPPO balance sufficient');
 
@@ -126,11 +187,11 @@ export async function mintPod(clients: Clients): Promise<MintResult> {
         const approveData = encodeFunctionData({
           abi: ERC20_ABI,
           functionName: 'approve',
-          args: [POD_CONTRACT, fee],
+          args: [network.podContract, fee],
         });
         const aaClient = (contractClient as any).sessionKeyClient;
         await aaClient.sendTransaction({
-          to: REPPO_TOKEN,
+          to: network.reppoToken,
           data: approveData,
         });
         log.info('REPPO approved via AA');
@@ -138,11 +199,11 @@ export async function mintPod(clients: Clients): Promise<MintResult> {
         // Direct EOA transaction
         const approveTx = await withRetry(
           () => walletClient.writeContract({
-            address: REPPO_TOKEN,
+            address: network.reppoToken,
             abi: ERC20_ABI,
             functionName: 'approve',
-            args: [POD_CONTRACT, fee],
-            chain: base,
+            args: [network.podContract, fee],
+            chain: walletClient.chain,
             account,
           }),
           'approveREPPO',
@@ -163,54 +224,78 @@ export async function mintPod(clients: Clients): Promise<MintResult> {
     }
   }
 
-  log.info({ useAA }, 'Minting pod on Base...');
+  log.info({ useAA, network: network.name }, 'Minting pod...');
 
   let mintTx: Hash;
-
-  if (useAA) {
-    // Use AA execution via sessionKeyClient (covered by Alchemy paymaster)
-    const mintData = encodeFunctionData({
-      abi: POD_ABI,
-      functionName: 'mintPod',
-      args: [aaWalletAddress, EMISSION_SHARE],
-    });
-    const aaClient = (contractClient as any).sessionKeyClient;
-    mintTx = await aaClient.sendTransaction({
-      to: POD_CONTRACT,
-      data: mintData,
-    }) as Hash;
-    log.info({ tx: mintTx }, 'Mint tx submitted via AA');
-  } else {
-    // Direct EOA transaction
-    mintTx = await withRetry(
-      () => walletClient.writeContract({
-        address: POD_CONTRACT,
+  try {
+    if (useAA) {
+      // Use AA execution via sessionKeyClient (covered by Alchemy paymaster)
+      const mintData = encodeFunctionData({
+        abi: POD_ABI,
+        functionName: 'mintPod',
+        args: [aaWalletAddress, EMISSION_SHARE],
+      });
+      const aaClient = (contractClient as any).sessionKeyClient;
+      mintTx = await aaClient.sendTransaction({
+        to: network.podContract,
+        data: mintData,
+      }) as Hash;
+      log.info({ tx: mintTx }, 'Mint tx submitted via AA');
+    } else {
+      // Direct EOA transaction. Not retried: a send that timed out may still have been broadcast
+      mintTx = await walletClient.writeContract({
+        address: network.podContract,
         abi: POD_ABI,
         functionName: 'mintPod',
         args: [account.address, EMISSION_SHARE],
-        chain: base,
+        chain: walletClient.chain,
         account,
-      }),
-      'mintPod',
-      { shouldRetry: isRetryableError },
-    );
-    log.info({ tx: mintTx }, 'Mint tx submitted');
+      });
+      log.info({ tx: mintTx }, 'Mint tx submitted');
+    }
+  } catch (err) {
+    // Network errors leave the send in doubt; anything else (e.g. a simulation revert) was refused outright
+    if (err instanceof Error && isRetryableError(err)) {
+      throw new MintSubmittedError(`Mint send failed, it may still land: ${err.message}`);
+    }
+    throw err;
   }
 
-  const mintReceipt = await publicClient.waitForTransactionReceipt({
-    hash: mintTx,
-    timeout: TX_RECEIPT_TIMEOUT,
-  });
+  if (options.onSubmitted) {
+    try {
+      await options.onSubmitted(mintTx);
+    } catch (err) {
+      log.error({ err, tx: mintTx }, 'Failed to record submitted mint tx');
+    }
+  }
+
+  return resolveMint(clients, mintTx);
+}
+
+/**
+ * Wait for a sent mint tx and read the pod it minted. A revert throws a plain error (nothing
+ * was minted); a timeout or missing pod ID throws MintSubmittedError.
+ */
+export async function resolveMint(clients: Clients, txHash: Hash): Promise<MintResult> {
+  let receipt: TransactionReceipt;
+  try {
+    receipt = await clients.publicClient.waitForTransactionReceipt({
+      hash: txHash,
+      timeout: TX_RECEIPT_TIMEOUT,
+    });
+  } catch (err) {
+    throw new MintSubmittedError(`Mint tx ${txHash} receipt not available: ${(err as Error).message}`, txHash);
+  }
 
-  if (mintReceipt.status === 'reverted') {
-    throw new Error(`Mint transaction reverted: ${mintTx}`);
+  if (receipt.status === 'reverted') {
+    throw new Error(`Mint transaction reverted: ${txHash}`);
   }
 
-  const podId = extractPodId(mintReceipt);
+  const podId = extractPodId(receipt);
   if (!podId) {
-    throw new Error('Pod ID not found in mint receipt');
+    throw new MintSubmittedError(`Pod ID not found in mint receipt: ${txHash}`, txHash);
   }
 
-  log.info({ tx: mintTx, block: mintReceipt.blockNumber, podId }, 'Pod minted!');
-  return { txHash: mintTx, receipt: mintReceipt, podId };
+  log.info({ tx: txHash, block: receipt.blockNumber, podId }, 'Pod minted!');
+  return { txHash, receipt, podId };
 }
@@ -1,6 +1,11 @@
 import { resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 import 'dotenv/config';
+import { parseRpcUrls } from './lib/chain-client.js';
+import { getNetworkProfile, type NetworkProfile } from './lib/network.js';
+import { parsePayoutPolicy, type PayoutPolicy } from './emissions/payout.js';
+import { parseMinPayout } from './emissions/pending.js';
+import type { StateStoreConfig } from './lib/state-store.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -10,24 +15,56 @@ export interface Config {
   ACP_SIGNER_ENTITY_ID: number;
   ACP_WALLET_ADDRESS: string;
   REPPO_API_URL: string;
+  /** Reppo web app, for pod links in deliverables */
+  REPPO_APP_URL: string;
   TWITTER_API_KEY: string;
   TWITTER_API_SECRET: string;
   TWITTER_ACCESS_TOKEN: string;
   TWITTER_ACCESS_TOKEN_SECRET: string;
   RPC_URL?: string;
+  /** `RPC_URL` split into endpoints, in priority order */
+  RPC_URLS: string[];
+  /** Endpoints that must agree on a read (1 = fallback only) */
+  RPC_QUORUM: number;
   POLL_INTERVAL_MS: number;
+  JOB_CONCURRENCY: number;
+  MAX_JOBS_PER_POLL: number;
+  PENDING_RETRY_INTERVAL_MS: number;
+  PENDING_RETRY_BASE_DELAY_MS: number;
+  PENDING_MAX_RETRIES: number;
   ACP_TESTNET: boolean;
+  /** Chain, contracts and explorer: Base Sepolia when ACP_TESTNET, else Base */
+  NETWORK: NetworkProfile;
   HEALTH_PORT: number;
   DATA_DIR: string;
   DYNAMODB_ENDPOINT?: string;
   AWS_REGION?: string;
+  STATE_BACKEND: 'file' | 'dynamodb';
+  STATE_TABLE_NAME: string;
+  ADMIN_API_TOKEN?: string;
+  NEYNAR_API_KEY?: string;
+  GITHUB_TOKEN?: string;
+  PRICE_PER_SUBNET_USDC: number;
+  PRICE_MARGIN_BPS: number;
+  QUOTE_TTL_MS: number;
+  /** Run the emissions claim in-process, once per epoch */
+  EMISSIONS_SCHEDULER: boolean;
+  /** How long after an epoch boundary the scheduled claim runs */
+  EMISSIONS_CLAIM_DELAY_MS: number;
+  /** Claims per AA user operation (1 = no batching) */
+  EMISSIONS_CLAIM_BATCH_SIZE: number;
+  /** Per-wallet transfers per AA user operation (1 = no batching) */
+  EMISSIONS_TRANSFER_BATCH_SIZE: number;
+  /** Smallest buyer payout (wei, per wallet); smaller shares are held on the pods */
+  EMISSIONS_MIN_PAYOUT: bigint;
+  /** Emissions split (buyer, treasury, referrer) recorded on pods at mint, per offering */
+  PAYOUT_POLICY: PayoutPolicy;
 }
 
 const REQUIRED_VARS = [
   'PRIVATE_KEY',
   'ACP_ENTITY_ID',
   'ACP_WALLET_ADDRESS',
-  'REPPO_API_URL',
   'TWITTER_API_KEY',
   'TWITTER_API_SECRET',
   'TWITTER_ACCESS_TOKEN',
@@ -45,6 +82,15 @@ function parseInteger(value: string | undefined, name: string, defaultValue?: nu
   return parsed;
 }
 
+function parseNumber(value: string | undefined, name: string, defaultValue: number): number {
+  if (!value) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`Invalid number for ${name}: "${value}"`);
+  }
+  return parsed;
+}
+
 function validatePrivateKey(key: string): string {
   const normalized = key.startsWith('0x') ? key : `0x${key}`;
   if (!/^0x[a-fA-F0-9]{64}$/.test(normalized)) {
@@ -60,6 +106,36 @@ function validateAddress(address: string, name: string): string {
   return address;
 }
 
+function parseRpcQuorum(value: string | undefined, rpcUrls: string[]): number {
+  const quorum = Math.max(1, parseInteger(value, 'RPC_QUORUM', 1));
+  if (quorum > Math.max(1, rpcUrls.length)) {
+    throw new Error(`RPC_QUORUM (${quorum}) exceeds the number of RPC_URL endpoints (${rpcUrls.length})`);
+  }
+  return quorum;
+}
+
+function parseStateBackend(value: string | undefined): Config['STATE_BACKEND'] {
+  if (!value) return 'file';
+  if (value !== 'file' && value !== 'dynamodb') {
+    throw new Error(`STATE_BACKEND must be "file" or "dynamodb", got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * State store settings on their own, for scripts (the emissions cron) that
+ * don't need the full agent config
+ */
+export function loadStateStoreConfig(): StateStoreConfig {
+  return {
+    DATA_DIR: process.env['DATA_DIR'] || resolve(__dirname, '..'),
+    DYNAMODB_ENDPOINT: process.env['DYNAMODB_ENDPOINT'] || undefined,
+    AWS_REGION: process.env['AWS_REGION'] || 'us-east-1',
+    STATE_BACKEND: parseStateBackend(process.env['STATE_BACKEND']),
+    STATE_TABLE_NAME: process.env['STATE_TABLE_NAME'] || 'reppo-agent-state',
+  };
+}
+
 export function loadConfig(): Config {
   const missing = REQUIRED_VARS.filter((key) => !process.env[key]);
   if (missing.length > 0) {
@@ -68,24 +144,48 @@ export function loadConfig(): Config {
 
   const privateKey = validatePrivateKey(process.env['PRIVATE_KEY']!);
   const walletAddress = validateAddress(process.env['ACP_WALLET_ADDRESS']!, 'ACP_WALLET_ADDRESS');
+  const rpcUrls = parseRpcUrls(process.env['RPC_URL']);
+  const testnet = process.env['ACP_TESTNET'] === 'true';
+  const network = getNetworkProfile(testnet ? 'base-sepolia' : 'base', process.env);
+  const reppoApiUrl = process.env['REPPO_API_URL'] || network.reppoApiUrl;
+  if (!reppoApiUrl) throw new Error(`Missing required env var: REPPO_API_URL (no default on ${network.name})`);
 
   return {
     PRIVATE_KEY: privateKey,
     ACP_ENTITY_ID: parseInteger(process.env['ACP_ENTITY_ID'], 'ACP_ENTITY_ID'),
     ACP_SIGNER_ENTITY_ID: parseInteger(process.env['ACP_SIGNER_ENTITY_ID'], 'ACP_SIGNER_ENTITY_ID', parseInteger(process.env['ACP_ENTITY_ID'], 'ACP_ENTITY_ID')),
     ACP_WALLET_ADDRESS: walletAddress,
-    REPPO_API_URL: process.env['REPPO_API_URL']!,
+    REPPO_API_URL: reppoApiUrl,
+    REPPO_APP_URL: (process.env['REPPO_APP_URL'] || new URL(reppoApiUrl).origin).replace(/\/+$/, ''),
     TWITTER_API_KEY: process.env['TWITTER_API_KEY']!,
     TWITTER_API_SECRET: process.env['TWITTER_API_SECRET']!,
     TWITTER_ACCESS_TOKEN: process.env['TWITTER_ACCESS_TOKEN']!,
     TWITTER_ACCESS_TOKEN_SECRET: process.env['TWITTER_ACCESS_TOKEN_SECRET']!,
     RPC_URL: process.env['RPC_URL'] || undefined,
+    RPC_URLS: rpcUrls,
+    RPC_QUORUM: parseRpcQuorum(process.env['RPC_QUORUM'], rpcUrls),
     POLL_INTERVAL_MS: Math.max(1000, parseInteger(process.env['POLL_INTERVAL_MS'], 'POLL_INTERVAL_MS', 10_000)),
-    ACP_TESTNET: process.env['ACP_TESTNET'] === 'true',
+    JOB_CONCURRENCY: Math.max(1, parseInteger(process.env['JOB_CONCURRENCY'], 'JOB_CONCURRENCY', 4)),
+    MAX_JOBS_PER_POLL: Math.max(1, parseInteger(process.env['MAX_JOBS_PER_POLL'], 'MAX_JOBS_PER_POLL', 50)),
+    PENDING_RETRY_INTERVAL_MS: Math.max(1000, parseInteger(process.env['PENDING_RETRY_INTERVAL_MS'], 'PENDING_RETRY_INTERVAL_MS', 60_000)),
+    PENDING_RETRY_BASE_DELAY_MS: Math.max(0, parseInteger(process.env['PENDING_RETRY_BASE_DELAY_MS'], 'PENDING_RETRY_BASE_DELAY_MS', 60_000)),
+    PENDING_MAX_RETRIES: Math.max(1, parseInteger(process.env['PENDING_MAX_RETRIES'], 'PENDING_MAX_RETRIES', 5)),
+    ACP_TESTNET: testnet,
+    NETWORK: network,
     HEALTH_PORT: parseInteger(process.env['HEALTH_PORT'], 'HEALTH_PORT', 3000),
-    DATA_DIR: process.env['DATA_DIR'] || resolve(__dirname, '..'),
-    DYNAMODB_ENDPOINT: process.env['DYNAMODB_ENDPOINT'] || undefined,
-    AWS_REGION: process.env['AWS_REGION'] || 'us-east-1',
+    ...loadStateStoreConfig(),
+    ADMIN_API_TOKEN: process.env['ADMIN_API_TOKEN'] || undefined,
+    NEYNAR_API_KEY: process.env['NEYNAR_API_KEY'] || undefined,
+    GITHUB_TOKEN: process.env['GITHUB_TOKEN'] || undefined,
+    PRICE_PER_SUBNET_USDC: Math.max(0, parseNumber(process.env['PRICE_PER_SUBNET_USDC'], 'PRICE_PER_SUBNET_USDC', 0.01)),
+    PRICE_MARGIN_BPS: Math.max(0, parseInteger(process.env['PRICE_MARGIN_BPS'], 'PRICE_MARGIN_BPS', 2000)),
+    QUOTE_TTL_MS: Math.max(60_000, parseInteger(process.env['QUOTE_TTL_MS'], 'QUOTE_TTL_MS', 15 * 60_000)),
+    EMISSIONS_SCHEDULER: process.env['EMISSIONS_SCHEDULER'] === 'true',
+    EMISSIONS_CLAIM_DELAY_MS: Math.max(0, parseInteger(process.env['EMISSIONS_CLAIM_DELAY_MS'], 'EMISSIONS_CLAIM_DELAY_MS', 10 * 60_000)),
+    EMISSIONS_CLAIM_BATCH_SIZE: Math.max(1, parseInteger(process.env['EMISSIONS_CLAIM_BATCH_SIZE'], 'EMISSIONS_CLAIM_BATCH_SIZE', 20)),
+    EMISSIONS_TRANSFER_BATCH_SIZE: Math.max(1, parseInteger(process.env['EMISSIONS_TRANSFER_BATCH_SIZE'], 'EMISSIONS_TRANSFER_BATCH_SIZE', 20)),
+    EMISSIONS_MIN_PAYOUT: parseMinPayout(process.env['EMISSIONS_MIN_PAYOUT']),
+    PAYOUT_POLICY: parsePayoutPolicy(process.env),
   };
 }
 
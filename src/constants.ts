@@ -3,6 +3,7 @@ import { parseAbi, type Address } from 'viem';
 export const POD_CONTRACT: Address = '0xcfF0511089D0Fbe92E1788E4aFFF3E7930b3D47c';
 export const REPPO_TOKEN: Address = '0xFf8104251E7761163faC3211eF5583FB3F8583d6';
 export const USDC_TOKEN: Address = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+export const WETH_TOKEN: Address = '0x4200000000000000000000000000000000000006';
 export const UNISWAP_ROUTER: Address = '0x2626664c2603336E57B271c5C0b26F421741e481'; // SwapRouter02 on Base
 export const UNISWAP_QUOTER: Address = '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a'; // QuoterV2 on Base
 export const CHAIN_ID = 8453 as const; // Base
@@ -13,8 +14,20 @@ export const SWAP_DEADLINE_SECONDS = 300; // 5 minutes
 export const TX_RECEIPT_TIMEOUT = 120_000; // 2 minutes
 export const MAX_RETRIES = 3;
 export const MAX_SUBNETS_PER_JOB = 10;
+export const MAX_POSTS_PER_BATCH = 20; // postUrls per batch job
 export const RETRY_BASE_DELAY = 1000; // 1 second
 
+// Pricing
+export const MINT_GAS_UNITS = 350_000n; // EOA approve + mint, upper bound (swap excluded)
+
+export const EVALUATION_MAX_ATTEMPTS = 5; // checks of a delivery whose verification reads keep failing
+export const EVALUATION_RETRY_BASE_DELAY = 30_000; // doubled per attempt (30s … 4 min)
+
+export const PENDING_RETRY_MAX_DELAY = 60 * 60 * 1000; // backoff cap for pending-job retries (1 hour)
+
+export const ACTIVE_JOBS_PAGE_SIZE = 50;
+export const ACTIVE_JOBS_MAX_PAGES = 20; // 1000 jobs per poll cycle, at most
+
 // Pool fee tiers to try (in order of preference)
 export const POOL_FEE_TIERS = [3000, 10000, 500] as const; // 0.3%, 1%, 0.05%
 
@@ -37,6 +50,7 @@ export const ERC20_ABI = parseAbi([
   'function balanceOf(address account) view returns (uint256)',
   'function allowance(address owner, address spender) view returns (uint256)',
   'function decimals() view returns (uint8)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
 ]);
 
 // Uniswap V3 QuoterV2 ABI
@@ -0,0 +1,50 @@
+import { decodeEventLog, type Address, type Log, type TransactionReceipt } from 'viem';
+import { ERC20_ABI } from '../constants.js';
+import type { EmissionReconciliation, EmissionRun } from '../types.js';
+
+/** Amounts of the token's Transfer logs to `wallet`, in log order */
+export function reppoTransfersTo(logs: Pick<Log, 'address' | 'data' | 'topics'>[], token: Address, wallet: Address): bigint[] {
+  const amounts: bigint[] = [];
+  for (const entry of logs) {
+    if (entry.address.toLowerCase() !== token.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: ERC20_ABI, data: entry.data, topics: entry.topics });
+      if (event.eventName !== 'Transfer') continue;
+      const { to, value } = event.args as { to: Address; value: bigint };
+      if (to.toLowerCase() === wallet.toLowerCase()) amounts.push(value);
+    } catch {
+      // Not a matching event
+    }
+  }
+  return amounts;
+}
+
+/**
+ * REPPO a claim receipt paid into `wallet`: the sum of the token's Transfer logs to it.
+ * Null when there are none, so the caller can fall back to the contract's figure.
+ */
+export function reppoReceivedFromReceipt(
+  receipt: Pick<TransactionReceipt, 'logs'>,
+  token: Address,
+  wallet: Address,
+): bigint | null {
+  const amounts = reppoTransfersTo(receipt.logs, token, wallet);
+  return amounts.length > 0 ? amounts.reduce((sum, amount) => sum + amount, 0n) : null;
+}
+
+/** Compare the AA wallet's balance change over a run with the ledger's claimed-in minus transferred-out */
+export function reconcileBalance(
+  balanceBefore: bigint,
+  balanceAfter: bigint,
+  totals: NonNullable<EmissionRun['totals']>,
+): EmissionReconciliation {
+  const expectedDelta = BigInt(totals.claimed) - BigInt(totals.transferred);
+  const actualDelta = balanceAfter - balanceBefore;
+  return {
+    balanceBefore: balanceBefore.toString(),
+    balanceAfter: balanceAfter.toString(),
+    expectedDelta: expectedDelta.toString(),
+    actualDelta: actualDelta.toString(),
+    matched: expectedDelta === actualDelta,
+  };
+}
@@ -0,0 +1,754 @@
+import { formatUnits, encodeFunctionData, type Address, type Hash, type Hex } from 'viem';
+import { getAllPods, getPod, recordPodEpochClaims, updatePodEmissions, type PodRecord } from '../lib/pods.js';
+import { getStateStore } from '../lib/state-store.js';
+import { withRetry, isRetryableError } from '../lib/http.js';
+import { chunk, getUserOperationResult, sendBatchUserOperation, UserOperationFailedError, UserOperationUnknownError } from '../lib/aa-batch.js';
+import { createLogger } from '../lib/logger.js';
+import { emissionsClaimed, emissionsReconciliationMismatches } from '../lib/metrics.js';
+import { POD_ABI, ERC20_ABI, EPOCH_DURATION, TX_RECEIPT_TIMEOUT } from '../constants.js';
+import { createRun, listRuns, outstandingTransfers, saveRun, summarizeRun } from './ledger.js';
+import { reconcileBalance, reppoReceivedFromReceipt, reppoTransfersTo } from './attribution.js';
+import { payoutLegs } from './payout.js';
+import { applyMinPayout } from './pending.js';
+import type { NetworkProfile } from '../lib/network.js';
+import type { EmissionClaim, EmissionPodEntry, EmissionRun, EmissionRunTrigger, EmissionSource, PayoutLeg } from '../types.js';
+
+const log = createLogger('emissions');
+
+// Held for the whole run so the scheduler, the admin trigger and the CLI never claim concurrently
+const CLAIM_LOCK = 'emissions-claim';
+const CLAIM_LOCK_TTL_MS = 6 * 60 * 60 * 1000;
+
+// Claims go through the AA wallet (gas sponsored), not the EOA walletClient
+export interface EmissionsClients {
+  publicClient: any; // viem PublicClient — typed as any to avoid cross-version type mismatch
+  aaClient: any; // sessionKeyClient from AcpContractClientV2
+  aaWalletAddress: Address;
+  network: NetworkProfile;
+}
+
+class ZeroVotesError extends Error {
+  constructor(podId: number, epoch: number) {
+    super(`ZeroVotes for pod ${podId} epoch ${epoch}`);
+    this.name = 'ZeroVotesError';
+  }
+}
+
+function isZeroVotesError(err: unknown): boolean {
+  if (err instanceof ZeroVotesError) return true;
+  const msg = err instanceof Error ? err.message : String(err);
+  return msg.includes('0xcdad98fd') || msg.includes('ZeroVotes');
+}
+
+export async function getInitTimestamp(clients: EmissionsClients): Promise<bigint> {
+  return withRetry(
+    async () =>
+      (await clients.publicClient.readContract({
+        address: clients.network.podContract,
+        abi: POD_ABI,
+        functionName: 'initialisedTimestamp',
+      })) as bigint,
+    'getInitTimestamp',
+    { shouldRetry: isRetryableError },
+  );
+}
+
+function getEpochForTimestamp(initTimestamp: bigint, isoDate: string): number {
+  const ts = BigInt(Math.floor(new Date(isoDate).getTime() / 1000));
+  const elapsed = ts - initTimestamp;
+  if (elapsed <= 0n) return 0;
+  return Number(elapsed / BigInt(EPOCH_DURATION));
+}
+
+function getCurrentEpoch(initTimestamp: bigint): number {
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  const elapsed = now - initTimestamp;
+  if (elapsed <= 0n) return 0;
+  return Number(elapsed / BigInt(EPOCH_DURATION));
+}
+
+async function getPodEmissions(clients: EmissionsClients, podId: number, epoch: number): Promise<bigint> {
+  // Don't retry ZeroVotes — it's a definitive "no votes" response, not transient
+  return withRetry(
+    async () => {
+      try {
+        return (await clients.publicClient.readContract({
+          address: clients.network.podContract,
+          abi: POD_ABI,
+          functionName: 'getPodEmissionsOfEpoch',
+          args: [BigInt(epoch), BigInt(podId)],
+        })) as bigint;
+      } catch (err) {
+        if (isZeroVotesError(err)) {
+          throw new ZeroVotesError(podId, epoch); // will NOT be retried
+        }
+        throw err;
+      }
+    },
+    `getPodEmissions(${podId},${epoch})`,
+    { shouldRetry: (err) => !isZeroVotesError(err) && isRetryableError(err) },
+  );
+}
+
+async function hasClaimed(clients: EmissionsClients, podId: number, epoch: number): Promise<boolean> {
+  return withRetry(
+    async () =>
+      (await clients.publicClient.readContract({
+        address: clients.network.podContract,
+        abi: POD_ABI,
+        functionName: 'hasPodOwnerClaimedEmissions',
+        args: [BigInt(epoch), BigInt(podId)],
+      })) as boolean,
+    `hasClaimed(${podId},${epoch})`,
+    { shouldRetry: isRetryableError },
+  );
+}
+
+async function getReppoBalance(clients: EmissionsClients): Promise<bigint> {
+  return withRetry(
+    async () =>
+      (await clients.publicClient.readContract({
+        address: clients.network.reppoToken,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [clients.aaWalletAddress],
+      })) as bigint,
+    'getReppoBalance',
+    { shouldRetry: isRetryableError },
+  );
+}
+
+/**
+ * Claim one pod epoch. The amount comes from the REPPO Transfer logs in the receipt,
+ * not the wallet balance, which mints and swaps move concurrently. `expected`
+ * (getPodEmissionsOfEpoch) stands in when the receipt has no such log.
+ */
+async function claimPodOwnerEmissions(
+  clients: EmissionsClients,
+  podId: number,
+  epoch: number,
+  expected: bigint,
+): Promise<{ txHash: Hash; received: bigint; source: EmissionSource }> {
+  const { publicClient, aaClient } = clients;
+
+  const data = encodeFunctionData({
+    abi: POD_ABI,
+    functionName: 'claimPodOwnerEmissions',
+    args: [BigInt(podId), BigInt(epoch)],
+  });
+
+  // Not retried: a send that failed on our side may still land (the caller checks hasClaimed)
+  const tx = await aaClient.sendTransaction({ to: clients.network.podContract, data }) as Hash;
+
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: tx,
+    timeout: TX_RECEIPT_TIMEOUT,
+  });
+
+  if (receipt.status === 'reverted') {
+    throw new Error(`Claim tx reverted: ${tx}`);
+  }
+
+  const logged = reppoReceivedFromReceipt(receipt, clients.network.reppoToken, clients.aaWalletAddress);
+  const source: EmissionSource = logged !== null ? 'transfer-log' : 'contract';
+  const received = logged ?? expected;
+  if (logged === null) {
+    log.warn({ podId, epoch, tx }, 'No REPPO Transfer to the AA wallet in the claim receipt, using getPodEmissionsOfEpoch');
+  } else if (logged !== expected) {
+    log.warn({ podId, epoch, tx, logged: formatUnits(logged, 18), expected: formatUnits(expected, 18) },
+      'Claimed amount differs from getPodEmissionsOfEpoch, using the Transfer logs');
+  }
+  emissionsClaimed.inc({ source });
+
+  log.info({ podId, epoch, tx, received: formatUnits(received, 18), source }, 'Emissions claimed on-chain via AA');
+  return { txHash: tx, received, source };
+}
+
+/**
+ * One transfer, sent as a single-call user operation so an unknown outcome keeps its
+ * `userOpHash` (see `sendBatchUserOperation`); never resent.
+ */
+async function transferReppo(clients: EmissionsClients, to: Address, amount: bigint): Promise<Hash> {
+  const data = encodeFunctionData({
+    abi: ERC20_ABI,
+    functionName: 'transfer',
+    args: [to, amount],
+  });
+
+  const { txHash } = await sendBatchUserOperation(clients.aaClient, [{ to: clients.network.reppoToken, data }], `transferReppo(${to})`);
+
+  log.info({ to, amount: formatUnits(amount, 18), tx: txHash }, 'REPPO transferred via AA');
+  return txHash;
+}
+
+/** A claim found by the scan, waiting to be sent */
+interface PendingClaim {
+  entry: EmissionPodEntry;
+  claim: EmissionClaim;
+  emissions: bigint;
+}
+
+/** A pod's scan result; `highestClaimedEpoch` covers epochs found claimed and successful claims */
+interface PodScan {
+  pod: PodRecord;
+  entry: EmissionPodEntry;
+  pending: PendingClaim[];
+  highestClaimedEpoch: number;
+}
+
+function encodeClaim(podId: number, epoch: number): Hex {
+  return encodeFunctionData({ abi: POD_ABI, functionName: 'claimPodOwnerEmissions', args: [BigInt(podId), BigInt(epoch)] });
+}
+
+function applyClaim(pending: PendingClaim, result: { txHash?: Hash; received: bigint; source: EmissionSource }): void {
+  if (result.txHash) pending.claim.txHash = result.txHash;
+  pending.claim.received = result.received.toString();
+  pending.claim.source = result.source;
+  delete pending.claim.error;
+}
+
+/**
+ * Claim a chunk as one user operation, attributing amounts from its Transfer logs in
+ * call order. When the batch reverts, each claim is retried on its own so one bad
+ * epoch doesn't hold back the rest.
+ */
+async function claimChunk(clients: EmissionsClients, chunk: PendingClaim[]): Promise<void> {
+  if (chunk.length > 1) {
+    try {
+      const { txHash, logs } = await sendBatchUserOperation(
+        clients.aaClient,
+        chunk.map((p) => ({ to: clients.network.podContract, data: encodeClaim(p.entry.podId, p.claim.epoch) })),
+        `claimEmissions(batch of ${chunk.length})`,
+      );
+      const amounts = reppoTransfersTo(logs, clients.network.reppoToken, clients.aaWalletAddress);
+      const fromLogs = amounts.length === chunk.length;
+      if (!fromLogs) {
+        log.warn({ tx: txHash, claims: chunk.length, transfers: amounts.length },
+          'Batched claim Transfer logs don\'t line up with the claims, using getPodEmissionsOfEpoch');
+      }
+      chunk.forEach((p, i) => {
+        const source: EmissionSource = fromLogs ? 'transfer-log' : 'contract';
+        applyClaim(p, { txHash, received: fromLogs ? amounts[i] : p.emissions, source });
+        emissionsClaimed.inc({ source });
+      });
+      log.info({ tx: txHash, claims: chunk.map((p) => `${p.entry.podId}:${p.claim.epoch}`) }, 'Emissions claimed on-chain via AA batch');
+      return;
+    } catch (err) {
+      log.warn({ claims: chunk.length, error: err instanceof Error ? err.message : err }, 'Batched claim failed, falling back to single claims');
+    }
+  }
+
+  for (const p of chunk) {
+    const { podId } = p.entry;
+    const { epoch } = p.claim;
+    try {
+      // A batch or an earlier send that landed but failed on our side must not be claimed twice
+      if (await claimedMeanwhile(clients, p)) continue;
+      applyClaim(p, await claimPodOwnerEmissions(clients, podId, epoch, p.emissions));
+    } catch (err) {
+      // The send may have landed all the same; the next run's scan would skip the epoch unpaid
+      if (await claimedMeanwhile(clients, p).catch(() => false)) continue;
+      p.claim.error = err instanceof Error ? err.message : String(err);
+      log.error({ podId, epoch, error: p.claim.error }, 'Failed to claim epoch');
+    }
+  }
+}
+
+/** Take an epoch found claimed on-chain as claimed by this run, at getPodEmissionsOfEpoch */
+async function claimedMeanwhile(clients: EmissionsClients, p: PendingClaim): Promise<boolean> {
+  const { podId } = p.entry;
+  const { epoch } = p.claim;
+  if (!(await hasClaimed(clients, podId, epoch))) return false;
+  log.warn({ podId, epoch }, 'Epoch already claimed on-chain, using getPodEmissionsOfEpoch');
+  applyClaim(p, { received: p.emissions, source: 'contract' });
+  emissionsClaimed.inc({ source: 'contract' });
+  return true;
+}
+
+/** Unpaid legs going to one wallet, sent as a single transfer */
+interface WalletPayout {
+  wallet: Address;
+  amount: bigint;
+  legs: PayoutLeg[];
+}
+
+type TransferOutcome = { txHash: Hash } | { error: string } | { inDoubt: string; userOpHash?: Hash };
+
+function settleLegs(legs: PayoutLeg[], result: TransferOutcome): void {
+  for (const leg of legs) {
+    if ('txHash' in result) {
+      leg.status = 'transferred';
+      leg.txHash = result.txHash;
+      delete leg.error;
+      delete leg.userOpHash;
+    } else if ('inDoubt' in result) {
+      // Left pending: the next run looks the operation up before paying again
+      leg.status = 'pending';
+      leg.error = result.inDoubt;
+      if (result.userOpHash) leg.userOpHash = result.userOpHash;
+    } else {
+      leg.status = 'failed';
+      leg.error = result.error;
+    }
+  }
+}
+
+/**
+ * Send a chunk of per-wallet transfers as one user operation. Only when the batch is
+ * known not to have executed does it fall back to one transfer per wallet. Whenever an
+ * outcome is unknown, batched or single, the legs stay pending for the next run, which
+ * would otherwise risk paying them twice.
+ */
+async function transferChunk(clients: EmissionsClients, chunk: WalletPayout[]): Promise<void> {
+  if (chunk.length > 1) {
+    try {
+      const { txHash } = await sendBatchUserOperation(
+        clients.aaClient,
+        chunk.map((p) => ({
+          to: clients.network.reppoToken,
+          data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [p.wallet, p.amount] }),
+        })),
+        `transferReppo(batch of ${chunk.length})`,
+      );
+      chunk.forEach((p) => settleLegs(p.legs, { txHash }));
+      log.info({ tx: txHash, wallets: chunk.length }, 'REPPO transferred via AA batch');
+      return;
+    } catch (err) {
+      if (!(err instanceof UserOperationFailedError)) {
+        const userOpHash = err instanceof UserOperationUnknownError ? err.userOpHash : undefined;
+        const inDoubt = err instanceof Error ? err.message : String(err);
+        chunk.forEach((p) => settleLegs(p.legs, { inDoubt, userOpHash }));
+        log.error({ transfers: chunk.length, userOpHash, error: inDoubt },
+          'Batched transfer outcome unknown, leaving it pending for the next run');
+        return;
+      }
+      log.warn({ transfers: chunk.length, error: err.message }, 'Batched transfer failed, falling back to single transfers');
+    }
+  }
+
+  for (const p of chunk) {
+    try {
+      settleLegs(p.legs, { txHash: await transferReppo(clients, p.wallet, p.amount) });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      if (!(err instanceof UserOperationFailedError)) {
+        const userOpHash = err instanceof UserOperationUnknownError ? err.userOpHash : undefined;
+        settleLegs(p.legs, { inDoubt: error, userOpHash });
+        log.error({ wallet: p.wallet, amount: formatUnits(p.amount, 18), userOpHash, error },
+          'Transfer outcome unknown, leaving it pending for the next run');
+        continue;
+      }
+      settleLegs(p.legs, { error });
+      log.error({ wallet: p.wallet, amount: formatUnits(p.amount, 18), legs: p.legs.length, error },
+        'Failed to transfer — the next run retries it from the ledger (REPPO stays in the AA wallet)');
+    }
+  }
+}
+
+/**
+ * Look up the batched transfers earlier runs left in doubt: their legs are paid when
+ * the operation landed, payable again when it's known to have failed, and otherwise
+ * stay pending.
+ */
+async function resolveInDoubt(clients: EmissionsClients, legs: PayoutLeg[]): Promise<void> {
+  const byOp = new Map<string, PayoutLeg[]>();
+  for (const leg of legs) {
+    if (leg.userOpHash && isUnpaid(leg)) byOp.set(leg.userOpHash, [...(byOp.get(leg.userOpHash) ?? []), leg]);
+  }
+  for (const [userOpHash, opLegs] of byOp) {
+    try {
+      const { txHash } = await getUserOperationResult(clients.aaClient, userOpHash as Hash);
+      settleLegs(opLegs, { txHash });
+      log.info({ userOpHash, tx: txHash, legs: opLegs.length }, 'Batched transfer left in doubt had landed');
+    } catch (err) {
+      if (err instanceof UserOperationFailedError) {
+        opLegs.forEach((leg) => delete leg.userOpHash);
+        log.warn({ userOpHash, legs: opLegs.length }, 'Batched transfer left in doubt reverted, paying again');
+      } else {
+        log.error({ userOpHash, error: err instanceof Error ? err.message : err }, 'Batched transfer still in doubt, leaving it pending');
+      }
+    }
+  }
+}
+
+function isUnpaid(leg: PayoutLeg): boolean {
+  return leg.status === 'pending' || leg.status === 'failed';
+}
+
+/**
+ * Pay every unpaid leg of the given entries, one transfer per wallet (a buyer with
+ * many pods gets one transfer), then record each pod's emissions. Entries with a
+ * failed leg stay outstanding for the next run; held legs wait on the pod.
+ */
+async function payOut(clients: EmissionsClients, entries: EmissionPodEntry[], batchSize: number, save: () => Promise<void>): Promise<void> {
+  const unpaid = new Map(entries.map((entry) => [entry, entry.legs.filter(isUnpaid)]));
+  await resolveInDoubt(clients, [...unpaid.values()].flat());
+
+  const byWallet = new Map<string, WalletPayout>();
+  for (const legs of unpaid.values()) {
+    for (const leg of legs) {
+      if (!isUnpaid(leg) || leg.userOpHash) continue;
+      const key = leg.wallet.toLowerCase();
+      const payout = byWallet.get(key) ?? { wallet: leg.wallet as Address, amount: 0n, legs: [] };
+      payout.amount += BigInt(leg.amount);
+      payout.legs.push(leg);
+      byWallet.set(key, payout);
+    }
+  }
+
+  if (byWallet.size > 0) {
+    log.info({ legs: [...byWallet.values()].reduce((n, p) => n + p.legs.length, 0), wallets: byWallet.size }, 'Transferring emissions');
+  }
+  for (const part of chunk([...byWallet.values()], batchSize)) {
+    await transferChunk(clients, part);
+    await save();
+  }
+
+  for (const entry of entries) {
+    if (entry.legs.some(isUnpaid)) entry.status = 'transfer_failed';
+    else entry.status = entry.legs.some((l) => l.status === 'held') ? 'held' : 'transferred';
+    const paidToBuyer = unpaid.get(entry)!
+      .filter((l) => l.recipient === 'buyer' && l.status === 'transferred')
+      .reduce((sum, l) => sum + BigInt(l.amount), 0n);
+
+    if (!entry.resumedFrom && !entry.releasesPending) {
+      // The epochs are claimed either way; a failed buyer transfer's amount is added when it's retried
+      await recordPodEmissions(entry.podId, entry.lastClaimedEpoch, paidToBuyer);
+    } else if (paidToBuyer > 0n) {
+      const pod = await getPod(entry.podId);
+      await recordPodEmissions(entry.podId, Math.max(entry.lastClaimedEpoch, pod?.lastClaimedEpoch ?? -1), paidToBuyer);
+    }
+  }
+  await save();
+}
+
+async function recordPodEmissions(podId: number, lastClaimedEpoch: number, amount: bigint): Promise<void> {
+  try {
+    await updatePodEmissions(podId, lastClaimedEpoch, Number(formatUnits(amount, 18)));
+  } catch (err) {
+    log.error({ podId, lastClaimedEpoch, amount: formatUnits(amount, 18), error: err instanceof Error ? err.message : err },
+      'Failed to update pod emissions (the run ledger has the transfer)');
+  }
+}
+
+/**
+ * Take over the unpaid legs earlier runs left outstanding, with the amounts those
+ * runs recorded; they're paid with this run's transfers. Runs left `running` by a
+ * crash are marked interrupted.
+ */
+async function carryOverOutstanding(run: EmissionRun, save: () => Promise<void>): Promise<void> {
+  for (const prev of await listRuns()) {
+    if (prev.runId === run.runId) continue;
+    let changed = false;
+
+    if (prev.status === 'running') {
+      prev.status = 'interrupted';
+      prev.finishedAt = new Date().toISOString();
+      changed = true;
+      const inFlight = prev.pods.filter((p) => p.status === 'claiming').map((p) => p.podId);
+      log.warn({ runId: prev.runId, podsMidClaim: inFlight }, 'Previous run was interrupted; pods caught mid-claim need checking on-chain');
+    }
+
+    for (const entry of outstandingTransfers(prev)) {
+      // Mark the old entry first: a crash in between loses the carry-over (visible in the ledger), never doubles it
+      entry.status = 'carried_over';
+      entry.carriedTo = run.runId;
+      changed = true;
+      const unpaid = (entry.legs ?? payoutLegs(BigInt(entry.received), entry.buyerWallet))
+        .filter(isUnpaid)
+        .map(({ recipient, wallet, amount, userOpHash }) => ({ recipient, wallet, amount, status: 'pending' as const, ...(userOpHash && { userOpHash }) }));
+      run.pods.push({
+        podId: entry.podId,
+        buyerWallet: entry.buyerWallet,
+        claims: [],
+        lastClaimedEpoch: entry.lastClaimedEpoch,
+        received: unpaid.reduce((sum, leg) => sum + BigInt(leg.amount), 0n).toString(),
+        status: 'claimed',
+        legs: unpaid,
+        resumedFrom: prev.runId,
+        ...(entry.releasesPending && { releasesPending: true }),
+      });
+    }
+
+    if (changed) {
+      prev.totals = summarizeRun(prev);
+      await saveRun(prev);
+    }
+  }
+
+  const resumed = run.pods.filter((p) => p.resumedFrom);
+  if (resumed.length === 0) return;
+  await save();
+  log.info({ count: resumed.length }, 'Resuming outstanding transfers from earlier runs');
+}
+
+/** Find a pod's claimable epochs with emissions (read-only) */
+async function scanPod(clients: EmissionsClients, pod: PodRecord, startEpoch: number, maxClaimableEpoch: number, dryRun: boolean): Promise<PodScan> {
+  const { podId, buyerWallet, lastClaimedEpoch } = pod;
+  const entry: EmissionPodEntry = {
+    podId,
+    buyerWallet,
+    claims: [],
+    lastClaimedEpoch: lastClaimedEpoch ?? -1,
+    received: '0',
+    status: 'claiming',
+    legs: [],
+  };
+  const scan: PodScan = { pod, entry, pending: [], highestClaimedEpoch: lastClaimedEpoch ?? -1 };
+
+  for (let epoch = startEpoch; epoch <= maxClaimableEpoch; epoch++) {
+    try {
+      const alreadyClaimed = await hasClaimed(clients, podId, epoch);
+      if (alreadyClaimed) {
+        // Already claimed on-chain (maybe manually), just update our tracking
+        scan.highestClaimedEpoch = Math.max(scan.highestClaimedEpoch, epoch);
+        continue;
+      }
+
+      let emissions: bigint;
+      try {
+        emissions = await getPodEmissions(clients, podId, epoch);
+      } catch (err) {
+        if (isZeroVotesError(err)) {
+          log.debug({ podId, epoch }, 'Zero votes, skipping');
+          continue;
+        }
+        throw err;
+      }
+
+      if (emissions === 0n) {
+        log.debug({ podId, epoch }, 'No emissions, skipping');
+        continue;
+      }
+
+      log.info({ podId, epoch, emissions: formatUnits(emissions, 18) }, dryRun ? 'Would claim (dry-run)' : 'Claimable');
+      if (dryRun) {
+        scan.highestClaimedEpoch = Math.max(scan.highestClaimedEpoch, epoch);
+        continue;
+      }
+      const claim: EmissionClaim = { epoch, emissions: emissions.toString() };
+      entry.claims.push(claim);
+      scan.pending.push({ entry, claim, emissions });
+    } catch (err) {
+      log.error({ podId, epoch, error: err instanceof Error ? err.message : err }, 'Failed to check epoch');
+    }
+  }
+  return scan;
+}
+
+/**
+ * Scan every pod, claim what's claimable in batches and record the results per pod.
+ * Entries left `claimed` hold REPPO for the payout step.
+ */
+async function claimPods(
+  clients: EmissionsClients,
+  run: EmissionRun,
+  dryRun: boolean,
+  batchSize: number,
+  save: () => Promise<void>,
+): Promise<void> {
+  const initTimestamp = await getInitTimestamp(clients);
+  const currentEpoch = getCurrentEpoch(initTimestamp);
+  log.info({ initTimestamp: Number(initTimestamp), currentEpoch }, 'Epoch info');
+
+  // Contract requires epoch + 2 <= latestEpoch, so max claimable = currentEpoch - 2
+  const maxClaimableEpoch = currentEpoch - 2;
+  run.currentEpoch = currentEpoch;
+  run.maxClaimableEpoch = maxClaimableEpoch;
+  if (maxClaimableEpoch < 0) {
+    log.info('No claimable epochs yet');
+    return;
+  }
+
+  const pods = await getAllPods();
+  if (pods.length === 0) {
+    log.info('No pods found');
+    return;
+  }
+
+  log.info({ podCount: pods.length, maxClaimableEpoch }, 'Processing pods');
+
+  const scans: PodScan[] = [];
+  for (const pod of pods) {
+    const { podId, buyerWallet, createdAt, lastClaimedEpoch } = pod;
+
+    const mintEpoch = getEpochForTimestamp(initTimestamp, createdAt);
+
+    if (mintEpoch > maxClaimableEpoch) {
+      log.info({ podId, buyerWallet, mintEpoch, maxClaimableEpoch }, 'Pod too new, skipping');
+      continue;
+    }
+
+    // Start scanning from where we left off (or mint epoch if first run)
+    const startEpoch = lastClaimedEpoch != null ? lastClaimedEpoch + 1 : mintEpoch;
+
+    if (startEpoch > maxClaimableEpoch) {
+      log.debug({ podId, startEpoch, maxClaimableEpoch }, 'Already up to date');
+      continue;
+    }
+
+    log.info({ podId, buyerWallet, scanRange: `${startEpoch}→${maxClaimableEpoch}` }, 'Checking pod emissions');
+    scans.push(await scanPod(clients, pod, startEpoch, maxClaimableEpoch, dryRun));
+  }
+
+  if (dryRun) {
+    for (const { pod, highestClaimedEpoch } of scans) {
+      if (highestClaimedEpoch > (pod.lastClaimedEpoch ?? -1)) {
+        log.info({ podId: pod.podId, buyerWallet: pod.buyerWallet, highestClaimedEpoch }, 'Would update (dry-run)');
+      }
+    }
+    return;
+  }
+
+  // Ledger entries go in before anything is sent
+  const pending = scans.flatMap((scan) => scan.pending);
+  for (const scan of scans) {
+    if (scan.pending.length > 0) run.pods.push(scan.entry);
+  }
+  if (pending.length > 0) {
+    await save();
+    log.info({ claims: pending.length, batchSize }, 'Claiming emissions');
+  }
+  for (const part of chunk(pending, batchSize)) {
+    await claimChunk(clients, part);
+    await save();
+  }
+
+  for (const scan of scans) {
+    const { pod, entry } = scan;
+    const { podId, buyerWallet } = pod;
+    const claimed = scan.pending.filter((p) => p.claim.received !== undefined);
+    for (const p of claimed) scan.highestClaimedEpoch = Math.max(scan.highestClaimedEpoch, p.claim.epoch);
+    const received = claimed.reduce((sum, p) => sum + BigInt(p.claim.received!), 0n);
+
+    if (scan.pending.length === 0) {
+      if (scan.highestClaimedEpoch > (pod.lastClaimedEpoch ?? -1)) {
+        // No REPPO received but we scanned new epochs — update tracking
+        await recordPodEmissions(podId, scan.highestClaimedEpoch, 0n);
+      }
+      continue;
+    }
+
+    entry.lastClaimedEpoch = scan.highestClaimedEpoch;
+    entry.received = received.toString();
+    entry.status = received > 0n ? 'claimed' : 'empty';
+    entry.legs = payoutLegs(received, buyerWallet, pod.payoutSplit);
+
+    try {
+      await recordPodEpochClaims(podId, claimed.map((p) => ({
+        epoch: p.claim.epoch,
+        amount: p.claim.received!,
+        txHash: p.claim.txHash,
+        source: p.claim.source!,
+        claimedAt: new Date().toISOString(),
+      })));
+    } catch (err) {
+      log.error({ podId, epochs: claimed.map((p) => p.claim.epoch), error: err instanceof Error ? err.message : err },
+        'Failed to record pod epoch claims (the run ledger has them)');
+    }
+
+    if (received > 0n) {
+      log.info({ podId, buyerWallet, amount: formatUnits(received, 18), claimedCount: claimed.length }, 'Claimed emissions for pod');
+    } else if (scan.highestClaimedEpoch > (pod.lastClaimedEpoch ?? -1)) {
+      await recordPodEmissions(podId, scan.highestClaimedEpoch, 0n);
+    }
+  }
+  await save();
+
+  log.info({ podsProcessed: pods.length }, 'Pods processed');
+}
+
+/** Check the AA wallet's balance change against the ledger; alert when they disagree */
+async function reconcile(clients: EmissionsClients, run: EmissionRun, balanceBefore: bigint): Promise<void> {
+  let balanceAfter: bigint;
+  try {
+    balanceAfter = await getReppoBalance(clients);
+  } catch (err) {
+    log.error({ runId: run.runId, error: err instanceof Error ? err.message : err }, 'Failed to read REPPO balance, run not reconciled');
+    return;
+  }
+  run.reconciliation = reconcileBalance(balanceBefore, balanceAfter, run.totals!);
+  if (run.reconciliation.matched) return;
+
+  emissionsReconciliationMismatches.inc();
+  log.error({
+    runId: run.runId,
+    expectedDelta: formatUnits(BigInt(run.reconciliation.expectedDelta), 18),
+    actualDelta: formatUnits(BigInt(run.reconciliation.actualDelta), 18),
+  }, 'ALERT: AA wallet REPPO balance change does not match the emissions ledger (concurrent mint/swap, or an unrecorded claim)');
+}
+
+/** Calls per AA user operation; 1 sends every claim and transfer on its own */
+export interface EmissionsBatchLimits {
+  claims: number;
+  transfers: number;
+}
+
+export const DEFAULT_BATCH_LIMITS: EmissionsBatchLimits = { claims: 20, transfers: 20 };
+
+export interface ClaimRunOptions {
+  trigger: EmissionRunTrigger;
+  /** Log what would be claimed; nothing is sent and the run isn't recorded */
+  dryRun?: boolean;
+  batch?: EmissionsBatchLimits;
+  /** Buyer payouts below this (wei, per wallet across its pods) are held on the pods */
+  minPayout?: bigint;
+}
+
+/**
+ * One emissions claim run: take over transfers earlier runs left outstanding, claim
+ * every pod's claimable epochs, then pay out per the pods' splits, holding buyer
+ * shares below the minimum payout. Claims and transfers go out in batched user
+ * operations; the run ledger is written after each.
+ * Returns null when another run holds the claim lock.
+ */
+export async function runEmissionsClaim(clients: EmissionsClients, options: ClaimRunOptions): Promise<EmissionRun | null> {
+  const { trigger, dryRun = false, batch = DEFAULT_BATCH_LIMITS, minPayout = 0n } = options;
+  const store = getStateStore();
+  if (!dryRun && !(await store.acquireLock(CLAIM_LOCK, CLAIM_LOCK_TTL_MS))) {
+    log.warn({ trigger }, 'Another emissions claim run is in progress, skipping');
+    return null;
+  }
+
+  const run = createRun(trigger);
+  const save = dryRun ? async () => {} : () => saveRun(run);
+  log.info({ runId: run.runId, trigger, dryRun, aaWallet: clients.aaWalletAddress }, 'Starting emissions claim run');
+
+  let balanceBefore: bigint | null = null;
+  try {
+    await save();
+    if (!dryRun) {
+      balanceBefore = await getReppoBalance(clients);
+      await carryOverOutstanding(run, save);
+    }
+    await claimPods(clients, run, dryRun, batch.claims, save);
+    if (!dryRun) {
+      await applyMinPayout(run, outstandingTransfers(run), minPayout, save);
+      await payOut(clients, outstandingTransfers(run), batch.transfers, save);
+    }
+    run.totals = summarizeRun(run);
+    run.status = run.totals.failedClaims > 0 || run.totals.failedTransfers > 0 ? 'partial' : 'completed';
+  } catch (err) {
+    run.status = 'failed';
+    run.error = err instanceof Error ? err.message : String(err);
+    log.error({ runId: run.runId, error: run.error }, 'Emissions claim run failed');
+  } finally {
+    run.totals = summarizeRun(run);
+    if (balanceBefore !== null) await reconcile(clients, run, balanceBefore);
+    run.finishedAt = new Date().toISOString();
+    await save();
+    if (!dryRun) await store.releaseLock(CLAIM_LOCK);
+  }
+
+  log.info({
+    runId: run.runId,
+    status: run.status,
+    claimed: formatUnits(BigInt(run.totals.claimed), 18),
+    transferred: formatUnits(BigInt(run.totals.transferred), 18),
+    outstanding: formatUnits(BigInt(run.totals.outstanding), 18),
+    held: formatUnits(BigInt(run.totals.held), 18),
+    failedClaims: run.totals.failedClaims,
+    failedTransfers: run.totals.failedTransfers,
+  }, 'Emissions claim run finished');
+  return run;
+}
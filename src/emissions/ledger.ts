@@ -0,0 +1,86 @@
+import { randomUUID } from 'crypto';
+import { getStateStore } from '../lib/state-store.js';
+import { createLogger } from '../lib/logger.js';
+import type { EmissionPodEntry, EmissionRun, EmissionRunTrigger, PayoutRecipient } from '../types.js';
+
+const log = createLogger('emission-ledger');
+
+/** A new run record; IDs sort by start time */
+export function createRun(trigger: EmissionRunTrigger): EmissionRun {
+  return {
+    runId: `${new Date().toISOString().replace(/[-:.]/g, '')}-${randomUUID().slice(0, 8)}`,
+    trigger,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    pods: [],
+  };
+}
+
+/**
+ * Persist the run. Called after every claim and transfer, so a crash leaves
+ * the ledger at most one step behind the chain.
+ */
+export async function saveRun(run: EmissionRun): Promise<void> {
+  try {
+    await getStateStore().putEmissionRun(run);
+  } catch (err) {
+    log.error({ err, runId: run.runId }, 'Failed to persist emission run');
+  }
+}
+
+/** Runs, newest first */
+export async function listRuns(limit?: number): Promise<EmissionRun[]> {
+  const runs = await getStateStore().listEmissionRuns();
+  runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  return limit !== undefined ? runs.slice(0, limit) : runs;
+}
+
+export async function getRun(runId: string): Promise<EmissionRun | null> {
+  return getStateStore().getEmissionRun(runId);
+}
+
+/** Pod entries holding claimed REPPO that never reached the buyer */
+export function outstandingTransfers(run: EmissionRun): EmissionPodEntry[] {
+  return run.pods.filter((p) => p.status === 'claimed' || p.status === 'transfer_failed');
+}
+
+/** Fill in the run's totals from its pod entries */
+export function summarizeRun(run: EmissionRun): NonNullable<EmissionRun['totals']> {
+  let claimed = 0n;
+  let transferred = 0n;
+  let outstanding = 0n;
+  let held = 0n;
+  let failedClaims = 0;
+  let failedTransfers = 0;
+  const payouts: Record<PayoutRecipient, bigint> = { buyer: 0n, treasury: 0n, referrer: 0n };
+  for (const pod of run.pods) {
+    // Carried-over and released amounts were claimed by an earlier run
+    if (!pod.resumedFrom && !pod.releasesPending) claimed += BigInt(pod.received);
+    const open = pod.status === 'claimed' || pod.status === 'transfer_failed';
+    for (const leg of pod.legs ?? []) {
+      if (leg.status === 'transferred') {
+        transferred += BigInt(leg.amount);
+        payouts[leg.recipient] += BigInt(leg.amount);
+      } else if (leg.status === 'held') {
+        held += BigInt(leg.amount);
+      } else if (open) {
+        outstanding += BigInt(leg.amount);
+      }
+      if (leg.status === 'failed' && open) failedTransfers++;
+    }
+    failedClaims += pod.claims.filter((c) => c.error).length;
+  }
+  return {
+    claimed: claimed.toString(),
+    transferred: transferred.toString(),
+    outstanding: outstanding.toString(),
+    failedClaims,
+    failedTransfers,
+    payouts: {
+      buyer: payouts.buyer.toString(),
+      treasury: payouts.treasury.toString(),
+      referrer: payouts.referrer.toString(),
+    },
+    held: held.toString(),
+  };
+}
@@ -0,0 +1,112 @@
+import { EMISSION_SHARE } from '../constants.js';
+import type { PodRecord } from '../lib/pods.js';
+import type { PayoutLeg, PayoutRecipient, PayoutSplit } from '../types.js';
+
+const BPS = 10_000;
+
+/** Default split and per-offering overrides (keyed by ACP job offering name) */
+export interface PayoutPolicy {
+  default: PayoutSplit;
+  offerings: Record<string, PayoutSplit>;
+}
+
+/** Pods minted before payout splits existed forward everything to the buyer */
+export const BUYER_ONLY_SPLIT: PayoutSplit = { buyerBps: BPS, treasuryBps: 0, referrerBps: 0 };
+
+function toBps(percent: string, rule: string): number {
+  const value = Number(percent);
+  if (!/^\d+(\.\d{1,2})?$/.test(percent) || value > 100) {
+    throw new Error(`Invalid payout percentage "${percent}" in "${rule}" (0-100, up to 2 decimals)`);
+  }
+  return Math.round(value * 100);
+}
+
+/**
+ * Parse a split rule: `buyer:80,treasury:15,referrer:5@0xReferrer`. Percentages must
+ * add up to 100; a referrer share names its wallet after `@`.
+ */
+export function parsePayoutSplit(rule: string, treasuryWallet: string | undefined): PayoutSplit {
+  const split: PayoutSplit = { buyerBps: 0, treasuryBps: 0, referrerBps: 0 };
+  for (const part of rule.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(buyer|treasury|referrer):([\d.]+)(?:@(0x[a-fA-F0-9]{40}))?$/);
+    if (!match) throw new Error(`Invalid payout split entry "${part}" in "${rule}"`);
+    const [, recipient, percent, wallet] = match as [string, PayoutRecipient, string, string | undefined];
+    if (wallet && recipient !== 'referrer') throw new Error(`Only the referrer share takes a wallet in "${rule}"`);
+    split[`${recipient}Bps`] = toBps(percent, rule);
+    if (recipient === 'referrer' && wallet) split.referrerWallet = wallet;
+  }
+
+  if (split.buyerBps + split.treasuryBps + split.referrerBps !== BPS) {
+    throw new Error(`Payout split "${rule}" must add up to 100%`);
+  }
+  if (split.referrerBps > 0 && !split.referrerWallet) {
+    throw new Error(`Payout split "${rule}" has a referrer share but no referrer wallet (referrer:N@0x...)`);
+  }
+  if (split.treasuryBps > 0) {
+    if (!treasuryWallet) throw new Error(`Payout split "${rule}" has a treasury share but PAYOUT_TREASURY_WALLET is not set`);
+    split.treasuryWallet = treasuryWallet;
+  }
+  return split;
+}
+
+/**
+ * Payout policy from env: `PAYOUT_SPLIT` (default: all to the buyer),
+ * `PAYOUT_OFFERING_SPLITS` (JSON, offering name → rule) and `PAYOUT_TREASURY_WALLET`.
+ */
+export function parsePayoutPolicy(env: Record<string, string | undefined>): PayoutPolicy {
+  const treasuryWallet = env.PAYOUT_TREASURY_WALLET || undefined;
+  if (treasuryWallet && !/^0x[a-fA-F0-9]{40}$/.test(treasuryWallet)) {
+    throw new Error('PAYOUT_TREASURY_WALLET must be a valid Ethereum address (0x + 40 hex chars)');
+  }
+
+  let offeringRules: Record<string, unknown> = {};
+  if (env.PAYOUT_OFFERING_SPLITS) {
+    try {
+      offeringRules = JSON.parse(env.PAYOUT_OFFERING_SPLITS);
+    } catch {
+      throw new Error('PAYOUT_OFFERING_SPLITS must be a JSON object of offering name → split rule');
+    }
+  }
+
+  const offerings: Record<string, PayoutSplit> = {};
+  for (const [offering, rule] of Object.entries(offeringRules)) {
+    if (typeof rule !== 'string') throw new Error(`PAYOUT_OFFERING_SPLITS["${offering}"] must be a split rule string`);
+    offerings[offering] = parsePayoutSplit(rule, treasuryWallet);
+  }
+
+  return {
+    default: env.PAYOUT_SPLIT ? parsePayoutSplit(env.PAYOUT_SPLIT, treasuryWallet) : BUYER_ONLY_SPLIT,
+    offerings,
+  };
+}
+
+/**
+ * Payout fields recorded on the pod at mint, so later policy changes don't reach
+ * pods already sold. `emissionShare` is the owner share the pod was minted with:
+ * claims pay that percentage of the pod's emissions, and the split divides it.
+ */
+export function podPayoutDetails(
+  policy: PayoutPolicy,
+  offering: string | undefined,
+): Pick<PodRecord, 'offering' | 'emissionShare' | 'payoutSplit'> {
+  return {
+    offering,
+    emissionShare: EMISSION_SHARE,
+    payoutSplit: (offering && policy.offerings[offering]) || policy.default,
+  };
+}
+
+/**
+ * Split a claimed amount into transfer legs. Treasury and referrer get their share
+ * rounded down; the buyer gets the rest. Zero-amount legs are left out.
+ */
+export function payoutLegs(amount: bigint, buyerWallet: string, split: PayoutSplit = BUYER_ONLY_SPLIT): PayoutLeg[] {
+  const treasury = (amount * BigInt(split.treasuryBps)) / BigInt(BPS);
+  const referrer = (amount * BigInt(split.referrerBps)) / BigInt(BPS);
+  const legs: PayoutLeg[] = [
+    { recipient: 'buyer', wallet: buyerWallet, amount: (amount - treasury - referrer).toString(), status: 'pending' },
+  ];
+  if (treasury > 0n) legs.push({ recipient: 'treasury', wallet: split.treasuryWallet!, amount: treasury.toString(), status: 'pending' });
+  if (referrer > 0n) legs.push({ recipient: 'referrer', wallet: split.referrerWallet!, amount: referrer.toString(), status: 'pending' });
+  return legs.filter((leg) => leg.amount !== '0');
+}
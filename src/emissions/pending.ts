@@ -0,0 +1,144 @@
+import { formatUnits, getAddress, isAddress, parseUnits } from 'viem';
+import { getPodsByWallet, holdPodPayout, releasePodPayouts, type PendingPayout, type PodRecord } from '../lib/pods.js';
+import { createLogger } from '../lib/logger.js';
+import type { EmissionPodEntry, EmissionRun, PayoutLeg } from '../types.js';
+
+const log = createLogger('emission-payouts');
+
+/** A buyer's held payouts, as served by `GET /payouts/:wallet`. Amounts in wei */
+export interface PendingPayoutSummary {
+  wallet: string;
+  pending: string;
+  minPayout: string;
+  pods: { podId: number; pending: string; payouts: PendingPayout[] }[];
+}
+
+/** `EMISSIONS_MIN_PAYOUT` in REPPO (up to 18 decimals), as wei; 0 when unset */
+export function parseMinPayout(value: string | undefined): bigint {
+  if (!value) return 0n;
+  if (!/^\d+(\.\d{1,18})?$/.test(value)) {
+    throw new Error(`EMISSIONS_MIN_PAYOUT must be a REPPO amount (e.g. 5 or 0.25), got "${value}"`);
+  }
+  return parseUnits(value, 18);
+}
+
+/** REPPO held on the pod for its buyer (wei) */
+export function heldBalance(pod: Pick<PodRecord, 'pendingPayouts'>): bigint {
+  return (pod.pendingPayouts ?? []).reduce((sum, p) => sum + BigInt(p.amount), 0n);
+}
+
+/** A buyer's pods; wallets are stored as the job gave them, so both address casings are looked up */
+async function podsOfWallet(wallet: string): Promise<PodRecord[]> {
+  const forms = new Set([wallet, wallet.toLowerCase()]);
+  if (isAddress(wallet, { strict: false })) forms.add(getAddress(wallet));
+  const pods = new Map<number, PodRecord>();
+  for (const form of forms) {
+    for (const pod of await getPodsByWallet(form)) pods.set(pod.podId, pod);
+  }
+  return [...pods.values()];
+}
+
+export async function getPendingPayouts(wallet: string, minPayout: bigint): Promise<PendingPayoutSummary> {
+  const pods = (await podsOfWallet(wallet))
+    .filter((pod) => heldBalance(pod) > 0n)
+    .sort((a, b) => a.podId - b.podId);
+  return {
+    wallet,
+    pending: pods.reduce((sum, pod) => sum + heldBalance(pod), 0n).toString(),
+    minPayout: minPayout.toString(),
+    pods: pods.map((pod) => ({ podId: pod.podId, pending: heldBalance(pod).toString(), payouts: pod.pendingPayouts! })),
+  };
+}
+
+/**
+ * Take a pod's held balance into the run as a buyer leg, saved right away. The pod is
+ * cleared before the entry is written: a crash in between loses the balance from DynamoDB
+ * (the holding runs' ledgers still show it), never pays it twice.
+ */
+async function releaseHeld(run: EmissionRun, pod: PodRecord, save: () => Promise<void>): Promise<boolean> {
+  const amount = heldBalance(pod);
+  try {
+    await releasePodPayouts(pod.podId);
+  } catch (err) {
+    log.error({ podId: pod.podId, error: err instanceof Error ? err.message : err }, 'Failed to release held payouts, left for a later run');
+    return false;
+  }
+  run.pods.push({
+    podId: pod.podId,
+    buyerWallet: pod.buyerWallet,
+    claims: [],
+    lastClaimedEpoch: Math.max(...pod.pendingPayouts!.map((p) => p.epoch)),
+    received: amount.toString(),
+    status: 'claimed',
+    legs: [{ recipient: 'buyer', wallet: pod.buyerWallet, amount: amount.toString(), status: 'pending' }],
+    releasesPending: true,
+  });
+  await save();
+  return true;
+}
+
+/**
+ * Apply the minimum payout per buyer wallet, across all of the buyer's pods. When a
+ * buyer's unpaid share in this run plus what's held on their pods stays below
+ * `minPayout`, the new shares are held on their pods. Otherwise the held balances
+ * join the run as buyer legs and go out in the buyer's transfer.
+ */
+export async function applyMinPayout(
+  run: EmissionRun,
+  entries: EmissionPodEntry[],
+  minPayout: bigint,
+  save: () => Promise<void>,
+): Promise<void> {
+  const byWallet = new Map<string, { wallet: string; legs: { entry: EmissionPodEntry; leg: PayoutLeg }[] }>();
+  for (const entry of entries) {
+    for (const leg of entry.legs) {
+      if (leg.recipient !== 'buyer' || (leg.status !== 'pending' && leg.status !== 'failed')) continue;
+      const key = leg.wallet.toLowerCase();
+      const group = byWallet.get(key) ?? { wallet: leg.wallet, legs: [] };
+      group.legs.push({ entry, leg });
+      byWallet.set(key, group);
+    }
+  }
+
+  const held: { entry: EmissionPodEntry; leg: PayoutLeg }[] = [];
+  let released = 0;
+  for (const { wallet, legs } of byWallet.values()) {
+    let holding: PodRecord[];
+    try {
+      holding = (await podsOfWallet(wallet)).filter((pod) => heldBalance(pod) > 0n);
+    } catch (err) {
+      log.error({ wallet, error: err instanceof Error ? err.message : err }, 'Failed to read held payouts, paying without the minimum');
+      continue;
+    }
+
+    const due = legs.reduce((sum, { leg }) => sum + BigInt(leg.amount), 0n)
+      + holding.reduce((sum, pod) => sum + heldBalance(pod), 0n);
+    // Carried-over legs were already due, so the wallet gets a transfer regardless
+    const transferring = legs.some(({ entry }) => entry.resumedFrom || entry.releasesPending);
+    if (!transferring && due < minPayout) {
+      log.info({ wallet, due: formatUnits(due, 18), minPayout: formatUnits(minPayout, 18) }, 'Buyer payout below the minimum, holding');
+      held.push(...legs);
+      continue;
+    }
+    for (const pod of holding) {
+      if (await releaseHeld(run, pod, save)) released++;
+    }
+  }
+
+  if (held.length === 0 && released === 0) return;
+  // Recorded as held first, for the same reason the release clears the pod first
+  for (const { leg } of held) leg.status = 'held';
+  await save();
+
+  const heldAt = new Date().toISOString();
+  for (const { entry, leg } of held) {
+    try {
+      await holdPodPayout(entry.podId, { runId: run.runId, amount: leg.amount, epoch: entry.lastClaimedEpoch, heldAt });
+    } catch (err) {
+      leg.status = 'pending';
+      log.error({ podId: entry.podId, error: err instanceof Error ? err.message : err }, 'Failed to hold payout on the pod, paying it now');
+    }
+  }
+  await save();
+  log.info({ heldLegs: held.length, releasedPods: released }, 'Minimum payout applied');
+}
@@ -0,0 +1,104 @@
+import { EPOCH_DURATION } from '../constants.js';
+import { createLogger } from '../lib/logger.js';
+import { getInitTimestamp, runEmissionsClaim, type ClaimRunOptions, type EmissionsClients } from './claim.js';
+import { listRuns } from './ledger.js';
+import type { EmissionRunTrigger } from '../types.js';
+
+const log = createLogger('emissions-scheduler');
+
+const EPOCH_MS = EPOCH_DURATION * 1000;
+// Retry interval when the contract's epoch start can't be read at startup
+const START_RETRY_MS = 5 * 60 * 1000;
+
+export interface EmissionsScheduler {
+  /** Start a run now, outside the schedule. False when one is already running */
+  trigger(trigger?: EmissionRunTrigger): boolean;
+  running(): boolean;
+  /** Stop scheduling and wait for an in-flight run to finish */
+  stop(): Promise<void>;
+}
+
+/** Time of the latest scheduled run at or before `nowMs`: `delayMs` past an epoch boundary */
+export function lastScheduledRun(initTimestamp: bigint, nowMs: number, delayMs: number): number {
+  const first = Number(initTimestamp) * 1000 + delayMs;
+  return first + Math.floor((nowMs - first) / EPOCH_MS) * EPOCH_MS;
+}
+
+/** Milliseconds from `nowMs` until the next scheduled run */
+export function msUntilNextRun(initTimestamp: bigint, nowMs: number, delayMs: number): number {
+  return lastScheduledRun(initTimestamp, nowMs, delayMs) + EPOCH_MS - nowMs;
+}
+
+/**
+ * Run the emissions claim once per epoch, `delayMs` after each boundary (when
+ * the next epoch becomes claimable). A run missed while the agent was down is
+ * made up at startup. Runs never overlap.
+ */
+export function startEmissionsScheduler(
+  clients: EmissionsClients,
+  delayMs: number,
+  settings: Pick<ClaimRunOptions, 'batch' | 'minPayout'>,
+): EmissionsScheduler {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<void> | null = null;
+
+  const execute = (trigger: EmissionRunTrigger): boolean => {
+    if (inFlight) return false;
+    inFlight = runEmissionsClaim(clients, { ...settings, trigger })
+      .then(() => undefined)
+      .catch((err) => {
+        log.error({ trigger, error: err instanceof Error ? err.message : err }, 'Emissions claim run failed');
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return true;
+  };
+
+  const schedule = (initTimestamp: bigint) => {
+    if (stopped) return;
+    const wait = msUntilNextRun(initTimestamp, Date.now(), delayMs);
+    log.info({ nextRunAt: new Date(Date.now() + wait).toISOString() }, 'Next emissions claim scheduled');
+    timer = setTimeout(async () => {
+      timer = null;
+      execute('scheduled');
+      await inFlight;
+      schedule(initTimestamp);
+    }, wait);
+  };
+
+  const start = async () => {
+    let initTimestamp: bigint;
+    try {
+      initTimestamp = await getInitTimestamp(clients);
+    } catch (err) {
+      log.error({ error: err instanceof Error ? err.message : err }, 'Failed to read epoch start, retrying');
+      if (!stopped) timer = setTimeout(start, START_RETRY_MS);
+      return;
+    }
+
+    const [latest] = await listRuns(1).catch(() => []);
+    const due = lastScheduledRun(initTimestamp, Date.now(), delayMs);
+    if (!latest || new Date(latest.startedAt).getTime() < due) {
+      log.info({ lastRun: latest?.startedAt ?? null, dueAt: new Date(due).toISOString() }, 'Emissions claim overdue, running now');
+      execute('scheduled');
+      await inFlight;
+    }
+    schedule(initTimestamp);
+  };
+
+  void start();
+  log.info({ delayMs, epochSeconds: EPOCH_DURATION }, 'Emissions scheduler started');
+
+  return {
+    trigger: (trigger = 'admin') => execute(trigger),
+    running: () => inFlight !== null,
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await inFlight;
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import { verifyPodMint } from './lib/verify.js';
+import { getPod as getPodRecord } from './lib/pods.js';
+import { getStateStore } from './lib/state-store.js';
+import { getPod as getReppoPod, findPodsByMintTx } from './reppo.js';
+import { resolveContentSource } from './sources/index.js';
+import { createLogger } from './lib/logger.js';
+import type { AcpBatchDeliverable, AcpDeliverable, AcpJob, Clients } from './types.js';
+import type { Config } from './config.js';
+
+const log = createLogger('evaluate');
+
+export interface Evaluation {
+  approved: boolean;
+  reason: string;
+}
+
+/** A read the verdict depends on failed, so the delivery was neither verified nor disproved */
+export class VerificationUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VerificationUnavailableError';
+  }
+}
+
+async function read<T>(what: string, fn: () => Promise<T>): Promise<T> {
+  try {
+    return await fn();
+  } catch (err) {
+    throw new VerificationUnavailableError(`Could not read ${what}: ${(err as Error).message}`);
+  }
+}
+
+function parseMemo(content: unknown): Record<string, unknown> | null {
+  if (content && typeof content === 'object') return content as Record<string, unknown>;
+  if (typeof content !== 'string') return null;
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The deliverable among the job's memos. Searched from the latest: a follow-up memo
+ * for late subnets is a complete deliverable too, with more subnets.
+ */
+export function findDeliverable(job: Pick<AcpJob, 'memos'>): AcpDeliverable | AcpBatchDeliverable | null {
+  for (const memo of [...(job.memos ?? [])].reverse()) {
+    const d = parseMemo(memo.content);
+    if (!d) continue;
+    if (typeof d.minted === 'number' && Array.isArray(d.items)) return d as unknown as AcpBatchDeliverable;
+    if (typeof d.txHash === 'string') return d as unknown as AcpDeliverable;
+  }
+  return null;
+}
+
+/**
+ * Check one delivered pod: minted by its tx to our wallet, recorded for this job
+ * (or, for an existing pod, indexed for the delivered post), and registered on Reppo for the subnets it claims.
+ * Returns why it failed, or null; throws VerificationUnavailableError when a read fails.
+ */
+async function verifyDeliveredPod(
+  d: AcpDeliverable,
+  jobId: string,
+  clients: Clients,
+  config: Config,
+): Promise<string | null> {
+  if (!d.podId || !/^\d+$/.test(d.podId)) return `Deliverable has no pod ID (tx ${d.txHash})`;
+
+  const owners = [clients.aaWalletAddress, clients.account.address].filter((a): a is `0x${string}` => Boolean(a));
+  const mint = await read(`mint tx ${d.txHash}`, () =>
+    verifyPodMint(clients.publicClient, clients.network.podContract, d.txHash, { podId: BigInt(d.podId!), owners }));
+  if (!mint.ok) return mint.reason;
+
+  const record = await read(`mint record of pod ${d.podId}`, () => getPodRecord(Number(d.podId)));
+  if (!record) return `Pod ${d.podId} has no mint record`;
+  if (record.mintTxHash.toLowerCase() !== d.txHash.toLowerCase()) {
+    return `Pod ${d.podId} was recorded with mint tx ${record.mintTxHash}, not ${d.txHash}`;
+  }
+
+  const contentId = resolveContentSource(d.postUrl)?.contentId;
+  const indexed = contentId ? await read(`content pod of ${d.postUrl}`, () => getStateStore().getContentPod(contentId)) : null;
+  if (d.existingPod) {
+    // Another job minted it: bind it to the post instead, through the content-pod index
+    const matches = indexed
+      && indexed.mintTxHash.toLowerCase() === d.txHash.toLowerCase()
+      && (indexed.podId === undefined || indexed.podId === Number(d.podId));
+    if (!matches) return `Pod ${d.podId} is not the recorded pod for ${d.postUrl}`;
+  } else if (String(record.jobId) !== jobId) {
+    return `Pod ${d.podId} was minted for job ${record.jobId}, not ${jobId}`;
+  }
+  for (const subnetId of d.subnets) {
+    const reppoPodId = indexed?.reppoPods?.[subnetId];
+    const registered = reppoPodId
+      ? await read(`Reppo pod ${reppoPodId}`, async () => {
+        const pod = await getReppoPod(config, reppoPodId);
+        const mintTx = pod?.data?.podMintTx;
+        return Boolean(pod) && (!mintTx || mintTx.toLowerCase() === d.txHash.toLowerCase());
+      })
+      // No Reppo pod ID recorded for the subnet: find it by the mint tx
+      : await read(`Reppo pods of ${d.txHash}`, async () => (await findPodsByMintTx(config, d.txHash, subnetId)).length > 0);
+    if (!registered) return `Metadata for pod ${d.podId} not found on Reppo for subnet ${subnetId}`;
+  }
+  return null;
+}
+
+/**
+ * Decide an evaluation request from the job's deliverable. Batch deliverables pass
+ * when every minted item verifies. Throws VerificationUnavailableError when it can't decide.
+ */
+export async function evaluateDelivery(job: AcpJob, clients: Clients, config: Config): Promise<Evaluation> {
+  const jobId = String(job.id ?? 'unknown');
+  const deliverable = findDeliverable(job);
+  if (!deliverable) {
+    return { approved: false, reason: 'No transaction hash found in deliverable' };
+  }
+
+  if ('items' in deliverable) {
+    const minted = deliverable.items.filter((item) => item.status === 'minted');
+    if (minted.length === 0) return { approved: false, reason: 'No minted pods in deliverable' };
+    for (const item of minted) {
+      const failure = await verifyDeliveredPod(item, jobId, clients, config);
+      if (failure) return { approved: false, reason: `${item.postUrl}: ${failure}` };
+    }
+    return { approved: true, reason: `${minted.length} pod mint(s) verified on-chain and on Reppo` };
+  }
+
+  const failure = await verifyDeliveredPod(deliverable, jobId, clients, config);
+  if (failure) return { approved: false, reason: failure };
+  return { approved: true, reason: `Pod mint verified on-chain: ${deliverable.txHash}` };
+}
@@ -0,0 +1,212 @@
+import { retryPendingJob, rejectJobById } from './publish.js';
+import { buildDeliverable, resolveReppoUrls } from './common.js';
+import { buildBatchDeliverable, hasOutstandingSubnets } from './batch.js';
+import { acquireProcessingLock } from '../lib/dedup.js';
+import {
+  getAllPendingJobs,
+  getPendingJob,
+  updatePendingJobStatus,
+  removePendingJob,
+  recordPendingJobError,
+} from '../lib/pending-jobs.js';
+import { jobsDelivered } from '../lib/metrics.js';
+import { jobError } from '../memos.js';
+import { getRun, listRuns } from '../emissions/ledger.js';
+import { createLogger } from '../lib/logger.js';
+import type { EmissionsScheduler } from '../emissions/scheduler.js';
+import type { Clients, AgentSession, AcpJob, PendingJob } from '../types.js';
+import type { Config } from '../config.js';
+import type { AcpContext } from '../acp.js';
+
+const log = createLogger('admin');
+
+/** Everything the admin actions need; available once ACP is initialized */
+export interface AdminContext {
+  clients: Clients;
+  session: AgentSession;
+  config: Config;
+  acp: AcpContext;
+  /** Set when EMISSIONS_SCHEDULER is on */
+  emissions?: EmissionsScheduler;
+}
+
+export interface AdminResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+const ok = (body: Record<string, unknown>): AdminResponse => ({ status: 200, body });
+const fail = (status: number, error: string): AdminResponse => ({ status, body: { error } });
+
+/**
+ * Re-run the WAL recovery step for one job, holding the post's processing lock
+ * so it can't race the poll loop.
+ */
+async function forceRetry(ctx: AdminContext, jobId: string): Promise<AdminResponse> {
+  const pj = getPendingJob(jobId);
+  if (!pj) return fail(404, `Pending job ${jobId} not found`);
+  if (pj.status === 'completed') return fail(409, `Pending job ${jobId} is already completed`);
+  if (pj.status === 'dead_letter') return fail(409, `Pending job ${jobId} is dead-lettered; reject or deliver it instead`);
+
+  const release = await acquireProcessingLock(pj.tweetId);
+  if (!release) return fail(409, `Post ${pj.tweetId} is being processed`);
+
+  try {
+    await retryPendingJob(pj, ctx.clients, ctx.session, ctx.config, ctx.acp);
+  } catch (err) {
+    const errorMsg = (err as Error).message ?? String(err);
+    await recordPendingJobError(jobId, errorMsg);
+    return fail(502, `Retry failed: ${errorMsg}`);
+  } finally {
+    release();
+  }
+
+  log.info({ jobId }, 'Pending job force-retried');
+  return ok({ jobId, pendingJob: getPendingJob(jobId) ?? null });
+}
+
+async function forceReject(ctx: AdminContext, jobId: string, reason: string): Promise<AdminResponse> {
+  if (!getPendingJob(jobId)) return fail(404, `Pending job ${jobId} not found`);
+
+  const rejected = await rejectJobById(ctx.acp.client, jobId, jobError('ADMIN_REJECTED', reason));
+  if (!rejected) return fail(502, `Failed to reject job ${jobId} via ACP`);
+
+  await removePendingJob(jobId);
+  log.info({ jobId, reason }, 'Pending job force-rejected');
+  return ok({ jobId, rejected: true, reason });
+}
+
+/**
+ * Deliver from the mint recorded in the WAL (replaces hand-edited deliver scripts), holding
+ * the post's processing lock like forceRetry. Subnets not recorded as completed are reported failed.
+ */
+async function forceDeliver(ctx: AdminContext, jobId: string): Promise<AdminResponse> {
+  const pj = getPendingJob(jobId);
+  if (!pj) return fail(404, `Pending job ${jobId} not found`);
+  const minted = pj.items ? pj.items.some((item) => item.status === 'minted') : Boolean(pj.mintTxHash);
+  if (!minted) return fail(409, `Pending job ${jobId} has no recorded mint tx`);
+
+  const release = await acquireProcessingLock(pj.tweetId);
+  if (!release) return fail(409, `Post ${pj.tweetId} is being processed`);
+  try {
+    return await deliverRecorded(ctx, jobId, pj);
+  } finally {
+    release();
+  }
+}
+
+async function deliverRecorded(ctx: AdminContext, jobId: string, pj: PendingJob): Promise<AdminResponse> {
+  let job: AcpJob | null;
+  try {
+    job = await ctx.acp.client.getJobById(Number(jobId));
+  } catch (err) {
+    return fail(502, `Failed to fetch job ${jobId} from ACP: ${(err as Error).message}`);
+  }
+  if (!job) return fail(404, `Job ${jobId} not found on ACP`);
+
+  const completedSubnets = pj.completedSubnets ?? [];
+  const deliverable = pj.items
+    ? buildBatchDeliverable(ctx.config.NETWORK, pj.items)
+    : buildDeliverable(ctx.config.NETWORK, pj.postUrl, pj.subnets, completedSubnets, pj.mintTxHash!, pj.podId,
+      await resolveReppoUrls(ctx.config, pj.reppoPods, pj.mintTxHash!));
+  const outstanding = pj.items ? hasOutstandingSubnets(pj) : 'failedSubnets' in deliverable;
+
+  try {
+    await job.deliver(deliverable);
+  } catch (err) {
+    return fail(502, `Failed to deliver job ${jobId}: ${(err as Error).message}`);
+  }
+  jobsDelivered.inc({ partial: String(outstanding || ('failed' in deliverable && deliverable.failed > 0)) });
+
+  // Failed subnets stay in the WAL for the retry scheduler's follow-up
+  await updatePendingJobStatus(jobId, 'delivered', pj.items ? undefined : { completedSubnets });
+  if (!outstanding) await removePendingJob(jobId);
+  log.info({ jobId, txHash: pj.mintTxHash }, 'Pending job force-delivered');
+  return ok({ jobId, delivered: true, deliverable });
+}
+
+async function markCompleted(jobId: string): Promise<AdminResponse> {
+  if (!getPendingJob(jobId)) return fail(404, `Pending job ${jobId} not found`);
+
+  await updatePendingJobStatus(jobId, 'completed');
+  log.info({ jobId }, 'Pending job marked completed');
+  return ok({ jobId, pendingJob: getPendingJob(jobId) });
+}
+
+/**
+ * Emissions claim run ledger. Listing leaves out the per-pod entries; fetch a run for those.
+ */
+async function handleEmissionRuns(method: string, runId: string | undefined, ctx: AdminContext | null): Promise<AdminResponse> {
+  if (method === 'GET') {
+    if (!runId) {
+      const runs = await listRuns();
+      return ok({ runs: runs.map(({ pods, ...run }) => ({ ...run, podCount: pods.length })) });
+    }
+    const run = await getRun(runId);
+    return run ? ok({ run }) : fail(404, `Emission run ${runId} not found`);
+  }
+
+  if (method !== 'POST' || runId) return fail(405, 'Method Not Allowed');
+  if (!ctx) return fail(503, 'Agent not ready');
+  if (!ctx.emissions) return fail(409, 'Emissions scheduler is disabled (EMISSIONS_SCHEDULER)');
+  if (!ctx.emissions.trigger('admin')) return fail(409, 'An emissions claim run is already in progress');
+
+  log.info('Emissions claim run started by operator');
+  return { status: 202, body: { started: true } };
+}
+
+/**
+ * Route an authenticated admin request. `path` is relative to `/admin`.
+ * Routes:
+ *   GET  /pending-jobs
+ *   GET  /pending-jobs/:id
+ *   POST /pending-jobs/:id/retry
+ *   POST /pending-jobs/:id/reject     body: { reason? }
+ *   POST /pending-jobs/:id/deliver
+ *   POST /pending-jobs/:id/complete
+ *   GET  /emissions/runs
+ *   GET  /emissions/runs/:id
+ *   POST /emissions/runs              start a claim run now
+ */
+export async function handleAdminRequest(
+  method: string,
+  path: string,
+  body: Record<string, unknown>,
+  ctx: AdminContext | null,
+): Promise<AdminResponse> {
+  const parts = path.split('/').filter(Boolean);
+  if (parts[0] === 'emissions' && parts[1] === 'runs' && parts.length <= 3) {
+    return handleEmissionRuns(method, parts[2], ctx);
+  }
+  if (parts[0] !== 'pending-jobs' || parts.length > 3) return fail(404, 'Not Found');
+
+  const [, jobId, action] = parts;
+
+  if (method === 'GET' && !action) {
+    if (!jobId) return ok({ pendingJobs: getAllPendingJobs() });
+    const pj = getPendingJob(jobId);
+    return pj ? ok({ pendingJob: pj }) : fail(404, `Pending job ${jobId} not found`);
+  }
+
+  if (method !== 'POST' || !jobId || !action) return fail(405, 'Method Not Allowed');
+
+  if (action === 'complete') return markCompleted(jobId);
+
+  // Remaining actions talk to ACP / chain
+  if (!ctx) return fail(503, 'Agent not ready');
+
+  switch (action) {
+    case 'retry':
+      return forceRetry(ctx, jobId);
+    case 'reject': {
+      const reason = typeof body.reason === 'string' && body.reason.trim()
+        ? body.reason.trim()
+        : 'Job rejected by operator';
+      return forceReject(ctx, jobId, reason);
+    }
+    case 'deliver':
+      return forceDeliver(ctx, jobId);
+    default:
+      return fail(404, 'Not Found');
+  }
+}
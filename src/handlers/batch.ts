@@ -0,0 +1,591 @@
+import { resolveContentSource, fetchContent, describeContent } from '../sources/index.js';
+import { mintPod, resolveMint, MintSubmittedError } from '../chain.js';
+import { MAX_POSTS_PER_BATCH, MAX_SUBNETS_PER_JOB } from '../constants.js';
+import { jobError, rejectJob, formatMemo, type JobErrorCode } from '../memos.js';
+import {
+  hasProcessed,
+  isProcessed,
+  claimMint,
+  releaseMintClaim,
+  acquireProcessingLock,
+  markJobMinted,
+  getContentPod,
+  recordContentPod,
+} from '../lib/dedup.js';
+import { savePod } from '../lib/pods.js';
+import {
+  savePendingJob,
+  updatePendingJobStatus,
+  removePendingJob,
+  getPendingJob,
+  recordPendingJobError,
+  updateBatchItem,
+  markBatchItemSubnetCompleted,
+} from '../lib/pending-jobs.js';
+import { jobsAccepted, jobsDelivered } from '../lib/metrics.js';
+import { podPayoutDetails } from '../emissions/payout.js';
+import { createLogger } from '../lib/logger.js';
+import {
+  PHASE_TRANSACTION,
+  buildDeliverable,
+  buildPodMetadata,
+  describeContentPod,
+  describeSubnets,
+  fetchSubnetList,
+  getBuyerId,
+  getPublishSession,
+  priceJob,
+  resolveReppoUrls,
+  resolveSubnetIds,
+  submitToSubnets,
+  subnetOptions,
+  type SubnetInfo,
+} from './common.js';
+import type {
+  AcpBatchDeliverable,
+  AcpJob,
+  AgentSession,
+  Clients,
+  MintResult,
+  ParsedJobContent,
+  PendingBatchItem,
+  PendingJob,
+  SourceContent,
+} from '../types.js';
+import type { Config } from '../config.js';
+import type { NetworkProfile } from '../lib/network.js';
+import type { AcpContext } from '../acp.js';
+
+const log = createLogger('batch');
+
+/** Lock key for a batch as a whole (its PendingJob.tweetId) */
+export function batchKey(jobId: string): string {
+  return `batch:${jobId}`;
+}
+
+/** One invalid item of a batch, as listed in the INVALID_BATCH details */
+interface BatchItemError {
+  index: number;
+  postUrl?: string;
+  code: JobErrorCode;
+  message: string;
+  /** DUPLICATE_POST of an already-minted post: its pod */
+  existingPod?: Record<string, unknown>;
+}
+
+/**
+ * Validate every item before accepting: URL, per-item and in-batch dedup, subnets.
+ * Returns a WAL item per request (bad ones `invalid`, with their reason) and one error per bad item.
+ */
+async function validateBatchItems(
+  content: ParsedJobContent,
+  config: Config,
+): Promise<{ items: PendingBatchItem[]; errors: BatchItemError[]; subnetList: SubnetInfo[] }> {
+  let subnetList: SubnetInfo[] = [];
+  try {
+    subnetList = await fetchSubnetList(config);
+  } catch (err) {
+    log.warn({ error: (err as Error).message }, 'Failed to validate subnets, proceeding anyway');
+  }
+
+  const items: PendingBatchItem[] = [];
+  const errors: BatchItemError[] = [];
+  const seen = new Set<string>();
+
+  for (const [i, request] of content.items!.entries()) {
+    const fail = (code: JobErrorCode, message: string, existingPod?: Record<string, unknown>) => {
+      const error: BatchItemError = { index: i + 1, postUrl: request.postUrl || undefined, code, message, ...(existingPod && { existingPod }) };
+      errors.push(error);
+      items.push({ postUrl: request.postUrl ?? '', contentId: '', subnets: [], status: 'invalid', error: message });
+    };
+
+    if (!request.postUrl) { fail('MISSING_POST_URL', 'missing postUrl'); continue; }
+    const resolved = resolveContentSource(request.postUrl);
+    if (!resolved) { fail('UNSUPPORTED_URL', 'unsupported post URL'); continue; }
+    if (seen.has(resolved.contentId)) { fail('DUPLICATE_POST', 'same post as an earlier item'); continue; }
+    seen.add(resolved.contentId);
+    if (hasProcessed(resolved.contentId)) {
+      const pod = await getContentPod(resolved.contentId);
+      fail('DUPLICATE_POST', `${describeContent(resolved)} already processed`, pod ? describeContentPod(config.NETWORK, pod) : undefined);
+      continue;
+    }
+
+    let subnets = request.subnets ?? content.subnets ?? [];
+    if (subnets.length === 0) { fail('MISSING_SUBNET', 'missing subnet'); continue; }
+    if (subnets.length > MAX_SUBNETS_PER_JOB) { fail('TOO_MANY_SUBNETS', `too many subnets (maximum is ${MAX_SUBNETS_PER_JOB})`); continue; }
+    if (subnetList.length > 0) {
+      const resolution = resolveSubnetIds(subnets, subnetList);
+      if (resolution.invalid !== undefined) { fail('INVALID_SUBNET', `invalid subnet "${resolution.invalid}"`); continue; }
+      subnets = resolution.ids;
+    }
+
+    items.push({
+      postUrl: request.postUrl,
+      contentId: resolved.contentId,
+      subnets,
+      podName: request.podName,
+      podDescription: request.podDescription,
+      status: 'pending',
+    });
+  }
+
+  return { items, errors, subnetList };
+}
+
+/** Items that passed validation, the only ones minted, locked and priced */
+function validItems(items: PendingBatchItem[]): PendingBatchItem[] {
+  return items.filter((item) => item.status !== 'invalid');
+}
+
+function describeItemError(error: BatchItemError): string {
+  return `#${error.index}${error.postUrl ? ` (${error.postUrl})` : ''}: ${error.message}`;
+}
+
+/**
+ * Take the processing lock of every post in the batch, or none of them
+ */
+async function acquireItemLocks(keys: string[]): Promise<(() => void) | null> {
+  const releases: Array<() => void> = [];
+  for (const key of keys) {
+    const release = await acquireProcessingLock(key);
+    if (!release) {
+      releases.forEach((r) => r());
+      return null;
+    }
+    releases.push(release);
+  }
+  return () => releases.forEach((r) => r());
+}
+
+export function buildBatchDeliverable(network: NetworkProfile, items: PendingBatchItem[]): AcpBatchDeliverable {
+  const entries = items.map((item) => item.status === 'minted' && item.mintTxHash
+    ? { status: 'minted' as const, ...buildDeliverable(network, item.postUrl, item.subnets, item.completedSubnets ?? [], item.mintTxHash, item.podId, item.reppoUrls) }
+    : { status: 'failed' as const, postUrl: item.postUrl, error: item.error ?? 'Not minted' });
+  const minted = entries.filter((e) => e.status === 'minted').length;
+  return { items: entries, minted, failed: entries.length - minted };
+}
+
+/** Minted items whose metadata is still missing from some subnet */
+export function hasOutstandingSubnets(pj: PendingJob): boolean {
+  return (pj.items ?? []).some((item) => item.status === 'minted'
+    && item.subnets.some((s) => !(item.completedSubnets ?? []).includes(s)));
+}
+
+/**
+ * Mint every item not minted yet, one after another, checkpointing each in the WAL.
+ * A failing item is marked failed and the batch moves on; running out of REPPO stops the batch,
+ * and so does a sent mint whose receipt isn't known yet (resolved from its recorded tx next run).
+ */
+async function mintBatchItems(pj: PendingJob, clients: Clients, config: Config): Promise<Map<number, SourceContent>> {
+  const posts = new Map<number, SourceContent>();
+  const items = pj.items ?? [];
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (item.status === 'minted' || item.status === 'invalid') continue;
+
+    let post: SourceContent | undefined;
+    let mintResult = item.mintTxHash ? await resolveSubmittedItemMint(pj, i, clients) : undefined;
+    if (!mintResult) {
+      if (hasProcessed(item.contentId)) {
+        await updateBatchItem(pj.jobId, i, { status: 'failed', error: 'Post already processed by another job' });
+        continue;
+      }
+
+      let claimed = false;
+      try {
+        post = await fetchContent(item.postUrl);
+        // Claimed before minting: the item locks can expire during a slow batch
+        claimed = await claimMint(item.contentId);
+        if (!claimed) {
+          await updateBatchItem(pj.jobId, i, { status: 'failed', error: 'Post already processed by another job' });
+          continue;
+        }
+        mintResult = await mintPod(clients, {
+          onSubmitted: (txHash) => updateBatchItem(pj.jobId, i, { mintTxHash: txHash }),
+        });
+      } catch (err) {
+        const error = (err as Error).message ?? String(err);
+        if (err instanceof MintSubmittedError) {
+          // The mint may land, so the claim stays. With its tx recorded the batch waits for the receipt
+          // on the next run; without one the item can only be checked on-chain by hand
+          await updateBatchItem(pj.jobId, i, err.txHash ? { error } : { status: 'failed', error: `Mint outcome unknown, check on-chain: ${error}` });
+          if (err.txHash) throw err;
+          log.error({ jobId: pj.jobId, index: i, postUrl: item.postUrl, error }, 'Batch item mint outcome unknown');
+          continue;
+        }
+        if (claimed) await releaseMintClaim(item.contentId);
+        log.warn({ jobId: pj.jobId, index: i, postUrl: item.postUrl, error }, 'Batch item failed');
+        if (error.includes('Insufficient REPPO')) {
+          for (let j = i; j < items.length; j++) {
+            if (items[j].status !== 'minted' && items[j].status !== 'invalid') await updateBatchItem(pj.jobId, j, { status: 'failed', error });
+          }
+          break;
+        }
+        await updateBatchItem(pj.jobId, i, { status: 'failed', error });
+        continue;
+      }
+    }
+
+    const podId = mintResult.podId !== undefined ? Number(mintResult.podId) : undefined;
+    await markJobMinted(pj.jobId);
+    await updateBatchItem(pj.jobId, i, { status: 'minted', mintTxHash: mintResult.txHash, podId, error: undefined });
+    if (pj.status === 'accepted') await updatePendingJobStatus(pj.jobId, 'minted');
+    log.info({ jobId: pj.jobId, index: i, txHash: mintResult.txHash, podId }, 'Batch item minted');
+
+    if (podId) {
+      await savePod(podId, pj.buyerId ?? clients.account.address, mintResult.txHash, undefined, Number(pj.jobId),
+        podPayoutDetails(config.PAYOUT_POLICY, pj.offering));
+    }
+    if (post) posts.set(i, post);
+  }
+
+  return posts;
+}
+
+/**
+ * Resolve the mint tx a batch item recorded before its receipt came back. Undefined if it
+ * reverted (the claim is released and the item mints again); throws while its outcome is unknown.
+ */
+async function resolveSubmittedItemMint(pj: PendingJob, index: number, clients: Clients): Promise<MintResult | undefined> {
+  const item = pj.items![index];
+  try {
+    return await resolveMint(clients, item.mintTxHash as `0x${string}`);
+  } catch (err) {
+    if (err instanceof MintSubmittedError) throw err;
+    log.warn({ jobId: pj.jobId, index, txHash: item.mintTxHash, error: (err as Error).message }, 'Recorded mint tx reverted, minting the item again');
+    await releaseMintClaim(item.contentId);
+    await updateBatchItem(pj.jobId, index, { mintTxHash: undefined });
+    return undefined;
+  }
+}
+
+/**
+ * Submit metadata for every minted item to its outstanding subnets. `posts` holds content fetched
+ * during this run; anything else (recovery) is fetched again. Returns what newly landed and what failed.
+ */
+async function submitBatchItems(
+  pj: PendingJob,
+  posts: Map<number, SourceContent>,
+  session: AgentSession,
+  config: Config,
+): Promise<{ late: Array<{ postUrl: string; subnets: string[] }>; failed: string[] }> {
+  const publishSession = await getPublishSession(pj, session, config);
+  const late: Array<{ postUrl: string; subnets: string[] }> = [];
+  const failed: string[] = [];
+
+  const items = pj.items ?? [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    const alreadyCompleted = item.completedSubnets ?? [];
+    if (item.status !== 'minted' || !item.mintTxHash || item.subnets.every((s) => alreadyCompleted.includes(s))) continue;
+
+    let post = posts.get(i);
+    if (!post) {
+      try {
+        post = await fetchContent(item.postUrl);
+      } catch (err) {
+        log.warn({ jobId: pj.jobId, index: i, error: (err as Error).message }, 'Failed to refetch batch item content');
+        failed.push(`${item.postUrl} (${item.subnets.filter((s) => !alreadyCompleted.includes(s)).join(', ')})`);
+        continue;
+      }
+    }
+
+    const result = await submitToSubnets(
+      pj.jobId,
+      publishSession,
+      config,
+      buildPodMetadata(post, item, item.mintTxHash as `0x${string}`, item.podId),
+      item.subnets,
+      alreadyCompleted,
+      (subnetId, reppoPodId) => markBatchItemSubnetCompleted(pj.jobId, i, subnetId, reppoPodId),
+    );
+    item.completedSubnets = result.completed;
+    item.reppoPods = { ...item.reppoPods, ...result.reppoPods };
+    item.reppoUrls = await resolveReppoUrls(config, item.reppoPods, item.mintTxHash);
+    await recordContentPod({
+      contentId: item.contentId,
+      postUrl: item.postUrl,
+      podId: item.podId,
+      mintTxHash: item.mintTxHash,
+      subnets: result.completed,
+      reppoPods: item.reppoPods,
+      reppoUrls: item.reppoUrls,
+      jobId: pj.jobId,
+    });
+
+    const newlyCompleted = result.completed.filter((s) => !alreadyCompleted.includes(s));
+    if (newlyCompleted.length > 0) late.push({ postUrl: item.postUrl, subnets: newlyCompleted });
+    if (result.failed.length > 0) failed.push(`${item.postUrl} (${result.failed.join(', ')})`);
+  }
+
+  return { late, failed };
+}
+
+/**
+ * Deliver the per-item results. Needs at least one minted item; the rest are reported as failed.
+ */
+async function deliverBatch(pj: PendingJob, job: AcpJob, network: NetworkProfile): Promise<void> {
+  const deliverable = buildBatchDeliverable(network, pj.items ?? []);
+  if (deliverable.minted === 0) {
+    const firstError = deliverable.items.find((e) => e.status === 'failed');
+    throw new Error(`No posts minted${firstError?.status === 'failed' ? `: ${firstError.error}` : ''}`);
+  }
+
+  if (typeof job.phase === 'number' && job.phase > PHASE_TRANSACTION) {
+    log.warn({ jobId: pj.jobId, phase: job.phase }, 'Job already past transaction phase, skipping delivery');
+  } else {
+    await job.deliver(deliverable);
+    const partial = deliverable.failed > 0 || hasOutstandingSubnets(pj);
+    jobsDelivered.inc({ partial: String(partial) });
+    log.info({ jobId: pj.jobId, minted: deliverable.minted, failed: deliverable.failed }, 'Batch job delivered');
+  }
+
+  // Subnets still missing on minted items stay in the WAL for the retry scheduler's follow-up
+  await updatePendingJobStatus(pj.jobId, 'delivered');
+  if (!hasOutstandingSubnets(pj)) {
+    await removePendingJob(pj.jobId);
+  }
+}
+
+async function runBatch(
+  pj: PendingJob,
+  job: AcpJob,
+  clients: Clients,
+  session: AgentSession,
+  config: Config,
+): Promise<void> {
+  const posts = await mintBatchItems(pj, clients, config);
+  await submitBatchItems(pj, posts, session, config);
+  await deliverBatch(pj, job, config.NETWORK);
+}
+
+/**
+ * Handle a batch job (`postUrls[]`): validate every item up front, accept and wait for payment,
+ * then mint each post and deliver one entry per item. Invalid items are refused on their own and
+ * delivered as failed; the job is rejected only when no item is valid. Partial success still delivers.
+ */
+export async function handleBatchPublishJob(
+  job: AcpJob,
+  content: ParsedJobContent,
+  clients: Clients,
+  session: AgentSession,
+  config: Config,
+): Promise<void> {
+  const jobId = String(job.id ?? 'unknown');
+  const requested = content.items ?? [];
+
+  if (requested.length === 0) {
+    await rejectJob(job, jobError('EMPTY_BATCH', 'Empty postUrls in job payload'));
+    return;
+  }
+  if (requested.length > MAX_POSTS_PER_BATCH) {
+    log.warn({ jobId, count: requested.length }, 'Too many posts in batch');
+    await rejectJob(job, jobError(
+      'TOO_MANY_POSTS',
+      `Too many posts (${requested.length}). Maximum is ${MAX_POSTS_PER_BATCH}.`,
+      { count: requested.length, max: MAX_POSTS_PER_BATCH },
+    ));
+    return;
+  }
+
+  const { items, errors, subnetList } = await validateBatchItems(content, config);
+  const rejectBatch = async () => {
+    const invalidSubnet = errors.some((e) => e.code === 'INVALID_SUBNET') && subnetList.length > 0;
+    const messages = errors.map(describeItemError);
+    if (invalidSubnet) messages.push(`Available subnets: ${describeSubnets(subnetList)}`);
+    await rejectJob(job, jobError('INVALID_BATCH', `Invalid batch: ${messages.join('; ')}`, {
+      items: errors,
+      ...(invalidSubnet && { availableSubnets: subnetOptions(subnetList) }),
+    }));
+  };
+  // Bad items are refused on their own; the job is only rejected when none are left
+  if (errors.length > 0) log.warn({ jobId, errors }, 'Invalid batch items');
+  let valid = validItems(items);
+  if (valid.length === 0) {
+    await rejectBatch();
+    return;
+  }
+
+  // Batch lock keeps the retry scheduler off this job; item locks keep other jobs off its posts
+  const releaseBatch = await acquireProcessingLock(batchKey(jobId));
+  if (!releaseBatch) {
+    log.warn({ jobId }, 'Batch currently being processed, skipping duplicate event');
+    return;
+  }
+  const releaseItems = await acquireItemLocks(valid.map((item) => item.contentId));
+  if (!releaseItems) {
+    releaseBatch();
+    log.warn({ jobId }, 'A post in the batch is currently being processed, skipping');
+    return;
+  }
+  const releaseLocks = () => {
+    releaseItems();
+    releaseBatch();
+  };
+
+  // Double-check dedup after acquiring locks (another job or replica might have just finished)
+  for (const [i, item] of items.entries()) {
+    if (item.status === 'invalid' || !(await isProcessed(item.contentId))) continue;
+    log.warn({ jobId, contentId: item.contentId }, 'Post was processed while waiting for lock');
+    const error: BatchItemError = { index: i + 1, postUrl: item.postUrl, code: 'DUPLICATE_POST', message: `${item.postUrl} already processed` };
+    errors.push(error);
+    Object.assign(item, { contentId: '', subnets: [], status: 'invalid', error: error.message });
+  }
+  valid = validItems(items);
+  if (valid.length === 0) {
+    releaseLocks();
+    await rejectBatch();
+    return;
+  }
+
+  const pricing = await priceJob(
+    job,
+    clients,
+    config,
+    { posts: valid.length, subnetSubmissions: valid.reduce((n, item) => n + item.subnets.length, 0) },
+    getPendingJob(jobId)?.quote,
+  );
+  if (pricing.rejection) {
+    releaseLocks();
+    await rejectJob(job, pricing.rejection);
+    if (getPendingJob(jobId)) await removePendingJob(jobId);
+    return;
+  }
+
+  const pendingJob = (): PendingJob => ({
+    jobId,
+    tweetId: batchKey(jobId),
+    postUrl: valid[0].postUrl,
+    subnets: [...new Set(valid.flatMap((item) => item.subnets))],
+    buyerId: getBuyerId(job),
+    agentName: content.agentName,
+    agentDescription: content.agentDescription,
+    offering: job.name,
+    status: 'accepted',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    retryCount: 0,
+    items,
+    quote: pricing.quote,
+  });
+
+  const phase = typeof job.phase === 'number' ? job.phase : -1;
+
+  // Phase 0-1: accept, checkpoint, post requirement, wait for payment
+  if (phase <= 1) {
+    try {
+      if (phase === 0) {
+        const refused = errors.length > 0 ? ` ${errors.length} refused: ${errors.map(describeItemError).join('; ')}` : '';
+        await job.accept(formatMemo(`Processing ${valid.length} posts for pod minting.${refused}`, {
+          items: valid.map((item) => ({ postUrl: item.postUrl, contentId: item.contentId, subnets: item.subnets })),
+          ...(errors.length > 0 && { invalidItems: errors }),
+        }));
+        jobsAccepted.inc();
+        log.info({ jobId, count: valid.length, invalid: errors.length, phase }, 'Batch job accepted');
+      }
+      await savePendingJob(pendingJob());
+      await (job as any).createRequirement(formatMemo(
+        `Batch pod minting for ${valid.length} posts. Pay to proceed. Posts that fail to mint, or were refused, are listed as failed in the deliverable.`,
+        { posts: valid.length, quote: pricing.quote },
+      ));
+      log.info({ jobId, count: valid.length, phase }, 'Requirement posted, waiting for buyer payment');
+    } catch (err) {
+      log.warn({ jobId, error: (err as Error).message }, 'Accept/requirement failed');
+    }
+    releaseLocks();
+    return;
+  }
+
+  // Phase 2+ (TRANSACTION): buyer has paid
+  log.info({ jobId, count: valid.length, phase }, 'Buyer paid, processing batch...');
+  if (!getPendingJob(jobId)) {
+    await savePendingJob(pendingJob());
+  }
+
+  try {
+    await runBatch(getPendingJob(jobId)!, job, clients, session, config);
+  } catch (err) {
+    const errorMsg = (err as Error).message ?? String(err);
+    log.error({ jobId, error: errorMsg }, 'Batch job processing failed');
+    await recordPendingJobError(jobId, errorMsg);
+
+    if (errorMsg.includes('Insufficient REPPO')) {
+      try {
+        await rejectJob(job, jobError('INSUFFICIENT_REPPO', 'Insufficient REPPO to mint pods. Please try again later.'));
+        await removePendingJob(jobId);
+      } catch (rejectErr) {
+        log.error({ jobId, error: (rejectErr as Error).message }, 'Failed to reject job');
+      }
+    }
+  } finally {
+    releaseLocks();
+  }
+}
+
+/**
+ * Retry subnets still missing on a delivered batch, posting a follow-up memo for those that landed
+ */
+async function completeDeliveredBatch(
+  pj: PendingJob,
+  session: AgentSession,
+  config: Config,
+  acpContext?: AcpContext,
+): Promise<void> {
+  if (!hasOutstandingSubnets(pj)) {
+    await removePendingJob(pj.jobId);
+    log.info({ jobId: pj.jobId }, 'Delivered batch job cleared');
+    return;
+  }
+
+  const { late, failed } = await submitBatchItems(pj, new Map(), session, config);
+
+  if (late.length > 0 && acpContext) {
+    try {
+      const job: AcpJob | null = await acpContext.client.getJobById(Number(pj.jobId));
+      await job?.createNotification?.(JSON.stringify({ ...buildBatchDeliverable(config.NETWORK, pj.items ?? []), lateSubnets: late }));
+      log.info({ jobId: pj.jobId, late }, 'Follow-up memo posted for late subnets');
+    } catch (err) {
+      log.warn({ jobId: pj.jobId, error: (err as Error).message }, 'Failed to post follow-up memo');
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Metadata still failing for: ${failed.join('; ')}`);
+  }
+  await removePendingJob(pj.jobId);
+  log.info({ jobId: pj.jobId }, 'Late subnets completed, batch job cleared');
+}
+
+/**
+ * Resume a batch job from its WAL checkpoint: mint what's left, submit, deliver
+ * (or follow up on subnets once delivered). Throws on failure.
+ */
+export async function retryBatchJob(
+  pj: PendingJob,
+  clients: Clients,
+  session: AgentSession,
+  config: Config,
+  acpContext?: AcpContext,
+): Promise<void> {
+  if (pj.status === 'delivered') {
+    await completeDeliveredBatch(pj, session, config, acpContext);
+    return;
+  }
+
+  if (!acpContext) throw new Error('No ACP context to deliver job');
+  const job: AcpJob | null = await acpContext.client.getJobById(Number(pj.jobId));
+  if (!job) throw new Error(`Job ${pj.jobId} not found on ACP`);
+
+  const releaseItems = await acquireItemLocks(validItems(pj.items ?? []).map((item) => item.contentId));
+  if (!releaseItems) {
+    log.info({ jobId: pj.jobId }, 'A post in the batch is busy, retrying later');
+    return;
+  }
+  try {
+    await runBatch(pj, job, clients, session, config);
+    log.info({ jobId: pj.jobId }, 'Batch job retried successfully');
+  } finally {
+    releaseItems();
+  }
+}
@@ -0,0 +1,312 @@
+import { submitPodMetadata, getOrCreateBuyerAgent, getSubnets, getPod, reppoPodUrl, isDuplicateSubmissionError, findPodsByMintTx } from '../reppo.js';
+import { markSubnetCompleted } from '../lib/pending-jobs.js';
+import { metadataSubmissions } from '../lib/metrics.js';
+import { explorerTxUrl, type NetworkProfile } from '../lib/network.js';
+import { createLogger } from '../lib/logger.js';
+import { checkJobPrice, type PriceCheck, type QuoteUnits } from '../pricing.js';
+import type { AgentSession, AcpDeliverable, AcpJob, BatchItemRequest, Clients, ContentPod, PendingJob, PriceQuote, SourceContent, SubmitMetadataParams } from '../types.js';
+import type { Hash } from 'viem';
+import type { Config } from '../config.js';
+
+/**
+ * Building blocks shared by the single-post and batch publish flows
+ */
+
+const log = createLogger('publish');
+
+/**
+ * Normalize subnet input to a string array.
+ * Accepts: subnets: string[], subnet: "a, b" (comma-separated), subnet: "single"
+ */
+export function normalizeSubnets(source: Record<string, unknown>): string[] | undefined {
+  // Prefer subnets array
+  if (Array.isArray(source?.subnets)) {
+    return source.subnets.map((s: unknown) => String(s).trim()).filter(Boolean);
+  }
+  // Fall back to subnet string (comma-separated or single)
+  if (typeof source?.subnet === 'string' && source.subnet.trim()) {
+    return source.subnet.split(',').map((s: string) => s.trim()).filter(Boolean);
+  }
+  return undefined;
+}
+
+/**
+ * Normalize a batch `postUrls` array. Entries are URLs or `{ postUrl, subnet(s)?, podName?, podDescription? }`;
+ * unusable entries keep an empty postUrl so validation reports them by position.
+ */
+export function normalizeBatchItems(source: Record<string, unknown>): BatchItemRequest[] | undefined {
+  if (!Array.isArray(source?.postUrls)) return undefined;
+  return source.postUrls.map((entry: unknown): BatchItemRequest => {
+    if (typeof entry === 'string') return { postUrl: entry.trim() };
+    if (!entry || typeof entry !== 'object') return { postUrl: '' };
+    const e = entry as Record<string, unknown>;
+    const postUrl = typeof e.postUrl === 'string' ? e.postUrl : typeof e.url === 'string' ? e.url : '';
+    return {
+      postUrl: postUrl.trim(),
+      subnets: normalizeSubnets(e),
+      ...(typeof e.podName === 'string' && e.podName && { podName: e.podName }),
+      ...(typeof e.podDescription === 'string' && e.podDescription && { podDescription: e.podDescription }),
+    };
+  });
+}
+
+export interface SubnetInfo {
+  id: string | number;
+  subnet?: string;
+  name?: string;
+}
+
+/**
+ * Available subnets from Reppo (the response has been both `{ data: { privateSubnets } }` and a bare list)
+ */
+export async function fetchSubnetList(config: Config): Promise<SubnetInfo[]> {
+  const subnets = await getSubnets(config);
+  const raw = (subnets as any)?.data;
+  const list = raw?.privateSubnets ?? raw?.subnets ?? (Array.isArray(raw) ? raw : []);
+  return Array.isArray(list) ? list : [];
+}
+
+export function describeSubnets(subnetList: SubnetInfo[]): string {
+  return subnetList.map((s) => `${s.subnet || s.name} (id: ${s.id})`).join(', ');
+}
+
+/** Subnet list for memo `details` / `availableSubnets` */
+export function subnetOptions(subnetList: SubnetInfo[]): Array<{ id: string; name?: string }> {
+  return subnetList.map((s) => ({ id: String(s.id), name: s.subnet || s.name }));
+}
+
+/**
+ * Resolve subnet names or IDs to deduplicated IDs. Returns the first unknown entry as `invalid`.
+ */
+export function resolveSubnetIds(
+  requested: string[],
+  subnetList: SubnetInfo[],
+): { ids: string[]; invalid?: undefined } | { ids?: undefined; invalid: string } {
+  const validIds = subnetList.map((s) => String(s.id));
+  const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]+/g, '_');
+
+  const resolvedIds: string[] = [];
+  for (const sn of requested) {
+    if (validIds.includes(sn)) {
+      resolvedIds.push(sn);
+      continue;
+    }
+    const needle = normalize(sn);
+    const match = subnetList.find((s) => normalize(String(s.subnet ?? s.name ?? '')) === needle);
+    if (!match) return { invalid: sn };
+    log.info({ from: sn, to: match.id }, 'Resolved subnet name to ID');
+    resolvedIds.push(String(match.id));
+  }
+  return { ids: [...new Set(resolvedIds)] };
+}
+
+/**
+ * Extract buyer identifier from ACP job
+ */
+export function getBuyerId(job: AcpJob): string | null {
+  // Try various field names from ACP SDK
+  const buyerId = job.clientAddress 
+    ?? job.buyerAddress 
+    ?? job.client?.address 
+    ?? job.buyer?.address
+    ?? null;
+  
+  if (!buyerId) {
+    log.warn({ jobId: job.id }, 'Could not extract buyer ID from job');
+  }
+  
+  return buyerId;
+}
+
+// AcpJobPhases: REQUEST=0, NEGOTIATION=1, TRANSACTION=2, EVALUATION=3, COMPLETED=4
+export const PHASE_TRANSACTION = 2;
+
+/**
+ * Price check before the buyer pays. From TRANSACTION on the buyer has paid against
+ * the stored quote, so it is honoured as-is rather than re-checked against today's cost.
+ */
+export async function priceJob(
+  job: AcpJob,
+  clients: Clients,
+  config: Config,
+  units: QuoteUnits,
+  stored?: PriceQuote,
+): Promise<PriceCheck> {
+  if (typeof job.phase === 'number' && job.phase >= PHASE_TRANSACTION) return { quote: stored };
+  return checkJobPrice(job, clients, config, units, stored);
+}
+
+/**
+ * Pod metadata for a post: title/description (buyer overrides win) plus the source
+ * post's platform, media, author, engagement and quote/thread context
+ */
+export function buildPodMetadata(
+  post: SourceContent,
+  source: { postUrl: string; podName?: string; podDescription?: string },
+  txHash: Hash,
+  tokenId?: number,
+): Omit<SubmitMetadataParams, 'subnetId'> {
+  const title = post.title || post.text;
+  return {
+    txHash,
+    title: source.podName || (title.length > 100 ? title.slice(0, 97) + '...' : title),
+    description: source.podDescription || post.text,
+    url: source.postUrl,
+    imageUrl: post.imageUrl,
+    tokenId,
+    category: post.category,
+    platform: post.platform,
+    media: post.media,
+    author: post.author,
+    metrics: post.metrics,
+    postedAt: post.createdAt,
+    quotedPost: post.quotedPost,
+    threadRoot: post.threadRoot,
+  };
+}
+
+export interface SubnetSubmissionResult {
+  completed: string[];
+  failed: string[];
+  /** Subnet ID → Reppo pod ID, for the subnets submitted in this call */
+  reppoPods: Record<string, string>;
+}
+
+/**
+ * Submit pod metadata to each subnet not in `alreadyCompleted`, checkpointing every success
+ * in the WAL so a crash mid-way doesn't resubmit. Reppo answering a resubmission as a
+ * duplicate (an earlier attempt landed before we recorded it) counts as completed.
+ * `checkpoint` defaults to the job-level completedSubnets; batch items pass their own.
+ */
+export async function submitToSubnets(
+  jobId: string,
+  publishSession: AgentSession,
+  config: Config,
+  params: Omit<SubmitMetadataParams, 'subnetId'>,
+  subnets: string[],
+  alreadyCompleted: string[] = [],
+  checkpoint: (subnetId: string, reppoPodId?: string) => Promise<void> =
+    (subnetId, reppoPodId) => markSubnetCompleted(jobId, subnetId, reppoPodId),
+): Promise<SubnetSubmissionResult> {
+  const completed = [...alreadyCompleted];
+  const failed: string[] = [];
+  const reppoPods: Record<string, string> = {};
+
+  for (const subnetId of subnets.filter((s) => !alreadyCompleted.includes(s))) {
+    try {
+      const res = await submitPodMetadata(publishSession, config, { ...params, subnetId });
+      if (res?.data?.id !== undefined) reppoPods[subnetId] = String(res.data.id);
+      metadataSubmissions.inc({ subnet: subnetId, status: 'success' });
+      log.info({ jobId, subnetId, reppoPodId: reppoPods[subnetId] }, 'Metadata submitted to subnet');
+    } catch (metaErr) {
+      const existing = isDuplicateSubmissionError(metaErr) ? await findRegisteredPod(config, params.txHash, subnetId) : null;
+      if (!existing) {
+        failed.push(subnetId);
+        metadataSubmissions.inc({ subnet: subnetId, status: 'failure' });
+        log.warn({ jobId, subnetId, error: metaErr instanceof Error ? metaErr.message : metaErr }, 'Metadata submission failed for subnet');
+        continue;
+      }
+      reppoPods[subnetId] = existing;
+      metadataSubmissions.inc({ subnet: subnetId, status: 'duplicate' });
+      log.info({ jobId, subnetId, reppoPodId: existing }, 'Metadata already registered for subnet');
+    }
+    completed.push(subnetId);
+    await checkpoint(subnetId, reppoPods[subnetId]);
+  }
+
+  return { completed, failed, reppoPods };
+}
+
+/**
+ * Reppo pod already registered for our mint in a subnet, confirming a duplicate-submission
+ * response before it's checkpointed. Null when there is none or the lookup fails (retried later).
+ */
+async function findRegisteredPod(config: Config, txHash: string, subnetId: string): Promise<string | null> {
+  try {
+    const pods = await findPodsByMintTx(config, txHash, subnetId);
+    const pod = pods.find((p) => !p.podMintTx || p.podMintTx.toLowerCase() === txHash.toLowerCase());
+    return pod ? String(pod.id) : null;
+  } catch (err) {
+    log.warn({ subnetId, txHash, error: (err as Error).message }, 'Failed to confirm duplicate submission on Reppo');
+    return null;
+  }
+}
+
+/**
+ * Read each subnet's pod back from Reppo and link the ones that resolve to our mint.
+ * Pods that don't (not indexed yet, or registered against another tx) are left out
+ * rather than handing the buyer a dead link.
+ */
+export async function resolveReppoUrls(
+  config: Config,
+  reppoPods: Record<string, string> | undefined,
+  txHash: string,
+): Promise<Record<string, string>> {
+  const urls: Record<string, string> = {};
+  for (const [subnetId, reppoPodId] of Object.entries(reppoPods ?? {})) {
+    try {
+      const pod = await getPod(config, reppoPodId);
+      const mintTx = pod?.data?.podMintTx;
+      if (!pod || (mintTx && mintTx.toLowerCase() !== txHash.toLowerCase())) {
+        metadataSubmissions.inc({ subnet: subnetId, status: 'unverified' });
+        log.warn({ subnetId, reppoPodId, txHash, mintTx }, 'Reppo pod did not read back, leaving out its link');
+        continue;
+      }
+      urls[subnetId] = reppoPodUrl(config, reppoPodId);
+    } catch (err) {
+      log.warn({ subnetId, reppoPodId, error: (err as Error).message }, 'Failed to read back Reppo pod, leaving out its link');
+    }
+  }
+  return urls;
+}
+
+/**
+ * Buyer's Reppo profile when the job asked for one, else the agent's own session
+ */
+export async function getPublishSession(pj: PendingJob, session: AgentSession, config: Config): Promise<AgentSession> {
+  if (pj.buyerId && pj.agentName) {
+    const buyerSession = await getOrCreateBuyerAgent(config, pj.buyerId, pj.agentName, pj.agentDescription);
+    if (buyerSession) return buyerSession;
+  }
+  return session;
+}
+
+/**
+ * The existing pod of an already-processed post, for DUPLICATE_POST details
+ */
+export function describeContentPod(network: NetworkProfile, pod: ContentPod): Record<string, unknown> {
+  return {
+    podId: pod.podId?.toString(),
+    txHash: pod.mintTxHash,
+    subnets: pod.subnets,
+    basescanUrl: explorerTxUrl(network, pod.mintTxHash),
+    ...(pod.reppoUrls && Object.keys(pod.reppoUrls).length > 0 && { reppoUrls: pod.reppoUrls }),
+  };
+}
+
+/**
+ * Build the deliverable for a minted pod; subnets that didn't take the metadata are listed as failed.
+ * `reppoUrls` are the verified links from resolveReppoUrls.
+ */
+export function buildDeliverable(
+  network: NetworkProfile,
+  postUrl: string,
+  subnets: string[],
+  completedSubnets: string[],
+  txHash: string,
+  podId?: number | bigint,
+  reppoUrls: Record<string, string> = {},
+): AcpDeliverable {
+  const failedSubnets = subnets.filter((s) => !completedSubnets.includes(s));
+  const links = Object.fromEntries(completedSubnets.filter((s) => reppoUrls[s]).map((s) => [s, reppoUrls[s]]));
+  const firstLink = Object.values(links)[0];
+  return {
+    postUrl,
+    subnets: completedSubnets,
+    txHash,
+    podId: podId?.toString(),
+    basescanUrl: explorerTxUrl(network, txHash),
+    ...(firstLink && { reppoUrl: firstLink, reppoUrls: links }),
+    ...(failedSubnets.length > 0 ? { failedSubnets } : {}),
+  };
+}
@@ -0,0 +1,188 @@
+import { fetchContent } from '../sources/index.js';
+import { jobError, rejectJob, formatMemo } from '../memos.js';
+import { getContentPod, recordContentPod, markJobMinted } from '../lib/dedup.js';
+import {
+  savePendingJob,
+  updatePendingJobStatus,
+  removePendingJob,
+  getPendingJob,
+  recordPendingJobError,
+} from '../lib/pending-jobs.js';
+import { jobsAccepted, jobsDelivered } from '../lib/metrics.js';
+import { createLogger } from '../lib/logger.js';
+import {
+  buildDeliverable,
+  buildPodMetadata,
+  describeContentPod,
+  getBuyerId,
+  getPublishSession,
+  priceJob,
+  resolveReppoUrls,
+  submitToSubnets,
+  type SubnetSubmissionResult,
+} from './common.js';
+import type { AcpJob, AgentSession, Clients, ContentPod, ParsedJobContent, PendingJob } from '../types.js';
+import type { Config } from '../config.js';
+import type { NetworkProfile } from '../lib/network.js';
+
+const log = createLogger('existing-pod');
+
+/**
+ * Reject a request for a post that already has a pod, pointing the buyer at that pod
+ */
+export async function rejectDuplicate(
+  job: Pick<AcpJob, 'reject'>,
+  label: string,
+  contentId: string,
+  network: NetworkProfile,
+): Promise<void> {
+  const pod = await getContentPod(contentId);
+  await rejectJob(job, jobError('DUPLICATE_POST', `${label} already processed`, {
+    contentId,
+    ...(pod && { existingPod: describeContentPod(network, pod) }),
+  }));
+}
+
+/**
+ * Submit the existing pod's metadata to the job's outstanding subnets and index them.
+ * Throws when none landed: unlike a fresh mint there is nothing to deliver yet.
+ */
+export async function addExistingPodToSubnets(
+  pj: PendingJob,
+  session: AgentSession,
+  config: Config,
+): Promise<SubnetSubmissionResult & { reppoUrls: Record<string, string> }> {
+  const post = await fetchContent(pj.postUrl);
+  const publishSession = await getPublishSession(pj, session, config);
+  const result = await submitToSubnets(
+    pj.jobId,
+    publishSession,
+    config,
+    buildPodMetadata(post, pj, pj.mintTxHash as `0x${string}`, pj.podId),
+    pj.subnets,
+    pj.completedSubnets,
+  );
+
+  if (result.completed.length === 0) {
+    throw new Error(`Metadata failed for all subnets: ${result.failed.join(', ')}`);
+  }
+  const reppoPods = { ...pj.reppoPods, ...result.reppoPods };
+  const reppoUrls = await resolveReppoUrls(config, reppoPods, pj.mintTxHash!);
+  await recordContentPod({
+    contentId: pj.tweetId,
+    postUrl: pj.postUrl,
+    podId: pj.podId,
+    mintTxHash: pj.mintTxHash!,
+    subnets: result.completed,
+    reppoPods,
+    reppoUrls,
+    jobId: pj.jobId,
+  });
+  return { ...result, reppoUrls };
+}
+
+/**
+ * `addToExistingPod` jobs for an already-minted post: accept for the subnets the pod isn't on
+ * yet, then submit its metadata there and deliver the existing pod. No new mint.
+ * The caller holds the post's processing lock.
+ */
+export async function handleExistingPodJob(
+  job: AcpJob,
+  content: ParsedJobContent & { postUrl: string; subnets: string[] },
+  contentId: string,
+  label: string,
+  existing: ContentPod,
+  clients: Clients,
+  session: AgentSession,
+  config: Config,
+): Promise<void> {
+  const jobId = String(job.id ?? 'unknown');
+  const subnets = content.subnets.filter((s) => !existing.subnets.includes(s));
+
+  if (subnets.length === 0) {
+    log.warn({ jobId, contentId, subnets: content.subnets }, 'Existing pod already on every requested subnet');
+    await rejectJob(job, jobError('DUPLICATE_POST', `${label} is already on all requested subnets`, {
+      contentId,
+      existingPod: describeContentPod(config.NETWORK, existing),
+    }));
+    return;
+  }
+
+  const pricing = await priceJob(job, clients, config, { posts: 0, subnetSubmissions: subnets.length }, getPendingJob(jobId)?.quote);
+  if (pricing.rejection) {
+    await rejectJob(job, pricing.rejection);
+    if (getPendingJob(jobId)) await removePendingJob(jobId);
+    return;
+  }
+
+  const pendingJob = (): PendingJob => ({
+    jobId,
+    tweetId: contentId,
+    postUrl: content.postUrl,
+    subnets,
+    buyerId: getBuyerId(job),
+    agentName: content.agentName,
+    agentDescription: content.agentDescription,
+    podName: content.podName,
+    podDescription: content.podDescription,
+    status: 'accepted',
+    mintTxHash: existing.mintTxHash,
+    podId: existing.podId,
+    existingPod: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    retryCount: 0,
+    quote: pricing.quote,
+  });
+
+  const phase = typeof job.phase === 'number' ? job.phase : -1;
+
+  if (phase <= 1) {
+    try {
+      if (phase === 0) {
+        await job.accept(formatMemo(`Adding the existing pod for this post to ${subnets.length} more subnet(s). No new pod is minted.`, {
+          contentId,
+          existingPod: describeContentPod(config.NETWORK, existing),
+          addSubnets: subnets,
+        }));
+        jobsAccepted.inc();
+        log.info({ jobId, contentId, podId: existing.podId, subnets }, 'Existing-pod job accepted');
+      }
+      await savePendingJob(pendingJob());
+      await (job as any).createRequirement(formatMemo(
+        `Adding an existing pod to ${subnets.length} subnet(s). Pay to proceed.`,
+        { addSubnets: subnets, quote: pricing.quote },
+      ));
+      log.info({ jobId, contentId, phase }, 'Requirement posted, waiting for buyer payment');
+    } catch (err) {
+      log.warn({ jobId, contentId, error: (err as Error).message }, 'Accept/requirement failed');
+    }
+    return;
+  }
+
+  log.info({ jobId, contentId, podId: existing.podId, subnets }, 'Buyer paid, adding existing pod to subnets...');
+  let pj = getPendingJob(jobId);
+  if (!pj) {
+    pj = pendingJob();
+    await savePendingJob(pj);
+  }
+
+  try {
+    const { completed, failed, reppoUrls } = await addExistingPodToSubnets(pj, session, config);
+
+    await job.deliver({ ...buildDeliverable(config.NETWORK, pj.postUrl, pj.subnets, completed, pj.mintTxHash!, pj.podId, reppoUrls), existingPod: true });
+    jobsDelivered.inc({ partial: String(failed.length > 0) });
+    // Nothing minted, but the job is done: skip it on later events like any delivered job
+    await markJobMinted(jobId);
+    log.info({ jobId, podId: pj.podId, completed, failed }, 'Existing pod delivered');
+
+    await updatePendingJobStatus(jobId, 'delivered', { completedSubnets: completed });
+    if (failed.length === 0) {
+      await removePendingJob(jobId);
+    }
+  } catch (err) {
+    const errorMsg = (err as Error).message ?? String(err);
+    log.error({ jobId, contentId, error: errorMsg }, 'Existing-pod job failed');
+    await recordPendingJobError(jobId, errorMsg);
+  }
+}
@@ -1,8 +1,19 @@
-import { extractTweetId, fetchTweet } from '../twitter.js';
-import { mintPod } from '../chain.js';
-import { TWITTER_URL_REGEX, MAX_SUBNETS_PER_JOB } from '../constants.js';
-import { submitPodMetadata, getOrCreateBuyerAgent, getSubnets } from '../reppo.js';
-import { hasProcessed, markProcessed, acquireProcessingLock, hasJobMinted, markJobMinted } from '../lib/dedup.js';
+import { resolveContentSource, fetchContent, describeContent } from '../sources/index.js';
+import { mintPod, resolveMint, MintSubmittedError } from '../chain.js';
+import { MAX_SUBNETS_PER_JOB } from '../constants.js';
+import { getOrCreateBuyerAgent } from '../reppo.js';
+import { jobError, rejectJob, formatMemo, type JobError } from '../memos.js';
+import {
+  hasProcessed,
+  isProcessed,
+  acquireProcessingLock,
+  hasJobMinted,
+  markJobMinted,
+  claimMint,
+  releaseMintClaim,
+  getContentPod,
+  recordContentPod,
+} from '../lib/dedup.js';
 import { savePod, getJobMint } from '../lib/pods.js';
 import {
   savePendingJob,
@@ -11,21 +22,49 @@ import {
   getPendingJobs,
   getPendingJob,
   recordPendingJobError,
+  isRetryDue,
 } from '../lib/pending-jobs.js';
+import { jobsAccepted, jobsDelivered } from '../lib/metrics.js';
+import { podPayoutDetails } from '../emissions/payout.js';
 import { createLogger } from '../lib/logger.js';
-import type { Clients, AgentSession, AcpDeliverable, AcpJob, ParsedJobContent, PendingJob } from '../types.js';
+import {
+  PHASE_TRANSACTION,
+  buildDeliverable,
+  buildPodMetadata,
+  describeSubnets,
+  fetchSubnetList,
+  getBuyerId,
+  getPublishSession,
+  normalizeBatchItems,
+  normalizeSubnets,
+  priceJob,
+  resolveReppoUrls,
+  resolveSubnetIds,
+  submitToSubnets,
+  subnetOptions,
+  describeContentPod,
+  type SubnetInfo,
+} from './common.js';
+import { handleBatchPublishJob, retryBatchJob } from './batch.js';
+import { handleExistingPodJob, addExistingPodToSubnets, rejectDuplicate } from './existing-pod.js';
+import type { Clients, AgentSession, AcpJob, MintResult, ParsedJobContent, PendingJob, SourceContent } from '../types.js';
 import type { Config } from '../config.js';
+import type { NetworkProfile } from '../lib/network.js';
 import type { AcpContext } from '../acp.js';
 
 /**
  * Reject a job by ID using the ACP client (for cases where we don't have the job object)
  */
-async function rejectJobById(acpClient: AcpContext['client'], jobId: string, reason: string): Promise<boolean> {
+export async function rejectJobById(
+  acpClient: AcpContext['client'],
+  jobId: string,
+  error: JobError,
+): Promise<boolean> {
   try {
     const job = await acpClient.getJobById(Number(jobId));
     if (job) {
-      await job.reject(reason);
-      log.info({ jobId, reason }, 'Job rejected via ACP');
+      await rejectJob(job, error);
+      log.info({ jobId, code: error.code, reason: error.message }, 'Job rejected via ACP');
       return true;
     }
     log.warn({ jobId }, 'Could not fetch job from ACP to reject');
@@ -38,21 +77,8 @@ async function rejectJobById(acpClient: AcpContext['client'], jobId: string, rea
 
 const log = createLogger('publish');
 
-/**
- * Normalize subnet input to a string array.
- * Accepts: subnets: string[], subnet: "a, b" (comma-separated), subnet: "single"
- */
-function normalizeSubnets(source: Record<string, unknown>): string[] | undefined {
-  // Prefer subnets array
-  if (Array.isArray(source?.subnets)) {
-    return source.subnets.map((s: unknown) => String(s).trim()).filter(Boolean);
-  }
-  // Fall back to subnet string (comma-separated or single)
-  if (typeof source?.subnet === 'string' && source.subnet.trim()) {
-    return source.subnet.split(',').map((s: string) => s.trim()).filter(Boolean);
-  }
-  return undefined;
-}
+const SUPPORTED_SOURCES = 'Supported: X/Twitter posts, Farcaster casts, YouTube videos, GitHub repos/releases, Mirror and Paragraph posts, or any public web page';
+const SUPPORTED_PLATFORMS = ['x', 'farcaster', 'youtube', 'github', 'mirror', 'paragraph', 'web'];
 
 /**
  * Parse job content from ACP memos
@@ -70,11 +96,13 @@ function parseJobContent(job: AcpJob): ParsedJobContent {
       // Check top-level and nested under "requirement" (ACP SDK wraps serviceRequirements there)
       const req = content?.requirement ?? content;
       if (req?.postUrl && !result.postUrl) result.postUrl = req.postUrl;
+      if (!result.items) result.items = normalizeBatchItems(req) ?? normalizeBatchItems(content);
       if (!result.subnets) result.subnets = normalizeSubnets(req);
       if (req?.agentName && !result.agentName) result.agentName = req.agentName;
       if (req?.agentDescription && !result.agentDescription) result.agentDescription = req.agentDescription;
       if (req?.podName && !result.podName) result.podName = req.podName;
       if (req?.podDescription && !result.podDescription) result.podDescription = req.podDescription;
+      if (req?.addToExistingPod === true || content?.addToExistingPod === true) result.addToExistingPod = true;
       // Also check top-level in case it's not nested
       if (content?.postUrl && !result.postUrl) result.postUrl = content.postUrl;
       if (!result.subnets) result.subnets = normalizeSubnets(content);
@@ -86,27 +114,6 @@ function parseJobContent(job: AcpJob): ParsedJobContent {
   return result;
 }
 
-/**
- * Extract buyer identifier from ACP job
- */
-function getBuyerId(job: AcpJob): string | null {
-  // Try various field names from ACP SDK
-  const buyerId = job.clientAddress 
-    ?? job.buyerAddress 
-    ?? job.client?.address 
-    ?? job.buyer?.address
-    ?? null;
-  
-  if (!buyerId) {
-    log.warn({ jobId: job.id }, 'Could not extract buyer ID from job');
-  }
-  
-  return buyerId;
-}
-
-// AcpJobPhases: REQUEST=0, NEGOTIATION=1, TRANSACTION=2, EVALUATION=3, COMPLETED=4
-const PHASE_TRANSACTION = 2;
-
 export async function handlePublishJob(
   job: AcpJob,
   clients: Clients,
@@ -116,7 +123,7 @@ export async function handlePublishJob(
   const jobId = job.id ?? 'unknown';
   
   // Skip already-processed jobs (minted or manually skipped)
-  if (hasJobMinted(jobId)) {
+  if (await hasJobMinted(jobId)) {
     return; // Silent skip — already handled
   }
 
@@ -124,90 +131,116 @@ export async function handlePublishJob(
 
   // Parse job content
   const content = parseJobContent(job);
+
+  if (content.items) {
+    await handleBatchPublishJob(job, content, clients, session, config);
+    return;
+  }
   
   // === Validation BEFORE accepting ===
   
   // Validate required fields
   if (!content.postUrl) {
     log.warn({ jobId }, 'Missing postUrl');
-    await job.reject('Missing postUrl in job payload');
+    await rejectJob(job, jobError('MISSING_POST_URL', 'Missing postUrl in job payload'));
     return;
   }
 
   if (!content.subnets || content.subnets.length === 0) {
     log.warn({ jobId }, 'Missing subnet');
-    await job.reject('Missing subnet in job payload');
+    await rejectJob(job, jobError('MISSING_SUBNET', 'Missing subnet in job payload'));
     return;
   }
 
   if (content.subnets.length > MAX_SUBNETS_PER_JOB) {
     log.warn({ jobId, count: content.subnets.length }, 'Too many subnets');
-    await job.reject(`Too many subnets (${content.subnets.length}). Maximum is ${MAX_SUBNETS_PER_JOB}.`);
+    await rejectJob(job, jobError(
+      'TOO_MANY_SUBNETS',
+      `Too many subnets (${content.subnets.length}). Maximum is ${MAX_SUBNETS_PER_JOB}.`,
+      { count: content.subnets.length, max: MAX_SUBNETS_PER_JOB },
+    ));
     return;
   }
 
   // Validate all subnets and resolve names to IDs
+  let subnetList: SubnetInfo[] = [];
   try {
-    const subnets = await getSubnets(config);
-    const raw = (subnets as any)?.data;
-    const subnetList: any[] = raw?.privateSubnets ?? raw?.subnets ?? (Array.isArray(raw) ? raw : []);
-    const validIds = subnetList.map((s: any) => String(s.id));
-    const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]+/g, '_');
-
+    subnetList = await fetchSubnetList(config);
     if (subnetList.length > 0) {
-      const resolvedIds: string[] = [];
-      for (const sn of content.subnets) {
-        if (validIds.includes(sn)) {
-          resolvedIds.push(sn);
-        } else {
-          const needle = normalize(sn);
-          const match = subnetList.find((s: any) => normalize(String(s.subnet ?? s.name ?? '')) === needle);
-          if (match) {
-            log.info({ jobId, from: sn, to: match.id }, 'Resolved subnet name to ID');
-            resolvedIds.push(String(match.id));
-          } else {
-            log.warn({ jobId, subnet: sn, validIds }, 'Invalid subnet');
-            await job.reject(`Invalid subnet "${sn}". Available: ${subnetList.map((s: any) => `${s.subnet || s.name} (id: ${s.id})`).join(', ')}`);
-            return;
-          }
-        }
+      const resolution = resolveSubnetIds(content.subnets, subnetList);
+      if (resolution.invalid !== undefined) {
+        log.warn({ jobId, subnet: resolution.invalid }, 'Invalid subnet');
+        await rejectJob(job, jobError(
+          'INVALID_SUBNET',
+          `Invalid subnet "${resolution.invalid}". Available: ${describeSubnets(subnetList)}`,
+          { subnet: resolution.invalid, availableSubnets: subnetOptions(subnetList) },
+        ));
+        return;
       }
-      // Deduplicate resolved IDs
-      content.subnets = [...new Set(resolvedIds)];
+      content.subnets = resolution.ids;
     }
   } catch (err) {
     log.warn({ jobId, error: (err as Error).message }, 'Failed to validate subnets, proceeding anyway');
   }
 
-  // Validate URL format
-  if (!TWITTER_URL_REGEX.test(content.postUrl)) {
+  // Validate URL against the supported content sources
+  const resolved = resolveContentSource(content.postUrl);
+  if (!resolved) {
     log.warn({ jobId, url: content.postUrl }, 'Invalid URL format');
-    await job.reject(`Invalid X/Twitter URL: ${content.postUrl}`);
+    await rejectJob(job, jobError(
+      'UNSUPPORTED_URL',
+      `Unsupported post URL: ${content.postUrl}. ${SUPPORTED_SOURCES}`,
+      { postUrl: content.postUrl, supportedPlatforms: SUPPORTED_PLATFORMS },
+    ));
     return;
   }
 
-  // Extract tweet ID
-  const tweetId = extractTweetId(content.postUrl);
+  // Dedup key: tweet ID for X posts, "<platform>:<id>" otherwise
+  const tweetId = resolved.contentId;
   
-  // Check dedup BEFORE accepting
-  if (hasProcessed(tweetId)) {
-    log.warn({ jobId, tweetId }, 'Tweet already processed (dedup)');
-    await job.reject(`Tweet ${tweetId} already processed`);
+  // Check dedup BEFORE accepting (add-to-existing-pod requests go on to the index lookup)
+  if (hasProcessed(tweetId) && !content.addToExistingPod) {
+    log.warn({ jobId, tweetId }, 'Post already processed (dedup)');
+    await rejectDuplicate(job, describeContent(resolved), tweetId, config.NETWORK);
     return;
   }
 
-  // Acquire processing lock to prevent concurrent processing of same tweet
+  // Acquire processing lock to prevent concurrent processing of same post
   const releaseLock = await acquireProcessingLock(tweetId);
   if (!releaseLock) {
-    log.warn({ jobId, tweetId }, 'Tweet currently being processed, skipping duplicate event');
+    log.warn({ jobId, tweetId }, 'Post currently being processed, skipping duplicate event');
     return; // Don't reject — likely a duplicate socket event for the same job
   }
 
-  // Double-check dedup after acquiring lock (another job might have just finished)
-  if (hasProcessed(tweetId)) {
+  // Double-check dedup after acquiring lock (another job or replica might have just finished)
+  if (await isProcessed(tweetId)) {
+    const existing = content.addToExistingPod ? await getContentPod(tweetId) : null;
+    if (existing) {
+      try {
+        await handleExistingPodJob(job, { ...content, postUrl: content.postUrl, subnets: content.subnets! }, tweetId, describeContent(resolved), existing, clients, session, config);
+      } finally {
+        releaseLock();
+      }
+      return;
+    }
+    releaseLock();
+    log.warn({ jobId, tweetId }, 'Post already processed');
+    await rejectDuplicate(job, describeContent(resolved), tweetId, config.NETWORK);
+    return;
+  }
+
+  // Price check before payment (reuses the requirement memo quote while it's still valid)
+  const pricing = await priceJob(
+    job,
+    clients,
+    config,
+    { posts: 1, subnetSubmissions: content.subnets!.length },
+    getPendingJob(String(jobId))?.quote,
+  );
+  if (pricing.rejection) {
     releaseLock();
-    log.warn({ jobId, tweetId }, 'Tweet was processed while waiting for lock');
-    await job.reject(`Tweet ${tweetId} already processed`);
+    await rejectJob(job, pricing.rejection);
+    if (getPendingJob(String(jobId))) await removePendingJob(String(jobId));
     return;
   }
 
@@ -217,21 +250,15 @@ export async function handlePublishJob(
   // Phase 0-1: Accept the job and post requirement, then wait for buyer payment
   if (phase <= 1) {
     try {
-      // Fetch available subnets to include in messages
-      let subnetInfo = '';
-      try {
-        const subnets = await getSubnets(config);
-        const rawData = (subnets as any)?.data;
-        const subnetList = rawData?.privateSubnets ?? rawData?.subnets ?? (Array.isArray(rawData) ? rawData : []);
-        if (Array.isArray(subnetList) && subnetList.length > 0) {
-          subnetInfo = ` Available subnets: ${subnetList.map((s: any) => `${s.subnet || s.name} (id: ${s.id})`).join(', ')}.`;
-        }
-      } catch {
-        // Non-fatal — proceed without subnet info
-      }
+      // Available subnets (fetched during validation) are included in both memos
+      const availableSubnets = subnetList.length > 0 ? subnetOptions(subnetList) : undefined;
 
       if (phase === 0) {
-        await job.accept(`Processing X post for pod minting. Please include a "subnet" field (name or ID, comma-separated for multiple) or "subnets" array in your job payload. You can ask the Reppo agent for a list of available subnets.${subnetInfo}`);
+        await job.accept(formatMemo(
+          'Processing post for pod minting. Please include a "subnet" field (name or ID, comma-separated for multiple) or "subnets" array in your job payload. You can ask the Reppo agent for a list of available subnets.',
+          { contentId: tweetId, resolvedSubnets: content.subnets, availableSubnets },
+        ));
+        jobsAccepted.inc();
         log.info({ jobId, tweetId, phase }, 'Job accepted');
       }
 
@@ -246,14 +273,19 @@ export async function handlePublishJob(
         agentDescription: content.agentDescription,
         podName: content.podName,
         podDescription: content.podDescription,
+        offering: job.name,
         status: 'accepted',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         retryCount: 0,
+        quote: pricing.quote,
       });
 
-      // Post requirement so buyer can payAndAcceptRequirement
-      await (job as any).createRequirement(`Pod minting for X post. Pay to proceed. Required fields: "postUrl" (X/Twitter URL) and "subnet" (name or ID, comma-separated for multiple) or "subnets" array. You can ask the Reppo agent for the list of available subnets.${subnetInfo}`);
+      // Post requirement (with the price quote) so buyer can payAndAcceptRequirement
+      await (job as any).createRequirement(formatMemo(
+        `Pod minting for a post. Pay to proceed. Required fields: "postUrl" (${SUPPORTED_SOURCES}) and "subnet" (name or ID, comma-separated for multiple) or "subnets" array. You can ask the Reppo agent for the list of available subnets.`,
+        { requiredFields: ['postUrl', 'subnet'], supportedPlatforms: SUPPORTED_PLATFORMS, availableSubnets, quote: pricing.quote },
+      ));
       log.info({ jobId, tweetId, phase }, 'Requirement posted, waiting for buyer payment');
     } catch (err) {
       log.warn({ jobId, tweetId, error: (err as Error).message }, 'Accept/requirement failed');
@@ -277,30 +309,33 @@ export async function handlePublishJob(
       agentDescription: content.agentDescription,
       podName: content.podName,
       podDescription: content.podDescription,
+      offering: job.name,
       status: 'accepted',
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
       retryCount: 0,
+      quote: pricing.quote,
     });
   }
 
   try {
 
-    // Fetch tweet data
-    log.info({ jobId, tweetId }, 'Fetching tweet...');
-    const tweet = await fetchTweet(tweetId);
+    // Fetch source content
+    log.info({ jobId, tweetId, platform: resolved.source.platform }, 'Fetching post...');
+    const post = await resolved.source.fetch(content.postUrl);
     log.info({ 
       jobId, 
-      author: tweet.authorUsername, 
-      textPreview: tweet.text.slice(0, 80),
-    }, 'Tweet fetched');
+      platform: post.platform,
+      author: post.author?.username ?? post.author?.name, 
+      textPreview: (post.title || post.text).slice(0, 80),
+    }, 'Post fetched');
 
     // Get buyer info BEFORE minting (needed for tracking)
     const buyerId = getBuyerId(job);
 
-    // Check if this job was already minted (DynamoDB + in-memory)
-    if (hasJobMinted(jobId)) {
-      log.warn({ jobId }, 'Job already minted (memory), skipping');
+    // Check if this job was already minted (state store + pods table)
+    if (await hasJobMinted(jobId)) {
+      log.warn({ jobId }, 'Job already minted, skipping');
       releaseLock();
       return;
     }
@@ -312,15 +347,27 @@ export async function handlePublishJob(
       return;
     }
 
+    // Claim the job and post BEFORE minting: the processing lock can expire during a slow mint
+    if (!(await claimMint(tweetId, jobId))) {
+      log.warn({ jobId, tweetId }, 'Job or post already claimed for minting, skipping');
+      releaseLock();
+      return;
+    }
+
     // Mint pod on-chain
     log.info({ jobId }, 'Minting pod...');
     let mintResult;
     try {
-      mintResult = await mintPod(clients);
+      mintResult = await mintPod(clients, {
+        onSubmitted: (txHash) => updatePendingJobStatus(String(jobId), 'accepted', { mintTxHash: txHash }),
+      });
     } catch (err) {
+      // A mint that may have been sent keeps its claim; the retry resolves it from the recorded tx
+      if (err instanceof MintSubmittedError) throw err;
+      await releaseMintClaim(tweetId, jobId);
       const msg = (err as Error).message;
       if (msg.includes('Insufficient REPPO')) {
-        await job.reject(`Agent insufficient REPPO to mint pod: ${msg}`);
+        await rejectJob(job, jobError('INSUFFICIENT_REPPO', `Agent insufficient REPPO to mint pod: ${msg}`));
         releaseLock();
         return;
       }
@@ -332,10 +379,6 @@ export async function handlePublishJob(
       podId: mintResult.podId?.toString(),
     }, 'Pod minted');
 
-    // Mark job as minted IMMEDIATELY to prevent duplicate mints
-    await markJobMinted(jobId);
-    await markProcessed(tweetId);
-
     // Checkpoint C: record mint success so retry can resume from here
     await updatePendingJobStatus(String(jobId), 'minted', {
       mintTxHash: mintResult.txHash,
@@ -351,6 +394,7 @@ export async function handlePublishJob(
         mintResult.txHash,
         undefined,
         Number(jobId),
+        podPayoutDetails(config.PAYOUT_POLICY, job.name),
       );
       log.info({ podId: mintResult.podId, buyerWallet, jobId }, 'Pod tracked for emissions');
     }
@@ -372,31 +416,13 @@ export async function handlePublishJob(
     }
 
     // Submit metadata to each subnet (non-fatal per-subnet)
-    const title = content.podName || (tweet.text.length > 100 ? tweet.text.slice(0, 97) + '...' : tweet.text);
-    const description = content.podDescription || tweet.text;
-
-    const completedSubnets: string[] = [];
-    const failedSubnets: string[] = [];
-
-    for (const subnetId of content.subnets!) {
-      try {
-        await submitPodMetadata(publishSession, config, {
-          txHash: mintResult.txHash,
-          title,
-          description,
-          url: content.postUrl,
-          imageUrl: tweet.mediaUrls[0],
-          tokenId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined,
-          category: 'social',
-          subnetId,
-        });
-        completedSubnets.push(subnetId);
-        log.info({ jobId, subnetId }, 'Metadata submitted to subnet');
-      } catch (metaErr) {
-        failedSubnets.push(subnetId);
-        log.warn({ jobId, subnetId, error: metaErr instanceof Error ? metaErr.message : metaErr }, 'Metadata submission failed for subnet');
-      }
-    }
+    const { completed: completedSubnets, failed: failedSubnets, reppoPods } = await submitToSubnets(
+      String(jobId),
+      publishSession,
+      config,
+      buildPodMetadata(post, { ...content, postUrl: content.postUrl! }, mintResult.txHash, mintResult.podId !== undefined ? Number(mintResult.podId) : undefined),
+      content.subnets!,
+    );
 
     if (completedSubnets.length > 0) {
       log.info({ jobId, completedSubnets }, 'Metadata submitted to subnets');
@@ -404,22 +430,29 @@ export async function handlePublishJob(
     if (failedSubnets.length > 0) {
       log.warn({ jobId, failedSubnets }, 'Metadata submission failed for some subnets - pod still minted');
     }
-
-    // Deliver result via ACP (deliver even on partial failure — pod IS minted)
-    const basescanUrl = `https://basescan.org/tx/${mintResult.txHash}`;
-    const deliverable: AcpDeliverable = {
+    const reppoUrls = await resolveReppoUrls(config, reppoPods, mintResult.txHash);
+    await recordContentPod({
+      contentId: tweetId,
       postUrl: content.postUrl,
+      podId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined,
+      mintTxHash: mintResult.txHash,
       subnets: completedSubnets,
-      txHash: mintResult.txHash,
-      podId: mintResult.podId?.toString(),
-      basescanUrl,
-      ...(failedSubnets.length > 0 ? { failedSubnets } : {}),
-    };
+      reppoPods,
+      reppoUrls,
+      jobId: String(jobId),
+    });
+
+    // Deliver result via ACP (deliver even on partial failure — pod IS minted)
+    const deliverable = buildDeliverable(config.NETWORK, content.postUrl, content.subnets!, completedSubnets, mintResult.txHash, mintResult.podId, reppoUrls);
     await job.deliver(deliverable);
-    log.info({ jobId, basescanUrl, completedSubnets, failedSubnets }, 'Job delivered successfully');
+    jobsDelivered.inc({ partial: String(failedSubnets.length > 0) });
+    log.info({ jobId, basescanUrl: deliverable.basescanUrl, completedSubnets, failedSubnets }, 'Job delivered successfully');
 
-    // Checkpoint D: job fully completed, remove from WAL
-    await removePendingJob(String(jobId));
+    // Checkpoint D: delivered. Clear from WAL, unless failed subnets remain for the retry scheduler
+    await updatePendingJobStatus(String(jobId), 'delivered', { completedSubnets });
+    if (failedSubnets.length === 0) {
+      await removePendingJob(String(jobId));
+    }
 
   } catch (err) {
     const errorMsg = (err as Error).message ?? String(err);
@@ -431,7 +464,7 @@ export async function handlePublishJob(
     // Reject job if we can't fulfill it (insufficient funds, etc.)
     if (errorMsg.includes('Insufficient REPPO')) {
       try {
-        await job.reject?.('Insufficient REPPO to mint pod. Please try again later.');
+        await rejectJob(job, jobError('INSUFFICIENT_REPPO', 'Insufficient REPPO to mint pod. Please try again later.'));
         log.info({ jobId }, 'Job rejected — insufficient REPPO');
       } catch (rejectErr) {
         log.error({ jobId, error: (rejectErr as Error).message }, 'Failed to reject job');
@@ -445,173 +478,366 @@ export async function handlePublishJob(
 const ACCEPTED_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24h
 
 /**
- * Retry incomplete pending jobs on startup.
+ * Resolve the mint tx an accepted job recorded before its receipt came back. Undefined if it
+ * reverted (the claim is released and the job mints again); throws while its outcome is unknown.
+ */
+async function resolveSubmittedMint(pj: PendingJob, clients: Clients): Promise<MintResult | undefined> {
+  try {
+    return await resolveMint(clients, pj.mintTxHash as `0x${string}`);
+  } catch (err) {
+    if (err instanceof MintSubmittedError) throw err;
+    log.warn({ jobId: pj.jobId, txHash: pj.mintTxHash, error: (err as Error).message }, 'Recorded mint tx reverted, minting again');
+    await releaseMintClaim(pj.tweetId, pj.jobId);
+    await updatePendingJobStatus(pj.jobId, 'accepted', { mintTxHash: undefined });
+    return undefined;
+  }
+}
+
+/**
+ * Deliver a recovered job via ACP, then clear it from the WAL (kept as 'delivered' while
+ * subnets are still outstanding). Throws, keeping the entry, if the job can't be fetched or delivered.
+ */
+async function deliverRecoveredJob(
+  pj: PendingJob,
+  completedSubnets: string[],
+  reppoUrls: Record<string, string>,
+  network: NetworkProfile,
+  acpContext?: AcpContext,
+): Promise<void> {
+  if (!pj.mintTxHash) throw new Error(`Pending job ${pj.jobId} has no recorded mint tx`);
+  if (!acpContext) throw new Error('No ACP context to deliver job');
+
+  const job: AcpJob | null = await acpContext.client.getJobById(Number(pj.jobId));
+  if (!job) throw new Error(`Job ${pj.jobId} not found on ACP`);
+
+  const deliverable = {
+    ...buildDeliverable(network, pj.postUrl, pj.subnets, completedSubnets, pj.mintTxHash, pj.podId, reppoUrls),
+    ...(pj.existingPod && { existingPod: true }),
+  };
+
+  // Past TRANSACTION (delivered, completed, rejected, expired): nothing left to deliver
+  if (typeof job.phase === 'number' && job.phase > PHASE_TRANSACTION) {
+    log.warn({ jobId: pj.jobId, phase: job.phase }, 'Job already past transaction phase, skipping delivery');
+  } else {
+    await job.deliver(deliverable);
+    jobsDelivered.inc({ partial: String(deliverable.failedSubnets !== undefined) });
+    log.info({ jobId: pj.jobId, basescanUrl: deliverable.basescanUrl, failedSubnets: deliverable.failedSubnets }, 'Recovered job delivered');
+  }
+
+  await updatePendingJobStatus(pj.jobId, 'delivered', { completedSubnets });
+  if (!deliverable.failedSubnets) {
+    await removePendingJob(pj.jobId);
+  }
+}
+
+/**
+ * Retry subnets that failed before delivery and tell the buyer about any that now landed
+ * with a follow-up memo. Throws while subnets are still failing so the scheduler backs off.
+ */
+async function completeDeliveredJob(
+  pj: PendingJob,
+  session: AgentSession,
+  config: Config,
+  acpContext?: AcpContext,
+): Promise<void> {
+  const alreadyCompleted = pj.completedSubnets ?? [];
+  if (!pj.mintTxHash || pj.subnets.every((s) => alreadyCompleted.includes(s))) {
+    await removePendingJob(pj.jobId);
+    log.info({ jobId: pj.jobId }, 'Delivered pending job cleared');
+    return;
+  }
+
+  const post = await fetchContent(pj.postUrl);
+  const publishSession = await getPublishSession(pj, session, config);
+  const { completed, failed, reppoPods } = await submitToSubnets(
+    pj.jobId,
+    publishSession,
+    config,
+    buildPodMetadata(post, pj, pj.mintTxHash as `0x${string}`, pj.podId),
+    pj.subnets,
+    alreadyCompleted,
+  );
+
+  const lateSubnets = completed.filter((s) => !alreadyCompleted.includes(s));
+  if (lateSubnets.length > 0) {
+    const allPods = { ...pj.reppoPods, ...reppoPods };
+    const reppoUrls = await resolveReppoUrls(config, allPods, pj.mintTxHash);
+    await recordContentPod({ contentId: pj.tweetId, postUrl: pj.postUrl, podId: pj.podId, mintTxHash: pj.mintTxHash, subnets: completed, reppoPods: allPods, reppoUrls, jobId: pj.jobId });
+    if (acpContext) {
+      try {
+        const job: AcpJob | null = await acpContext.client.getJobById(Number(pj.jobId));
+        await job?.createNotification?.(JSON.stringify({
+          ...buildDeliverable(config.NETWORK, pj.postUrl, pj.subnets, completed, pj.mintTxHash, pj.podId, reppoUrls),
+          lateSubnets,
+        }));
+        log.info({ jobId: pj.jobId, lateSubnets }, 'Follow-up memo posted for late subnets');
+      } catch (err) {
+        log.warn({ jobId: pj.jobId, lateSubnets, error: (err as Error).message }, 'Failed to post follow-up memo');
+      }
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`Metadata still failing for subnets: ${failed.join(', ')}`);
+  }
+  await removePendingJob(pj.jobId);
+  log.info({ jobId: pj.jobId, lateSubnets }, 'Late subnets completed, pending job cleared');
+}
+
+/**
+ * Give up on a job that hit the retry ceiling: reject it via ACP and park it in the dead-letter state.
+ */
+async function deadLetterPendingJob(pj: PendingJob, acpContext?: AcpContext): Promise<void> {
+  const error = jobError(
+    'MAX_RETRIES',
+    `Job failed after ${pj.retryCount} attempts${pj.lastError ? `: ${pj.lastError}` : ''}`,
+    { attempts: pj.retryCount, lastError: pj.lastError },
+  );
+  log.error({ jobId: pj.jobId, retryCount: pj.retryCount, lastError: pj.lastError }, 'Pending job exceeded max retries, dead-lettering');
+
+  // Already-delivered jobs only have late subnets outstanding; the buyer keeps the deliverable
+  if (acpContext && pj.status !== 'delivered') {
+    const rejected = await rejectJobById(acpContext.client, pj.jobId, error);
+    if (!rejected) {
+      log.error({ jobId: pj.jobId }, 'Failed to reject dead-lettered job on-chain — reject it via the admin API');
+    }
+  }
+
+  await updatePendingJobStatus(pj.jobId, 'dead_letter', { deadLetteredAt: new Date().toISOString() });
+}
+
+export interface RetryPendingJobsOptions {
+  /**
+   * Periodic run: only retry jobs whose backoff has elapsed, and skip accepted jobs
+   * that never failed (they are still waiting for payment or in the poll loop).
+   */
+  scheduled?: boolean;
+}
+
+/**
+ * Retry incomplete pending jobs (once on startup, then periodically).
  * - 'accepted': re-mint from scratch (buyer likely paid but we crashed before minting)
  * - 'minted': pod exists on-chain, just need DynamoDB + metadata
+ * Jobs at PENDING_MAX_RETRIES are rejected and moved to 'dead_letter'.
  */
 export async function retryPendingJobs(
   clients: Clients,
   session: AgentSession,
   config: Config,
   acpContext?: AcpContext,
+  options: RetryPendingJobsOptions = {},
 ): Promise<void> {
   const pending = getPendingJobs();
   if (pending.length === 0) {
-    log.info('No pending jobs to retry');
+    if (!options.scheduled) log.info('No pending jobs to retry');
     return;
   }
 
-  log.info({ count: pending.length }, 'Retrying pending jobs...');
+  const due = options.scheduled
+    ? pending.filter((pj) => (pj.status !== 'accepted' || pj.retryCount > 0) && isRetryDue(pj, config.PENDING_RETRY_BASE_DELAY_MS))
+    : pending;
+  if (due.length === 0) return;
 
-  for (const pj of pending) {
-    try {
-      if (pj.status === 'accepted') {
-        // Skip if older than 24h — buyer likely never paid, but reject to be safe
-        const age = Date.now() - new Date(pj.createdAt).getTime();
-        if (age > ACCEPTED_MAX_AGE_MS) {
-          log.info({ jobId: pj.jobId }, 'Accepted job older than 24h, rejecting');
-          if (acpContext) {
-            const rejected = await rejectJobById(acpContext.client, pj.jobId, 'Job expired (accepted over 24h ago)');
-            if (!rejected) {
-              log.error({ jobId: pj.jobId }, 'Failed to reject expired job on-chain — keeping in pending for retry');
-              continue;
-            }
-          }
-          await removePendingJob(pj.jobId);
-          continue;
-        }
+  log.info({ count: due.length, pending: pending.length, scheduled: Boolean(options.scheduled) }, 'Retrying pending jobs...');
 
-        // Check dedup — already processed?
-        const tweetId = extractTweetId(pj.postUrl);
-        if (hasProcessed(tweetId)) {
-          log.warn({ jobId: pj.jobId, tweetId }, 'Tweet already processed, rejecting job');
-          if (acpContext) {
-            const rejected = await rejectJobById(acpContext.client, pj.jobId, `Tweet ${tweetId} already processed`);
-            if (!rejected) {
-              log.error({ jobId: pj.jobId }, 'Failed to reject duplicate job on-chain — keeping in pending for retry');
-              continue;
-            }
-          } else {
-            log.error({ jobId: pj.jobId }, 'No ACP context to reject job — keeping in pending for retry');
-            continue;
-          }
-          await removePendingJob(pj.jobId);
-          continue;
-        }
-
-        // Fetch tweet
-        const tweet = await fetchTweet(tweetId);
+  for (const pj of due) {
+    if (pj.retryCount >= config.PENDING_MAX_RETRIES) {
+      await deadLetterPendingJob(pj, acpContext);
+      continue;
+    }
 
-        // Mint pod
-        const mintResult = await mintPod(clients);
-        await markJobMinted(pj.jobId);
-        await markProcessed(tweetId);
+    // Don't race the poll loop (or another replica) on the same post
+    const releaseLock = await acquireProcessingLock(pj.tweetId);
+    if (!releaseLock) {
+      log.info({ jobId: pj.jobId, tweetId: pj.tweetId }, 'Pending job busy, retrying later');
+      continue;
+    }
 
-        await updatePendingJobStatus(pj.jobId, 'minted', {
-          mintTxHash: mintResult.txHash,
-          podId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined,
-        });
+    try {
+      // It may have finished while we waited for the lock
+      const current = getPendingJob(pj.jobId);
+      if (!current || current.status !== pj.status) continue;
 
-        // Save pod to DynamoDB
-        const buyerWallet = pj.buyerId ?? clients.account.address;
-        if (mintResult.podId) {
-          await savePod(
-            Number(mintResult.podId),
-            buyerWallet,
-            mintResult.txHash,
-            undefined,
-            Number(pj.jobId),
-          );
-        }
+      await retryPendingJob(current, clients, session, config, acpContext);
+    } catch (err) {
+      const errorMsg = (err as Error).message ?? String(err);
+      log.error({ jobId: pj.jobId, error: errorMsg }, 'Pending job retry failed');
+      await recordPendingJobError(pj.jobId, errorMsg);
+    } finally {
+      releaseLock();
+    }
+  }
+}
 
-        // Submit metadata to each subnet
-        let publishSession = session;
-        if (pj.buyerId && pj.agentName) {
-          const buyerSession = await getOrCreateBuyerAgent(config, pj.buyerId, pj.agentName, pj.agentDescription);
-          if (buyerSession) publishSession = buyerSession;
+/**
+ * Resume a single pending job from its WAL checkpoint. Throws on failure;
+ * callers decide whether to record the error.
+ */
+export async function retryPendingJob(
+  pj: PendingJob,
+  clients: Clients,
+  session: AgentSession,
+  config: Config,
+  acpContext?: AcpContext,
+): Promise<void> {
+  if (pj.status === 'accepted') {
+    // Skip if older than 24h — buyer likely never paid, but reject to be safe
+    const age = Date.now() - new Date(pj.createdAt).getTime();
+    if (age > ACCEPTED_MAX_AGE_MS) {
+      log.info({ jobId: pj.jobId }, 'Accepted job older than 24h, rejecting');
+      if (acpContext) {
+        const rejected = await rejectJobById(acpContext.client, pj.jobId, jobError('JOB_EXPIRED', 'Job expired (accepted over 24h ago)'));
+        if (!rejected) {
+          log.error({ jobId: pj.jobId }, 'Failed to reject expired job on-chain — keeping in pending for retry');
+          return;
         }
+      }
+      await removePendingJob(pj.jobId);
+      return;
+    }
+  }
 
-        const title = pj.podName || (tweet.text.length > 100 ? tweet.text.slice(0, 97) + '...' : tweet.text);
-        const description = pj.podDescription || tweet.text;
-
-        const completed = pj.completedSubnets ?? [];
-        const remaining = pj.subnets.filter((s) => !completed.includes(s));
-        for (const subnetId of remaining) {
-          try {
-            await submitPodMetadata(publishSession, config, {
-              txHash: mintResult.txHash,
-              title,
-              description,
-              url: pj.postUrl,
-              imageUrl: tweet.mediaUrls[0],
-              tokenId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined,
-              category: 'social',
-              subnetId,
-            });
-            completed.push(subnetId);
-          } catch (metaErr) {
-            log.warn({ jobId: pj.jobId, subnetId, error: (metaErr as Error).message }, 'Metadata submission failed for subnet during retry');
-          }
-        }
+  if (pj.items) {
+    await retryBatchJob(pj, clients, session, config, acpContext);
+    return;
+  }
 
-        await removePendingJob(pj.jobId);
-        log.info({ jobId: pj.jobId, completedSubnets: completed }, 'Pending job retried successfully (accepted → completed)');
-
-      } else if (pj.status === 'minted') {
-        // Pod minted on-chain but DynamoDB/metadata failed
-        const buyerWallet = pj.buyerId ?? clients.account.address;
-        if (pj.podId && pj.mintTxHash) {
-          await savePod(
-            pj.podId,
-            buyerWallet,
-            pj.mintTxHash as `0x${string}`,
-            undefined,
-            Number(pj.jobId),
-          );
-        }
+  if (pj.existingPod && pj.status === 'accepted') {
+    // Nothing to mint: submit the existing pod to the outstanding subnets and deliver it
+    const { completed, reppoUrls } = await addExistingPodToSubnets(pj, session, config);
+    await deliverRecoveredJob(pj, completed, reppoUrls, config.NETWORK, acpContext);
+    await markJobMinted(pj.jobId);
+    log.info({ jobId: pj.jobId, completedSubnets: completed }, 'Pending existing-pod job retried successfully');
+    return;
+  }
 
-        // Fetch tweet for metadata content
-        const tweetId = extractTweetId(pj.postUrl);
-        const tweet = await fetchTweet(tweetId);
+  if (pj.status === 'accepted') {
+    const tweetId = pj.tweetId;
+    let post: SourceContent | undefined;
+    let mintResult = pj.mintTxHash ? await resolveSubmittedMint(pj, clients) : undefined;
 
-        let publishSession = session;
-        if (pj.buyerId && pj.agentName) {
-          const buyerSession = await getOrCreateBuyerAgent(config, pj.buyerId, pj.agentName, pj.agentDescription);
-          if (buyerSession) publishSession = buyerSession;
-        }
+    if (!mintResult) {
+      // A claim without a recorded mint means an earlier attempt died mid-mint; minting again could double-mint
+      if (await hasJobMinted(pj.jobId)) {
+        throw new Error(`Job ${pj.jobId} was claimed for minting but no mint was recorded — check on-chain, then deliver or reject via the admin API`);
+      }
 
-        const title = pj.podName || (tweet.text.length > 100 ? tweet.text.slice(0, 97) + '...' : tweet.text);
-        const description = pj.podDescription || tweet.text;
-
-        if (pj.mintTxHash) {
-          const completed = pj.completedSubnets ?? [];
-          const remaining = pj.subnets.filter((s) => !completed.includes(s));
-          for (const subnetId of remaining) {
-            try {
-              await submitPodMetadata(publishSession, config, {
-                txHash: pj.mintTxHash as `0x${string}`,
-                title,
-                description,
-                url: pj.postUrl,
-                imageUrl: tweet.mediaUrls[0],
-                tokenId: pj.podId,
-                category: 'social',
-                subnetId,
-              });
-              completed.push(subnetId);
-            } catch (metaErr) {
-              log.warn({ jobId: pj.jobId, subnetId, error: (metaErr as Error).message }, 'Metadata submission failed for subnet during retry');
-            }
+      // Check dedup — already processed?
+      if (hasProcessed(tweetId)) {
+        log.warn({ jobId: pj.jobId, tweetId }, 'Post already processed, rejecting job');
+        if (acpContext) {
+          const pod = await getContentPod(tweetId);
+          const rejected = await rejectJobById(acpContext.client, pj.jobId, jobError('DUPLICATE_POST', `Post ${tweetId} already processed`, {
+            contentId: tweetId,
+            ...(pod && { existingPod: describeContentPod(config.NETWORK, pod) }),
+          }));
+          if (!rejected) {
+            log.error({ jobId: pj.jobId }, 'Failed to reject duplicate job on-chain — keeping in pending for retry');
+            return;
           }
+        } else {
+          log.error({ jobId: pj.jobId }, 'No ACP context to reject job — keeping in pending for retry');
+          return;
         }
-
         await removePendingJob(pj.jobId);
-        log.info({ jobId: pj.jobId }, 'Pending job retried successfully (minted → completed)');
+        return;
+      }
+
+      // Fetch source content
+      post = await fetchContent(pj.postUrl);
+
+      // Mint pod, claimed first like the live path
+      if (!(await claimMint(tweetId, pj.jobId))) {
+        throw new Error(`Job ${pj.jobId} or post ${tweetId} already claimed for minting — check on-chain before retrying`);
+      }
+      try {
+        mintResult = await mintPod(clients, {
+          onSubmitted: (txHash) => updatePendingJobStatus(pj.jobId, 'accepted', { mintTxHash: txHash }),
+        });
+      } catch (err) {
+        if (!(err instanceof MintSubmittedError)) await releaseMintClaim(tweetId, pj.jobId);
+        throw err;
       }
-    } catch (err) {
-      const errorMsg = (err as Error).message ?? String(err);
-      log.error({ jobId: pj.jobId, error: errorMsg }, 'Pending job retry failed');
-      await recordPendingJobError(pj.jobId, errorMsg);
     }
+
+    await updatePendingJobStatus(pj.jobId, 'minted', {
+      mintTxHash: mintResult.txHash,
+      podId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined,
+    });
+    post ??= await fetchContent(pj.postUrl);
+
+    // Save pod to DynamoDB
+    const buyerWallet = pj.buyerId ?? clients.account.address;
+    if (mintResult.podId) {
+      await savePod(
+        Number(mintResult.podId),
+        buyerWallet,
+        mintResult.txHash,
+        undefined,
+        Number(pj.jobId),
+        podPayoutDetails(config.PAYOUT_POLICY, pj.offering),
+      );
+    }
+
+    // Submit metadata to each subnet
+    const publishSession = await getPublishSession(pj, session, config);
+    const { completed, reppoPods } = await submitToSubnets(
+      pj.jobId,
+      publishSession,
+      config,
+      buildPodMetadata(post, pj, mintResult.txHash, mintResult.podId !== undefined ? Number(mintResult.podId) : undefined),
+      pj.subnets,
+      pj.completedSubnets,
+    );
+
+    const minted = { ...pj, mintTxHash: mintResult.txHash, podId: mintResult.podId !== undefined ? Number(mintResult.podId) : undefined };
+    const allPods = { ...pj.reppoPods, ...reppoPods };
+    const reppoUrls = await resolveReppoUrls(config, allPods, mintResult.txHash);
+    await recordContentPod({ contentId: tweetId, postUrl: pj.postUrl, podId: minted.podId, mintTxHash: minted.mintTxHash, subnets: completed, reppoPods: allPods, reppoUrls, jobId: pj.jobId });
+    await deliverRecoveredJob(minted, completed, reppoUrls, config.NETWORK, acpContext);
+    log.info({ jobId: pj.jobId, completedSubnets: completed }, 'Pending job retried successfully (accepted → delivered)');
+
+  } else if (pj.status === 'minted') {
+    // Pod minted on-chain but DynamoDB/metadata failed
+    const buyerWallet = pj.buyerId ?? clients.account.address;
+    if (pj.podId && pj.mintTxHash) {
+      await savePod(
+        pj.podId,
+        buyerWallet,
+        pj.mintTxHash as `0x${string}`,
+        undefined,
+        Number(pj.jobId),
+        podPayoutDetails(config.PAYOUT_POLICY, pj.offering),
+      );
+    }
+
+    // Fetch source content for metadata
+    const post = await fetchContent(pj.postUrl);
+
+    const publishSession = await getPublishSession(pj, session, config);
+
+    let completed = pj.completedSubnets ?? [];
+    let reppoUrls: Record<string, string> = {};
+    if (pj.mintTxHash) {
+      let reppoPods: Record<string, string>;
+      ({ completed, reppoPods } = await submitToSubnets(
+        pj.jobId,
+        publishSession,
+        config,
+        buildPodMetadata(post, pj, pj.mintTxHash as `0x${string}`, pj.podId),
+        pj.subnets,
+        completed,
+      ));
+      const allPods = { ...pj.reppoPods, ...reppoPods };
+      reppoUrls = await resolveReppoUrls(config, allPods, pj.mintTxHash);
+      await recordContentPod({ contentId: pj.tweetId, postUrl: pj.postUrl, podId: pj.podId, mintTxHash: pj.mintTxHash, subnets: completed, reppoPods: allPods, reppoUrls, jobId: pj.jobId });
+    }
+
+    await deliverRecoveredJob(pj, completed, reppoUrls, config.NETWORK, acpContext);
+    log.info({ jobId: pj.jobId, completedSubnets: completed }, 'Pending job retried successfully (minted → delivered)');
+
+  } else if (pj.status === 'delivered') {
+    // Delivered with subnets outstanding (or the WAL entry just wasn't cleared)
+    await completeDeliveredJob(pj, session, config, acpContext);
   }
 }
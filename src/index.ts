@@ -1,61 +1,36 @@
-import http from 'http';
 import { loadConfig, fetchAcpAgentInfoById } from './config.js';
-import { registerAgent, initReppoFiles } from './reppo.js';
+import { registerAgent } from './reppo.js';
 import { createClients, setAaClient } from './chain.js';
 import { initTwitterClient } from './twitter.js';
+import { initContentSources } from './sources/index.js';
 import { initAcp } from './acp.js';
-import { initDedup, getProcessedCount } from './lib/dedup.js';
+import { initDedup } from './lib/dedup.js';
 import { initPods } from './lib/pods.js';
 import { initPendingJobs } from './lib/pending-jobs.js';
+import { initStateStore } from './lib/state-store.js';
 import { handlePublishJob, retryPendingJobs } from './handlers/publish.js';
+import { createWorkerPool } from './lib/worker-pool.js';
+import { startIntervalTask } from './lib/interval-task.js';
+import { startEmissionsScheduler } from './emissions/scheduler.js';
+import { fetchAllActiveJobs, createFairRotation } from './lib/active-jobs.js';
+import { createServer, serviceState } from './server.js';
+import {
+  markPollCompleted,
+  pollDuration,
+  activeJobs as activeJobsGauge,
+  workerPoolJobs,
+} from './lib/metrics.js';
 import { createLogger } from './lib/logger.js';
+import type { AdminContext } from './handlers/admin.js';
+import type { AcpJob } from './types.js';
 
 const log = createLogger('main');
 
-// Track service state for health checks
-const serviceState = {
-  started: new Date().toISOString(),
-  healthy: false,
-  lastPoll: null as string | null,
-  activeJobs: 0,
-  processedTotal: 0,
-};
-
-function createHealthServer(port: number) {
-  const server = http.createServer((req, res) => {
-    if (req.url === '/health' || req.url === '/') {
-      const status = serviceState.healthy ? 200 : 503;
-      res.writeHead(status, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        status: serviceState.healthy ? 'healthy' : 'starting',
-        started: serviceState.started,
-        lastPoll: serviceState.lastPoll,
-        processedTweets: getProcessedCount(),
-        uptime: process.uptime(),
-      }));
-    } else if (req.url === '/ready') {
-      const status = serviceState.healthy ? 200 : 503;
-      res.writeHead(status);
-      res.end(serviceState.healthy ? 'ready' : 'not ready');
-    } else {
-      res.writeHead(404);
-      res.end('Not Found');
-    }
-  });
-
-  server.listen(port, () => {
-    log.info({ port }, 'Health server listening');
-  });
-
-  return server;
-}
-
 function validateEnv() {
   const required: Record<string, string> = {
     PRIVATE_KEY: 'Wallet private key',
     ACP_ENTITY_ID: 'ACP entity ID',
     ACP_WALLET_ADDRESS: 'ACP wallet address',
-    REPPO_API_URL: 'Reppo API base URL',
     TWITTER_API_KEY: 'X API consumer key',
     TWITTER_API_SECRET: 'X API consumer secret',
     TWITTER_ACCESS_TOKEN: 'X API access token',
@@ -63,9 +38,23 @@ function validateEnv() {
   };
 
   const optional: Record<string, string> = {
-    RPC_URL: 'Base RPC URL',
+    REPPO_API_URL: 'Reppo API base URL (required on testnet)',
+    REPPO_APP_URL: 'Reppo web app URL for pod links',
+    RPC_URL: 'Base RPC URL(s), comma-separated',
+    RPC_QUORUM: 'RPC endpoints that must agree on reads',
     POLL_INTERVAL_MS: 'Poll interval (ms)',
-    ACP_TESTNET: 'Use testnet',
+    JOB_CONCURRENCY: 'Max jobs processed in parallel',
+    MAX_JOBS_PER_POLL: 'Max jobs dispatched per poll cycle',
+    PENDING_RETRY_INTERVAL_MS: 'Pending-job retry scheduler interval (ms)',
+    PENDING_RETRY_BASE_DELAY_MS: 'Pending-job retry base backoff (ms)',
+    PENDING_MAX_RETRIES: 'Pending-job retries before dead-lettering',
+    ACP_TESTNET: 'Use testnet (Base Sepolia)',
+    POD_CONTRACT: 'Pod contract (required on testnet)',
+    REPPO_TOKEN: 'REPPO token (required on testnet)',
+    USDC_TOKEN: 'USDC token override',
+    WETH_TOKEN: 'WETH token override',
+    UNISWAP_ROUTER: 'Uniswap SwapRouter02 override',
+    UNISWAP_QUOTER: 'Uniswap QuoterV2 override',
     ACP_SIGNER_ENTITY_ID: 'Signer entity ID',
     HEALTH_PORT: 'Health check port',
     DATA_DIR: 'Data directory',
@@ -73,10 +62,26 @@ function validateEnv() {
     AWS_SECRET_ACCESS_KEY: 'AWS secret key',
     DYNAMODB_ENDPOINT: 'DynamoDB endpoint',
     AWS_REGION: 'AWS region',
+    STATE_BACKEND: 'State backend (file | dynamodb)',
+    STATE_TABLE_NAME: 'DynamoDB state table',
+    ADMIN_API_TOKEN: 'Admin API bearer token',
+    NEYNAR_API_KEY: 'Neynar API key (Farcaster casts)',
+    GITHUB_TOKEN: 'GitHub API token',
+    PRICE_PER_SUBNET_USDC: 'Quoted cost per subnet submission (USDC)',
+    PRICE_MARGIN_BPS: 'Quote margin over cost (bps)',
+    QUOTE_TTL_MS: 'Price quote validity (ms)',
+    EMISSIONS_SCHEDULER: 'Claim emissions in-process every epoch',
+    EMISSIONS_CLAIM_DELAY_MS: 'Scheduled claim delay after the epoch boundary (ms)',
+    EMISSIONS_CLAIM_BATCH_SIZE: 'Emissions claims per AA user operation',
+    EMISSIONS_TRANSFER_BATCH_SIZE: 'Emissions transfers per AA user operation',
+    EMISSIONS_MIN_PAYOUT: 'Minimum buyer emissions payout (REPPO)',
+    PAYOUT_SPLIT: 'Default emissions payout split',
+    PAYOUT_OFFERING_SPLITS: 'Per-offering emissions payout splits (JSON)',
+    PAYOUT_TREASURY_WALLET: 'Treasury wallet for payout splits',
     LOG_LEVEL: 'Log level',
   };
 
-  const secrets = new Set(['PRIVATE_KEY', 'TWITTER_API_SECRET', 'TWITTER_ACCESS_TOKEN_SECRET', 'AWS_SECRET_ACCESS_KEY', 'AWS_SESSION_TOKEN']);
+  const secrets = new Set(['PRIVATE_KEY', 'TWITTER_API_SECRET', 'TWITTER_ACCESS_TOKEN_SECRET', 'AWS_SECRET_ACCESS_KEY', 'AWS_SESSION_TOKEN', 'ADMIN_API_TOKEN', 'NEYNAR_API_KEY', 'GITHUB_TOKEN']);
   const mask = (key: string, val: string) => secrets.has(key) ? val.slice(0, 4) + '***' : val;
 
   const missing: string[] = [];
@@ -131,7 +136,9 @@ async function main() {
     entityId: config.ACP_ENTITY_ID,
     walletAddress: config.ACP_WALLET_ADDRESS,
     pollInterval: config.POLL_INTERVAL_MS,
+    jobConcurrency: config.JOB_CONCURRENCY,
     testnet: config.ACP_TESTNET,
+    stateBackend: config.STATE_BACKEND,
   }, 'Config loaded');
 
   // Fetch agent info from Virtuals ACP (by entity ID with fallback)
@@ -142,22 +149,32 @@ async function main() {
     description: acpAgent.description?.slice(0, 50) + '...',
   }, 'ACP agent info loaded');
 
-  // Initialize file paths and dedup state
-  initReppoFiles(config.DATA_DIR);
-  initDedup(config.DATA_DIR);
-  initPendingJobs(config.DATA_DIR);
+  // Initialize state store (file or DynamoDB), then dedup and pending-job state from it
+  initStateStore(config);
+  await initDedup();
+  await initPendingJobs();
   initPods(config);
 
-  // Start health server
-  const healthServer = createHealthServer(config.HEALTH_PORT);
+  // Start health server (admin routes answer 503 until ACP is up)
+  let adminContext: AdminContext | null = null;
+  const healthServer = createServer({
+    port: config.HEALTH_PORT,
+    adminToken: config.ADMIN_API_TOKEN,
+    getAdminContext: () => adminContext,
+    minPayout: config.EMISSIONS_MIN_PAYOUT,
+  });
 
   // Register with Reppo API (using name/description from ACP)
   const session = await registerAgent(config, acpAgent.name, acpAgent.description);
   log.info({ agentId: session.agentId }, 'Reppo session ready');
 
   // Init chain clients
-  const clients = createClients(config.PRIVATE_KEY, config.RPC_URL);
-  log.info({ wallet: clients.account.address }, 'Chain clients ready');
+  const clients = createClients(config.PRIVATE_KEY, {
+    rpcUrls: config.RPC_URLS,
+    quorum: config.RPC_QUORUM,
+    network: config.NETWORK,
+  });
+  log.info({ wallet: clients.account.address, network: config.NETWORK.name }, 'Chain clients ready');
 
   initTwitterClient({
     appKey: config.TWITTER_API_KEY,
@@ -167,6 +184,8 @@ async function main() {
   });
   log.info('Twitter client ready');
 
+  initContentSources({ neynarApiKey: config.NEYNAR_API_KEY, githubToken: config.GITHUB_TOKEN });
+
   // Init ACP client
   const acp = await initAcp(config, clients, session);
   log.info('ACP client ready, listening for jobs...');
@@ -175,36 +194,72 @@ async function main() {
   setAaClient(clients, acp.contractClient, config.ACP_WALLET_ADDRESS as `0x${string}`);
   log.info({ aaWallet: config.ACP_WALLET_ADDRESS }, 'AA client wired for gasless transactions');
 
+  // Claim pod emissions once per epoch through the same AA wallet
+  const emissions = config.EMISSIONS_SCHEDULER
+    ? startEmissionsScheduler({
+      publicClient: clients.publicClient,
+      aaClient: (acp.contractClient as any).sessionKeyClient,
+      aaWalletAddress: config.ACP_WALLET_ADDRESS as `0x${string}`,
+      network: config.NETWORK,
+    }, config.EMISSIONS_CLAIM_DELAY_MS, {
+      batch: { claims: config.EMISSIONS_CLAIM_BATCH_SIZE, transfers: config.EMISSIONS_TRANSFER_BATCH_SIZE },
+      minPayout: config.EMISSIONS_MIN_PAYOUT,
+    })
+    : undefined;
+
+  adminContext = { clients, session, config, acp, emissions };
+
   // Retry any incomplete jobs from previous run
   await retryPendingJobs(clients, session, config, acp);
 
+  // Keep retrying failed jobs with backoff until they succeed or hit the retry ceiling
+  const retryTask = startIntervalTask('pending-job-retry', config.PENDING_RETRY_INTERVAL_MS, () =>
+    retryPendingJobs(clients, session, config, acp, { scheduled: true }),
+  );
+
   // Mark as healthy
   serviceState.healthy = true;
 
+  // Jobs run in parallel up to JOB_CONCURRENCY; a job still in flight is not re-dispatched
+  const jobPool = createWorkerPool(config.JOB_CONCURRENCY);
+  const rotation = createFairRotation();
+
   // Polling loop
   let running = true;
   const poll = async () => {
     while (running) {
+      const endPollTimer = pollDuration.startTimer();
       try {
-        const jobs = await acp.client.getActiveJobs(1, 10);
+        const jobs = await fetchAllActiveJobs<AcpJob>(acp.client);
         serviceState.lastPoll = new Date().toISOString();
+        serviceState.activeJobs = jobs.length;
+        activeJobsGauge.set(jobs.length);
         
-        if (jobs && Array.isArray(jobs) && jobs.length > 0) {
-          log.info({ count: jobs.length }, 'Active jobs');
-          serviceState.activeJobs = jobs.length;
-          
-          // Process each job
-          for (const job of jobs) {
-            try {
-              await handlePublishJob(job, clients, session, config);
-            } catch (err) {
-              log.error({ jobId: job.id, error: err instanceof Error ? err.message : err }, 'Job processing error');
-            }
+        if (jobs.length > 0) {
+          // Cap dispatches per cycle, rotating through the backlog so no buyer is starved
+          const idle = jobs.filter((job) => !jobPool.has(String(job.id)));
+          const batch = rotation.take(idle, config.MAX_JOBS_PER_POLL);
+
+          let dispatched = 0;
+          for (const job of batch) {
+            const submitted = jobPool.submit(String(job.id), async () => {
+              try {
+                await handlePublishJob(job, clients, session, config);
+              } catch (err) {
+                log.error({ jobId: job.id, error: err instanceof Error ? err.message : err }, 'Job processing error');
+              }
+            });
+            if (submitted) dispatched++;
           }
+          log.info({ count: jobs.length, dispatched, running: jobPool.active(), queued: jobPool.queued() }, 'Active jobs');
         }
+        markPollCompleted();
       } catch (err) {
         log.error({ error: err instanceof Error ? err.message : err }, 'Poll error');
       }
+      endPollTimer();
+      workerPoolJobs.set(jobPool.active(), { state: 'running' });
+      workerPoolJobs.set(jobPool.queued(), { state: 'queued' });
       await new Promise((r) => setTimeout(r, config.POLL_INTERVAL_MS));
     }
   };
@@ -220,8 +275,11 @@ async function main() {
     // Close health server
     await new Promise<void>((resolve) => healthServer.close(() => resolve()));
     
-    // Wait for poll loop to finish
+    // Wait for poll loop and schedulers to finish, then for in-flight jobs
+    await retryTask.stop();
+    await emissions?.stop();
     await pollPromise;
+    await jobPool.drain();
     
     log.info('Shutdown complete');
     process.exit(0);
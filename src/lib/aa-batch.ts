@@ -0,0 +1,94 @@
+import type { Address, Hash, Hex, Log } from 'viem';
+import { isRetryableError } from './http.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('aa-batch');
+
+export interface BatchCall {
+  to: Address;
+  data: Hex;
+}
+
+export interface BatchResult {
+  userOpHash: Hash;
+  txHash: Hash;
+  /** Logs emitted by this user operation only, in call order */
+  logs: Log[];
+}
+
+/** Split `items` into chunks of at most `size` (at least 1) */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  const step = Math.max(1, size);
+  for (let i = 0; i < items.length; i += step) chunks.push(items.slice(i, i + step));
+  return chunks;
+}
+
+/** None of the operation's calls took effect: the bundler rejected it, or it reverted */
+export class UserOperationFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UserOperationFailedError';
+  }
+}
+
+/** The operation may have been accepted but its outcome isn't known yet; it may still land */
+export class UserOperationUnknownError extends Error {
+  constructor(message: string, readonly userOpHash?: Hash) {
+    super(message);
+    this.name = 'UserOperationUnknownError';
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Outcome of a sent user operation from its receipt. Throws `UserOperationFailedError`
+ * when it reverted and `UserOperationUnknownError` while there's no receipt.
+ */
+export async function getUserOperationResult(aaClient: any, hash: Hash, txHash?: Hash): Promise<BatchResult> {
+  let receipt: { success: boolean; logs: Log[]; receipt?: { transactionHash: Hash } } | null;
+  try {
+    receipt = await aaClient.getUserOperationReceipt(hash);
+  } catch (err) {
+    throw new UserOperationUnknownError(`Receipt lookup for user operation ${hash} failed: ${errorMessage(err)}`, hash);
+  }
+  if (!receipt) throw new UserOperationUnknownError(`No receipt for user operation ${hash}`, hash);
+  const tx = txHash ?? receipt.receipt?.transactionHash;
+  if (!receipt.success) throw new UserOperationFailedError(`User operation reverted: ${hash} (tx ${tx})`);
+  if (!tx) throw new UserOperationUnknownError(`No transaction for user operation ${hash}`, hash);
+  return { userOpHash: hash, txHash: tx, logs: receipt.logs };
+}
+
+/**
+ * Execute `calls` atomically as one user operation through the AA session key client
+ * (the same path the ACP SDK uses for its own batched operations). The send is never
+ * retried, since a send that failed on our side may still have been accepted: the
+ * outcome comes from the operation's receipt. Throws `UserOperationFailedError` when
+ * none of the calls took effect and `UserOperationUnknownError` when that's unknown.
+ */
+export async function sendBatchUserOperation(aaClient: any, calls: BatchCall[], label: string): Promise<BatchResult> {
+  let hash: Hash;
+  try {
+    ({ hash } = await aaClient.sendUserOperation({ uo: calls.map((call) => ({ target: call.to, data: call.data })) }));
+  } catch (err) {
+    // Network errors and timeouts leave it open whether the bundler took the operation
+    if (err instanceof Error && isRetryableError(err)) {
+      throw new UserOperationUnknownError(`${label}: send failed, the operation may still land: ${err.message}`);
+    }
+    throw new UserOperationFailedError(`${label}: ${errorMessage(err)}`);
+  }
+
+  let txHash: Hash | undefined;
+  try {
+    txHash = await aaClient.waitForUserOperationTransaction({ hash }) as Hash;
+  } catch (err) {
+    log.warn({ label, userOpHash: hash, error: errorMessage(err) }, 'Waiting for user operation failed, checking its receipt');
+  }
+  const result = await getUserOperationResult(aaClient, hash, txHash);
+
+  log.info({ label, calls: calls.length, userOpHash: hash, tx: result.txHash }, 'Batched user operation executed');
+  return result;
+}
@@ -0,0 +1,60 @@
+import { ACTIVE_JOBS_PAGE_SIZE, ACTIVE_JOBS_MAX_PAGES } from '../constants.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('active-jobs');
+
+interface ActiveJobsSource<T> {
+  getActiveJobs(page?: number, pageSize?: number): Promise<T[]>;
+}
+
+/**
+ * Walk every page of active ACP jobs until a short page (or the page limit) is hit.
+ */
+export async function fetchAllActiveJobs<T>(
+  client: ActiveJobsSource<T>,
+  pageSize = ACTIVE_JOBS_PAGE_SIZE,
+  maxPages = ACTIVE_JOBS_MAX_PAGES,
+): Promise<T[]> {
+  const all: T[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const jobs = await client.getActiveJobs(page, pageSize);
+    if (!jobs || !Array.isArray(jobs) || jobs.length === 0) break;
+
+    all.push(...jobs);
+    if (jobs.length < pageSize) break;
+
+    if (page === maxPages) {
+      log.warn({ maxPages, pageSize, fetched: all.length }, 'Active job page limit reached, remaining jobs deferred');
+    }
+  }
+
+  return all;
+}
+
+export interface FairRotation {
+  /**
+   * Pick up to `cap` items, starting just after the last item taken in the
+   * previous call and wrapping around, so a backlog larger than the cap is
+   * served round-robin instead of always from the first page.
+   */
+  take<T extends { id?: string | number }>(items: T[], cap: number): T[];
+}
+
+export function createFairRotation(): FairRotation {
+  let lastId: number | null = null;
+
+  return {
+    take(items, cap) {
+      if (items.length <= cap) return items;
+
+      const sorted = [...items].sort((a, b) => Number(a.id) - Number(b.id));
+      let start = lastId === null ? 0 : sorted.findIndex((item) => Number(item.id) > lastId!);
+      if (start === -1) start = 0;
+
+      const picked = Array.from({ length: cap }, (_, i) => sorted[(start + i) % sorted.length]);
+      lastId = Number(picked[picked.length - 1].id);
+      return picked;
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { createPublicClient, custom, fallback, http, type Chain, type EIP1193RequestFn, type PublicClient, type Transport } from 'viem';
+import { getNetworkProfile, type NetworkProfile } from './network.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('chain-client');
+
+export interface ChainClientOptions {
+  /** RPC endpoints in priority order; none means the chain's public RPC */
+  rpcUrls?: string[];
+  /** Distinct endpoints that must agree on a read before it's trusted (1 = plain fallback) */
+  quorum?: number;
+  /** Defaults to Base mainnet */
+  network?: NetworkProfile;
+}
+
+/**
+ * Reads whose answer doesn't drift between healthy nodes. Everything else
+ * (block number, gas price, nonces, sends) goes to the first endpoint that answers.
+ */
+const QUORUM_METHODS = new Set([
+  'eth_call',
+  'eth_getTransactionReceipt',
+  'eth_getTransactionByHash',
+  'eth_getLogs',
+  'eth_getBalance',
+  'eth_getCode',
+]);
+
+/** `RPC_URL` value: one URL or a comma-separated list */
+export function parseRpcUrls(value?: string): string[] {
+  return (value ?? '').split(',').map((u) => u.trim()).filter(Boolean);
+}
+
+/**
+ * Ask every endpoint and answer as soon as `quorum` of them agree on a result.
+ * A missing receipt/tx on some nodes usually means they're a block behind, so a
+ * failed quorum with a null among the answers reads as "not found yet".
+ */
+function quorumTransport(rpcUrls: string[], quorum: number): Transport {
+  const endpoints = rpcUrls.map((url) => http(url)({ retryCount: 1 }));
+  const first = fallback(rpcUrls.map((url) => http(url)), { rank: false })({ retryCount: 0 });
+
+  return custom({
+    async request(args: Parameters<EIP1193RequestFn>[0]) {
+      const { method } = args;
+      if (!QUORUM_METHODS.has(method)) return first.request(args);
+
+      return new Promise((resolve, reject) => {
+        const answers = new Map<string, { value: unknown; count: number }>();
+        const errors: string[] = [];
+        let pending = endpoints.length;
+        let done = false;
+
+        const settle = () => {
+          if (done || --pending > 0) return;
+          if (answers.has('null')) return resolve(null);
+          log.warn({ method, quorum, answers: answers.size, errors }, 'RPC quorum not reached');
+          reject(new Error(`RPC quorum not reached for ${method} (${quorum} of ${rpcUrls.length} endpoints)`));
+        };
+
+        for (const endpoint of endpoints) {
+          endpoint.request(args).then((value: unknown) => {
+            const key = JSON.stringify(value);
+            const entry = answers.get(key) ?? { value, count: 0 };
+            entry.count++;
+            answers.set(key, entry);
+            if (!done && entry.count >= quorum) {
+              done = true;
+              resolve(entry.value);
+            }
+            settle();
+          }, (err: Error) => {
+            errors.push(err.message);
+            settle();
+          });
+        }
+      });
+    },
+  }, { key: 'quorum', name: 'Quorum', retryCount: 0 });
+}
+
+/**
+ * Transport over the configured RPCs: the chain's public RPC when none are set,
+ * fallback across several, and quorum reads when `quorum` > 1
+ */
+export function createRpcTransport(rpcUrls: string[] = [], quorum = 1): Transport {
+  if (rpcUrls.length === 0) return http();
+  if (rpcUrls.length === 1) return http(rpcUrls[0]);
+  if (quorum > 1) return quorumTransport(rpcUrls, Math.min(quorum, rpcUrls.length));
+  return fallback(rpcUrls.map((url) => http(url)), { rank: false });
+}
+
+/**
+ * Public client for the agent's chain, shared by minting, verification and the emissions cron
+ */
+export function createChainPublicClient(options: ChainClientOptions = {}): PublicClient<Transport, Chain> {
+  return createPublicClient({
+    chain: (options.network ?? getNetworkProfile('base')).chain,
+    transport: createRpcTransport(options.rpcUrls, options.quorum),
+  }) as PublicClient<Transport, Chain>;
+}
@@ -1,51 +1,29 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import lockfile from 'proper-lockfile';
+import { getStateStore } from './state-store.js';
 import { createLogger } from './logger.js';
-import type { DedupState } from '../types.js';
+import type { ContentPod } from '../types.js';
 
 const log = createLogger('dedup');
-let DEDUP_FILE = '';
-const MAX_ENTRIES = 10_000; // Prevent unbounded growth
+
+// Long enough to cover fetch + swap + mint + metadata; short enough that a crashed holder doesn't block for long
+const PROCESSING_LOCK_TTL_MS = 10 * 60 * 1000;
 
 // In-memory cache for fast lookups
-let cache: Set<string> | null = null;
+const cache = new Set<string>();
 
-// Job processing locks (prevent concurrent processing of same tweet)
-const processingLocks = new Map<string, Promise<void>>();
+// Job processing locks held by this process (prevent concurrent processing of same tweet)
+const processingLocks = new Set<string>();
 
 // Jobs that have been minted (prevent double-minting across restarts)
 const mintedJobs = new Set<string>();
 
-function loadState(): DedupState {
-  if (!existsSync(DEDUP_FILE)) {
-    return { processedTweets: [], lastUpdated: new Date().toISOString() };
-  }
-  try {
-    return JSON.parse(readFileSync(DEDUP_FILE, 'utf-8'));
-  } catch (err) {
-    log.warn({ err }, 'Failed to load dedup state, starting fresh');
-    return { processedTweets: [], lastUpdated: new Date().toISOString() };
-  }
-}
-
-function saveState(state: DedupState): void {
-  writeFileSync(DEDUP_FILE, JSON.stringify(state, null, 2), { mode: 0o600 });
-}
-
 /**
- * Initialize dedup cache from disk
+ * Initialize dedup cache from the state store
  */
-export function initDedup(dataDir?: string): void {
-  if (dataDir) {
-    DEDUP_FILE = join(dataDir, '.reppo-dedup.json');
-  }
-  const state = loadState();
-  cache = new Set(state.processedTweets);
-  // Load minted jobs from disk
-  if (state.mintedJobs) {
-    for (const id of state.mintedJobs) mintedJobs.add(id);
-  }
+export async function initDedup(): Promise<void> {
+  const store = getStateStore();
+  const [tweets, jobs] = await Promise.all([store.listProcessedTweets(), store.listMintedJobs()]);
+  for (const id of tweets) cache.add(id);
+  for (const id of jobs) mintedJobs.add(id);
   log.info({ tweets: cache.size, jobs: mintedJobs.size }, 'Loaded dedup state');
 }
 
@@ -53,52 +31,45 @@ export function initDedup(dataDir?: string): void {
  * Check if a tweet has been processed (fast, from memory)
  */
 export function hasProcessed(tweetId: string): boolean {
-  if (!cache) initDedup();
-  return cache!.has(tweetId);
+  return cache.has(tweetId);
 }
 
 /**
- * Mark a tweet as processed (persists to disk with file locking)
+ * Check if a tweet has been processed, consulting the store on a cache miss
+ * (another replica may have processed it since we loaded)
  */
-export async function markProcessed(tweetId: string): Promise<void> {
-  if (!cache) initDedup();
-  
-  // Add to memory immediately
-  cache!.add(tweetId);
-  
-  // Persist to disk with locking
-  let release: (() => Promise<void>) | undefined;
+export async function isProcessed(tweetId: string): Promise<boolean> {
+  if (cache.has(tweetId)) return true;
   try {
-    // Create file if it doesn't exist
-    if (!existsSync(DEDUP_FILE)) {
-      saveState({ processedTweets: [], lastUpdated: new Date().toISOString() });
+    if (await getStateStore().isProcessed(tweetId)) {
+      cache.add(tweetId);
+      return true;
     }
-    
-    release = await lockfile.lock(DEDUP_FILE, { retries: 3 });
-
-    const state = loadState();
-    const existing = new Set(state.processedTweets);
-    if (!existing.has(tweetId)) {
-      state.processedTweets.push(tweetId);
+  } catch (err) {
+    log.error({ err, tweetId }, 'Failed to read dedup state, using cache');
+  }
+  return false;
+}
 
-      // Trim old entries if needed
-      if (state.processedTweets.length > MAX_ENTRIES) {
-        state.processedTweets = state.processedTweets.slice(-MAX_ENTRIES);
-      }
+/**
+ * Mark a tweet as processed (persists to the state store)
+ */
+export async function markProcessed(tweetId: string): Promise<void> {
+  // Add to memory immediately
+  cache.add(tweetId);
 
-      state.lastUpdated = new Date().toISOString();
-      saveState(state);
-    }
+  try {
+    const added = await getStateStore().markProcessed(tweetId);
+    if (!added) log.warn({ tweetId }, 'Tweet was already marked processed');
   } catch (err) {
     log.error({ err, tweetId }, 'Failed to persist dedup state');
     // Don't throw - in-memory state is still updated
-  } finally {
-    if (release) await release();
   }
 }
 
 /**
- * Acquire a processing lock for a tweet (prevents concurrent processing)
+ * Acquire a processing lock for a tweet (prevents concurrent processing,
+ * across replicas when the store is shared).
  * Returns a release function, or null if already being processed
  */
 export async function acquireProcessingLock(tweetId: string): Promise<(() => void) | null> {
@@ -107,53 +78,159 @@ export async function acquireProcessingLock(tweetId: string): Promise<(() => voi
     log.warn({ tweetId }, 'Tweet already being processed');
     return null;
   }
-  
-  // Create a lock promise
-  let releaseFn: () => void;
-  const lockPromise = new Promise<void>((resolve) => {
-    releaseFn = resolve;
-  });
-  
-  processingLocks.set(tweetId, lockPromise);
-  
+  processingLocks.add(tweetId);
+
+  const store = getStateStore();
+  const lockKey = `tweet:${tweetId}`;
+  let acquired = false;
+  try {
+    acquired = await store.acquireLock(lockKey, PROCESSING_LOCK_TTL_MS);
+  } catch (err) {
+    log.error({ err, tweetId }, 'Failed to acquire processing lock');
+  }
+  if (!acquired) {
+    processingLocks.delete(tweetId);
+    log.warn({ tweetId }, 'Tweet being processed by another replica');
+    return null;
+  }
+
+  let released = false;
   return () => {
+    if (released) return;
+    released = true;
     processingLocks.delete(tweetId);
-    releaseFn();
+    store.releaseLock(lockKey).catch((err) => {
+      log.error({ err, tweetId }, 'Failed to release processing lock');
+    });
   };
 }
 
 /**
- * Check if a job has already been minted
+ * Check if a job has already been minted (or claimed for minting), consulting the
+ * store on a cache miss (another replica may have minted it since we loaded)
  */
-export function hasJobMinted(jobId: string | number): boolean {
-  return mintedJobs.has(String(jobId));
+export async function hasJobMinted(jobId: string | number): Promise<boolean> {
+  const id = String(jobId);
+  if (mintedJobs.has(id)) return true;
+  try {
+    if (await getStateStore().isJobMinted(id)) {
+      mintedJobs.add(id);
+      return true;
+    }
+  } catch (err) {
+    log.error({ err, jobId: id }, 'Failed to read minted jobs, using cache');
+  }
+  return false;
 }
 
 /**
- * Mark a job as minted (in-memory + persisted in dedup file)
+ * Mark a job as minted (in-memory + persisted in the state store)
  */
 export async function markJobMinted(jobId: string | number): Promise<void> {
   const id = String(jobId);
   mintedJobs.add(id);
-  
-  // Also persist to disk
-  let release: (() => Promise<void>) | undefined;
+
   try {
-    if (!existsSync(DEDUP_FILE)) {
-      saveState({ processedTweets: [], lastUpdated: new Date().toISOString() });
-    }
-    release = await lockfile.lock(DEDUP_FILE, { retries: 3 });
-    const state = loadState();
-    if (!state.mintedJobs) state.mintedJobs = [];
-    if (!state.mintedJobs.includes(id)) {
-      state.mintedJobs.push(id);
-      state.lastUpdated = new Date().toISOString();
-      saveState(state);
-    }
+    const added = await getStateStore().markJobMinted(id);
+    if (!added) log.warn({ jobId: id }, 'Job was already marked minted');
   } catch (err) {
     log.error({ err, jobId: id }, 'Failed to persist minted job');
-  } finally {
-    if (release) await release();
+  }
+}
+
+/**
+ * Claim a post (and the job minting it) before the mint is sent. The conditional
+ * writes are first-writer-wins across replicas, so false means another job or
+ * replica already minted or is minting it and the caller must stop. Store errors
+ * propagate: without a claim, nothing is minted.
+ */
+export async function claimMint(contentId: string, jobId?: string | number): Promise<boolean> {
+  const store = getStateStore();
+  const id = jobId !== undefined ? String(jobId) : undefined;
+
+  if (id !== undefined && !(await store.markJobMinted(id))) {
+    mintedJobs.add(id);
+    log.warn({ jobId: id, contentId }, 'Job already claimed for minting');
+    return false;
+  }
+  let claimed: boolean;
+  try {
+    claimed = await store.markProcessed(contentId);
+  } catch (err) {
+    // Don't leave the job claimed without its post: a retry would take it for a mint in flight
+    if (id !== undefined) {
+      await store.unmarkJobMinted(id).catch((undoErr) => {
+        log.error({ err: undoErr, jobId: id, contentId }, 'Failed to undo job claim');
+      });
+    }
+    throw err;
+  }
+  if (!claimed) {
+    if (id !== undefined) await store.unmarkJobMinted(id);
+    cache.add(contentId);
+    log.warn({ jobId: id, contentId }, 'Post already claimed for minting');
+    return false;
+  }
+
+  if (id !== undefined) mintedJobs.add(id);
+  cache.add(contentId);
+  return true;
+}
+
+/**
+ * Give a claim back after a mint failed, so the job can be retried
+ */
+export async function releaseMintClaim(contentId: string, jobId?: string | number): Promise<void> {
+  const id = jobId !== undefined ? String(jobId) : undefined;
+  if (id !== undefined) mintedJobs.delete(id);
+  cache.delete(contentId);
+
+  try {
+    const store = getStateStore();
+    if (id !== undefined) await store.unmarkJobMinted(id);
+    await store.unmarkProcessed(contentId);
+  } catch (err) {
+    log.error({ err, jobId: id, contentId }, 'Failed to release mint claim — the post stays marked processed');
+  }
+}
+
+/**
+ * Existing pod of an already-processed post, if it was indexed
+ */
+export async function getContentPod(contentId: string): Promise<ContentPod | null> {
+  try {
+    return await getStateStore().getContentPod(contentId);
+  } catch (err) {
+    log.error({ err, contentId }, 'Failed to read content pod');
+    return null;
+  }
+}
+
+/**
+ * Index the pod minted for a post, merging subnets into any existing entry.
+ * Callers hold the post's processing lock, so the read-modify-write doesn't race.
+ */
+export async function recordContentPod(
+  pod: Omit<ContentPod, 'createdAt' | 'updatedAt'>,
+): Promise<void> {
+  try {
+    const store = getStateStore();
+    const existing = await store.getContentPod(pod.contentId);
+    const now = new Date().toISOString();
+    await store.putContentPod({
+      ...existing,
+      ...pod,
+      jobId: existing?.jobId ?? pod.jobId,
+      postUrl: existing?.postUrl ?? pod.postUrl,
+      ...((existing?.reppoPods || pod.reppoPods) && { reppoPods: { ...existing?.reppoPods, ...pod.reppoPods } }),
+      ...((existing?.reppoUrls || pod.reppoUrls) && { reppoUrls: { ...existing?.reppoUrls, ...pod.reppoUrls } }),
+      subnets: [...new Set([...(existing?.subnets ?? []), ...pod.subnets])],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  } catch (err) {
+    log.error({ err, contentId: pod.contentId }, 'Failed to persist content pod');
+    // Don't throw - the index only enriches duplicate handling
   }
 }
 
@@ -161,6 +238,5 @@ export async function markJobMinted(jobId: string | number): Promise<void> {
  * Get count of processed tweets
  */
 export function getProcessedCount(): number {
-  if (!cache) initDedup();
-  return cache!.size;
+  return cache.size;
 }
@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto';
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  type DynamoDBDocumentClient,
+} from '@aws-sdk/lib-dynamodb';
+import { isConditionalCheckFailed } from './dynamo.js';
+import { createLogger } from './logger.js';
+import type { StateStore } from './state-store.js';
+import type { AgentSession, ContentPod, EmissionRun, PendingJob } from '../types.js';
+
+const log = createLogger('dynamo-state-store');
+
+/**
+ * Item types in the single state table. Every item is keyed by
+ * `pk = "<type>#<id>"` and carries `type` for filtered scans.
+ */
+type ItemType = 'tweet' | 'minted-job' | 'content-pod' | 'lock' | 'pending-job' | 'session' | 'emission-run';
+
+const key = (type: ItemType, id: string) => `${type}#${id}`;
+
+const AGENT_SESSION_ID = 'agent';
+const buyerSessionId = (buyerId: string) => `buyer#${buyerId}`;
+
+/**
+ * DynamoDB-backed state store for running several replicas against shared state.
+ * Table: partition key `pk` (String), no sort key.
+ */
+export function createDynamoStateStore(docClient: DynamoDBDocumentClient, tableName: string): StateStore {
+  // Identifies this process as lock holder so we never release someone else's lock
+  const owner = randomUUID();
+
+  async function getItem(pk: string): Promise<Record<string, any> | null> {
+    const result = await docClient.send(new GetCommand({
+      TableName: tableName,
+      Key: { pk },
+      ConsistentRead: true,
+    }));
+    return result.Item ?? null;
+  }
+
+  async function scanType(type: ItemType): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let startKey: Record<string, any> | undefined;
+    do {
+      const result = await docClient.send(new ScanCommand({
+        TableName: tableName,
+        FilterExpression: '#type = :type',
+        ExpressionAttributeNames: { '#type': 'type' },
+        ExpressionAttributeValues: { ':type': type },
+        ExclusiveStartKey: startKey,
+      }));
+      items.push(...(result.Items ?? []));
+      startKey = result.LastEvaluatedKey;
+    } while (startKey);
+    return items;
+  }
+
+  /** Conditional create — false if the item already exists */
+  async function putIfAbsent(type: ItemType, id: string): Promise<boolean> {
+    try {
+      await docClient.send(new PutCommand({
+        TableName: tableName,
+        Item: { pk: key(type, id), type, id, createdAt: new Date().toISOString() },
+        ConditionExpression: 'attribute_not_exists(pk)',
+      }));
+      return true;
+    } catch (err) {
+      if (isConditionalCheckFailed(err)) return false;
+      throw err;
+    }
+  }
+
+  async function deleteItem(pk: string): Promise<void> {
+    await docClient.send(new DeleteCommand({ TableName: tableName, Key: { pk } }));
+  }
+
+  async function putData(type: ItemType, id: string, data: unknown): Promise<void> {
+    await docClient.send(new PutCommand({
+      TableName: tableName,
+      Item: { pk: key(type, id), type, id, data, updatedAt: new Date().toISOString() },
+    }));
+  }
+
+  return {
+    backend: 'dynamodb',
+
+    async listProcessedTweets() {
+      return (await scanType('tweet')).map((item) => String(item.id));
+    },
+
+    async isProcessed(tweetId) {
+      return (await getItem(key('tweet', tweetId))) !== null;
+    },
+
+    markProcessed: (tweetId) => putIfAbsent('tweet', tweetId),
+
+    unmarkProcessed: (tweetId) => deleteItem(key('tweet', tweetId)),
+
+    async listMintedJobs() {
+      return (await scanType('minted-job')).map((item) => String(item.id));
+    },
+
+    async isJobMinted(jobId) {
+      return (await getItem(key('minted-job', jobId))) !== null;
+    },
+
+    markJobMinted: (jobId) => putIfAbsent('minted-job', jobId),
+
+    unmarkJobMinted: (jobId) => deleteItem(key('minted-job', jobId)),
+
+    async getContentPod(contentId) {
+      const item = await getItem(key('content-pod', contentId));
+      return (item?.data as ContentPod | undefined) ?? null;
+    },
+
+    putContentPod: (pod) => putData('content-pod', pod.contentId, pod),
+
+    async acquireLock(lockKey, ttlMs) {
+      const now = Date.now();
+      try {
+        await docClient.send(new PutCommand({
+          TableName: tableName,
+          Item: { pk: key('lock', lockKey), type: 'lock', id: lockKey, owner, expiresAt: now + ttlMs },
+          ConditionExpression: 'attribute_not_exists(pk) OR expiresAt < :now',
+          ExpressionAttributeValues: { ':now': now },
+        }));
+        return true;
+      } catch (err) {
+        if (isConditionalCheckFailed(err)) return false;
+        throw err;
+      }
+    },
+
+    async releaseLock(lockKey) {
+      try {
+        await docClient.send(new DeleteCommand({
+          TableName: tableName,
+          Key: { pk: key('lock', lockKey) },
+          ConditionExpression: '#owner = :owner',
+          ExpressionAttributeNames: { '#owner': 'owner' },
+          ExpressionAttributeValues: { ':owner': owner },
+        }));
+      } catch (err) {
+        // Expired and taken over by another replica — nothing to release
+        if (isConditionalCheckFailed(err)) {
+          log.warn({ lockKey }, 'Lock no longer held by this process');
+          return;
+        }
+        throw err;
+      }
+    },
+
+    async listPendingJobs() {
+      return (await scanType('pending-job')).map((item) => item.data as PendingJob);
+    },
+
+    putPendingJob: (job) => putData('pending-job', job.jobId, job),
+
+    deletePendingJob: (jobId) => deleteItem(key('pending-job', jobId)),
+
+    async getAgentSession() {
+      const item = await getItem(key('session', AGENT_SESSION_ID));
+      return (item?.data as AgentSession | undefined) ?? null;
+    },
+
+    putAgentSession: (session) => putData('session', AGENT_SESSION_ID, session),
+
+    async getBuyerSession(buyerId) {
+      const item = await getItem(key('session', buyerSessionId(buyerId)));
+      return (item?.data as AgentSession | undefined) ?? null;
+    },
+
+    putBuyerSession: (buyerId, session) => putData('session', buyerSessionId(buyerId), session),
+
+    async listEmissionRuns() {
+      return (await scanType('emission-run')).map((item) => item.data as EmissionRun);
+    },
+
+    async getEmissionRun(runId) {
+      const item = await getItem(key('emission-run', runId));
+      return (item?.data as EmissionRun | undefined) ?? null;
+    },
+
+    putEmissionRun: (run) => putData('emission-run', run.runId, run),
+  };
+}
@@ -0,0 +1,43 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+
+export interface DynamoConfig {
+  DYNAMODB_ENDPOINT?: string;
+  AWS_REGION?: string;
+}
+
+/**
+ * Build a DynamoDB document client from config.
+ * A custom endpoint means DynamoDB Local (plain HTTP, dummy credentials).
+ */
+export function createDocClient(config: DynamoConfig): DynamoDBDocumentClient {
+  const endpoint = config.DYNAMODB_ENDPOINT;
+  const region = config.AWS_REGION || 'us-east-1';
+
+  // Build credentials from env (supports temporary ASIA keys with session token)
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const sessionToken = process.env.AWS_SESSION_TOKEN;
+
+  const client = new DynamoDBClient({
+    endpoint,
+    region,
+    ...(endpoint
+      ? { tls: false, credentials: { accessKeyId: 'local', secretAccessKey: 'local' } }
+      : accessKeyId && secretAccessKey
+        ? { credentials: { accessKeyId, secretAccessKey, ...(sessionToken ? { sessionToken } : {}) } }
+        : {}),
+  });
+
+  // Optional fields on our records are often undefined — drop them instead of failing the write
+  return DynamoDBDocumentClient.from(client, {
+    marshallOptions: { removeUndefinedValues: true },
+  });
+}
+
+/**
+ * True when a DynamoDB write was refused by its ConditionExpression
+ */
+export function isConditionalCheckFailed(err: unknown): boolean {
+  return (err as { name?: string } | null)?.name === 'ConditionalCheckFailedException';
+}
@@ -0,0 +1,244 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import lockfile from 'proper-lockfile';
+import { createLogger } from './logger.js';
+import type { StateStore } from './state-store.js';
+import type { AgentSession, ContentPod, DedupState, EmissionRun, PendingJob } from '../types.js';
+
+const log = createLogger('file-state-store');
+
+const MAX_DEDUP_ENTRIES = 10_000; // Prevent unbounded growth
+const MAX_EMISSION_RUNS = 500; // ~3 years of epoch-aligned runs
+
+interface PendingJobsState {
+  jobs: PendingJob[];
+  lastUpdated: string;
+}
+
+// Buyer sessions keyed by wallet address
+type BuyerSessionMap = Record<string, AgentSession>;
+
+// Content pods keyed by content ID
+type ContentPodMap = Record<string, ContentPod>;
+
+// Named locks keyed by lock key
+type LockMap = Record<string, { owner: string; expiresAt: number }>;
+
+interface EmissionRunsState {
+  runs: EmissionRun[];
+}
+
+function readJson<T>(path: string, fallback: () => T): T {
+  if (!existsSync(path)) return fallback();
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (err) {
+    log.warn({ err, path }, 'Failed to read state file, starting fresh');
+    return fallback();
+  }
+}
+
+function writeJson(path: string, data: unknown): void {
+  writeFileSync(path, JSON.stringify(data, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Read-modify-write a JSON file under an advisory lock (safe across processes on one host).
+ * `mutate` returns false to skip the write.
+ */
+async function updateJson<T>(path: string, fallback: () => T, mutate: (state: T) => boolean | void): Promise<void> {
+  if (!existsSync(path)) writeJson(path, fallback());
+
+  const release = await lockfile.lock(path, { retries: 3 });
+  try {
+    const state = readJson(path, fallback);
+    if (mutate(state) !== false) writeJson(path, state);
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * JSON-on-disk state store. Keeps the historical file names and formats so an
+ * existing DATA_DIR keeps working. Locks live in a file too, so they hold across
+ * processes on one host (the emissions CLI and the scheduler) — use the DynamoDB
+ * backend when more than one host processes jobs.
+ */
+export function createFileStateStore(dataDir: string): StateStore {
+  const dedupFile = join(dataDir, '.reppo-dedup.json');
+  const pendingFile = join(dataDir, '.reppo-pending-jobs.json');
+  const sessionFile = join(dataDir, '.reppo-session.json');
+  const buyerSessionsFile = join(dataDir, '.reppo-buyer-sessions.json');
+  const contentPodsFile = join(dataDir, '.reppo-content-pods.json');
+  const emissionRunsFile = join(dataDir, '.reppo-emission-runs.json');
+  const locksFile = join(dataDir, '.reppo-locks.json');
+
+  const emptyDedup = (): DedupState => ({ processedTweets: [], lastUpdated: new Date().toISOString() });
+  const emptyPending = (): PendingJobsState => ({ jobs: [], lastUpdated: new Date().toISOString() });
+  const emptyRuns = (): EmissionRunsState => ({ runs: [] });
+
+  const owner = randomUUID();
+  // Lock updates run in call order, so a release the caller didn't await still lands before the next acquire
+  let lockQueue: Promise<unknown> = Promise.resolve();
+  const updateLocks = (mutate: (locks: LockMap) => boolean | void): Promise<void> => {
+    const next = lockQueue.then(() => updateJson<LockMap>(locksFile, () => ({}), mutate));
+    lockQueue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    backend: 'file',
+
+    async listProcessedTweets() {
+      return readJson(dedupFile, emptyDedup).processedTweets;
+    },
+
+    async isProcessed(tweetId) {
+      return readJson(dedupFile, emptyDedup).processedTweets.includes(tweetId);
+    },
+
+    async markProcessed(tweetId) {
+      let added = false;
+      await updateJson(dedupFile, emptyDedup, (state) => {
+        if (state.processedTweets.includes(tweetId)) return false;
+        state.processedTweets.push(tweetId);
+        // Trim old entries if needed
+        if (state.processedTweets.length > MAX_DEDUP_ENTRIES) {
+          state.processedTweets = state.processedTweets.slice(-MAX_DEDUP_ENTRIES);
+        }
+        state.lastUpdated = new Date().toISOString();
+        added = true;
+      });
+      return added;
+    },
+
+    async unmarkProcessed(tweetId) {
+      await updateJson(dedupFile, emptyDedup, (state) => {
+        if (!state.processedTweets.includes(tweetId)) return false;
+        state.processedTweets = state.processedTweets.filter((id) => id !== tweetId);
+        state.lastUpdated = new Date().toISOString();
+      });
+    },
+
+    async listMintedJobs() {
+      return readJson(dedupFile, emptyDedup).mintedJobs ?? [];
+    },
+
+    async isJobMinted(jobId) {
+      return (readJson(dedupFile, emptyDedup).mintedJobs ?? []).includes(jobId);
+    },
+
+    async markJobMinted(jobId) {
+      let added = false;
+      await updateJson(dedupFile, emptyDedup, (state) => {
+        if (!state.mintedJobs) state.mintedJobs = [];
+        if (state.mintedJobs.includes(jobId)) return false;
+        state.mintedJobs.push(jobId);
+        state.lastUpdated = new Date().toISOString();
+        added = true;
+      });
+      return added;
+    },
+
+    async unmarkJobMinted(jobId) {
+      await updateJson(dedupFile, emptyDedup, (state) => {
+        if (!state.mintedJobs?.includes(jobId)) return false;
+        state.mintedJobs = state.mintedJobs.filter((id) => id !== jobId);
+        state.lastUpdated = new Date().toISOString();
+      });
+    },
+
+    async getContentPod(contentId) {
+      return readJson<ContentPodMap>(contentPodsFile, () => ({}))[contentId] ?? null;
+    },
+
+    async putContentPod(pod) {
+      await updateJson<ContentPodMap>(contentPodsFile, () => ({}), (pods) => {
+        pods[pod.contentId] = pod;
+      });
+    },
+
+    async acquireLock(key, ttlMs) {
+      let acquired = false;
+      await updateLocks((locks) => {
+        const now = Date.now();
+        if (locks[key] && locks[key].expiresAt > now) return false;
+        locks[key] = { owner, expiresAt: now + ttlMs };
+        acquired = true;
+      });
+      return acquired;
+    },
+
+    async releaseLock(key) {
+      await updateLocks((locks) => {
+        // Expired and taken over by another process — nothing to release
+        if (locks[key]?.owner !== owner) {
+          if (locks[key]) log.warn({ key }, 'Lock no longer held by this process');
+          return false;
+        }
+        delete locks[key];
+      });
+    },
+
+    async listPendingJobs() {
+      return readJson(pendingFile, emptyPending).jobs;
+    },
+
+    async putPendingJob(job) {
+      await updateJson(pendingFile, emptyPending, (state) => {
+        const idx = state.jobs.findIndex((j) => j.jobId === job.jobId);
+        if (idx >= 0) state.jobs[idx] = job;
+        else state.jobs.push(job);
+        state.lastUpdated = new Date().toISOString();
+      });
+    },
+
+    async deletePendingJob(jobId) {
+      await updateJson(pendingFile, emptyPending, (state) => {
+        const before = state.jobs.length;
+        state.jobs = state.jobs.filter((j) => j.jobId !== jobId);
+        if (state.jobs.length === before) return false;
+        state.lastUpdated = new Date().toISOString();
+      });
+    },
+
+    async getAgentSession() {
+      const data = readJson<AgentSession | null>(sessionFile, () => null);
+      return data?.agentId && data.accessToken ? data : null;
+    },
+
+    async putAgentSession(session) {
+      writeJson(sessionFile, session);
+    },
+
+    async getBuyerSession(buyerId) {
+      return readJson<BuyerSessionMap>(buyerSessionsFile, () => ({}))[buyerId] ?? null;
+    },
+
+    async putBuyerSession(buyerId, session) {
+      await updateJson<BuyerSessionMap>(buyerSessionsFile, () => ({}), (sessions) => {
+        sessions[buyerId] = session;
+      });
+    },
+
+    async listEmissionRuns() {
+      return readJson(emissionRunsFile, emptyRuns).runs;
+    },
+
+    async getEmissionRun(runId) {
+      return readJson(emissionRunsFile, emptyRuns).runs.find((r) => r.runId === runId) ?? null;
+    },
+
+    async putEmissionRun(run) {
+      await updateJson(emissionRunsFile, emptyRuns, (state) => {
+        const idx = state.runs.findIndex((r) => r.runId === run.runId);
+        if (idx >= 0) state.runs[idx] = run;
+        else state.runs.push(run);
+        if (state.runs.length > MAX_EMISSION_RUNS) {
+          state.runs = state.runs.slice(-MAX_EMISSION_RUNS);
+        }
+      });
+    },
+  };
+}
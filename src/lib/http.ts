@@ -25,6 +25,8 @@ export interface RetryOptions {
   maxRetries?: number;
   baseDelay?: number;
   shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Called before each retry (after a failed attempt that will be retried) */
+  onRetry?: (error: Error, attempt: number) => void;
 }
 
 export async function withRetry<T>(
@@ -36,6 +38,7 @@ export async function withRetry<T>(
     maxRetries = MAX_RETRIES, 
     baseDelay = RETRY_BASE_DELAY,
     shouldRetry = () => true,
+    onRetry,
   } = options;
   
   let lastError: Error | undefined;
@@ -50,6 +53,7 @@ export async function withRetry<T>(
       }
       
       const delay = baseDelay * Math.pow(2, attempt - 1);
+      onRetry?.(lastError, attempt);
       log.warn({ attempt, maxRetries, label, delay, error: lastError.message }, 'Retrying operation');
       await new Promise((r) => setTimeout(r, delay));
     }
@@ -0,0 +1,45 @@
+import { createLogger } from './logger.js';
+
+const log = createLogger('interval-task');
+
+export interface IntervalTask {
+  /** Stop scheduling and wait for an in-flight run to finish */
+  stop(): Promise<void>;
+}
+
+/**
+ * Run `task` every `intervalMs` (measured from the end of the previous run, so runs never overlap).
+ * Errors are logged and don't stop the schedule.
+ */
+export function startIntervalTask(name: string, intervalMs: number, task: () => Promise<void>): IntervalTask {
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<void> | null = null;
+
+  const schedule = () => {
+    if (stopped) return;
+    timer = setTimeout(() => {
+      timer = null;
+      inFlight = task()
+        .catch((err) => {
+          log.error({ task: name, error: err instanceof Error ? err.message : err }, 'Scheduled task failed');
+        })
+        .finally(() => {
+          inFlight = null;
+          schedule();
+        });
+    }, intervalMs);
+  };
+
+  schedule();
+  log.info({ task: name, intervalMs }, 'Scheduled task started');
+
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      await inFlight;
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Minimal Prometheus metrics (text exposition format 0.0.4).
+ * Counters, gauges and histograms with fixed label names, rendered by `renderMetrics()`.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const registry: Metric[] = [];
+
+const DEFAULT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/** Stable series key from label values, in declared label order */
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+  return JSON.stringify(labelNames.map((n) => labels[n] ?? ''));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(labelNames.map((n) => [n, labels[n] ?? '']));
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(value: number, labels?: Labels): void;
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void;
+  /** Start a timer; call the returned function to record elapsed seconds */
+  startTimer(labels?: Labels): (endLabels?: Labels) => number;
+}
+
+export function createCounter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  registry.push({
+    name, help, type: 'counter',
+    render: () => [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`),
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      const entry = series.get(key) ?? { labels: pickLabels(labelNames, labels), value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * @param collect - optional hook run right before rendering (for values computed at scrape time)
+ */
+export function createGauge(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = [],
+  collect?: (gauge: Gauge) => void,
+): Gauge {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  const gauge: Gauge = {
+    set(value, labels = {}) {
+      series.set(seriesKey(labelNames, labels), { labels: pickLabels(labelNames, labels), value });
+    },
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      const entry = series.get(key) ?? { labels: pickLabels(labelNames, labels), value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+
+  registry.push({
+    name, help, type: 'gauge',
+    render: () => {
+      collect?.(gauge);
+      return [...series.values()].map((s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+    },
+  });
+
+  return gauge;
+}
+
+export function createHistogram(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = [],
+  buckets: readonly number[] = DEFAULT_BUCKETS,
+): Histogram {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  const observe = (value: number, labels: Labels = {}) => {
+    const key = seriesKey(labelNames, labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { labels: pickLabels(labelNames, labels), counts: bounds.map(() => 0), sum: 0, count: 0 };
+      series.set(key, entry);
+    }
+    for (let i = 0; i < bounds.length; i++) {
+      if (value <= bounds[i]) entry.counts[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  };
+
+  registry.push({
+    name, help, type: 'histogram',
+    render: () => [...series.values()].flatMap((s) => [
+      ...bounds.map((le, i) => `${name}_bucket${formatLabels({ ...s.labels, le: formatValue(le) })} ${s.counts[i]}`),
+      `${name}_bucket${formatLabels({ ...s.labels, le: '+Inf' })} ${s.count}`,
+      `${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`,
+      `${name}_count${formatLabels(s.labels)} ${s.count}`,
+    ]),
+  });
+
+  return {
+    observe,
+    startTimer(labels = {}) {
+      const start = process.hrtime.bigint();
+      return (endLabels = {}) => {
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+        observe(seconds, { ...labels, ...endLabels });
+        return seconds;
+      };
+    },
+  };
+}
+
+/**
+ * Render every registered metric in Prometheus text format
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of registry) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return lines.join('\n') + '\n';
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// === Agent metrics ===
+
+export const jobsAccepted = createCounter('reppo_jobs_accepted_total', 'ACP jobs accepted');
+export const jobsRejected = createCounter('reppo_jobs_rejected_total', 'ACP jobs rejected, by reason', ['reason']);
+export const jobsDelivered = createCounter('reppo_jobs_delivered_total', 'ACP jobs delivered, by whether any subnet failed', ['partial']);
+
+export const mintDuration = createHistogram('reppo_mint_duration_seconds', 'Pod mint latency (fee check, swap, approve, mint, receipt)', ['status']);
+
+export const tweetFetchDuration = createHistogram('reppo_tweet_fetch_duration_seconds', 'X post fetch latency including retries', ['status']);
+export const tweetFetchRetries = createCounter('reppo_tweet_fetch_retries_total', 'X API retry attempts');
+
+export const metadataSubmissions = createCounter('reppo_metadata_submissions_total', 'Reppo pod metadata submissions, by subnet and status', ['subnet', 'status']);
+
+export const reppoBalance = createGauge('reppo_wallet_reppo_balance', 'REPPO balance of the paying wallet at last check (tokens)');
+export const publishingFee = createGauge('reppo_publishing_fee', 'On-chain pod publishing fee at last check (REPPO)');
+
+export const emissionsClaimed = createCounter('reppo_emissions_claims_total', 'Pod emission claims, by where the amount came from', ['source']);
+export const emissionsReconciliationMismatches = createCounter('reppo_emissions_reconciliation_mismatches_total', 'Emission runs whose AA wallet balance change did not match the ledger');
+
+let lastPollAt: number | null = null;
+
+/** Record that a poll cycle finished (drives reppo_poll_lag_seconds) */
+export function markPollCompleted(): void {
+  lastPollAt = Date.now();
+}
+
+export const pollLag = createGauge('reppo_poll_lag_seconds', 'Seconds since the last completed ACP poll', [], (gauge) => {
+  if (lastPollAt !== null) gauge.set((Date.now() - lastPollAt) / 1000);
+});
+export const pollDuration = createHistogram('reppo_poll_duration_seconds', 'Duration of one ACP poll cycle (fetch + dispatch)', [], [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]);
+export const activeJobs = createGauge('reppo_active_jobs', 'Active ACP jobs seen in the last poll');
+export const workerPoolJobs = createGauge('reppo_worker_pool_jobs', 'Jobs in the worker pool, by state', ['state']);
@@ -0,0 +1,20 @@
+export interface Mutex {
+  /** Run `fn` once every previously queued holder has finished */
+  runExclusive<T>(fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Minimal in-process async mutex (FIFO).
+ */
+export function createMutex(): Mutex {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return {
+    runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+      const result = tail.then(fn, fn);
+      // Keep the chain alive regardless of how this holder settles
+      tail = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
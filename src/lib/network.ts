@@ -0,0 +1,98 @@
+import type { Address, Chain } from 'viem';
+import { base, baseSepolia } from 'viem/chains';
+import {
+  POD_CONTRACT,
+  REPPO_TOKEN,
+  USDC_TOKEN,
+  WETH_TOKEN,
+  UNISWAP_ROUTER,
+  UNISWAP_QUOTER,
+} from '../constants.js';
+
+export type NetworkName = 'base' | 'base-sepolia';
+
+export interface NetworkContracts {
+  podContract: Address;
+  reppoToken: Address;
+  usdcToken: Address;
+  wethToken: Address;
+  /** Uniswap V3 SwapRouter02 */
+  uniswapRouter: Address;
+  /** Uniswap V3 QuoterV2 */
+  uniswapQuoter: Address;
+}
+
+/**
+ * Everything that differs between mainnet and testnet runs: chain, contract
+ * addresses, block explorer and the Reppo API the pods are registered with
+ */
+export interface NetworkProfile extends NetworkContracts {
+  name: NetworkName;
+  chain: Chain;
+  explorerUrl: string;
+  reppoApiUrl?: string;
+}
+
+type ProfileDefaults = Omit<NetworkProfile, 'podContract' | 'reppoToken'> & Partial<NetworkContracts>;
+
+const PROFILES: Record<NetworkName, ProfileDefaults> = {
+  base: {
+    name: 'base',
+    chain: base,
+    podContract: POD_CONTRACT,
+    reppoToken: REPPO_TOKEN,
+    usdcToken: USDC_TOKEN,
+    wethToken: WETH_TOKEN,
+    uniswapRouter: UNISWAP_ROUTER,
+    uniswapQuoter: UNISWAP_QUOTER,
+    explorerUrl: 'https://basescan.org',
+    reppoApiUrl: 'https://reppo.ai/api/v1',
+  },
+  // Reppo's testnet deployment isn't published: POD_CONTRACT and REPPO_TOKEN must be set
+  'base-sepolia': {
+    name: 'base-sepolia',
+    chain: baseSepolia,
+    usdcToken: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    wethToken: '0x4200000000000000000000000000000000000006',
+    uniswapRouter: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
+    uniswapQuoter: '0xC5290058841028F1614F3A6F0F5816cAd0df5E27',
+    explorerUrl: 'https://sepolia.basescan.org',
+  },
+};
+
+/** Env vars that override a profile's contract addresses */
+export const CONTRACT_ENV_VARS: Record<keyof NetworkContracts, string> = {
+  podContract: 'POD_CONTRACT',
+  reppoToken: 'REPPO_TOKEN',
+  usdcToken: 'USDC_TOKEN',
+  wethToken: 'WETH_TOKEN',
+  uniswapRouter: 'UNISWAP_ROUTER',
+  uniswapQuoter: 'UNISWAP_QUOTER',
+};
+
+/**
+ * The profile for `name`, with contract addresses overridden from `env`.
+ * Throws when a contract has neither a default nor an override.
+ */
+export function getNetworkProfile(
+  name: NetworkName,
+  env: Record<string, string | undefined> = {},
+): NetworkProfile {
+  const profile = { ...PROFILES[name] };
+  for (const [key, envVar] of Object.entries(CONTRACT_ENV_VARS) as Array<[keyof NetworkContracts, string]>) {
+    const override = env[envVar];
+    if (override) {
+      if (!/^0x[a-fA-F0-9]{40}$/.test(override)) {
+        throw new Error(`${envVar} must be a valid Ethereum address (0x + 40 hex chars)`);
+      }
+      profile[key] = override as Address;
+    }
+    if (!profile[key]) throw new Error(`${envVar} is required on ${name} (no default address)`);
+  }
+  return profile as NetworkProfile;
+}
+
+/** Explorer link for a transaction */
+export function explorerTxUrl(network: Pick<NetworkProfile, 'explorerUrl'>, txHash: string): string {
+  return `${network.explorerUrl}/tx/${txHash}`;
+}
@@ -1,73 +1,38 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import lockfile from 'proper-lockfile';
+import { getStateStore } from './state-store.js';
+import { PENDING_RETRY_MAX_DELAY } from '../constants.js';
 import { createLogger } from './logger.js';
-import type { PendingJob, PendingJobStatus } from '../types.js';
+import type { PendingBatchItem, PendingJob, PendingJobStatus } from '../types.js';
 
 const log = createLogger('pending-jobs');
-let PENDING_FILE = '';
 const COMPLETED_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
 // In-memory cache
 const jobs = new Map<string, PendingJob>();
 
-interface PendingJobsState {
-  jobs: PendingJob[];
-  lastUpdated: string;
-}
-
-function loadState(): PendingJobsState {
-  if (!existsSync(PENDING_FILE)) {
-    return { jobs: [], lastUpdated: new Date().toISOString() };
-  }
+async function persist(job: PendingJob): Promise<void> {
   try {
-    return JSON.parse(readFileSync(PENDING_FILE, 'utf-8'));
-  } catch (err) {
-    log.warn({ err }, 'Failed to load pending jobs state, starting fresh');
-    return { jobs: [], lastUpdated: new Date().toISOString() };
-  }
-}
-
-function saveState(state: PendingJobsState): void {
-  writeFileSync(PENDING_FILE, JSON.stringify(state, null, 2), { mode: 0o600 });
-}
-
-function persist(): void {
-  const state: PendingJobsState = {
-    jobs: Array.from(jobs.values()),
-    lastUpdated: new Date().toISOString(),
-  };
-  saveState(state);
-}
-
-async function persistWithLock(): Promise<void> {
-  let release: (() => Promise<void>) | undefined;
-  try {
-    if (!existsSync(PENDING_FILE)) {
-      saveState({ jobs: [], lastUpdated: new Date().toISOString() });
-    }
-    release = await lockfile.lock(PENDING_FILE, { retries: 3 });
-    persist();
+    await getStateStore().putPendingJob(job);
   } catch (err) {
-    log.error({ err }, 'Failed to persist pending jobs');
-  } finally {
-    if (release) await release();
+    log.error({ err, jobId: job.jobId }, 'Failed to persist pending job');
   }
 }
 
 /**
- * Initialize pending jobs from disk, purge old completed entries
+ * Initialize pending jobs from the state store, purge old completed entries
  */
-export function initPendingJobs(dataDir: string): void {
-  PENDING_FILE = join(dataDir, '.reppo-pending-jobs.json');
-  const state = loadState();
+export async function initPendingJobs(): Promise<void> {
+  const store = getStateStore();
+  const stored = await store.listPendingJobs();
 
   const now = Date.now();
-  for (const job of state.jobs) {
+  for (const job of stored) {
     // Purge completed jobs older than 7 days
     if (job.status === 'completed') {
       const age = now - new Date(job.updatedAt).getTime();
-      if (age > COMPLETED_TTL_MS) continue;
+      if (age > COMPLETED_TTL_MS) {
+        await store.deletePendingJob(job.jobId);
+        continue;
+      }
     }
     // Migrate legacy subnet → subnets
     if (!job.subnets && (job as any).subnet) {
@@ -85,7 +50,7 @@ export function initPendingJobs(dataDir: string): void {
  */
 export async function savePendingJob(job: PendingJob): Promise<void> {
   jobs.set(job.jobId, job);
-  await persistWithLock();
+  await persist(job);
   log.info({ jobId: job.jobId, status: job.status }, 'Pending job saved');
 }
 
@@ -104,25 +69,86 @@ export async function updatePendingJobStatus(
   job.updatedAt = new Date().toISOString();
   if (extra) Object.assign(job, extra);
 
-  await persistWithLock();
+  await persist(job);
   log.info({ jobId, status }, 'Pending job status updated');
 }
 
+/**
+ * Record a subnet whose metadata landed (with the Reppo pod ID when known),
+ * so recovery doesn't resubmit it and can still link the pod
+ */
+export async function markSubnetCompleted(jobId: string, subnetId: string, reppoPodId?: string): Promise<void> {
+  const job = jobs.get(jobId);
+  if (!job) return;
+
+  const completed = job.completedSubnets ?? [];
+  if (completed.includes(subnetId)) return;
+  job.completedSubnets = [...completed, subnetId];
+  if (reppoPodId) job.reppoPods = { ...job.reppoPods, [subnetId]: reppoPodId };
+
+  await persist(job);
+}
+
+/**
+ * Update one item of a batch job (mint result, failure)
+ */
+export async function updateBatchItem(jobId: string, index: number, fields: Partial<PendingBatchItem>): Promise<void> {
+  const item = jobs.get(jobId)?.items?.[index];
+  if (!item) return;
+
+  Object.assign(item, fields);
+  await persist(jobs.get(jobId)!);
+  log.info({ jobId, index, status: item.status }, 'Batch item updated');
+}
+
+/**
+ * Per-item counterpart of markSubnetCompleted for batch jobs
+ */
+export async function markBatchItemSubnetCompleted(jobId: string, index: number, subnetId: string, reppoPodId?: string): Promise<void> {
+  const item = jobs.get(jobId)?.items?.[index];
+  if (!item) return;
+
+  const completed = item.completedSubnets ?? [];
+  if (completed.includes(subnetId)) return;
+  item.completedSubnets = [...completed, subnetId];
+  if (reppoPodId) item.reppoPods = { ...item.reppoPods, [subnetId]: reppoPodId };
+
+  await persist(jobs.get(jobId)!);
+}
+
 /**
  * Remove a pending job (after successful completion)
  */
 export async function removePendingJob(jobId: string): Promise<void> {
   if (!jobs.has(jobId)) return;
   jobs.delete(jobId);
-  await persistWithLock();
+  try {
+    await getStateStore().deletePendingJob(jobId);
+  } catch (err) {
+    log.error({ err, jobId }, 'Failed to remove pending job from store');
+  }
   log.info({ jobId }, 'Pending job removed');
 }
 
 /**
- * Get all non-completed pending jobs (for retry on startup)
+ * Get all pending jobs that still need work (not completed, not dead-lettered)
  */
 export function getPendingJobs(): PendingJob[] {
-  return Array.from(jobs.values()).filter((j) => j.status !== 'completed');
+  return Array.from(jobs.values()).filter((j) => j.status !== 'completed' && j.status !== 'dead_letter');
+}
+
+/**
+ * Get jobs that exhausted their retries and need operator attention
+ */
+export function getDeadLetterJobs(): PendingJob[] {
+  return Array.from(jobs.values()).filter((j) => j.status === 'dead_letter');
+}
+
+/**
+ * Get every pending job, including completed ones still within their TTL
+ */
+export function getAllPendingJobs(): PendingJob[] {
+  return Array.from(jobs.values());
 }
 
 /**
@@ -143,6 +169,21 @@ export async function recordPendingJobError(jobId: string, msg: string): Promise
   job.lastError = msg;
   job.updatedAt = new Date().toISOString();
 
-  await persistWithLock();
+  await persist(job);
   log.warn({ jobId, retryCount: job.retryCount, error: msg }, 'Pending job error recorded');
 }
+
+/**
+ * Exponential backoff delay before the next retry: base * 2^(retryCount - 1), capped
+ */
+export function retryDelayMs(retryCount: number, baseDelayMs: number, maxDelayMs = PENDING_RETRY_MAX_DELAY): number {
+  if (retryCount <= 0) return 0;
+  return Math.min(baseDelayMs * 2 ** (retryCount - 1), maxDelayMs);
+}
+
+/**
+ * Whether a job's backoff since its last update has elapsed
+ */
+export function isRetryDue(job: PendingJob, baseDelayMs: number, now = Date.now()): boolean {
+  return now >= new Date(job.updatedAt).getTime() + retryDelayMs(job.retryCount, baseDelayMs);
+}
@@ -1,35 +1,17 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, GetCommand, QueryCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { createDocClient, type DynamoConfig } from './dynamo.js';
 import { createLogger } from './logger.js';
+import type { EmissionSource, PayoutSplit } from '../types.js';
 
 const log = createLogger('pods');
 
 const TABLE_NAME = 'reppo-pods';
 
-let client: DynamoDBClient | null = null;
 let docClient: DynamoDBDocumentClient | null = null;
 
-export function initPods(config: { DYNAMODB_ENDPOINT?: string; AWS_REGION?: string }): void {
-  const endpoint = config.DYNAMODB_ENDPOINT;
-  const region = config.AWS_REGION || 'us-east-1';
-  
-  // Build credentials from env (supports temporary ASIA keys with session token)
-  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
-  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-  const sessionToken = process.env.AWS_SESSION_TOKEN;
-  
-  client = new DynamoDBClient({
-    endpoint,
-    region,
-    ...(endpoint
-      ? { tls: false, credentials: { accessKeyId: 'local', secretAccessKey: 'local' } }
-      : accessKeyId && secretAccessKey
-        ? { credentials: { accessKeyId, secretAccessKey, ...(sessionToken ? { sessionToken } : {}) } }
-        : {}),
-  });
-  
-  docClient = DynamoDBDocumentClient.from(client);
-  log.info({ endpoint: endpoint ?? 'aws', region }, 'DynamoDB client initialized');
+export function initPods(config: DynamoConfig, client: DynamoDBDocumentClient = createDocClient(config)): void {
+  docClient = client;
+  log.info({ endpoint: config.DYNAMODB_ENDPOINT ?? 'aws', region: config.AWS_REGION || 'us-east-1' }, 'DynamoDB client initialized');
 }
 
 export interface PodRecord {
@@ -45,6 +27,36 @@ export interface PodRecord {
   lastClaimedEpoch?: number;
   /** Total REPPO emissions sent to buyer across all epochs */
   totalEmissions?: number;
+  /** Emissions claimed for the pod, one entry per epoch */
+  epochClaims?: PodEpochClaim[];
+  /** ACP offering (job name) the pod was sold through */
+  offering?: string;
+  /** Owner share of emissions the pod was minted with (percent) */
+  emissionShare?: number;
+  /** Payout split at mint time; pods without one pay everything to the buyer */
+  payoutSplit?: PayoutSplit;
+  /** Buyer shares held below the minimum payout, paid with the buyer's next payout */
+  pendingPayouts?: PendingPayout[];
+}
+
+export interface PodEpochClaim {
+  epoch: number;
+  /** REPPO received by the AA wallet (wei) */
+  amount: string;
+  /** Unknown when a batched claim landed but its result was lost */
+  txHash?: string;
+  source: EmissionSource;
+  claimedAt: string;
+}
+
+export interface PendingPayout {
+  /** Emission run that held the amount back */
+  runId: string;
+  /** Buyer share (wei) */
+  amount: string;
+  /** Last epoch the amount covers */
+  epoch: number;
+  heldAt: string;
 }
 
 async function getDocClient(): Promise<DynamoDBDocumentClient> {
@@ -54,27 +66,35 @@ async function getDocClient(): Promise<DynamoDBDocumentClient> {
   return docClient;
 }
 
+/**
+ * Record a minted pod. Mint fields are only set where missing, so saving the pod
+ * again (a retried job's recovery) keeps its emissions, claims and held payouts.
+ */
 export async function savePod(
   podId: number,
   buyerWallet: string,
   mintTxHash: string,
   buyerAgentId?: string,
   jobId?: number,
+  payout: Pick<PodRecord, 'offering' | 'emissionShare' | 'payoutSplit'> = {},
 ): Promise<void> {
   const dc = await getDocClient();
-  await dc.send(new PutCommand({
+  const fields = Object.entries({
+    buyerWallet,
+    buyerAgentId,
+    mintTxHash,
+    jobId,
+    createdAt: new Date().toISOString(),
+    claimed: false,
+    ...payout,
+  }).filter(([, value]) => value !== undefined);
+  await dc.send(new UpdateCommand({
     TableName: TABLE_NAME,
-    Item: {
-      podId,
-      buyerWallet,
-      buyerAgentId,
-      mintTxHash,
-      jobId,
-      createdAt: new Date().toISOString(),
-      claimed: false,
-    },
+    Key: { podId },
+    UpdateExpression: `SET ${fields.map(([name]) => `${name} = if_not_exists(${name}, :${name})`).join(', ')}`,
+    ExpressionAttributeValues: Object.fromEntries(fields.map(([name, value]) => [`:${name}`, value])),
   }));
-  log.info({ podId, buyerWallet, jobId }, 'Pod saved to DynamoDB');
+  log.info({ podId, buyerWallet, jobId, offering: payout.offering }, 'Pod saved to DynamoDB');
 }
 
 /**
@@ -144,6 +164,55 @@ export async function updatePodEmissions(
   log.info({ podId, lastClaimedEpoch, emissionsThisRun }, 'Pod emissions updated');
 }
 
+/**
+ * Append the pod's claimed epochs and their amounts, before the REPPO is forwarded
+ */
+export async function recordPodEpochClaims(podId: number, claims: PodEpochClaim[]): Promise<void> {
+  if (claims.length === 0) return;
+  const dc = await getDocClient();
+  await dc.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: { podId },
+    UpdateExpression: 'SET epochClaims = list_append(if_not_exists(epochClaims, :empty), :claims)',
+    ExpressionAttributeValues: {
+      ':claims': claims,
+      ':empty': [],
+    },
+  }));
+  log.info({ podId, epochs: claims.map((c) => c.epoch) }, 'Pod epoch claims recorded');
+}
+
+/**
+ * Carry a buyer share below the minimum payout forward on the pod
+ */
+export async function holdPodPayout(podId: number, payout: PendingPayout): Promise<void> {
+  const dc = await getDocClient();
+  await dc.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: { podId },
+    UpdateExpression: 'SET pendingPayouts = list_append(if_not_exists(pendingPayouts, :empty), :payouts)',
+    ExpressionAttributeValues: {
+      ':payouts': [payout],
+      ':empty': [],
+    },
+  }));
+  log.info({ podId, runId: payout.runId, amount: payout.amount }, 'Pod payout held');
+}
+
+/**
+ * Clear the pod's held payouts once a run has taken them over for transfer
+ */
+export async function releasePodPayouts(podId: number): Promise<void> {
+  const dc = await getDocClient();
+  await dc.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: { podId },
+    UpdateExpression: 'SET pendingPayouts = :empty',
+    ExpressionAttributeValues: { ':empty': [] },
+  }));
+  log.info({ podId }, 'Pod held payouts released');
+}
+
 /** @deprecated Use updatePodEmissions */
 export async function markPodClaimed(podId: number, amount: number): Promise<void> {
   await updatePodEmissions(podId, 0, amount);
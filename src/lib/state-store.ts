@@ -0,0 +1,88 @@
+import { createFileStateStore } from './file-state-store.js';
+import { createDynamoStateStore } from './dynamo-state-store.js';
+import { createDocClient } from './dynamo.js';
+import { createLogger } from './logger.js';
+import type { Config } from '../config.js';
+import type { AgentSession, ContentPod, EmissionRun, PendingJob } from '../types.js';
+
+const log = createLogger('state-store');
+
+export type StateBackend = 'file' | 'dynamodb';
+
+/**
+ * Persistence for agent state shared between replicas: dedup markers and the
+ * content → pod index, the pending-job WAL, processing locks and Reppo sessions.
+ *
+ * `markProcessed`, `markJobMinted` and `acquireLock` are first-writer-wins:
+ * they return false when the key is already held, so two replicas never
+ * both believe they own the same tweet or job. The markers are written before
+ * a mint as its claim; `unmark*` gives a claim back when the mint fails.
+ */
+export interface StateStore {
+  readonly backend: StateBackend;
+
+  // Dedup
+  listProcessedTweets(): Promise<string[]>;
+  isProcessed(tweetId: string): Promise<boolean>;
+  markProcessed(tweetId: string): Promise<boolean>;
+  unmarkProcessed(tweetId: string): Promise<void>;
+  listMintedJobs(): Promise<string[]>;
+  isJobMinted(jobId: string): Promise<boolean>;
+  markJobMinted(jobId: string): Promise<boolean>;
+  unmarkJobMinted(jobId: string): Promise<void>;
+
+  // Content → pod index (existing pod of an already-processed post)
+  getContentPod(contentId: string): Promise<ContentPod | null>;
+  putContentPod(pod: ContentPod): Promise<void>;
+
+  // Processing locks (expire after ttlMs so a crashed holder can't block forever)
+  acquireLock(key: string, ttlMs: number): Promise<boolean>;
+  releaseLock(key: string): Promise<void>;
+
+  // Pending-job WAL
+  listPendingJobs(): Promise<PendingJob[]>;
+  putPendingJob(job: PendingJob): Promise<void>;
+  deletePendingJob(jobId: string): Promise<void>;
+
+  // Reppo sessions
+  getAgentSession(): Promise<AgentSession | null>;
+  putAgentSession(session: AgentSession): Promise<void>;
+  getBuyerSession(buyerId: string): Promise<AgentSession | null>;
+  putBuyerSession(buyerId: string, session: AgentSession): Promise<void>;
+
+  // Emissions claim run ledger
+  listEmissionRuns(): Promise<EmissionRun[]>;
+  getEmissionRun(runId: string): Promise<EmissionRun | null>;
+  putEmissionRun(run: EmissionRun): Promise<void>;
+}
+
+let store: StateStore | null = null;
+
+/** The config the state store needs, for scripts that don't load the full agent config */
+export type StateStoreConfig = Pick<Config, 'STATE_BACKEND' | 'STATE_TABLE_NAME' | 'DATA_DIR' | 'DYNAMODB_ENDPOINT' | 'AWS_REGION'>;
+
+export function createStateStore(config: StateStoreConfig): StateStore {
+  if (config.STATE_BACKEND === 'dynamodb') {
+    return createDynamoStateStore(createDocClient(config), config.STATE_TABLE_NAME);
+  }
+  return createFileStateStore(config.DATA_DIR);
+}
+
+/**
+ * Initialize the process-wide state store from config
+ */
+export function initStateStore(config: StateStoreConfig): StateStore {
+  store = createStateStore(config);
+  log.info({
+    backend: store.backend,
+    ...(store.backend === 'dynamodb' ? { table: config.STATE_TABLE_NAME } : { dataDir: config.DATA_DIR }),
+  }, 'State store initialized');
+  return store;
+}
+
+export function getStateStore(): StateStore {
+  if (!store) {
+    throw new Error('State store not initialized. Call initStateStore() first.');
+  }
+  return store;
+}
@@ -1,34 +1,76 @@
-import { createPublicClient, http } from 'viem';
-import { base, baseSepolia } from 'viem/chains';
+import { decodeEventLog, zeroAddress, TransactionReceiptNotFoundError, type Address, type PublicClient, type TransactionReceipt } from 'viem';
+import { POD_ABI } from '../constants.js';
 import { createLogger } from './logger.js';
 
 const log = createLogger('verify');
 
+export type PodMintCheck =
+  | { ok: true; podId: bigint; owner: Address }
+  | { ok: false; reason: string };
+
 /**
- * Verify that a mint transaction was successful on-chain.
- * Returns true if the tx exists and succeeded (status = 'success').
+ * Pods minted by a receipt: `podContract` Transfer events from the zero address.
+ * Other contracts' Transfer logs (e.g. the REPPO fee payment) are ignored.
  */
-export async function verifyMintTx(txHash: string, testnet = false): Promise<boolean> {
-  const chain = testnet ? baseSepolia : base;
-  const client = createPublicClient({
-    chain,
-    transport: http(),
-  });
+export function findPodMints(
+  receipt: Pick<TransactionReceipt, 'logs'>,
+  podContract: Address,
+): Array<{ podId: bigint; owner: Address }> {
+  const mints: Array<{ podId: bigint; owner: Address }> = [];
+  for (const entry of receipt.logs) {
+    if (entry.address.toLowerCase() !== podContract.toLowerCase()) continue;
+    try {
+      const event = decodeEventLog({ abi: POD_ABI, data: entry.data, topics: entry.topics });
+      if (event.eventName !== 'Transfer') continue;
+      const { from, to, tokenId } = event.args as { from: Address; to: Address; tokenId: bigint };
+      if (from.toLowerCase() === zeroAddress) mints.push({ podId: tokenId, owner: to });
+    } catch {
+      // Not a matching event
+    }
+  }
+  return mints;
+}
 
+/**
+ * Verify that `txHash` minted pod `podId` to one of `owners` (our AA wallet or EOA).
+ * A successful receipt alone isn't enough: any tx hash would pass. Throws when the
+ * receipt can't be read for any reason other than the tx not existing.
+ */
+export async function verifyPodMint(
+  publicClient: Pick<PublicClient, 'getTransactionReceipt'>,
+  podContract: Address,
+  txHash: string,
+  expected: { podId: bigint; owners: string[] },
+): Promise<PodMintCheck> {
+  let receipt: TransactionReceipt;
   try {
-    const receipt = await client.getTransactionReceipt({
+    receipt = await publicClient.getTransactionReceipt({
       hash: txHash as `0x${string}`,
     });
+  } catch (err) {
+    // Only a missing receipt fails the check; RPC errors propagate, since nothing was verified
+    if (!(err instanceof TransactionReceiptNotFoundError)) throw err;
+    log.warn({ txHash }, 'Mint receipt not found');
+    return { ok: false, reason: `Mint tx not found: ${txHash}` };
+  }
 
-    if (receipt.status === 'success') {
-      log.info({ txHash, blockNumber: receipt.blockNumber.toString() }, 'Mint tx verified');
-      return true;
-    }
-
+  if (receipt.status !== 'success') {
     log.warn({ txHash, status: receipt.status }, 'Mint tx failed on-chain');
-    return false;
-  } catch (err) {
-    log.error({ txHash, error: (err as Error).message }, 'Failed to verify mint tx');
-    return false;
+    return { ok: false, reason: `Mint tx failed on-chain: ${txHash}` };
+  }
+
+  const mint = findPodMints(receipt, podContract).find((m) => m.podId === expected.podId);
+  if (!mint) {
+    log.warn({ txHash, podId: expected.podId.toString() }, 'Mint tx did not mint the claimed pod');
+    return { ok: false, reason: `Tx ${txHash} did not mint pod ${expected.podId}` };
+  }
+
+  const owners = expected.owners.map((o) => o.toLowerCase());
+  if (!owners.includes(mint.owner.toLowerCase())) {
+    log.warn({ txHash, podId: mint.podId.toString(), owner: mint.owner }, 'Pod minted to an unknown wallet');
+    return { ok: false, reason: `Pod ${mint.podId} was minted to ${mint.owner}, not our wallet` };
   }
+
+  log.info({ txHash, podId: mint.podId.toString(), blockNumber: receipt.blockNumber.toString() }, 'Pod mint verified');
+  return { ok: true, podId: mint.podId, owner: mint.owner };
 }
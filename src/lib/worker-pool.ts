@@ -0,0 +1,68 @@
+import { createLogger } from './logger.js';
+
+const log = createLogger('worker-pool');
+
+export interface WorkerPool {
+  /**
+   * Queue a task under a key. Returns false if a task with the same key is
+   * already queued or running (e.g. the same job seen on consecutive polls).
+   */
+  submit(key: string, task: () => Promise<void>): boolean;
+  has(key: string): boolean;
+  /** Number of tasks currently running */
+  active(): number;
+  /** Number of tasks waiting for a free slot */
+  queued(): number;
+  /** Resolve once every queued and running task has settled */
+  drain(): Promise<void>;
+}
+
+/**
+ * Bounded worker pool: runs at most `concurrency` tasks at once, FIFO for the rest.
+ * Task errors are logged and swallowed so one failure never stalls the pool.
+ */
+export function createWorkerPool(concurrency: number, name = 'jobs'): WorkerPool {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const queue: { key: string; task: () => Promise<void> }[] = [];
+  const keys = new Set<string>();
+  let running = 0;
+  let idleWaiters: (() => void)[] = [];
+
+  const next = () => {
+    while (running < limit && queue.length > 0) {
+      const { key, task } = queue.shift()!;
+      running++;
+      task()
+        .catch((err) => {
+          log.error({ pool: name, key, error: err instanceof Error ? err.message : err }, 'Task failed');
+        })
+        .finally(() => {
+          running--;
+          keys.delete(key);
+          next();
+        });
+    }
+    if (running === 0 && queue.length === 0) {
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      for (const resolve of waiters) resolve();
+    }
+  };
+
+  return {
+    submit(key, task) {
+      if (keys.has(key)) return false;
+      keys.add(key);
+      queue.push({ key, task });
+      next();
+      return true;
+    },
+    has: (key) => keys.has(key),
+    active: () => running,
+    queued: () => queue.length,
+    drain() {
+      if (running === 0 && queue.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
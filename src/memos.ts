@@ -0,0 +1,57 @@
+import { jobsRejected } from './lib/metrics.js';
+import type { AcpJob } from './types.js';
+
+/**
+ * Rejection catalogue. `retryable` tells the buyer whether the same request may succeed
+ * later (e.g. once we're topped up) or has to change first; `metric` is the
+ * `reppo_jobs_rejected_total` reason label.
+ */
+export const JOB_ERRORS = {
+  MISSING_POST_URL: { retryable: false, metric: 'missing_post_url' },
+  MISSING_SUBNET: { retryable: false, metric: 'missing_subnet' },
+  TOO_MANY_SUBNETS: { retryable: false, metric: 'too_many_subnets' },
+  INVALID_SUBNET: { retryable: false, metric: 'invalid_subnet' },
+  UNSUPPORTED_URL: { retryable: false, metric: 'invalid_url' },
+  DUPLICATE_POST: { retryable: false, metric: 'duplicate' },
+  EMPTY_BATCH: { retryable: false, metric: 'missing_post_url' },
+  TOO_MANY_POSTS: { retryable: false, metric: 'too_many_posts' },
+  INVALID_BATCH: { retryable: false, metric: 'invalid_batch' },
+  BELOW_COST: { retryable: false, metric: 'below_cost' },
+  INSUFFICIENT_REPPO: { retryable: true, metric: 'insufficient_reppo' },
+  JOB_EXPIRED: { retryable: true, metric: 'expired' },
+  MAX_RETRIES: { retryable: true, metric: 'max_retries' },
+  JOB_FAILED: { retryable: true, metric: 'job_failed' },
+  ADMIN_REJECTED: { retryable: false, metric: 'admin' },
+} as const satisfies Record<string, { retryable: boolean; metric: string }>;
+
+export type JobErrorCode = keyof typeof JOB_ERRORS;
+
+/** A rejection as sent to the buyer (JSON in the reject memo) */
+export interface JobError {
+  code: JobErrorCode;
+  message: string;
+  retryable: boolean;
+  /** Code-specific context, e.g. the valid subnets or the already-minted pod */
+  details?: Record<string, unknown>;
+}
+
+export function jobError(code: JobErrorCode, message: string, details?: Record<string, unknown>): JobError {
+  return { code, message, retryable: JOB_ERRORS[code].retryable, ...(details && { details }) };
+}
+
+export function formatJobError(error: JobError): string {
+  return JSON.stringify({ error });
+}
+
+/**
+ * Reject a job with a catalogued error, counting it under the error's metric reason
+ */
+export async function rejectJob(job: Pick<AcpJob, 'reject'>, error: JobError): Promise<void> {
+  await job.reject(formatJobError(error));
+  jobsRejected.inc({ reason: JOB_ERRORS[error.code].metric });
+}
+
+/** Accept and requirement memos: human-readable `message` plus structured fields */
+export function formatMemo(message: string, fields: Record<string, unknown> = {}): string {
+  return JSON.stringify({ message, ...fields });
+}
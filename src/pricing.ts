@@ -0,0 +1,148 @@
+import { formatUnits, parseUnits } from 'viem';
+import { getPublishingFee } from './chain.js';
+import { quoteUsdcForReppo, quoteUsdcForEth } from './swap.js';
+import { MINT_GAS_UNITS } from './constants.js';
+import { withRetry, isRetryableError } from './lib/http.js';
+import { publishingFee as publishingFeeGauge } from './lib/metrics.js';
+import { createLogger } from './lib/logger.js';
+import { jobError, type JobError } from './memos.js';
+import type { AcpJob, Clients, PriceQuote } from './types.js';
+import type { Config } from './config.js';
+
+const log = createLogger('pricing');
+
+const USDC_DECIMALS = 6;
+const CENT = 10_000n; // 0.01 USDC in base units
+
+export interface QuoteUnits {
+  /** Pods to mint */
+  posts: number;
+  /** Metadata submissions across all posts (sum of each post's subnets) */
+  subnetSubmissions: number;
+}
+
+function toUsdc(amount: bigint): number {
+  return Number(formatUnits(amount, USDC_DECIMALS));
+}
+
+function roundUpToCent(amount: bigint): bigint {
+  return ((amount + CENT - 1n) / CENT) * CENT;
+}
+
+/**
+ * USDC cost of one EOA mint at the current gas price. AA mints go through the
+ * sponsored session-key client, so they cost us no gas.
+ */
+async function estimateMintGasUsdc(clients: Clients): Promise<bigint> {
+  if (clients.contractClient && clients.aaWalletAddress) return 0n;
+
+  const gasPrice = await withRetry(
+    () => clients.publicClient.getGasPrice(),
+    'getGasPrice',
+    { shouldRetry: isRetryableError },
+  );
+  const wei = gasPrice * MINT_GAS_UNITS;
+  if (wei === 0n) return 0n;
+
+  try {
+    return (await quoteUsdcForEth(clients, wei)).amountIn;
+  } catch (err) {
+    // Gas on Base is cents at most; don't fail the whole quote over it
+    log.warn({ error: (err as Error).message }, 'No ETH price for gas estimate, leaving gas out of the quote');
+    return 0n;
+  }
+}
+
+/**
+ * Quote a job from live chain state: the publishing fee (converted to USDC through the
+ * Uniswap quoter) and mint gas per post, a flat fee per subnet submission, plus the margin.
+ */
+export async function quoteJobPrice(clients: Clients, config: Config, units: QuoteUnits): Promise<PriceQuote> {
+  const fee = await getPublishingFee(clients);
+  publishingFeeGauge.set(Number(formatUnits(fee, 18)));
+
+  const feeUsdc = fee > 0n ? (await quoteUsdcForReppo(clients, fee)).amountIn : 0n;
+  const gasUsdc = await estimateMintGasUsdc(clients);
+  const perSubnet = parseUnits(config.PRICE_PER_SUBNET_USDC.toFixed(USDC_DECIMALS), USDC_DECIMALS);
+
+  const posts = BigInt(units.posts);
+  const feeTotal = feeUsdc * posts;
+  const gasTotal = gasUsdc * posts;
+  const subnetTotal = perSubnet * BigInt(units.subnetSubmissions);
+  const cost = feeTotal + gasTotal + subnetTotal;
+  const amount = roundUpToCent(cost + (cost * BigInt(config.PRICE_MARGIN_BPS)) / 10_000n);
+
+  const now = Date.now();
+  const quote: PriceQuote = {
+    amount: toUsdc(amount),
+    cost: toUsdc(cost),
+    currency: 'USDC',
+    posts: units.posts,
+    subnetSubmissions: units.subnetSubmissions,
+    breakdown: {
+      publishingFee: toUsdc(feeTotal),
+      gas: toUsdc(gasTotal),
+      subnets: toUsdc(subnetTotal),
+      margin: toUsdc(amount - cost),
+    },
+    publishingFeeReppo: formatUnits(fee, 18),
+    quotedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + config.QUOTE_TTL_MS).toISOString(),
+  };
+
+  log.info({ amount: quote.amount, cost: quote.cost, ...units }, 'Price quoted');
+  return quote;
+}
+
+export function isQuoteExpired(quote: PriceQuote, now = Date.now()): boolean {
+  return new Date(quote.expiresAt).getTime() <= now;
+}
+
+/** What the buyer pays for the job (USDC), net of ACP fees when the SDK reports it */
+export function getJobPayment(job: AcpJob): number | undefined {
+  const amount = job.netPayableAmount ?? job.price;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : undefined;
+}
+
+export interface PriceCheck {
+  quote?: PriceQuote;
+  /** Set when the job pays less than it costs to fulfil */
+  rejection?: JobError;
+}
+
+/**
+ * Price a job and compare it with what the buyer pays. A still-valid `existing` quote
+ * (from the requirement memo) is reused, otherwise the job is re-quoted.
+ * Quoting failures don't block the job: they are logged and the check is skipped.
+ */
+export async function checkJobPrice(
+  job: AcpJob,
+  clients: Clients,
+  config: Config,
+  units: QuoteUnits,
+  existing?: PriceQuote,
+): Promise<PriceCheck> {
+  let quote = existing && !isQuoteExpired(existing) ? existing : undefined;
+  if (!quote) {
+    try {
+      quote = await quoteJobPrice(clients, config, units);
+    } catch (err) {
+      log.error({ jobId: job.id, error: (err as Error).message }, 'Failed to quote job price, skipping price check');
+      return {};
+    }
+  }
+
+  const paid = getJobPayment(job);
+  if (paid !== undefined && paid < quote.cost) {
+    log.warn({ jobId: job.id, paid, cost: quote.cost, amount: quote.amount }, 'Job price below cost');
+    return {
+      quote,
+      rejection: jobError(
+        'BELOW_COST',
+        `Job price ${paid} USDC is below the current cost of ${quote.cost} USDC (quoted price: ${quote.amount} USDC, valid until ${quote.expiresAt})`,
+        { paid, quote },
+      ),
+    };
+  }
+  return { quote };
+}
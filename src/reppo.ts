@@ -1,71 +1,22 @@
-import { existsSync, readFileSync, writeFileSync } from 'fs';
-import { join } from 'path';
-import lockfile from 'proper-lockfile';
 import { fetchJSON, withRetry, isRetryableError } from './lib/http.js';
+import { getStateStore } from './lib/state-store.js';
 import { createLogger } from './lib/logger.js';
 import type { Config } from './config.js';
-import type { AgentSession, RegisterAgentResponse, RegisterPodResponse, SubmitMetadataParams, SubnetsResponse } from './types.js';
+import type { AgentSession, RegisterAgentResponse, RegisterPodResponse, ReppoPodListResponse, ReppoPodResponse, SubmitMetadataParams, SubnetsResponse } from './types.js';
 
 const log = createLogger('reppo');
-let SESSION_FILE = '';
-let BUYER_SESSIONS_FILE = '';
 
-export function initReppoFiles(dataDir: string): void {
-  SESSION_FILE = join(dataDir, '.reppo-session.json');
-  BUYER_SESSIONS_FILE = join(dataDir, '.reppo-buyer-sessions.json');
-}
-
-// Buyer sessions keyed by wallet address
-type BuyerSessionMap = Record<string, AgentSession>;
-
-export function loadSession(): AgentSession | null {
-  if (!existsSync(SESSION_FILE)) return null;
-  try {
-    const data: AgentSession = JSON.parse(readFileSync(SESSION_FILE, 'utf-8'));
-    if (data.agentId && data.accessToken) return data;
-    return null;
-  } catch {
-    return null;
-  }
-}
-
-function saveSession(session: AgentSession): void {
-  writeFileSync(SESSION_FILE, JSON.stringify(session, null, 2), { mode: 0o600 });
-}
-
-function loadBuyerSessions(): BuyerSessionMap {
-  if (!existsSync(BUYER_SESSIONS_FILE)) return {};
+export async function loadSession(): Promise<AgentSession | null> {
   try {
-    return JSON.parse(readFileSync(BUYER_SESSIONS_FILE, 'utf-8'));
-  } catch {
-    return {};
-  }
-}
-
-async function saveBuyerSession(buyerId: string, session: AgentSession): Promise<void> {
-  let release: (() => Promise<void>) | undefined;
-  try {
-    // Create file if it doesn't exist
-    if (!existsSync(BUYER_SESSIONS_FILE)) {
-      writeFileSync(BUYER_SESSIONS_FILE, '{}', { mode: 0o600 });
-    }
-    
-    release = await lockfile.lock(BUYER_SESSIONS_FILE, { retries: 3 });
-    
-    const sessions = loadBuyerSessions();
-    sessions[buyerId] = session;
-    writeFileSync(BUYER_SESSIONS_FILE, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+    return await getStateStore().getAgentSession();
   } catch (err) {
-    log.error({ err, buyerId }, 'Failed to save buyer session');
-    throw err;
-  } finally {
-    if (release) await release();
+    log.error({ err }, 'Failed to load agent session');
+    return null;
   }
 }
 
-export function getBuyerSession(buyerId: string): AgentSession | null {
-  const sessions = loadBuyerSessions();
-  return sessions[buyerId] ?? null;
+export async function getBuyerSession(buyerId: string): Promise<AgentSession | null> {
+  return getStateStore().getBuyerSession(buyerId);
 }
 
 function getAuthHeaders(session: AgentSession): Record<string, string> {
@@ -77,7 +28,7 @@ export async function registerAgent(
   agentName: string,
   agentDescription: string,
 ): Promise<AgentSession> {
-  const existing = loadSession();
+  const existing = await loadSession();
   if (existing) {
     log.info({ agentId: existing.agentId }, 'Already registered');
     return existing;
@@ -101,7 +52,7 @@ export async function registerAgent(
     accessToken: res.data.accessToken,
     walletAddress: res.data.walletAddress,
   };
-  saveSession(session);
+  await getStateStore().putAgentSession(session);
   log.info({ agentId: session.agentId, walletAddress: session.walletAddress }, 'Registered successfully');
   return session;
 }
@@ -136,7 +87,7 @@ export async function getOrCreateBuyerAgent(
   description?: string,
 ): Promise<AgentSession | null> {
   // Check if we already have a session for this buyer
-  const existing = getBuyerSession(buyerId);
+  const existing = await getBuyerSession(buyerId);
   if (existing) {
     log.info({ buyerId, agentId: existing.agentId }, 'Buyer already registered');
     return existing;
@@ -166,11 +117,26 @@ export async function getOrCreateBuyerAgent(
     accessToken: res.data.accessToken,
     walletAddress: res.data.walletAddress,
   };
-  await saveBuyerSession(buyerId, session);
+  try {
+    await getStateStore().putBuyerSession(buyerId, session);
+  } catch (err) {
+    log.error({ err, buyerId }, 'Failed to save buyer session');
+    throw err;
+  }
   log.info({ buyerId, agentId: session.agentId }, 'Buyer registered successfully');
   return session;
 }
 
+/**
+ * Reppo refuses a second registration of the same mint in a subnet. On resubmission
+ * (crash between submit and checkpoint) that usually means the earlier attempt landed;
+ * callers confirm it with findPodsByMintTx before counting the subnet as done.
+ */
+export function isDuplicateSubmissionError(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return message.startsWith('HTTP 409') || /already (exists|registered|submitted)/i.test(message);
+}
+
 export async function submitPodMetadata(
   session: AgentSession,
   config: Config,
@@ -187,12 +153,18 @@ export async function submitPodMetadata(
           name: params.title,
           description: params.description || params.title,
           url: params.url,
-          platform: 'x',
+          platform: params.platform ?? 'x',
           podMintTx: params.txHash,
           ...(params.tokenId !== undefined && { tokenId: Number(params.tokenId) }),
           ...(params.category && { category: params.category }),
           ...(params.imageUrl && { imageUrl: params.imageUrl }),
           ...(params.subnetId && { subnetId: params.subnetId }),
+          ...(params.media?.length && { media: params.media }),
+          ...(params.author && { author: params.author }),
+          ...(params.metrics && { metrics: params.metrics }),
+          ...(params.postedAt && { postedAt: params.postedAt }),
+          ...(params.quotedPost && { quotedPost: params.quotedPost }),
+          ...(params.threadRoot && { threadRoot: params.threadRoot }),
         }),
       },
     ),
@@ -202,3 +174,44 @@ export async function submitPodMetadata(
   log.info({ podId: data.data?.id }, 'Metadata submitted');
   return data;
 }
+
+/**
+ * Read a pod back from Reppo. Returns null when Reppo doesn't know it (404).
+ */
+export async function getPod(config: Config, reppoPodId: string): Promise<ReppoPodResponse | null> {
+  try {
+    return await withRetry(
+      () => fetchJSON<ReppoPodResponse>(`${config.REPPO_API_URL}/pods/${encodeURIComponent(reppoPodId)}`, {
+        method: 'GET',
+      }),
+      'getPod',
+      { shouldRetry: isRetryableError },
+    );
+  } catch (err) {
+    if ((err as Error).message.startsWith('HTTP 404')) return null;
+    throw err;
+  }
+}
+
+/**
+ * Pods Reppo registered for a mint tx, optionally only in one subnet. Used where Reppo
+ * didn't return the pod ID, such as a duplicate-submission response.
+ */
+export async function findPodsByMintTx(
+  config: Config,
+  txHash: string,
+  subnetId?: string,
+): Promise<ReppoPodResponse['data'][]> {
+  const query = new URLSearchParams({ podMintTx: txHash, ...(subnetId && { subnetId }) });
+  const res = await withRetry(
+    () => fetchJSON<ReppoPodListResponse>(`${config.REPPO_API_URL}/pods?${query}`, { method: 'GET' }),
+    'findPodsByMintTx',
+    { shouldRetry: isRetryableError },
+  );
+  return res?.data?.pods ?? [];
+}
+
+/** Public Reppo page of a pod */
+export function reppoPodUrl(config: Config, reppoPodId: string): string {
+  return `${config.REPPO_APP_URL}/pods/${encodeURIComponent(reppoPodId)}`;
+}
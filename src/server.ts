@@ -0,0 +1,169 @@
+import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { isAddress } from 'viem';
+import { getProcessedCount } from './lib/dedup.js';
+import { getPendingJobs, getDeadLetterJobs } from './lib/pending-jobs.js';
+import { renderMetrics, METRICS_CONTENT_TYPE } from './lib/metrics.js';
+import { handleAdminRequest, type AdminContext } from './handlers/admin.js';
+import { getPendingPayouts } from './emissions/pending.js';
+import { createLogger } from './lib/logger.js';
+
+const log = createLogger('server');
+
+const MAX_BODY_BYTES = 16 * 1024;
+
+// Track service state for health checks
+export const serviceState = {
+  started: new Date().toISOString(),
+  healthy: false,
+  lastPoll: null as string | null,
+  activeJobs: 0,
+  processedTotal: 0,
+};
+
+export interface ServerOptions {
+  port: number;
+  /** Bearer token for /admin routes; admin API is disabled when unset */
+  adminToken?: string;
+  /** Returns null until ACP and chain clients are initialized */
+  getAdminContext: () => AdminContext | null;
+  /** Minimum buyer payout (wei) reported by /payouts */
+  minPayout?: bigint;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/** Constant-time token check (hash first so lengths always match) */
+function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer (.+)$/);
+  if (!match) return false;
+  const digest = (s: string) => createHash('sha256').update(s).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf-8').trim();
+      if (!raw) return resolve({});
+      try {
+        const parsed = JSON.parse(raw);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+          return reject(new Error('Request body must be a JSON object'));
+        }
+        resolve(parsed);
+      } catch {
+        reject(new Error('Invalid JSON body'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+async function handleAdmin(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  path: string,
+  options: ServerOptions,
+): Promise<void> {
+  if (!options.adminToken) {
+    sendJson(res, 404, { error: 'Not Found' });
+    return;
+  }
+  if (!isAuthorized(req.headers.authorization, options.adminToken)) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  let body: Record<string, unknown> = {};
+  if (req.method === 'POST') {
+    try {
+      body = await readJsonBody(req);
+    } catch (err) {
+      sendJson(res, 400, { error: (err as Error).message });
+      return;
+    }
+  }
+
+  const method = req.method ?? 'GET';
+  log.info({ method, path }, 'Admin request');
+  const result = await handleAdminRequest(method, path.slice('/admin'.length), body, options.getAdminContext());
+  sendJson(res, result.status, result.body);
+}
+
+/** Public: a buyer's emissions held below the minimum payout */
+async function handlePayouts(res: http.ServerResponse, wallet: string, options: ServerOptions): Promise<void> {
+  if (!isAddress(wallet, { strict: false })) {
+    sendJson(res, 400, { error: 'Invalid wallet address' });
+    return;
+  }
+  sendJson(res, 200, await getPendingPayouts(wallet, options.minPayout ?? 0n));
+}
+
+/**
+ * Health, readiness, metrics, buyers' pending payouts and (token-protected) admin API
+ */
+export function createServer(options: ServerOptions): http.Server {
+  const server = http.createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (path === '/health' || path === '/') {
+      const status = serviceState.healthy ? 200 : 503;
+      sendJson(res, status, {
+        status: serviceState.healthy ? 'healthy' : 'starting',
+        started: serviceState.started,
+        lastPoll: serviceState.lastPoll,
+        activeJobs: serviceState.activeJobs,
+        processedTweets: getProcessedCount(),
+        pendingJobs: getPendingJobs().length,
+        deadLetterJobs: getDeadLetterJobs().map((j) => ({
+          jobId: j.jobId,
+          retryCount: j.retryCount,
+          lastError: j.lastError,
+          deadLetteredAt: j.deadLetteredAt,
+        })),
+        uptime: process.uptime(),
+      });
+    } else if (path === '/metrics') {
+      res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+      res.end(renderMetrics());
+    } else if (path === '/ready') {
+      const status = serviceState.healthy ? 200 : 503;
+      res.writeHead(status);
+      res.end(serviceState.healthy ? 'ready' : 'not ready');
+    } else if (path.startsWith('/payouts/') && req.method === 'GET') {
+      handlePayouts(res, path.slice('/payouts/'.length), options).catch((err) => {
+        log.error({ error: (err as Error).message, path }, 'Payouts request failed');
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+      });
+    } else if (path === '/admin' || path.startsWith('/admin/')) {
+      handleAdmin(req, res, path, options).catch((err) => {
+        log.error({ error: (err as Error).message, path }, 'Admin request failed');
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+      });
+    } else {
+      res.writeHead(404);
+      res.end('Not Found');
+    }
+  });
+
+  server.listen(options.port, () => {
+    log.info({ port: options.port, admin: Boolean(options.adminToken) }, 'Health server listening');
+  });
+
+  return server;
+}
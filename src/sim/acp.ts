@@ -0,0 +1,132 @@
+import type { AcpContext, AcpJobHandlers } from '../acp.js';
+import type { AcpJob, AcpJobMemo, PriceQuote } from '../types.js';
+
+// AcpJobPhases from @virtuals-protocol/acp-node
+export const PHASE = {
+  REQUEST: 0,
+  NEGOTIATION: 1,
+  TRANSACTION: 2,
+  EVALUATION: 3,
+  COMPLETED: 4,
+  REJECTED: 5,
+} as const;
+
+export interface SimJob extends AcpJob {
+  id: number;
+  phase: number;
+  memos: AcpJobMemo[];
+  /** Reason given by reject() or evaluate(false) */
+  rejectionReason?: string;
+  createRequirement(content: string): Promise<void>;
+}
+
+export interface FakeAcp {
+  jobs: Map<number, SimJob>;
+  /** Stands in for initAcp's context (getJobById is all the handlers use) */
+  context: AcpContext;
+  createJob(requirement: Record<string, unknown>, buyerAddress?: string): SimJob;
+  /**
+   * Drive a job through every phase like a buyer would: request, pay the quoted
+   * price once the requirement memo lands, then evaluate the delivery.
+   */
+  runJob(requirement: Record<string, unknown>, buyerAddress?: string): Promise<SimJob>;
+}
+
+export const SIM_BUYER_ADDRESS = '0xb0b0000000000000000000000000000000000001';
+
+function memoContent(content: AcpJobMemo['content'] | undefined): Record<string, unknown> | null {
+  if (!content) return null;
+  if (typeof content !== 'string') return content;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+/** The quote from the seller's latest requirement memo */
+function latestQuote(job: SimJob): PriceQuote | undefined {
+  for (const memo of [...job.memos].reverse()) {
+    const quote = memoContent(memo.content)?.quote as PriceQuote | undefined;
+    if (quote) return quote;
+  }
+  return undefined;
+}
+
+/**
+ * In-process ACP: jobs are plain objects whose lifecycle methods move them through
+ * the phases and append memos, and events go straight to the agent's handlers
+ * instead of over the ACP socket.
+ */
+export function createFakeAcp(handlers: AcpJobHandlers): FakeAcp {
+  const jobs = new Map<number, SimJob>();
+  let nextJobId = 1;
+
+  function createJob(requirement: Record<string, unknown>, buyerAddress = SIM_BUYER_ADDRESS): SimJob {
+    const memos: AcpJobMemo[] = [];
+    const addMemo = (content: string, type: string) => {
+      memos.push({ id: String(memos.length + 1), type, content, timestamp: Date.now() });
+    };
+    addMemo(JSON.stringify({ requirement }), 'request');
+
+    const job: SimJob = {
+      id: nextJobId++,
+      phase: PHASE.REQUEST,
+      memos,
+      clientAddress: buyerAddress,
+      async accept(message) {
+        addMemo(message, 'accept');
+        job.phase = PHASE.NEGOTIATION;
+      },
+      async createRequirement(content) {
+        addMemo(content, 'requirement');
+      },
+      async reject(reason) {
+        addMemo(reason, 'reject');
+        job.rejectionReason = reason;
+        job.phase = PHASE.REJECTED;
+      },
+      async deliver(deliverable) {
+        if (job.phase !== PHASE.TRANSACTION) throw new Error(`Job ${job.id} cannot be delivered in phase ${job.phase}`);
+        addMemo(JSON.stringify(deliverable), 'deliverable');
+        job.phase = PHASE.EVALUATION;
+      },
+      async evaluate(approved, reason) {
+        addMemo(reason, approved ? 'approve' : 'reject');
+        if (!approved) job.rejectionReason = reason;
+        job.phase = approved ? PHASE.COMPLETED : PHASE.REJECTED;
+      },
+      async createNotification(content) {
+        addMemo(content, 'notification');
+      },
+    };
+    jobs.set(job.id, job);
+    return job;
+  }
+
+  async function runJob(requirement: Record<string, unknown>, buyerAddress?: string): Promise<SimJob> {
+    const job = createJob(requirement, buyerAddress);
+    await handlers.onNewTask(job);
+    if (job.phase !== PHASE.NEGOTIATION) return job;
+
+    // payAndAcceptRequirement: the buyer pays what the seller quoted
+    job.price = latestQuote(job)?.amount;
+    job.phase = PHASE.TRANSACTION;
+    await handlers.onNewTask(job);
+
+    if (job.phase === PHASE.EVALUATION) await handlers.onEvaluate(job);
+    return job;
+  }
+
+  const context = {
+    client: { getJobById: async (jobId: number) => jobs.get(jobId) ?? null },
+    contractClient: {},
+  } as unknown as AcpContext;
+
+  return { jobs, context, createJob, runJob };
+}
+
+/** Parsed memo contents of a job, oldest first (non-JSON memos as `{ message }`) */
+export function jobMemos(job: SimJob): Array<Record<string, unknown>> {
+  return job.memos.map((memo) => memoContent(memo.content) ?? { message: memo.content });
+}
@@ -0,0 +1,148 @@
+import {
+  encodeEventTopics,
+  keccak256,
+  parseUnits,
+  toHex,
+  zeroAddress,
+  type Address,
+  type Hash,
+  type TransactionReceipt,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { POD_ABI } from '../constants.js';
+import type { NetworkProfile } from '../lib/network.js';
+import type { Clients } from '../types.js';
+
+/** Anvil's first dev key: a throwaway wallet that never holds real funds */
+export const SIM_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+export interface ChainDoubleOptions {
+  /** REPPO per mint (default: 10 REPPO) */
+  publishingFee?: bigint;
+  /** REPPO held by the agent wallet (default: 1000 REPPO) */
+  reppoBalance?: bigint;
+  /** USDC paid per whole REPPO in quotes (default: 0.05) */
+  usdcPerReppo?: number;
+  /** Wei; 0 leaves gas out of price quotes (default: 0) */
+  gasPrice?: bigint;
+}
+
+export interface ChainDouble {
+  clients: Clients;
+  /** Minted pod ID → owner */
+  pods: Map<bigint, Address>;
+  receipts: Map<Hash, TransactionReceipt>;
+  balanceOf(token: Address, owner: Address): bigint;
+}
+
+interface ContractCall {
+  address: Address;
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+/** Only the 0.3% tier has a pool, like most thin REPPO markets */
+const POOL_FEE = 3000;
+const USDC_PER_ETH = 3000;
+
+/**
+ * In-memory stand-in for Base: the pod contract, REPPO/USDC balances and the Uniswap
+ * quoter, behind the same viem client methods the agent calls. Mints emit real
+ * Transfer logs so pod ID extraction and mint verification run unchanged.
+ */
+export function createChainDouble(network: NetworkProfile, options: ChainDoubleOptions = {}): ChainDouble {
+  const account = privateKeyToAccount(SIM_PRIVATE_KEY);
+  const fee = options.publishingFee ?? parseUnits('10', 18);
+  const gasPrice = options.gasPrice ?? 0n;
+  const usdcPerReppo = parseUnits(String(options.usdcPerReppo ?? 0.05), 6);
+
+  const balances = new Map<string, bigint>([[`${network.reppoToken}:${account.address}`.toLowerCase(), options.reppoBalance ?? parseUnits('1000', 18)]]);
+  const allowances = new Map<string, bigint>();
+  const pods = new Map<bigint, Address>();
+  const receipts = new Map<Hash, TransactionReceipt>();
+  let nextPodId = 1n;
+  let blockNumber = 1n;
+
+  const key = (...parts: string[]) => parts.join(':').toLowerCase();
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const balanceOf = (token: Address, owner: Address) => balances.get(key(token, owner)) ?? 0n;
+
+  function recordTx(logs: TransactionReceipt['logs'], status: TransactionReceipt['status'] = 'success'): Hash {
+    const hash = keccak256(toHex(`sim-tx-${receipts.size}`));
+    receipts.set(hash, {
+      transactionHash: hash,
+      status,
+      blockNumber: blockNumber++,
+      logs,
+    } as unknown as TransactionReceipt);
+    return hash;
+  }
+
+  function mintPod(to: Address): Hash {
+    const allowance = allowances.get(key(network.reppoToken, account.address, network.podContract)) ?? 0n;
+    if (allowance < fee || balanceOf(network.reppoToken, account.address) < fee) {
+      return recordTx([], 'reverted');
+    }
+    balances.set(key(network.reppoToken, account.address), balanceOf(network.reppoToken, account.address) - fee);
+    allowances.set(key(network.reppoToken, account.address, network.podContract), 0n);
+
+    const podId = nextPodId++;
+    pods.set(podId, to);
+    const topics = encodeEventTopics({ abi: POD_ABI, eventName: 'Transfer', args: { from: zeroAddress, to, tokenId: podId } });
+    return recordTx([{ address: network.podContract, topics, data: '0x' }] as unknown as TransactionReceipt['logs']);
+  }
+
+  function receipt(hash: Hash): TransactionReceipt {
+    const found = receipts.get(hash);
+    if (!found) throw new Error(`Transaction receipt with hash "${hash}" could not be found.`);
+    return found;
+  }
+
+  const publicClient = {
+    chain: network.chain,
+    async readContract({ address, functionName, args = [] }: ContractCall) {
+      if (same(address, network.podContract) && functionName === 'publishingFee') return fee;
+      if (functionName === 'balanceOf') return balanceOf(address, args[0] as Address);
+      if (functionName === 'allowance') return allowances.get(key(address, args[0] as string, args[1] as string)) ?? 0n;
+      throw new Error(`Simulated chain: unsupported read ${functionName} on ${address}`);
+    },
+    async simulateContract({ address, functionName, args = [] }: ContractCall) {
+      if (!same(address, network.uniswapQuoter) || functionName !== 'quoteExactOutputSingle') {
+        throw new Error(`Simulated chain: unsupported simulation ${functionName} on ${address}`);
+      }
+      const { tokenOut, amount, fee: poolFee } = args[0] as { tokenOut: Address; amount: bigint; fee: number };
+      if (poolFee !== POOL_FEE) throw new Error('execution reverted');
+      const price = same(tokenOut, network.wethToken) ? parseUnits(String(USDC_PER_ETH), 6) : usdcPerReppo;
+      return { result: [(amount * price) / 10n ** 18n, 0n, 0, 0n] };
+    },
+    async getGasPrice() {
+      return gasPrice;
+    },
+    async getTransactionReceipt({ hash }: { hash: Hash }) {
+      return receipt(hash);
+    },
+    async waitForTransactionReceipt({ hash }: { hash: Hash }) {
+      return receipt(hash);
+    },
+  };
+
+  const walletClient = {
+    account,
+    chain: network.chain,
+    async writeContract({ address, functionName, args = [] }: ContractCall) {
+      if (functionName === 'approve') {
+        allowances.set(key(address, account.address, args[0] as string), args[1] as bigint);
+        return recordTx([]);
+      }
+      if (same(address, network.podContract) && functionName === 'mintPod') return mintPod(args[0] as Address);
+      throw new Error(`Simulated chain: unsupported write ${functionName} on ${address}`);
+    },
+  };
+
+  return {
+    clients: { account, publicClient, walletClient, network } as unknown as Clients,
+    pods,
+    receipts,
+    balanceOf,
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+  type DynamoDBDocumentClient,
+} from '@aws-sdk/lib-dynamodb';
+
+type Item = Record<string, unknown>;
+type Values = Record<string, unknown>;
+
+/** `attr = :value` clauses joined by AND, the only filters the pods table uses */
+function matches(item: Item, expression: string | undefined, values: Values = {}): boolean {
+  if (!expression) return true;
+  return expression.split(/\s+AND\s+/i).every((clause) => {
+    const [attr, placeholder] = clause.split('=').map((s) => s.trim());
+    return item[attr] === values[placeholder];
+  });
+}
+
+/**
+ * One SET operand: `:value`, `attr`, `if_not_exists(attr, :value)`, `list_append(a, b)`
+ * of those, or a sum/difference of those
+ */
+function evaluate(item: Item, operand: string, values: Values): unknown {
+  const listAppend = operand.match(/^list_append\((.+),\s*(:\w+)\)$/);
+  if (listAppend) {
+    return [...(evaluate(item, listAppend[1], values) as unknown[]), ...(values[listAppend[2]] as unknown[])];
+  }
+  const arithmetic = operand.match(/^(.+?)\s*([+-])\s*(:\w+)$/);
+  if (arithmetic) {
+    const left = Number(evaluate(item, arithmetic[1], values));
+    const right = Number(values[arithmetic[3]]);
+    return arithmetic[2] === '+' ? left + right : left - right;
+  }
+  const ifNotExists = operand.match(/^if_not_exists\((\w+),\s*(:\w+)\)$/);
+  if (ifNotExists) return item[ifNotExists[1]] ?? values[ifNotExists[2]];
+  return operand.startsWith(':') ? values[operand] : item[operand];
+}
+
+function applyUpdate(item: Item, expression: string, values: Values): void {
+  const assignments = expression.replace(/^SET\s+/i, '').split(/,(?![^(]*\))/);
+  for (const assignment of assignments) {
+    const [attr, operand] = assignment.split(/=(.*)/s).map((s) => s.trim());
+    item[attr] = evaluate(item, operand, values);
+  }
+}
+
+/**
+ * In-memory DynamoDB document client for the pods table (keyed by `podId`):
+ * enough of Put/Get/Scan/Query/Update for lib/pods.ts to run without AWS.
+ */
+export function createMemoryDocClient(): DynamoDBDocumentClient & { items: Map<unknown, Item> } {
+  const items = new Map<unknown, Item>();
+
+  async function send(command: unknown): Promise<unknown> {
+    if (command instanceof PutCommand) {
+      const item = { ...command.input.Item } as Item;
+      items.set(item.podId, item);
+      return {};
+    }
+    if (command instanceof GetCommand) {
+      const item = items.get(command.input.Key?.podId);
+      return { Item: item && { ...item } };
+    }
+    if (command instanceof ScanCommand || command instanceof QueryCommand) {
+      const input = command.input;
+      const condition = 'KeyConditionExpression' in input ? input.KeyConditionExpression : undefined;
+      let found = [...items.values()]
+        .filter((item) => matches(item, condition, input.ExpressionAttributeValues))
+        .filter((item) => matches(item, input.FilterExpression, input.ExpressionAttributeValues));
+      if (input.Limit) found = found.slice(0, input.Limit);
+      return { Items: found.map((item) => ({ ...item })), Count: found.length };
+    }
+    if (command instanceof UpdateCommand) {
+      const key = command.input.Key?.podId;
+      const item = items.get(key) ?? { podId: key };
+      applyUpdate(item, command.input.UpdateExpression ?? '', command.input.ExpressionAttributeValues ?? {});
+      items.set(key, item);
+      return { Attributes: { ...item } };
+    }
+    throw new Error(`Simulated DynamoDB: unsupported command ${(command as object).constructor.name}`);
+  }
+
+  return { send, items } as unknown as DynamoDBDocumentClient & { items: Map<unknown, Item> };
+}
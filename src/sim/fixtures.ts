@@ -0,0 +1,59 @@
+import type { TweetV2SingleResult } from 'twitter-api-v2';
+import type { TwitterClient } from '../twitter.js';
+
+const AUTHOR = {
+  id: '42',
+  username: 'reppo_sim',
+  name: 'Reppo Simulation',
+  profile_image_url: 'https://pbs.twimg.com/profile_images/42/avatar_normal.jpg',
+  public_metrics: { followers_count: 1200, following_count: 80, tweet_count: 640, listed_count: 3 },
+  verified: false,
+};
+
+/** singleTweet responses by tweet ID, shaped like the v2 API with our expansions */
+export const TWEET_FIXTURES: Record<string, TweetV2SingleResult> = {
+  '1900000000000000001': {
+    data: {
+      id: '1900000000000000001',
+      text: 'Onchain curation markets reward the people who surface good content first.',
+      author_id: AUTHOR.id,
+      created_at: '2026-01-15T12:00:00.000Z',
+      conversation_id: '1900000000000000001',
+      attachments: { media_keys: ['3_1900000000000000001'] },
+      public_metrics: { like_count: 120, retweet_count: 14, reply_count: 9, quote_count: 2, impression_count: 8400, bookmark_count: 11 },
+      edit_history_tweet_ids: ['1900000000000000001'],
+    },
+    includes: {
+      users: [AUTHOR],
+      media: [{ media_key: '3_1900000000000000001', type: 'photo', url: 'https://pbs.twimg.com/media/sim-chart.jpg', width: 1200, height: 675 }],
+    },
+  },
+  '1900000000000000002': {
+    data: {
+      id: '1900000000000000002',
+      text: 'Agents paying agents: every pod here was minted through an ACP job.',
+      author_id: AUTHOR.id,
+      created_at: '2026-01-16T09:30:00.000Z',
+      conversation_id: '1900000000000000002',
+      public_metrics: { like_count: 48, retweet_count: 5, reply_count: 3, quote_count: 0, impression_count: 2100, bookmark_count: 4 },
+      edit_history_tweet_ids: ['1900000000000000002'],
+    },
+    includes: { users: [AUTHOR] },
+  },
+};
+
+export function fixtureTweetUrl(tweetId: string): string {
+  return `https://x.com/${AUTHOR.username}/status/${tweetId}`;
+}
+
+/**
+ * Twitter client serving TWEET_FIXTURES. Unknown IDs answer like a deleted or
+ * protected tweet (no data), which fetchTweet reports as not found.
+ */
+export function createFixtureTwitterClient(fixtures: Record<string, TweetV2SingleResult> = TWEET_FIXTURES): TwitterClient {
+  return {
+    v2: {
+      singleTweet: async (tweetId: string) => fixtures[tweetId] ?? ({ errors: [{ title: 'Not Found Error' }] } as unknown as TweetV2SingleResult),
+    },
+  } as unknown as TwitterClient;
+}
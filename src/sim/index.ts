@@ -0,0 +1,114 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createJobHandlers } from '../acp.js';
+import { registerAgent } from '../reppo.js';
+import { setTwitterClient } from '../twitter.js';
+import { initStateStore, getStateStore } from '../lib/state-store.js';
+import { initDedup } from '../lib/dedup.js';
+import { initPendingJobs } from '../lib/pending-jobs.js';
+import { initPods } from '../lib/pods.js';
+import { getNetworkProfile } from '../lib/network.js';
+import { BUYER_ONLY_SPLIT } from '../emissions/payout.js';
+import { createChainDouble, SIM_PRIVATE_KEY, type ChainDouble, type ChainDoubleOptions } from './chain.js';
+import { startReppoStub, type ReppoStub, type StubSubnet } from './reppo-server.js';
+import { createFakeAcp, type FakeAcp } from './acp.js';
+import { createFixtureTwitterClient } from './fixtures.js';
+import { createMemoryDocClient } from './dynamo.js';
+import type { Config } from '../config.js';
+import type { AgentSession } from '../types.js';
+
+export interface SimulationOptions {
+  chain?: ChainDoubleOptions;
+  subnets?: StubSubnet[];
+  /** Config overrides (pricing, retry tuning) */
+  config?: Partial<Config>;
+}
+
+export interface Simulation {
+  config: Config;
+  session: AgentSession;
+  acp: FakeAcp;
+  chain: ChainDouble;
+  reppo: ReppoStub;
+  pods: ReturnType<typeof createMemoryDocClient>;
+  close(): Promise<void>;
+}
+
+/**
+ * Wire the real job handlers to offline doubles: a fake ACP client, the Reppo API
+ * stub, fixture tweets, an in-memory chain and pods table, and a file state store
+ * in a temp dir. The state modules are process-wide, so run one simulation per process.
+ */
+export async function createSimulation(options: SimulationOptions = {}): Promise<Simulation> {
+  const dataDir = await mkdtemp(join(tmpdir(), 'reppo-sim-'));
+  const reppo = await startReppoStub(options.subnets);
+  const network = getNetworkProfile('base');
+  const chain = createChainDouble(network, options.chain);
+
+  const config: Config = {
+    PRIVATE_KEY: SIM_PRIVATE_KEY,
+    ACP_ENTITY_ID: 1,
+    ACP_SIGNER_ENTITY_ID: 1,
+    ACP_WALLET_ADDRESS: chain.clients.account.address,
+    REPPO_API_URL: reppo.url,
+    REPPO_APP_URL: new URL(reppo.url).origin,
+    TWITTER_API_KEY: 'sim',
+    TWITTER_API_SECRET: 'sim',
+    TWITTER_ACCESS_TOKEN: 'sim',
+    TWITTER_ACCESS_TOKEN_SECRET: 'sim',
+    RPC_URLS: [],
+    RPC_QUORUM: 1,
+    POLL_INTERVAL_MS: 10_000,
+    JOB_CONCURRENCY: 1,
+    MAX_JOBS_PER_POLL: 50,
+    PENDING_RETRY_INTERVAL_MS: 60_000,
+    PENDING_RETRY_BASE_DELAY_MS: 0,
+    PENDING_MAX_RETRIES: 5,
+    ACP_TESTNET: false,
+    NETWORK: network,
+    HEALTH_PORT: 0,
+    DATA_DIR: dataDir,
+    STATE_BACKEND: 'file',
+    STATE_TABLE_NAME: 'reppo-agent-state',
+    PRICE_PER_SUBNET_USDC: 0.01,
+    PRICE_MARGIN_BPS: 2000,
+    QUOTE_TTL_MS: 15 * 60_000,
+    EMISSIONS_SCHEDULER: false,
+    EMISSIONS_CLAIM_DELAY_MS: 0,
+    EMISSIONS_CLAIM_BATCH_SIZE: 20,
+    EMISSIONS_TRANSFER_BATCH_SIZE: 20,
+    EMISSIONS_MIN_PAYOUT: 0n,
+    PAYOUT_POLICY: { default: BUYER_ONLY_SPLIT, offerings: {} },
+    ...options.config,
+  };
+
+  const pods = createMemoryDocClient();
+  initStateStore(config);
+  await initDedup();
+  await initPendingJobs();
+  initPods(config, pods);
+  setTwitterClient(createFixtureTwitterClient());
+
+  const session = await registerAgent(config, 'Reppo Simulation', 'Offline simulation of the Reppo ACP agent');
+  const acp = createFakeAcp(createJobHandlers(config, chain.clients, session));
+
+  return {
+    config,
+    session,
+    acp,
+    chain,
+    reppo,
+    pods,
+    close: async () => {
+      await reppo.close();
+      // Processing-lock releases aren't awaited; the file store applies lock updates in
+      // call order, so this one settles after them and nothing writes into the removed dir
+      await getStateStore().releaseLock('sim');
+      await rm(dataDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export { PHASE, SIM_BUYER_ADDRESS, jobMemos, type SimJob } from './acp.js';
+export { TWEET_FIXTURES, fixtureTweetUrl } from './fixtures.js';
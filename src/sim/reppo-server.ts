@@ -0,0 +1,120 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface StubSubnet {
+  id: string;
+  name: string;
+}
+
+export interface StubPod {
+  id: string;
+  agentId: string;
+  subnetId?: string;
+  podMintTx: string;
+  tokenId?: number;
+  name: string;
+  url: string;
+}
+
+export interface ReppoStub {
+  /** API base, for REPPO_API_URL */
+  url: string;
+  pods: StubPod[];
+  close(): Promise<void>;
+}
+
+export const DEFAULT_SUBNETS: StubSubnet[] = [
+  { id: '1', name: 'crypto' },
+  { id: '2', name: 'ai' },
+  { id: '3', name: 'culture' },
+];
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+/**
+ * Local stand-in for the Reppo agent API: registration, subnets, pod
+ * submission, read-back and lookup by mint tx, with the same response shapes and 404/409s.
+ * Listens on an ephemeral port on 127.0.0.1.
+ */
+export async function startReppoStub(subnets: StubSubnet[] = DEFAULT_SUBNETS): Promise<ReppoStub> {
+  const tokens = new Map<string, string>();
+  const pods: StubPod[] = [];
+
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/^\/api\/v1/, '');
+    try {
+      if (req.method === 'POST' && path === '/agents/register') {
+        const body = await readBody(req);
+        if (!body.name) return send(res, 400, { error: 'name is required' });
+        const agentId = `agent-${tokens.size + 1}`;
+        const accessToken = `token-${agentId}`;
+        tokens.set(accessToken, agentId);
+        return send(res, 200, { data: { id: agentId, accessToken, walletAddress: '0x0000000000000000000000000000000000000000' } });
+      }
+
+      if (req.method === 'GET' && path === '/agents/subnets') {
+        return send(res, 200, { data: { subnets } });
+      }
+
+      const submit = path.match(/^\/agents\/([^/]+)\/pods$/);
+      if (req.method === 'POST' && submit) {
+        const token = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+        if (tokens.get(token) !== submit[1]) return send(res, 401, { error: 'Unauthorized' });
+        const body = await readBody(req);
+        const subnetId = body.subnetId as string | undefined;
+        if (subnetId && !subnets.some((s) => s.id === subnetId)) return send(res, 400, { error: `Unknown subnet ${subnetId}` });
+        if (pods.some((p) => p.podMintTx === body.podMintTx && p.subnetId === subnetId)) {
+          return send(res, 409, { error: 'Pod already registered in this subnet' });
+        }
+        const pod: StubPod = {
+          id: `reppo-pod-${pods.length + 1}`,
+          agentId: submit[1],
+          subnetId,
+          podMintTx: String(body.podMintTx),
+          tokenId: body.tokenId as number | undefined,
+          name: String(body.name),
+          url: String(body.url),
+        };
+        pods.push(pod);
+        return send(res, 200, { data: { id: pod.id } });
+      }
+
+      if (req.method === 'GET' && path === '/pods') {
+        const query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+        const subnetId = query.get('subnetId');
+        const found = pods.filter((p) => p.podMintTx === query.get('podMintTx') && (!subnetId || p.subnetId === subnetId));
+        return send(res, 200, { data: { pods: found.map((p) => ({ id: p.id, podMintTx: p.podMintTx, subnetId: p.subnetId })) } });
+      }
+
+      const read = path.match(/^\/pods\/([^/]+)$/);
+      if (req.method === 'GET' && read) {
+        const pod = pods.find((p) => p.id === decodeURIComponent(read[1]));
+        if (!pod) return send(res, 404, { error: 'Pod not found' });
+        return send(res, 200, { data: { id: pod.id, podMintTx: pod.podMintTx, subnetId: pod.subnetId } });
+      }
+
+      send(res, 404, { error: `No route for ${req.method} ${path}` });
+    } catch (err) {
+      send(res, 500, { error: (err as Error).message });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/api/v1`,
+    pods,
+    close: () => new Promise((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,64 @@
+import { createLogger } from '../lib/logger.js';
+import { createSimulation, fixtureTweetUrl, jobMemos, PHASE, type SimJob } from './index.js';
+
+const log = createLogger('simulate');
+
+const NEW_POST = fixtureTweetUrl('1900000000000000001');
+const BATCH_POST = fixtureTweetUrl('1900000000000000002');
+const MISSING_POST = fixtureTweetUrl('1900000000000000999');
+
+function lastMemo(job: SimJob): Record<string, unknown> {
+  return jobMemos(job).at(-1) ?? {};
+}
+
+function check(failures: string[], scenario: string, ok: boolean, detail: string): void {
+  if (ok) {
+    log.info({ scenario }, `ok: ${detail}`);
+  } else {
+    log.error({ scenario }, `FAILED: ${detail}`);
+    failures.push(`${scenario}: ${detail}`);
+  }
+}
+
+/**
+ * Offline end-to-end run: publish, duplicate, add-to-existing-pod and batch jobs
+ * through the real handlers, against the simulation doubles. Exits 1 on any failed check.
+ */
+async function main(): Promise<void> {
+  const sim = await createSimulation();
+  const failures: string[] = [];
+
+  try {
+    const publish = await sim.acp.runJob({ postUrl: NEW_POST, subnet: 'crypto, ai' });
+    const delivered = jobMemos(publish).find((m) => m.txHash);
+    check(failures, 'publish', publish.phase === PHASE.COMPLETED, `job ${publish.id} completed (phase ${publish.phase})`);
+    check(failures, 'publish', sim.chain.pods.size === 1, `${sim.chain.pods.size} pod minted on chain`);
+    check(failures, 'publish', Object.keys((delivered?.reppoUrls as object) ?? {}).length === 2, 'pod linked on both subnets');
+
+    const duplicate = await sim.acp.runJob({ postUrl: NEW_POST, subnet: 'crypto' });
+    const error = (lastMemo(duplicate).error ?? {}) as { code?: string };
+    check(failures, 'duplicate', duplicate.phase === PHASE.REJECTED && error.code === 'DUPLICATE_POST', `rejected with ${error.code}`);
+
+    const addToExisting = await sim.acp.runJob({ postUrl: NEW_POST, subnet: 'culture', addToExistingPod: true });
+    check(failures, 'add-to-existing-pod', addToExisting.phase === PHASE.COMPLETED, `job ${addToExisting.id} completed (phase ${addToExisting.phase})`);
+    check(failures, 'add-to-existing-pod', sim.chain.pods.size === 1, 'no new pod minted');
+
+    const batch = await sim.acp.runJob({ postUrls: [BATCH_POST, MISSING_POST], subnet: 'ai' });
+    const batchDeliverable = jobMemos(batch).find((m) => m.minted !== undefined) as { minted?: number; failed?: number } | undefined;
+    check(failures, 'batch', batch.phase === PHASE.COMPLETED, `job ${batch.id} completed (phase ${batch.phase})`);
+    check(failures, 'batch', batchDeliverable?.minted === 1 && batchDeliverable.failed === 1, 'one post minted, the missing one failed');
+
+    log.info({ jobs: sim.acp.jobs.size, pods: sim.chain.pods.size, reppoPods: sim.reppo.pods.length }, 'Simulation finished');
+  } finally {
+    await sim.close();
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`${failures.length} check(s) failed:\n${failures.join('\n')}`);
+  }
+}
+
+main().catch((err) => {
+  log.fatal({ error: err instanceof Error ? err.message : err }, 'Simulation failed');
+  process.exit(1);
+});
@@ -0,0 +1,18 @@
+import { fetchOpenGraphContent } from './opengraph.js';
+import type { ContentSource } from '../types.js';
+
+/** Mirror entries: mirror.xyz/<author>/<digest> or <author>.mirror.xyz/<digest> */
+export const mirrorSource: ContentSource = {
+  platform: 'mirror',
+  patterns: [/^https?:\/\/(?:[\w-]+\.)?mirror\.xyz\/(?:[^/?#]+\/)?([\w-]{20,})/i],
+  contentId: (match) => `mirror:${match[1]}`,
+  fetch: (url) => fetchOpenGraphContent(url, { platform: 'mirror', category: 'article' }),
+};
+
+/** Paragraph posts: paragraph.com/@<author>/<slug> (also the older paragraph.xyz) */
+export const paragraphSource: ContentSource = {
+  platform: 'paragraph',
+  patterns: [/^https?:\/\/(?:www\.)?paragraph\.(?:xyz|com)\/@([\w.-]+)\/([^/?#]+)/i],
+  contentId: (match) => `paragraph:${match[1].toLowerCase()}/${match[2]}`,
+  fetch: (url) => fetchOpenGraphContent(url, { platform: 'paragraph', category: 'article' }),
+};
@@ -0,0 +1,98 @@
+import { fetchJSON, withRetry, isRetryableError } from '../lib/http.js';
+import { createLogger } from '../lib/logger.js';
+import { fetchOpenGraphContent } from './opengraph.js';
+import type { ContentMedia, ContentSource, SourceContent } from '../types.js';
+
+const log = createLogger('farcaster');
+
+const NEYNAR_API_URL = 'https://api.neynar.com/v2/farcaster';
+
+let _apiKey: string | undefined;
+
+export function initFarcasterSource(neynarApiKey?: string): void {
+  _apiKey = neynarApiKey;
+}
+
+interface NeynarEmbed {
+  url?: string;
+  metadata?: { content_type?: string; image?: { width_px?: number; height_px?: number } };
+}
+
+interface NeynarCast {
+  hash: string;
+  text: string;
+  timestamp?: string;
+  author: {
+    fid: number;
+    username: string;
+    display_name?: string;
+    pfp_url?: string;
+    follower_count?: number;
+    power_badge?: boolean;
+  };
+  embeds?: NeynarEmbed[];
+  reactions?: { likes_count?: number; recasts_count?: number };
+  replies?: { count?: number };
+}
+
+function toMedia(embed: NeynarEmbed): ContentMedia | null {
+  const type = embed.metadata?.content_type ?? '';
+  if (!embed.url || !(type.startsWith('image/') || type.startsWith('video/'))) return null;
+  return {
+    type: type.startsWith('video/') ? 'video' : 'photo',
+    url: embed.url,
+    width: embed.metadata?.image?.width_px,
+    height: embed.metadata?.image?.height_px,
+  };
+}
+
+export function parseNeynarCast(cast: NeynarCast, url: string): SourceContent {
+  const media = (cast.embeds ?? []).map(toMedia).filter((m): m is ContentMedia => m !== null);
+  return {
+    platform: 'farcaster',
+    category: 'social',
+    url,
+    text: cast.text,
+    imageUrl: media.find((m) => m.type === 'photo')?.url,
+    author: {
+      id: String(cast.author.fid),
+      username: cast.author.username,
+      name: cast.author.display_name,
+      url: `https://farcaster.xyz/${cast.author.username}`,
+      avatarUrl: cast.author.pfp_url,
+      followers: cast.author.follower_count,
+      verified: cast.author.power_badge,
+    },
+    createdAt: cast.timestamp,
+    media,
+    metrics: {
+      likes: cast.reactions?.likes_count,
+      reposts: cast.reactions?.recasts_count,
+      replies: cast.replies?.count,
+    },
+  };
+}
+
+/** Casts via Neynar; without an API key, falls back to the page's OpenGraph tags */
+export const farcasterSource: ContentSource = {
+  platform: 'farcaster',
+  patterns: [/^https?:\/\/(?:www\.)?(?:warpcast\.com|farcaster\.xyz)\/[\w.-]+\/(0x[0-9a-f]{6,40})\b/i],
+  contentId: (match) => `farcaster:${match[1].toLowerCase()}`,
+  fetch: async (url) => {
+    if (!_apiKey) {
+      log.debug({ url }, 'No Neynar API key, using OpenGraph');
+      return fetchOpenGraphContent(url, { platform: 'farcaster', category: 'social' });
+    }
+    const apiKey = _apiKey;
+    const res = await withRetry(
+      () => fetchJSON<{ cast: NeynarCast }>(
+        `${NEYNAR_API_URL}/cast?identifier=${encodeURIComponent(url)}&type=url`,
+        { headers: { 'x-api-key': apiKey } },
+      ),
+      'fetchCast',
+      { shouldRetry: isRetryableError },
+    );
+    if (!res?.cast) throw new Error(`Cast not found: ${url}`);
+    return parseNeynarCast(res.cast, url);
+  },
+};
@@ -0,0 +1,91 @@
+import { fetchJSON, withRetry, isRetryableError } from '../lib/http.js';
+import type { ContentAuthor, ContentSource, SourceContent } from '../types.js';
+
+const GITHUB_API_URL = 'https://api.github.com';
+
+const RELEASE_URL_REGEX = /^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+)\/releases\/tag\/([^/?#]+)/i;
+const REPO_URL_REGEX = /^https?:\/\/(?:www\.)?github\.com\/([\w.-]+)\/([\w.-]+?)(?:\.git)?\/?(?:[?#].*)?$/i;
+
+let _token: string | undefined;
+
+export function initGithubSource(token?: string): void {
+  _token = token;
+}
+
+interface GithubUser {
+  id: number;
+  login: string;
+  avatar_url?: string;
+  html_url?: string;
+}
+
+interface GithubRepo {
+  full_name: string;
+  description: string | null;
+  html_url: string;
+  created_at?: string;
+  stargazers_count?: number;
+  forks_count?: number;
+  owner: GithubUser;
+}
+
+interface GithubRelease {
+  name: string | null;
+  tag_name: string;
+  body: string | null;
+  html_url: string;
+  published_at?: string | null;
+  author?: GithubUser;
+}
+
+function request<T>(path: string): Promise<T> {
+  return withRetry(
+    () => fetchJSON<T>(`${GITHUB_API_URL}${path}`, {
+      headers: {
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'reppodant',
+        ...(_token && { Authorization: `Bearer ${_token}` }),
+      },
+    }),
+    'fetchGithub',
+    { shouldRetry: isRetryableError },
+  );
+}
+
+function toAuthor(user: GithubUser): ContentAuthor {
+  return { id: String(user.id), username: user.login, url: user.html_url, avatarUrl: user.avatar_url };
+}
+
+export function parseGithubRepo(repo: GithubRepo, url: string, release?: GithubRelease): SourceContent {
+  const [owner, name] = repo.full_name.split('/');
+  return {
+    platform: 'github',
+    category: 'code',
+    url,
+    title: release ? `${repo.full_name} ${release.name || release.tag_name}` : repo.full_name,
+    text: release?.body?.trim() || repo.description || repo.full_name,
+    // GitHub's generated social card (repo name, description, stars)
+    imageUrl: `https://opengraph.githubassets.com/1/${owner}/${name}`,
+    author: toAuthor(release?.author ?? repo.owner),
+    createdAt: release?.published_at ?? repo.created_at,
+    media: [],
+    metrics: { stars: repo.stargazers_count, forks: repo.forks_count },
+  };
+}
+
+/** Repositories and releases via the REST API (GITHUB_TOKEN lifts the anonymous rate limit) */
+export const githubSource: ContentSource = {
+  platform: 'github',
+  patterns: [RELEASE_URL_REGEX, REPO_URL_REGEX],
+  contentId: (match) => `github:${match[1]}/${match[2]}`.toLowerCase() + (match[3] ? `@${match[3]}` : ''),
+  fetch: async (url) => {
+    const match = url.match(RELEASE_URL_REGEX) ?? url.match(REPO_URL_REGEX)!;
+    const [, owner, repo, tag] = match;
+    const repoPath = `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+    const [repoData, release] = await Promise.all([
+      request<GithubRepo>(repoPath),
+      tag ? request<GithubRelease>(`${repoPath}/releases/tags/${encodeURIComponent(decodeURIComponent(tag))}`) : undefined,
+    ]);
+    return parseGithubRepo(repoData, url, release);
+  },
+};
@@ -0,0 +1,59 @@
+import { xSource } from './x.js';
+import { farcasterSource, initFarcasterSource } from './farcaster.js';
+import { youtubeSource } from './youtube.js';
+import { githubSource, initGithubSource } from './github.js';
+import { mirrorSource, paragraphSource } from './articles.js';
+import { openGraphSource } from './opengraph.js';
+import type { ContentSource, SourceContent } from '../types.js';
+
+/** Tried in order; the generic OpenGraph source catches any other http(s) URL */
+const SOURCES: ContentSource[] = [
+  xSource,
+  farcasterSource,
+  youtubeSource,
+  githubSource,
+  mirrorSource,
+  paragraphSource,
+  openGraphSource,
+];
+
+export interface ResolvedContentSource {
+  source: ContentSource;
+  /** Dedup key for the content */
+  contentId: string;
+}
+
+export function initContentSources(options: { neynarApiKey?: string; githubToken?: string }): void {
+  initFarcasterSource(options.neynarApiKey);
+  initGithubSource(options.githubToken);
+}
+
+/**
+ * Find the source that handles a URL, or null if no source supports it
+ */
+export function resolveContentSource(url: string): ResolvedContentSource | null {
+  const trimmed = url.trim();
+  for (const source of SOURCES) {
+    for (const pattern of source.patterns) {
+      const match = trimmed.match(pattern);
+      if (!match) continue;
+      try {
+        return { source, contentId: source.contentId(match) };
+      } catch {
+        return null; // matched the catch-all but isn't a parseable URL
+      }
+    }
+  }
+  return null;
+}
+
+export async function fetchContent(url: string): Promise<SourceContent> {
+  const resolved = resolveContentSource(url);
+  if (!resolved) throw new Error(`Unsupported post URL: ${url}`);
+  return resolved.source.fetch(url.trim());
+}
+
+/** Human-readable label for reject messages */
+export function describeContent(resolved: ResolvedContentSource): string {
+  return resolved.source.platform === 'x' ? `Tweet ${resolved.contentId}` : `Post ${resolved.contentId}`;
+}
@@ -0,0 +1,214 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { withRetry, isRetryableError } from '../lib/http.js';
+import { createLogger } from '../lib/logger.js';
+import type { ContentSource, SourceContent } from '../types.js';
+
+const log = createLogger('opengraph');
+
+const MAX_PAGE_BYTES = 1024 * 1024;
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+export interface OpenGraphData {
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+  author?: string;
+  publishedTime?: string;
+  url?: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Pull OpenGraph / Twitter card / standard meta tags out of an HTML document.
+ * OpenGraph wins over the twitter:* and plain fallbacks.
+ */
+export function parseOpenGraph(html: string): OpenGraphData {
+  const meta: Record<string, string> = {};
+  for (const m of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attrs = parseAttributes(m[0]);
+    const key = (attrs.property ?? attrs.name)?.toLowerCase();
+    const content = attrs.content?.trim();
+    if (key && content && !(key in meta)) meta[key] = content;
+  }
+  const titleTag = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+  const pick = (...keys: string[]) => keys.map((k) => meta[k]).find(Boolean);
+
+  return {
+    title: pick('og:title', 'twitter:title') ?? (titleTag ? decodeEntities(titleTag).trim() || undefined : undefined),
+    description: pick('og:description', 'twitter:description', 'description'),
+    image: pick('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src'),
+    siteName: pick('og:site_name'),
+    author: pick('article:author', 'author', 'twitter:creator'),
+    publishedTime: pick('article:published_time', 'og:published_time'),
+    url: pick('og:url'),
+  };
+}
+
+function isPrivateAddress(host: string): boolean {
+  const version = isIP(host);
+  if (version === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 10 || a === 127 || a === 0 || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+  }
+  if (version === 6) {
+    const h = host.toLowerCase();
+    return h === '::1' || h === '::' || h.startsWith('fc') || h.startsWith('fd') || h.startsWith('fe80') || h.startsWith('::ffff:');
+  }
+  return false;
+}
+
+/**
+ * Only fetch public http(s) pages: buyers choose the URL, so don't let it reach
+ * localhost, link-local metadata endpoints or private ranges.
+ */
+export function assertPublicUrl(raw: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`Invalid URL: ${raw}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported URL scheme: ${url.protocol}`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || isPrivateAddress(host)) {
+    throw new Error(`Refusing to fetch non-public host: ${host}`);
+  }
+  return url;
+}
+
+/**
+ * Resolve the host and refuse it if any of its addresses is private, so a public
+ * name pointing at an internal address is caught too. Run on every hop.
+ */
+async function assertPublicAddress(url: URL): Promise<void> {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return;
+  const addresses = await lookup(host, { all: true });
+  const internal = addresses.find((a) => isPrivateAddress(a.address));
+  if (internal) {
+    throw new Error(`Refusing to fetch non-public host: ${host} resolves to ${internal.address}`);
+  }
+}
+
+async function readLimited(res: Response): Promise<string> {
+  if (!res.body) return '';
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    chunks.push(value);
+    // The head (where the meta tags live) is well within the cap; stop reading the rest
+    if (size >= MAX_PAGE_BYTES) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * GET an HTML page, re-checking every redirect hop (name and resolved addresses)
+ * against the public-host rule
+ */
+export async function fetchPage(raw: string): Promise<{ url: string; html: string }> {
+  let url = assertPublicUrl(raw);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicAddress(url);
+    const res = await fetch(url, {
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: 'text/html,application/xhtml+xml', 'User-Agent': 'reppodant/1.0 (+https://reppo.ai)' },
+    });
+    const location = res.headers.get('location');
+    if (res.status >= 300 && res.status < 400 && location) {
+      url = assertPublicUrl(new URL(location, url).toString());
+      continue;
+    }
+    if (!res.ok) throw new Error(`HTTP ${res.status}: ${url}`);
+    const type = res.headers.get('content-type') ?? '';
+    if (type && !type.includes('html')) throw new Error(`Not an HTML page (${type}): ${url}`);
+    return { url: url.toString(), html: await readLimited(res) };
+  }
+  throw new Error(`Too many redirects: ${raw}`);
+}
+
+export async function fetchOpenGraph(url: string): Promise<OpenGraphData & { finalUrl: string }> {
+  const page = await withRetry(() => fetchPage(url), 'fetchOpenGraph', { shouldRetry: isRetryableError });
+  return { ...parseOpenGraph(page.html), finalUrl: page.url };
+}
+
+/**
+ * Canonical form for dedup: lowercase host, no fragment, trailing slash or utm_* params
+ */
+export function normalizeUrl(raw: string): string {
+  const url = new URL(raw);
+  url.hash = '';
+  for (const key of [...url.searchParams.keys()]) {
+    if (key.toLowerCase().startsWith('utm_')) url.searchParams.delete(key);
+  }
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${url.protocol}//${url.host.toLowerCase()}${path}${url.search}`;
+}
+
+/**
+ * Build SourceContent from a page's meta tags (used directly, and as the fallback
+ * for platforms whose API isn't configured)
+ */
+export async function fetchOpenGraphContent(
+  url: string,
+  base: Pick<SourceContent, 'platform' | 'category'>,
+): Promise<SourceContent> {
+  const og = await fetchOpenGraph(url);
+  const title = og.title ?? og.siteName;
+  if (!title && !og.description) {
+    throw new Error(`No title or description found at ${url}`);
+  }
+  const image = og.image ? new URL(og.image, og.finalUrl).toString() : undefined;
+  log.info({ url, platform: base.platform, hasImage: Boolean(image) }, 'Page metadata fetched');
+  return {
+    ...base,
+    url,
+    title,
+    text: og.description ?? title!,
+    imageUrl: image,
+    author: og.author ? { name: og.author } : undefined,
+    createdAt: og.publishedTime,
+    media: image ? [{ type: 'photo', url: image }] : [],
+  };
+}
+
+/** Catch-all for any public web page */
+export const openGraphSource: ContentSource = {
+  platform: 'web',
+  patterns: [/^https?:\/\/\S+$/i],
+  contentId: (match) => `web:${normalizeUrl(match[0])}`,
+  fetch: (url) => fetchOpenGraphContent(url, { platform: 'web', category: 'article' }),
+};
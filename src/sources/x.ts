@@ -0,0 +1,26 @@
+import { fetchTweet } from '../twitter.js';
+import { TWITTER_URL_REGEX } from '../constants.js';
+import type { ContentSource } from '../types.js';
+
+/** X/Twitter posts via the v2 API. The dedup key is the bare tweet ID, as before other sources existed */
+export const xSource: ContentSource = {
+  platform: 'x',
+  patterns: [TWITTER_URL_REGEX],
+  contentId: (match) => match[1],
+  fetch: async (url) => {
+    const tweet = await fetchTweet(url.match(TWITTER_URL_REGEX)![1]);
+    return {
+      platform: 'x',
+      category: 'social',
+      url,
+      text: tweet.text,
+      imageUrl: tweet.mediaUrls[0],
+      author: tweet.author,
+      createdAt: tweet.createdAt,
+      media: tweet.media,
+      metrics: tweet.metrics,
+      quotedPost: tweet.quotedTweet,
+      threadRoot: tweet.conversationRoot,
+    };
+  },
+};
@@ -0,0 +1,59 @@
+import { fetchJSON, withRetry, isRetryableError } from '../lib/http.js';
+import { createLogger } from '../lib/logger.js';
+import { fetchOpenGraph } from './opengraph.js';
+import type { ContentSource } from '../types.js';
+
+const log = createLogger('youtube');
+
+interface OEmbedResponse {
+  title: string;
+  author_name?: string;
+  author_url?: string;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+}
+
+/** Videos via oEmbed (no API key needed); the description comes from the watch page */
+export const youtubeSource: ContentSource = {
+  platform: 'youtube',
+  patterns: [
+    /^https?:\/\/(?:www\.|m\.)?youtube\.com\/watch\?(?:[^#]*&)?v=([\w-]{11})/i,
+    /^https?:\/\/(?:www\.|m\.)?youtube\.com\/(?:shorts|live|embed)\/([\w-]{11})/i,
+    /^https?:\/\/youtu\.be\/([\w-]{11})/i,
+  ],
+  contentId: (match) => `youtube:${match[1]}`,
+  fetch: async (url) => {
+    const videoId = youtubeSource.patterns.map((p) => url.match(p)).find(Boolean)![1];
+    const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+    const oembed = await withRetry(
+      () => fetchJSON<OEmbedResponse>(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(watchUrl)}`),
+      'fetchYoutubeOEmbed',
+      { shouldRetry: isRetryableError },
+    );
+
+    let description: string | undefined;
+    try {
+      description = (await fetchOpenGraph(watchUrl)).description;
+    } catch (err) {
+      log.warn({ videoId, error: (err as Error).message }, 'Failed to fetch video description');
+    }
+
+    const thumbnail = oembed.thumbnail_url;
+    const handle = oembed.author_url?.match(/\/@([^/?#]+)/)?.[1];
+    return {
+      platform: 'youtube',
+      category: 'video',
+      url,
+      title: oembed.title,
+      text: description || oembed.title,
+      imageUrl: thumbnail,
+      author: oembed.author_name || oembed.author_url
+        ? { username: handle, name: oembed.author_name, url: oembed.author_url }
+        : undefined,
+      media: thumbnail
+        ? [{ type: 'video', url: thumbnail, width: oembed.thumbnail_width, height: oembed.thumbnail_height }]
+        : [],
+    };
+  },
+};
@@ -0,0 +1,233 @@
+import {
+  formatUnits,
+  encodeFunctionData,
+  type Address,
+  type Hash,
+} from 'viem';
+import {
+  QUOTER_ABI,
+  SWAP_ROUTER_ABI,
+  ERC20_ABI,
+  POOL_FEE_TIERS,
+  SWAP_SLIPPAGE_BPS,
+  SWAP_DEADLINE_SECONDS,
+  TX_RECEIPT_TIMEOUT,
+} from './constants.js';
+import { withRetry, isRetryableError } from './lib/http.js';
+import { createLogger } from './lib/logger.js';
+import type { Clients, SwapQuote, SwapResult } from './types.js';
+
+const log = createLogger('swap');
+
+const USDC_DECIMALS = 6;
+
+export async function getUsdcBalance(clients: Clients, address: Address): Promise<bigint> {
+  return withRetry(
+    async () =>
+      (await clients.publicClient.readContract({
+        address: clients.network.usdcToken,
+        abi: ERC20_ABI,
+        functionName: 'balanceOf',
+        args: [address],
+      })) as bigint,
+    'getUsdcBalance',
+    { shouldRetry: isRetryableError },
+  );
+}
+
+async function getUsdcAllowance(clients: Clients, owner: Address): Promise<bigint> {
+  return withRetry(
+    async () =>
+      (await clients.publicClient.readContract({
+        address: clients.network.usdcToken,
+        abi: ERC20_ABI,
+        functionName: 'allowance',
+        args: [owner, clients.network.uniswapRouter],
+      })) as bigint,
+    'getUsdcAllowance',
+    { shouldRetry: isRetryableError },
+  );
+}
+
+/**
+ * Cheapest USDC quote across the pool fee tiers for exactly `amountOut` of `tokenOut`;
+ * tiers without a pool are skipped. Undefined when no tier quotes.
+ */
+async function quoteUsdcFor(clients: Clients, tokenOut: Address, amountOut: bigint): Promise<SwapQuote | undefined> {
+  let best: SwapQuote | undefined;
+
+  for (const fee of POOL_FEE_TIERS) {
+    try {
+      const { result } = await clients.publicClient.simulateContract({
+        address: clients.network.uniswapQuoter,
+        abi: QUOTER_ABI,
+        functionName: 'quoteExactOutputSingle',
+        args: [{
+          tokenIn: clients.network.usdcToken,
+          tokenOut,
+          amount: amountOut,
+          fee,
+          sqrtPriceLimitX96: 0n,
+        }],
+      });
+      const amountIn = result[0];
+      log.debug({ tokenOut, fee, amountIn: formatUnits(amountIn, USDC_DECIMALS) }, 'Pool quote');
+      if (!best || amountIn < best.amountIn) {
+        best = { fee, amountIn, amountOut };
+      }
+    } catch (err) {
+      log.debug({ tokenOut, fee, error: (err as Error).message }, 'No quote for fee tier');
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Quote how much USDC is needed to buy exactly `amountOut` REPPO.
+ * Tries every pool fee tier and returns the cheapest one.
+ */
+export async function quoteUsdcForReppo(clients: Clients, amountOut: bigint): Promise<SwapQuote> {
+  const best = await quoteUsdcFor(clients, clients.network.reppoToken, amountOut);
+  if (!best) {
+    throw new Error(`No USDC → REPPO pool quote available for ${formatUnits(amountOut, 18)} REPPO`);
+  }
+
+  log.info({
+    fee: best.fee,
+    amountIn: formatUnits(best.amountIn, USDC_DECIMALS),
+    amountOut: formatUnits(amountOut, 18),
+  }, 'Best swap quote');
+  return best;
+}
+
+/**
+ * USDC value of `amountOut` wei of ETH (priced through the WETH pools), e.g. for gas costs
+ */
+export async function quoteUsdcForEth(clients: Clients, amountOut: bigint): Promise<SwapQuote> {
+  const best = await quoteUsdcFor(clients, clients.network.wethToken, amountOut);
+  if (!best) {
+    throw new Error(`No USDC → WETH pool quote available for ${formatUnits(amountOut, 18)} ETH`);
+  }
+  return best;
+}
+
+/**
+ * Swap USDC for exactly `amountOut` REPPO via Uniswap V3 SwapRouter02.
+ * The swap is wrapped in a deadline-bound multicall and sent through the AA
+ * session key client when wired, otherwise from the EOA.
+ */
+export async function swapUsdcForReppo(clients: Clients, amountOut: bigint): Promise<SwapResult> {
+  const { account, publicClient, walletClient, contractClient, aaWalletAddress, network } = clients;
+  const useAA = contractClient && aaWalletAddress;
+  const payerAddress = aaWalletAddress ?? account.address;
+
+  const quote = await quoteUsdcForReppo(clients, amountOut);
+  const amountInMaximum = (quote.amountIn * BigInt(10_000 + SWAP_SLIPPAGE_BPS)) / 10_000n;
+
+  const usdcBalance = await getUsdcBalance(clients, payerAddress);
+  if (usdcBalance < quote.amountIn) {
+    throw new Error(
+      `Insufficient USDC for swap. Need ${formatUnits(quote.amountIn, USDC_DECIMALS)}, ` +
+      `have ${formatUnits(usdcBalance, USDC_DECIMALS)}.`
+    );
+  }
+  // Never authorize more than we hold — the quote itself is still covered
+  const maxIn = usdcBalance < amountInMaximum ? usdcBalance : amountInMaximum;
+
+  const aaClient = useAA ? (contractClient as any).sessionKeyClient : undefined;
+
+  const allowance = await getUsdcAllowance(clients, payerAddress);
+  if (allowance < maxIn) {
+    log.info({ useAA }, 'Approving USDC spend...');
+    if (aaClient) {
+      const approveData = encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [network.uniswapRouter, maxIn],
+      });
+      await aaClient.sendTransaction({
+        to: network.usdcToken,
+        data: approveData,
+      });
+      log.info('USDC approved via AA');
+    } else {
+      const approveTx = await withRetry(
+        () => walletClient.writeContract({
+          address: network.usdcToken,
+          abi: ERC20_ABI,
+          functionName: 'approve',
+          args: [network.uniswapRouter, maxIn],
+          chain: walletClient.chain,
+          account,
+        }),
+        'approveUSDC',
+        { shouldRetry: isRetryableError },
+      );
+      const approveReceipt = await publicClient.waitForTransactionReceipt({
+        hash: approveTx,
+        timeout: TX_RECEIPT_TIMEOUT,
+      });
+      if (approveReceipt.status === 'reverted') {
+        throw new Error(`USDC approval transaction reverted: ${approveTx}`);
+      }
+      log.info({ tx: approveTx }, 'USDC approved');
+    }
+  }
+
+  const swapData = encodeFunctionData({
+    abi: SWAP_ROUTER_ABI,
+    functionName: 'exactOutputSingle',
+    args: [{
+      tokenIn: network.usdcToken,
+      tokenOut: network.reppoToken,
+      fee: quote.fee,
+      recipient: payerAddress,
+      amountOut,
+      amountInMaximum: maxIn,
+      sqrtPriceLimitX96: 0n,
+    }],
+  });
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + SWAP_DEADLINE_SECONDS);
+
+  log.info({
+    useAA,
+    fee: quote.fee,
+    amountOut: formatUnits(amountOut, 18),
+    maxIn: formatUnits(maxIn, USDC_DECIMALS),
+  }, 'Swapping USDC → REPPO...');
+
+  let swapTx: Hash;
+  if (aaClient) {
+    const multicallData = encodeFunctionData({
+      abi: SWAP_ROUTER_ABI,
+      functionName: 'multicall',
+      args: [deadline, [swapData]],
+    });
+    swapTx = await aaClient.sendTransaction({
+      to: network.uniswapRouter,
+      data: multicallData,
+    }) as Hash;
+  } else {
+    // Not retried: a resubmitted swap could execute twice
+    swapTx = await walletClient.writeContract({
+      address: network.uniswapRouter,
+      abi: SWAP_ROUTER_ABI,
+      functionName: 'multicall',
+      args: [deadline, [swapData]],
+      chain: walletClient.chain,
+      account,
+    });
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash: swapTx,
+    timeout: TX_RECEIPT_TIMEOUT,
+  });
+  if (receipt.status === 'reverted') {
+    throw new Error(`Swap transaction reverted: ${swapTx}`);
+  }
+
+  log.info({ tx: swapTx, block: receipt.blockNumber }, 'Swap complete');
+  return { txHash: swapTx, fee: quote.fee, amountOut, amountInMaximum: maxIn };
+}
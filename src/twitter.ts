@@ -1,11 +1,15 @@
-import { TwitterApi } from 'twitter-api-v2';
+import { TwitterApi, type MediaObjectV2, type TweetV2, type TweetV2SingleResult, type Tweetv2FieldsParams, type UserV2 } from 'twitter-api-v2';
 import { TWITTER_URL_REGEX } from './constants.js';
 import { withRetry } from './lib/http.js';
+import { tweetFetchDuration, tweetFetchRetries } from './lib/metrics.js';
 import { createLogger } from './lib/logger.js';
-import type { TweetData } from './types.js';
+import type { TweetData, ContentMedia, ContentAuthor, ContentReference } from './types.js';
 
 const log = createLogger('twitter');
-let _client: TwitterApi | null = null;
+/** The slice of the API client we use, so the simulation can serve tweets from fixtures */
+export type TwitterClient = Pick<TwitterApi, 'v2'>;
+
+let _client: TwitterClient | null = null;
 
 export function initTwitterClient(credentials: {
   appKey: string;
@@ -13,11 +17,16 @@ export function initTwitterClient(credentials: {
   accessToken: string;
   accessSecret: string;
 }): TwitterApi {
-  _client = new TwitterApi(credentials);
-  return _client;
+  const client = new TwitterApi(credentials);
+  _client = client;
+  return client;
+}
+
+export function setTwitterClient(client: TwitterClient): void {
+  _client = client;
 }
 
-function getClient(): TwitterApi {
+function getClient(): TwitterClient {
   if (!_client) throw new Error('Twitter client not initialized. Call initTwitterClient() first.');
   return _client;
 }
@@ -39,53 +48,169 @@ function isRetryableTwitterError(error: Error): boolean {
   return false;
 }
 
-export async function fetchTweet(tweetId: string): Promise<TweetData> {
-  log.info({ tweetId }, 'Fetching tweet...');
-  
-  const client = getClient();
-  
-  const tweet = await withRetry(
-    async () => {
-      const result = await client.v2.singleTweet(tweetId, {
-        expansions: ['author_id', 'attachments.media_keys'],
-        'tweet.fields': ['created_at', 'text', 'author_id'],
-        'user.fields': ['username'],
-        'media.fields': ['url', 'preview_image_url'],
-      });
-      return result;
+const TWEET_FIELDS: Partial<Tweetv2FieldsParams> = {
+  expansions: [
+    'author_id',
+    'attachments.media_keys',
+    'referenced_tweets.id',
+    'referenced_tweets.id.author_id',
+    'referenced_tweets.id.attachments.media_keys',
+  ],
+  'tweet.fields': ['created_at', 'text', 'author_id', 'attachments', 'conversation_id', 'public_metrics', 'note_tweet', 'referenced_tweets'],
+  'user.fields': ['username', 'name', 'profile_image_url', 'public_metrics', 'verified'],
+  'media.fields': ['url', 'preview_image_url', 'type', 'variants', 'width', 'height', 'alt_text', 'duration_ms'],
+};
+
+function toMedia(m: MediaObjectV2): ContentMedia | null {
+  const url = m.url || m.preview_image_url;
+  if (!url) return null;
+  const variants = m.variants
+    ?.filter((v) => v.url)
+    .map((v) => ({ url: v.url, contentType: v.content_type, bitRate: v.bit_rate }))
+    .sort((a, b) => (b.bitRate ?? -1) - (a.bitRate ?? -1));
+  return {
+    type: m.type,
+    url,
+    width: m.width,
+    height: m.height,
+    altText: m.alt_text,
+    durationMs: m.duration_ms,
+    ...(variants && variants.length > 0 ? { variants } : {}),
+  };
+}
+
+function toAuthor(user: UserV2 | undefined): ContentAuthor | undefined {
+  if (!user) return undefined;
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    // The API hands out the 48px "_normal" avatar; "_400x400" is the same image full size
+    avatarUrl: user.profile_image_url?.replace('_normal.', '_400x400.'),
+    followers: user.public_metrics?.followers_count,
+    verified: user.verified,
+  };
+}
+
+function tweetUrl(username: string | undefined, id: string): string {
+  return `https://x.com/${username || 'i'}/status/${id}`;
+}
+
+type TweetIncludes = TweetV2SingleResult['includes'];
+
+function mediaFor(tweet: TweetV2, includes: TweetIncludes): ContentMedia[] {
+  const keys = tweet.attachments?.media_keys ?? [];
+  return keys
+    .map((key) => includes?.media?.find((m) => m.media_key === key))
+    .map((m) => (m ? toMedia(m) : null))
+    .filter((m): m is ContentMedia => m !== null);
+}
+
+function findUser(includes: TweetIncludes, id?: string): UserV2 | undefined {
+  return includes?.users?.find((u) => u.id === id);
+}
+
+function toReference(tweet: TweetV2, includes: TweetIncludes): ContentReference {
+  const author = toAuthor(findUser(includes, tweet.author_id));
+  return {
+    id: tweet.id,
+    url: tweetUrl(author?.username, tweet.id),
+    text: tweet.note_tweet?.text ?? tweet.text,
+    author,
+    createdAt: tweet.created_at,
+    media: mediaFor(tweet, includes),
+  };
+}
+
+/**
+ * Map a singleTweet response (data + includes) into TweetData, resolving
+ * media, author, metrics, long text and the quoted/replied-to posts.
+ */
+export function parseTweetResponse(response: TweetV2SingleResult): TweetData {
+  const { data, includes } = response;
+  const author = toAuthor(findUser(includes, data.author_id) ?? includes?.users?.[0]);
+  const media = mediaFor(data, includes);
+  const metrics = data.public_metrics;
+  const quotedRef = data.referenced_tweets?.find((r) => r.type === 'quoted');
+  const quoted = quotedRef && includes?.tweets?.find((t) => t.id === quotedRef.id);
+  const root = data.conversation_id && data.conversation_id !== data.id
+    ? includes?.tweets?.find((t) => t.id === data.conversation_id)
+    : undefined;
+
+  return {
+    id: data.id,
+    text: data.note_tweet?.text ?? data.text,
+    authorId: data.author_id ?? author?.id ?? '',
+    authorUsername: author?.username ?? '',
+    createdAt: data.created_at,
+    mediaUrls: media.map((m) => m.url),
+    media,
+    author,
+    metrics: metrics && {
+      likes: metrics.like_count,
+      reposts: metrics.retweet_count,
+      replies: metrics.reply_count,
+      quotes: metrics.quote_count,
+      bookmarks: metrics.bookmark_count,
+      impressions: metrics.impression_count,
     },
+    quotedTweet: quoted ? toReference(quoted, includes) : undefined,
+    conversationId: data.conversation_id,
+    conversationRoot: root ? toReference(root, includes) : undefined,
+  };
+}
+
+async function requestTweet(tweetId: string): Promise<TweetV2SingleResult> {
+  const client = getClient();
+  return withRetry(
+    () => client.v2.singleTweet(tweetId, TWEET_FIELDS),
     'fetchTweet',
     { 
       shouldRetry: isRetryableTwitterError,
+      onRetry: () => tweetFetchRetries.inc(),
       maxRetries: 5,
       baseDelay: 2000,
     },
   );
+}
+
+export async function fetchTweet(tweetId: string): Promise<TweetData> {
+  log.info({ tweetId }, 'Fetching tweet...');
+  
+  const endTimer = tweetFetchDuration.startTimer();
+  
+  let tweet;
+  try {
+    tweet = await requestTweet(tweetId);
+  } catch (err) {
+    endTimer({ status: 'error' });
+    throw err;
+  }
+  endTimer({ status: tweet.data ? 'success' : 'not_found' });
 
   if (!tweet.data) {
     throw new Error(`Tweet ${tweetId} not found or not accessible`);
   }
 
-  const author = tweet.includes?.users?.[0];
-  const media = tweet.includes?.media ?? [];
-  const mediaUrls = media
-    .map((m) => m.url || m.preview_image_url)
-    .filter((u): u is string => !!u);
+  const result = parseTweetResponse(tweet);
 
-  const result: TweetData = {
-    id: tweet.data.id,
-    text: tweet.data.text,
-    authorId: tweet.data.author_id ?? author?.id ?? '',
-    authorUsername: author?.username ?? '',
-    createdAt: tweet.data.created_at,
-    mediaUrls,
-  };
+  // Thread root is only expanded when it's the direct parent; fetch it otherwise (best effort)
+  if (result.conversationId && result.conversationId !== result.id && !result.conversationRoot) {
+    try {
+      const root = await requestTweet(result.conversationId);
+      if (root.data) result.conversationRoot = toReference(root.data, root.includes);
+    } catch (err) {
+      log.warn({ tweetId, rootId: result.conversationId, error: (err as Error).message }, 'Failed to fetch conversation root');
+    }
+  }
 
   log.info({ 
     tweetId, 
     author: result.authorUsername, 
     textLength: result.text.length,
-    mediaCount: mediaUrls.length,
+    mediaCount: result.media.length,
+    quoted: Boolean(result.quotedTweet),
+    threaded: Boolean(result.conversationRoot),
   }, 'Tweet fetched');
 
   return result;
@@ -2,6 +2,7 @@ import type { Hash, TransactionReceipt, PublicClient, Transport, Chain } from 'v
 import type { WalletClient } from 'viem';
 import type { PrivateKeyAccount } from 'viem/accounts';
 import type { AcpContractClientV2 } from '@virtuals-protocol/acp-node';
+import type { NetworkProfile } from './lib/network.js';
 
 export interface AgentSession {
   agentId: string;
@@ -23,12 +24,63 @@ export interface RegisterPodResponse {
   data: { id: string };
 }
 
+/** A pod as read back from the Reppo API */
+export interface ReppoPodResponse {
+  data: {
+    id: string;
+    podMintTx?: string;
+    subnetId?: string;
+  };
+}
+
+export interface ReppoPodListResponse {
+  data: {
+    pods: ReppoPodResponse['data'][];
+  };
+}
+
 export interface MintResult {
   txHash: Hash;
   receipt: TransactionReceipt;
   podId?: bigint;
 }
 
+export interface SwapQuote {
+  /** Uniswap V3 pool fee tier (hundredths of a bip) */
+  fee: number;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+/**
+ * Price of a job, posted to the buyer in the requirement memo. USDC amounts are in whole
+ * USDC (like AcpJob.price); `cost` is what minting actually costs us, `amount` adds the margin.
+ */
+export interface PriceQuote {
+  amount: number;
+  cost: number;
+  currency: 'USDC';
+  posts: number;
+  subnetSubmissions: number;
+  breakdown: {
+    publishingFee: number;
+    gas: number;
+    subnets: number;
+    margin: number;
+  };
+  /** On-chain publishing fee per pod (REPPO) */
+  publishingFeeReppo: string;
+  quotedAt: string;
+  expiresAt: string;
+}
+
+export interface SwapResult {
+  txHash: Hash;
+  fee: number;
+  amountOut: bigint;
+  amountInMaximum: bigint;
+}
+
 export interface SubmitMetadataParams {
   txHash: Hash;
   title: string;
@@ -38,6 +90,14 @@ export interface SubmitMetadataParams {
   tokenId?: number;
   category?: string;
   subnetId?: string;
+  platform?: ContentPlatform;
+  /** Source post context, so the pod renders like the original */
+  media?: ContentMedia[];
+  author?: ContentAuthor;
+  metrics?: ContentMetrics;
+  postedAt?: string;
+  quotedPost?: ContentReference;
+  threadRoot?: ContentReference;
 }
 
 export interface Clients {
@@ -46,15 +106,108 @@ export interface Clients {
   walletClient: WalletClient<Transport, Chain, PrivateKeyAccount>;
   contractClient?: InstanceType<typeof AcpContractClientV2>;
   aaWalletAddress?: `0x${string}`;
+  network: NetworkProfile;
+}
+
+export interface ContentMediaVariant {
+  url: string;
+  contentType: string;
+  bitRate?: number;
+}
+
+export interface ContentMedia {
+  type: 'photo' | 'video' | 'animated_gif' | string;
+  /** Full-size image, or the poster frame for video/GIF */
+  url: string;
+  width?: number;
+  height?: number;
+  altText?: string;
+  durationMs?: number;
+  /** Playable renditions for video/GIF, highest bitrate first */
+  variants?: ContentMediaVariant[];
+}
+
+export interface ContentAuthor {
+  id?: string;
+  username?: string;
+  name?: string;
+  /** Profile page on the source platform */
+  url?: string;
+  avatarUrl?: string;
+  followers?: number;
+  verified?: boolean;
+}
+
+/** Engagement counters; each platform fills the ones it has */
+export interface ContentMetrics {
+  likes?: number;
+  /** Retweets / recasts */
+  reposts?: number;
+  replies?: number;
+  quotes?: number;
+  bookmarks?: number;
+  impressions?: number;
+  stars?: number;
+  forks?: number;
+}
+
+/** A related post (quoted tweet or thread root), without its own relations */
+export interface ContentReference {
+  id: string;
+  url: string;
+  text: string;
+  author?: ContentAuthor;
+  createdAt?: string;
+  media: ContentMedia[];
 }
 
 export interface TweetData {
   id: string;
+  /** Full text (note-tweet long text when the post exceeds 280 chars) */
   text: string;
   authorId: string;
   authorUsername: string;
   createdAt?: string;
   mediaUrls: string[];
+  media: ContentMedia[];
+  author?: ContentAuthor;
+  metrics?: ContentMetrics;
+  quotedTweet?: ContentReference;
+  conversationId?: string;
+  /** First post of the thread, when this post is a reply further down */
+  conversationRoot?: ContentReference;
+}
+
+export type ContentPlatform = 'x' | 'farcaster' | 'youtube' | 'github' | 'mirror' | 'paragraph' | 'web';
+
+/**
+ * A post, video, repo or page normalized across platforms
+ */
+export interface SourceContent {
+  platform: ContentPlatform;
+  /** Reppo pod category */
+  category: string;
+  url: string;
+  /** Native title, for platforms that have one (videos, repos, articles) */
+  title?: string;
+  /** Body text, or the page description when there is no body */
+  text: string;
+  imageUrl?: string;
+  author?: ContentAuthor;
+  createdAt?: string;
+  media: ContentMedia[];
+  metrics?: ContentMetrics;
+  quotedPost?: ContentReference;
+  threadRoot?: ContentReference;
+}
+
+export interface ContentSource {
+  platform: ContentPlatform;
+  /** URL patterns this source handles */
+  patterns: RegExp[];
+  /** Dedup key for a matched URL */
+  contentId: (match: RegExpMatchArray) => string;
+  fetch: (url: string) => Promise<SourceContent>;
 }
 
 export interface AcpJobPayload {
@@ -70,8 +223,24 @@ export interface AcpDeliverable {
   txHash: string;
   podId?: string;
   basescanUrl: string;
+  /** Reppo page of the pod on the first subnet that has one */
   reppoUrl?: string;
+  /** Subnet ID → Reppo page, for subnets whose pod was read back from the Reppo API */
+  reppoUrls?: Record<string, string>;
   failedSubnets?: string[];
+  /** Set when no new pod was minted: the post's existing pod was added to more subnets */
+  existingPod?: boolean;
+}
+
+export type AcpBatchDeliverableItem =
+  | ({ status: 'minted' } & AcpDeliverable)
+  | { status: 'failed'; postUrl: string; error: string };
+
+/** Batch jobs deliver one entry per requested post; failed posts don't block the rest */
+export interface AcpBatchDeliverable {
+  items: AcpBatchDeliverableItem[];
+  minted: number;
+  failed: number;
 }
 
 /**
@@ -90,6 +259,8 @@ export interface AcpJob {
   id?: string | number;
   phase?: number;
   memos?: AcpJobMemo[];
+  /** Offering (job type) the buyer picked */
+  name?: string;
   // Pricing
   price?: number;
   priceValue?: number;
@@ -103,8 +274,19 @@ export interface AcpJob {
   // Job lifecycle methods
   accept: (message: string) => Promise<void>;
   reject: (reason: string) => Promise<void>;
-  deliver: (deliverable: AcpDeliverable) => Promise<void>;
+  deliver: (deliverable: AcpDeliverable | AcpBatchDeliverable) => Promise<void>;
   evaluate: (approved: boolean, reason: string) => Promise<void>;
+  createNotification?: (content: string) => Promise<unknown>;
+}
+
+/**
+ * One post of a batch job. Subnets fall back to the job-level subnets.
+ */
+export interface BatchItemRequest {
+  postUrl: string;
+  subnets?: string[];
+  podName?: string;
+  podDescription?: string;
 }
 
 /**
@@ -112,11 +294,15 @@ export interface AcpJob {
  */
 export interface ParsedJobContent {
   postUrl?: string;
+  /** Batch jobs: `postUrls` entries (plain URLs or per-item objects) */
+  items?: BatchItemRequest[];
   subnets?: string[];
   agentName?: string;
   agentDescription?: string;
   podName?: string;
   podDescription?: string;
+  /** Already-minted post: add its existing pod to the requested subnets instead of rejecting */
+  addToExistingPod?: boolean;
 }
 
 /**
@@ -128,13 +314,56 @@ export interface DedupState {
   lastUpdated: string;
 }
 
+/**
+ * Pod minted for a piece of content, keyed by its dedup key (tweet ID for X posts).
+ * Lets duplicate requests be answered with the existing pod.
+ */
+export interface ContentPod {
+  contentId: string;
+  postUrl: string;
+  podId?: number;
+  mintTxHash: string;
+  /** Subnets the pod's metadata is registered on */
+  subnets: string[];
+  /** Subnet ID → Reppo pod ID */
+  reppoPods?: Record<string, string>;
+  /** Subnet ID → Reppo page */
+  reppoUrls?: Record<string, string>;
+  /** Job that minted the pod */
+  jobId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * Pending job write-ahead log
  */
-export type PendingJobStatus = 'accepted' | 'minted' | 'completed';
+export type PendingJobStatus = 'accepted' | 'minted' | 'delivered' | 'completed' | 'dead_letter';
+
+/** `invalid`: refused at validation, never minted; listed as failed in the deliverable */
+export type BatchItemStatus = 'pending' | 'minted' | 'failed' | 'invalid';
+
+export interface PendingBatchItem {
+  postUrl: string;
+  /** Dedup key, as PendingJob.tweetId */
+  contentId: string;
+  subnets: string[];
+  podName?: string;
+  podDescription?: string;
+  status: BatchItemStatus;
+  mintTxHash?: string;
+  podId?: number;
+  completedSubnets?: string[];
+  /** Subnet ID → Reppo pod ID returned by the metadata submission */
+  reppoPods?: Record<string, string>;
+  /** Links for the pods that read back from Reppo, for the deliverable */
+  reppoUrls?: Record<string, string>;
+  error?: string;
+}
 
 export interface PendingJob {
   jobId: string;
+  /** Dedup key of the source content (bare tweet ID for X posts) */
   tweetId: string;
   postUrl: string;
   subnets: string[];
@@ -143,12 +372,144 @@ export interface PendingJob {
   agentDescription?: string;
   podName?: string;
   podDescription?: string;
+  /** ACP offering (job name), for the pod's payout split */
+  offering?: string;
   status: PendingJobStatus;
   mintTxHash?: string;
   podId?: number;
   completedSubnets?: string[];
+  /** Subnet ID → Reppo pod ID returned by the metadata submission */
+  reppoPods?: Record<string, string>;
   createdAt: string;
   updatedAt: string;
   retryCount: number;
   lastError?: string;
+  /**
+   * Adds the post's existing pod (mintTxHash/podId, copied from the content-pod index)
+   * to `subnets` instead of minting; no pod record is written for the buyer.
+   */
+  existingPod?: boolean;
+  /** Quote sent with the requirement; re-quoted at payment time once expired */
+  quote?: PriceQuote;
+  /** Set when the retry ceiling was hit and the job was given up on */
+  deadLetteredAt?: string;
+  /**
+   * Batch jobs only: per-post progress. `tweetId` is then `batch:<jobId>`,
+   * `postUrl` the first post and `subnets` the union of all items' subnets.
+   */
+  items?: PendingBatchItem[];
+}
+
+/**
+ * Emissions claim run ledger. Amounts are REPPO in wei, as decimal strings.
+ */
+export type EmissionRunStatus = 'running' | 'completed' | 'partial' | 'failed' | 'interrupted';
+
+export type EmissionRunTrigger = 'scheduled' | 'admin' | 'cli';
+
+/**
+ * - `claiming`: claims in flight (a run that died here needs a look on-chain)
+ * - `claimed`: REPPO received, transfer to the buyer outstanding
+ * - `transfer_failed`: a payout leg failed; the next run retries the unpaid legs
+ * - `carried_over`: a later run (`carriedTo`) took over the outstanding transfer
+ * - `held`: paid except the buyer's share, held on the pod below the minimum payout
+ */
+export type EmissionPodStatus = 'claiming' | 'claimed' | 'transferred' | 'transfer_failed' | 'carried_over' | 'held' | 'empty';
+
+/**
+ * Where a claim's amount came from: the REPPO Transfer logs in its receipt, or
+ * `getPodEmissionsOfEpoch` when the receipt had none
+ */
+export type EmissionSource = 'transfer-log' | 'contract';
+
+export interface EmissionClaim {
+  epoch: number;
+  /** Pod emissions for the epoch as read before claiming */
+  emissions: string;
+  txHash?: string;
+  /** REPPO the claim brought into the AA wallet */
+  received?: string;
+  source?: EmissionSource;
+  error?: string;
+}
+
+export type PayoutRecipient = 'buyer' | 'treasury' | 'referrer';
+
+/** How a pod's claimed emissions are divided, in basis points adding up to 10000 */
+export interface PayoutSplit {
+  buyerBps: number;
+  treasuryBps: number;
+  referrerBps: number;
+  treasuryWallet?: string;
+  referrerWallet?: string;
+}
+
+/**
+ * One transfer of a pod's claimed REPPO to one recipient. A `held` buyer leg was
+ * below the minimum payout and moved to the pod's `pendingPayouts`.
+ */
+export interface PayoutLeg {
+  recipient: PayoutRecipient;
+  wallet: string;
+  amount: string;
+  status: 'pending' | 'transferred' | 'failed' | 'held';
+  txHash?: string;
+  error?: string;
+  /** Batched transfer whose outcome wasn't known; looked up before the leg is paid again */
+  userOpHash?: string;
+}
+
+export interface EmissionPodEntry {
+  podId: number;
+  buyerWallet: string;
+  claims: EmissionClaim[];
+  /** Highest epoch claimed (or found already claimed) for the pod */
+  lastClaimedEpoch: number;
+  /** REPPO the claims brought into the AA wallet (sum of the claims' `received`) */
+  received: string;
+  status: EmissionPodStatus;
+  /** `received` split per the pod's payout split; a resumed entry carries only the unpaid legs */
+  legs: PayoutLeg[];
+  /** Run whose outstanding transfer this entry settles */
+  resumedFrom?: string;
+  carriedTo?: string;
+  /** Pays out the balance held on the pod (`pendingPayouts`) rather than new claims */
+  releasesPending?: boolean;
+}
+
+export interface EmissionRun {
+  runId: string;
+  trigger: EmissionRunTrigger;
+  status: EmissionRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  currentEpoch?: number;
+  maxClaimableEpoch?: number;
+  pods: EmissionPodEntry[];
+  totals?: {
+    claimed: string;
+    transferred: string;
+    outstanding: string;
+    failedClaims: number;
+    failedTransfers: number;
+    /** REPPO transferred this run, per recipient */
+    payouts: Record<PayoutRecipient, string>;
+    /** Buyer shares held on pods below the minimum payout */
+    held: string;
+  };
+  reconciliation?: EmissionReconciliation;
+  error?: string;
+}
+
+/**
+ * AA wallet balance over a run against what the ledger accounts for (claimed in,
+ * transferred out). A mismatch means REPPO moved that the ledger can't explain:
+ * a mint fee or swap during the run, or a claim whose outcome wasn't recorded.
+ */
+export interface EmissionReconciliation {
+  balanceBefore: string;
+  balanceAfter: string;
+  expectedDelta: string;
+  actualDelta: string;
+  matched: boolean;
 }